@@ -13,6 +13,7 @@ import {
   SearchResponse,
   SearchResultItem,
 } from './api.js';
+import { NabSearchPlanner, SearchStrategy } from './planner.js';
 import { createQueryLimit, useAllTitles } from '../../utils/general.js';
 
 export const NabAddonConfigSchema = BaseDebridConfigSchema.extend({
@@ -30,6 +31,15 @@ interface SearchResultMetadata {
   capabilities: Capabilities;
 }
 
+// the results of each strategy, logged so the planner can be tuned
+interface StrategyYield {
+  strategy: SearchStrategy;
+  searches: number;
+  results: number;
+  newResults: number;
+  time: string;
+}
+
 export abstract class BaseNabAddon<
   C extends NabAddonConfig,
   A extends BaseNabApi<'torznab' | 'newznab'>,
@@ -43,12 +53,9 @@ export abstract class BaseNabAddon<
     results: SearchResultItem<A['namespace']>[];
     meta: SearchResultMetadata;
   }> {
-    const forceIncludeSeasonEpInParams = ['StremThru'];
     const start = Date.now();
-    const queryParams: Record<string, string> = {};
     const queryLimit = createQueryLimit();
     let capabilities: Capabilities;
-    let searchType: SearchResultMetadata['searchType'] = 'id';
     try {
       capabilities = await this.api.getCapabilities();
     } catch (error) {
@@ -59,112 +66,67 @@ export abstract class BaseNabAddon<
 
     this.logger.debug(`Capabilities: ${JSON.stringify(capabilities)}`);
 
-    const chosenFunction = this.getSearchFunction(
-      parsedId.mediaType,
-      capabilities.searching
-    );
-    if (!chosenFunction)
+    const plan = new NabSearchPlanner(capabilities, {
+      forceQuerySearch: this.userData.forceQuerySearch,
+      fallbackQuerySearch: Env.BUILTIN_NAB_FALLBACK_QUERY_SEARCH,
+      limit:
+        this.userData.forceInitialLimit?.toString() ??
+        capabilities.limits?.max?.toString() ??
+        '10000',
+      buildQueries: (options) =>
+        this.buildQueries(parsedId, metadata, {
+          ...options,
+          useAllTitles: useAllTitles(this.userData.url),
+        }),
+    }).plan(parsedId, metadata);
+    if (!plan)
       throw new Error(
         `Could not find a search function for ${capabilities.server.title}`
       );
 
-    const { capabilities: searchCapabilities, function: searchFunction } =
-      chosenFunction;
-    this.logger.debug(`Using search function: ${searchFunction}`, {
-      searchCapabilities,
+    this.logger.debug(`Using search function: ${plan.searchFunction}`, {
+      steps: plan.steps.map(({ strategy, searches }) => ({
+        strategy,
+        searches: searches.map((search) => search.params),
+      })),
     });
 
-    queryParams.limit =
-      this.userData.forceInitialLimit?.toString() ??
-      capabilities.limits?.max?.toString() ??
-      '10000';
-
-    if (this.userData.forceQuerySearch) {
-    } else if (
-      // prefer tvdb ID over imdb ID for series
-      parsedId.mediaType === 'series' &&
-      searchCapabilities.supportedParams.includes('tvdbid') &&
-      metadata.tvdbId
-    ) {
-      queryParams.tvdbid = metadata.tvdbId.toString();
-    } else if (
-      searchCapabilities.supportedParams.includes('imdbid') &&
-      metadata.imdbId
-    )
-      queryParams.imdbid = metadata.imdbId.replace('tt', '');
-    else if (
-      searchCapabilities.supportedParams.includes('tmdbid') &&
-      metadata.tmdbId
-    )
-      queryParams.tmdbid = metadata.tmdbId.toString();
-    else if (
-      searchCapabilities.supportedParams.includes('tvdbid') &&
-      metadata.tvdbId
-    )
-      queryParams.tvdbid = metadata.tvdbId.toString();
-
-    if (
-      ((!this.userData.forceQuerySearch &&
-        searchCapabilities.supportedParams.includes('season')) ||
-        forceIncludeSeasonEpInParams.includes(
-          capabilities.server.title || ''
-        )) &&
-      parsedId.season
-    )
-      queryParams.season = parsedId.season.toString();
-    if (
-      ((!this.userData.forceQuerySearch &&
-        searchCapabilities.supportedParams.includes('ep')) ||
-        forceIncludeSeasonEpInParams.includes(
-          capabilities.server.title || ''
-        )) &&
-      parsedId.episode
-    )
-      queryParams.ep = parsedId.episode.toString();
-    if (
-      !this.userData.forceQuerySearch &&
-      searchCapabilities.supportedParams.includes('year') &&
-      metadata.year &&
-      parsedId.mediaType === 'movie'
-    )
-      queryParams.year = metadata.year.toString();
-
-    let queries: string[] = [];
-    if (
-      !queryParams.imdbid &&
-      !queryParams.tmdbid &&
-      !queryParams.tvdbid &&
-      searchCapabilities.supportedParams.includes('q') &&
-      metadata.primaryTitle
-    ) {
-      queries = this.buildQueries(parsedId, metadata, {
-        // add year if it is not already in the query params
-        addYear: !queryParams.year,
-        // add season and episode if they are not already in the query params
-        // some endpoints won't return results with season/ep in query
-        addSeasonEpisode: forceIncludeSeasonEpInParams.includes(
-          capabilities.server.title || ''
-        )
-          ? false
-          : !queryParams.season && !queryParams.ep,
-        useAllTitles: useAllTitles(this.userData.url),
-      });
-      searchType = 'query';
-    }
-    queryParams.extended = '1';
-    let results: SearchResultItem<A['namespace']>[] = [];
-    if (queries.length > 0) {
-      this.logger.debug('Performing queries', { queries });
-      const searchPromises = queries.map((q) =>
-        queryLimit(() =>
-          this.fetchResults(searchFunction, { ...queryParams, q })
+    let searchType: SearchResultMetadata['searchType'] = 'id';
+    const seenGuids = new Set<string>();
+    const results: SearchResultItem<A['namespace']>[] = [];
+    for (const { strategy, searches } of plan.steps) {
+      if (results.length > 0) break;
+      const stepStart = Date.now();
+      const stepResults = (
+        await Promise.all(
+          searches.map((search) =>
+            queryLimit(() => this.fetchResults(search.function, search.params))
+          )
         )
+      ).flat();
+      let newResults = 0;
+      for (const result of stepResults) {
+        if (seenGuids.has(result.guid)) continue;
+        seenGuids.add(result.guid);
+        results.push(result);
+        newResults++;
+      }
+      if (newResults > 0) {
+        searchType = strategy === 'id' ? 'id' : 'query';
+      }
+      const strategyYield: StrategyYield = {
+        strategy,
+        searches: searches.length,
+        results: stepResults.length,
+        newResults,
+        time: getTimeTakenSincePoint(stepStart),
+      };
+      this.logger.info(
+        `Search strategy ${strategy} for ${capabilities.server.title} returned ${newResults} results`,
+        strategyYield
       );
-      const allResults = await Promise.all(searchPromises);
-      results = allResults.flat();
-    } else {
-      results = await this.fetchResults(searchFunction, queryParams);
     }
+
     this.logger.info(
       `Completed search for ${capabilities.server.title} in ${getTimeTakenSincePoint(start)}`,
       {
@@ -180,38 +142,6 @@ export abstract class BaseNabAddon<
     };
   }
 
-  private getSearchFunction(
-    type: string,
-    searching: Capabilities['searching']
-  ) {
-    const available = Object.keys(searching);
-    this.logger.debug(
-      `Available search functions: ${JSON.stringify(available)}`
-    );
-    if (this.userData.forceQuerySearch) {
-      // dont use specific search functions when force query search is enabled
-    } else if (type === 'movie') {
-      const movieSearch = available.find((s) =>
-        s.toLowerCase().includes('movie')
-      );
-      if (movieSearch && searching[movieSearch].available)
-        return {
-          capabilities: searching[movieSearch],
-          function: 'movie',
-        };
-    } else {
-      const tvSearch = available.find((s) => s.toLowerCase().includes('tv'));
-      if (tvSearch && searching[tvSearch].available)
-        return {
-          capabilities: (searching as any)[tvSearch],
-          function: 'tvsearch',
-        };
-    }
-    if ((searching as any).search.available)
-      return { capabilities: (searching as any).search, function: 'search' };
-    return undefined;
-  }
-
   private async fetchResults(
     searchFunction: string,
     params: Record<string, string>
@@ -12,6 +12,26 @@ import { Parser } from 'xml2js';
 import { Logger } from 'winston';
 import { searchWithBackgroundRefresh } from '../../utils/general.js';
 
+/**
+ * The key of a search, with the text query normalised so that queries that only
+ * differ in case or punctuation are only sent once. This matters most for
+ * Prowlarr and NZBHydra, where each query is sent on to every indexer behind
+ * them.
+ */
+export function getSearchKey(
+  searchFunction: string,
+  params: Record<string, string | number | boolean>
+): string {
+  const q =
+    typeof params.q === 'string'
+      ? params.q
+          .toLowerCase()
+          .replace(/[^\p{L}\p{N}]+/gu, ' ')
+          .trim()
+      : params.q;
+  return JSON.stringify([searchFunction, { ...params, q }]);
+}
+
 // --- Generic Custom Error ---
 export class NabApiError extends Error {
   constructor(
@@ -53,6 +73,37 @@ const NabCapsSearchingSchema = z
   })
   .catchall(NabSearchFunctionSchema);
 
+const NabCategorySchema = z.object({
+  $: z.object({ id: z.coerce.number(), name: z.string().optional() }),
+});
+
+const NabCapsCategoriesSchema = z
+  .array(
+    z.union([
+      z.literal(''),
+      z.object({
+        category: z
+          .array(
+            NabCategorySchema.extend({
+              subcat: z.array(NabCategorySchema).optional(),
+            })
+          )
+          .optional(),
+      }),
+    ])
+  )
+  .optional()
+  .transform((arr) =>
+    (arr?.[0] ? (arr[0].category ?? []) : []).flatMap((category) => [
+      { id: category.$.id, name: category.$.name },
+      ...(category.subcat ?? []).map((subcat) => ({
+        id: subcat.$.id,
+        name: subcat.$.name,
+        parentId: category.$.id,
+      })),
+    ])
+  );
+
 const CapabilitiesSchema = z
   .object({
     caps: z.object({
@@ -67,12 +118,14 @@ const CapabilitiesSchema = z
         )
         .optional(),
       searching: z.array(NabCapsSearchingSchema),
+      categories: NabCapsCategoriesSchema,
     }),
   })
   .transform((obj) => ({
     server: obj.caps.server[0].$,
     limits: obj.caps.limits?.[0].$,
     searching: obj.caps.searching[0],
+    categories: obj.caps.categories,
   }));
 export type Capabilities = z.infer<typeof CapabilitiesSchema>;
 
@@ -254,7 +307,7 @@ export class BaseNabApi<N extends 'torznab' | 'newznab'> {
       this.apiPath = apiPathUrl.pathname;
     }
     this.xmlParser = new Parser();
-    this.capabilitiesCache = Cache.getInstance(`${namespace}:api:caps`);
+    this.capabilitiesCache = Cache.getInstance(`${namespace}:api:caps:v2`);
     this.searchCache = Cache.getInstance(`${namespace}:api:search:v2`);
     this.userAgent = Env.BUILTIN_NAB_USER_AGENT ?? Env.DEFAULT_USER_AGENT;
     this.httpProxy = Env.BUILTIN_NAB_HTTP_PROXY?.get(namespace);
@@ -352,7 +405,7 @@ export class BaseNabApi<N extends 'torznab' | 'newznab'> {
     searchFunction: string = 'search',
     params: Record<string, string | number | boolean> = {}
   ): Promise<SearchResponse<N>> {
-    const cacheKey = `${this.baseUrl}${this.apiPath}?t=${searchFunction}&${JSON.stringify(params)}&apikey=${this.apiKey}&${JSON.stringify(this.params)}`;
+    const cacheKey = this.getRequestKey(searchFunction, params);
 
     return searchWithBackgroundRefresh({
       searchCache: this.searchCache as Cache<string, SearchResponse<N>>,
@@ -370,6 +423,15 @@ export class BaseNabApi<N extends 'torznab' | 'newznab'> {
     });
   }
 
+  // keyed by the endpoint rather than the addon, so that addons using the same
+  // endpoint share the cached results and in flight requests
+  private getRequestKey(
+    func: string,
+    params: Record<string, string | number | boolean>
+  ): string {
+    return `${this.baseUrl}${this.apiPath}?apikey=${this.apiKey}&${JSON.stringify(this.params)}&${getSearchKey(func, params)}`;
+  }
+
   private removeTrailingSlash = (path: string) =>
     path.endsWith('/') ? path.slice(0, -1) : path;
 
@@ -389,7 +451,7 @@ export class BaseNabApi<N extends 'torznab' | 'newznab'> {
     params: Record<string, string | number | boolean> = {},
     timeout?: number
   ): Promise<T> {
-    const lockKey = `${this.baseUrl}${this.apiPath}?t=${func}&${JSON.stringify(params)}&apikey=${this.apiKey}&${JSON.stringify(this.params)}`;
+    const lockKey = this.getRequestKey(func, params);
     const { result } = await DistributedLock.getInstance().withLock(
       lockKey,
       () => this._request(func, schema, params, timeout),
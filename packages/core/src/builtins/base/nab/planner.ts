@@ -0,0 +1,295 @@
+import { ParsedId } from '../../../utils/id-parser.js';
+import { SearchMetadata } from '../debrid.js';
+import { Capabilities, getSearchKey } from './api.js';
+
+/**
+ * - id: a search by IMDb, TVDB or TMDB id
+ * - query: a text search, for indexers that don't support any of the ids
+ * - fallback: a text search, run when the id search returned nothing
+ */
+export type SearchStrategy = 'id' | 'query' | 'fallback';
+
+export interface PlannedSearch {
+  function: string;
+  params: Record<string, string>;
+}
+
+export interface SearchPlanStep {
+  strategy: SearchStrategy;
+  searches: PlannedSearch[];
+}
+
+type SearchFunctionCapabilities = Capabilities['searching'][string];
+
+// the standard newznab categories
+const MOVIE_CATEGORY = 2000;
+const TV_CATEGORY = 5000;
+const ANIME_CATEGORY = 5070;
+
+// some endpoints won't return results without season/ep in the params,
+// regardless of the capabilities they report
+const FORCE_SEASON_EPISODE_PARAMS = ['StremThru'];
+
+export interface NabSearchPlannerOptions {
+  forceQuerySearch: boolean;
+  fallbackQuerySearch: boolean;
+  limit: string;
+  // builds the text queries for a request, see BaseDebridAddon.buildQueries
+  buildQueries: (options: {
+    addYear: boolean;
+    addSeasonEpisode: boolean;
+  }) => string[];
+}
+
+function sortParams(params: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(params).sort(([a], [b]) => a.localeCompare(b))
+  );
+}
+
+/**
+ * Plans the searches for a request from the capabilities of an indexer,
+ * choosing the search function, the id, season, episode, year and category
+ * params it supports, and the text searches to use when ids can't be.
+ */
+export class NabSearchPlanner {
+  constructor(
+    private readonly capabilities: Capabilities,
+    private readonly options: NabSearchPlannerOptions
+  ) {}
+
+  /**
+   * Plan the searches for a request. The steps are run in order, and a step
+   * is only run when the steps before it returned no results.
+   */
+  public plan(
+    parsedId: ParsedId,
+    metadata: SearchMetadata
+  ): { searchFunction: string; steps: SearchPlanStep[] } | undefined {
+    const chosenFunction = this.getSearchFunction(parsedId.mediaType);
+    if (!chosenFunction) {
+      return undefined;
+    }
+    const { capabilities: searchCapabilities, function: searchFunction } =
+      chosenFunction;
+
+    const baseParams: Record<string, string> = {
+      limit: this.options.limit,
+      extended: '1',
+    };
+    const categories = this.getCategories(parsedId, metadata);
+    if (categories) {
+      baseParams.cat = categories;
+    }
+
+    const steps: SearchPlanStep[] = [];
+    const idParams = this.getIdParams(parsedId, metadata, searchCapabilities);
+    if (idParams) {
+      steps.push({
+        strategy: 'id',
+        searches: [
+          {
+            function: searchFunction,
+            params: sortParams({
+              ...baseParams,
+              ...idParams,
+              ...this.getItemParams(parsedId, metadata, searchCapabilities),
+            }),
+          },
+        ],
+      });
+    }
+
+    const textFunction = this.getTextSearchFunction(chosenFunction);
+    if (textFunction && metadata.primaryTitle) {
+      if (!idParams) {
+        steps.push({
+          strategy: 'query',
+          searches: this.getTextSearches(
+            textFunction,
+            parsedId,
+            metadata,
+            baseParams
+          ),
+        });
+      } else if (this.options.fallbackQuerySearch) {
+        steps.push({
+          strategy: 'fallback',
+          searches: this.getTextSearches(
+            textFunction,
+            parsedId,
+            metadata,
+            baseParams
+          ),
+        });
+      }
+    }
+
+    // drop searches that an earlier step already sends
+    const seen = new Set<string>();
+    for (const step of steps) {
+      step.searches = step.searches.filter((search) => {
+        const key = getSearchKey(search.function, search.params);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+    return {
+      searchFunction,
+      steps: steps.filter((step) => step.searches.length > 0),
+    };
+  }
+
+  private getSearchFunction(
+    type: string
+  ):
+    | { capabilities: SearchFunctionCapabilities; function: string }
+    | undefined {
+    const searching = this.capabilities.searching;
+    const available = Object.keys(searching);
+    if (this.options.forceQuerySearch) {
+      // dont use specific search functions when force query search is enabled
+    } else if (type === 'movie') {
+      const movieSearch = available.find((s) =>
+        s.toLowerCase().includes('movie')
+      );
+      if (movieSearch && searching[movieSearch].available)
+        return {
+          capabilities: searching[movieSearch],
+          function: 'movie',
+        };
+    } else {
+      const tvSearch = available.find((s) => s.toLowerCase().includes('tv'));
+      if (tvSearch && searching[tvSearch].available)
+        return {
+          capabilities: searching[tvSearch],
+          function: 'tvsearch',
+        };
+    }
+    if (searching.search.available)
+      return { capabilities: searching.search, function: 'search' };
+    return undefined;
+  }
+
+  /**
+   * Get the function to use for text searches, preferring the chosen function
+   * so that its season and episode params can still be used.
+   */
+  private getTextSearchFunction(chosenFunction: {
+    capabilities: SearchFunctionCapabilities;
+    function: string;
+  }) {
+    if (chosenFunction.capabilities.supportedParams.includes('q')) {
+      return chosenFunction;
+    }
+    const search = this.capabilities.searching.search;
+    if (search.available && search.supportedParams.includes('q')) {
+      return { capabilities: search, function: 'search' };
+    }
+    return undefined;
+  }
+
+  private getIdParams(
+    parsedId: ParsedId,
+    metadata: SearchMetadata,
+    searchCapabilities: SearchFunctionCapabilities
+  ): Record<string, string> | undefined {
+    const supportedParams = searchCapabilities.supportedParams;
+    if (this.options.forceQuerySearch) {
+      return undefined;
+    }
+    // prefer tvdb ID over imdb ID for series
+    if (
+      parsedId.mediaType === 'series' &&
+      supportedParams.includes('tvdbid') &&
+      metadata.tvdbId
+    ) {
+      return { tvdbid: metadata.tvdbId.toString() };
+    }
+    if (supportedParams.includes('imdbid') && metadata.imdbId) {
+      return { imdbid: metadata.imdbId.replace('tt', '') };
+    }
+    if (supportedParams.includes('tmdbid') && metadata.tmdbId) {
+      return { tmdbid: metadata.tmdbId.toString() };
+    }
+    if (supportedParams.includes('tvdbid') && metadata.tvdbId) {
+      return { tvdbid: metadata.tvdbId.toString() };
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the season, episode and year params that the search function supports.
+   */
+  private getItemParams(
+    parsedId: ParsedId,
+    metadata: SearchMetadata,
+    searchCapabilities: SearchFunctionCapabilities
+  ): Record<string, string> {
+    const params: Record<string, string> = {};
+    const forceSeasonEpisode = FORCE_SEASON_EPISODE_PARAMS.includes(
+      this.capabilities.server.title || ''
+    );
+    const supports = (param: string) =>
+      !this.options.forceQuerySearch &&
+      searchCapabilities.supportedParams.includes(param);
+
+    if ((supports('season') || forceSeasonEpisode) && parsedId.season)
+      params.season = parsedId.season.toString();
+    if ((supports('ep') || forceSeasonEpisode) && parsedId.episode)
+      params.ep = parsedId.episode.toString();
+    if (supports('year') && metadata.year && parsedId.mediaType === 'movie')
+      params.year = metadata.year.toString();
+    return params;
+  }
+
+  private getTextSearches(
+    textFunction: {
+      capabilities: SearchFunctionCapabilities;
+      function: string;
+    },
+    parsedId: ParsedId,
+    metadata: SearchMetadata,
+    baseParams: Record<string, string>
+  ): PlannedSearch[] {
+    const itemParams = this.getItemParams(
+      parsedId,
+      metadata,
+      textFunction.capabilities
+    );
+    const queries = this.options.buildQueries({
+      // add year if it is not already in the query params
+      addYear: !itemParams.year,
+      // add season and episode if they are not already in the query params
+      addSeasonEpisode: FORCE_SEASON_EPISODE_PARAMS.includes(
+        this.capabilities.server.title || ''
+      )
+        ? false
+        : !itemParams.season && !itemParams.ep,
+    });
+    return queries.map((q) => ({
+      function: textFunction.function,
+      params: sortParams({ ...baseParams, ...itemParams, q }),
+    }));
+  }
+
+  /**
+   * Get the standard categories for the request that the indexer lists, so
+   * results from other categories aren't returned.
+   */
+  private getCategories(
+    parsedId: ParsedId,
+    metadata: SearchMetadata
+  ): string | undefined {
+    const available = new Set(
+      this.capabilities.categories.map((category) => category.id)
+    );
+    const wanted =
+      parsedId.mediaType === 'movie'
+        ? [MOVIE_CATEGORY, ...(metadata.isAnime ? [ANIME_CATEGORY] : [])]
+        : [TV_CATEGORY, ...(metadata.isAnime ? [ANIME_CATEGORY] : [])];
+    const categories = wanted.filter((category) => available.has(category));
+    return categories.length > 0 ? categories.join(',') : undefined;
+  }
+}
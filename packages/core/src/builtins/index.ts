@@ -7,3 +7,5 @@ export * from './knaben/index.js';
 export * from './torrent-galaxy/index.js';
 export * from './seadex/index.js';
 export * from './easynews-search/index.js';
+export * from './scraper/index.js';
+export * from './library/index.js';
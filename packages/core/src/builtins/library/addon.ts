@@ -0,0 +1,335 @@
+import {
+  BaseDebridAddon,
+  BaseDebridConfigSchema,
+  SearchMetadata,
+} from '../base/debrid.js';
+import { z } from 'zod';
+import { Manifest, Meta, MetaPreview, Stream } from '../../db/index.js';
+import {
+  BuiltinServiceId,
+  createLogger,
+  encryptString,
+  Env,
+  ExtrasParser,
+  getSimpleTextHash,
+  ParsedId,
+} from '../../utils/index.js';
+import {
+  DebridFile,
+  isTitleWrong,
+  metadataStore,
+  NZB,
+  TitleMetadata,
+  TorrentWithSelectedFile,
+  UnprocessedTorrent,
+} from '../../debrid/index.js';
+import { formatBytes } from '../../formatters/index.js';
+import FileParser from '../../parser/file.js';
+import { normaliseTitle } from '../../parser/utils.js';
+import { ReleaseFingerprints } from '../../streams/fingerprints.js';
+import { getMatchedId, LibraryIndex, LibraryItem } from './library.js';
+
+const logger = createLogger('library');
+
+const CATALOG_PAGE_SIZE = 100;
+
+export const LibraryAddonConfigSchema = BaseDebridConfigSchema;
+export type LibraryAddonConfig = z.infer<typeof LibraryAddonConfigSchema>;
+
+interface LibraryEntry {
+  // the id the items were matched to, or a library id for unmatched items
+  id: string;
+  type: 'movie' | 'series';
+  name: string;
+  year?: string;
+  items: LibraryItem[];
+}
+
+export class LibraryAddon extends BaseDebridAddon<LibraryAddonConfig> {
+  readonly id = 'library';
+  readonly name = 'Library';
+  readonly version = '1.0.0';
+  readonly logger = logger;
+
+  private readonly index: LibraryIndex;
+
+  constructor(userData: LibraryAddonConfig, clientIp?: string) {
+    super(userData, LibraryAddonConfigSchema, clientIp);
+    this.index = new LibraryIndex(this.userData.services, clientIp);
+  }
+
+  public override getManifest(): Manifest {
+    const manifest = super.getManifest();
+    const extra = [{ name: 'search', isRequired: false }, { name: 'skip' }];
+    return {
+      ...manifest,
+      description: 'Stream what you already own on your services',
+      catalogs: [
+        { id: 'library.recent', type: 'movie', name: 'Recently Added', extra },
+        {
+          id: 'library.recent',
+          type: 'series',
+          name: 'Recently Added',
+          extra,
+        },
+        { id: 'library.shows', type: 'series', name: 'Shows', extra },
+      ],
+      resources: [
+        ...manifest.resources,
+        {
+          name: 'catalog',
+          types: ['movie', 'series'],
+          idPrefixes: ['library.'],
+        },
+        { name: 'meta', types: ['movie', 'series'], idPrefixes: ['library.'] },
+      ],
+    };
+  }
+
+  protected async _searchNzbs(
+    parsedId: ParsedId,
+    metadata: SearchMetadata
+  ): Promise<NZB[]> {
+    // services don't list the URLs NZBs were added from, so library NZBs
+    // can't be played again without a result from a search
+    return [];
+  }
+
+  protected async _searchTorrents(
+    parsedId: ParsedId,
+    metadata: SearchMetadata
+  ): Promise<UnprocessedTorrent[]> {
+    const requestIds = ReleaseFingerprints.getRequestIds(parsedId.fullId, {
+      imdbId: metadata.imdbId,
+      themoviedbId: metadata.tmdbId,
+      thetvdbId: metadata.tvdbId,
+    });
+    const items = (await this.index.getItems()).filter(
+      (item) => item.type === 'torrent'
+    );
+
+    const torrents: UnprocessedTorrent[] = [];
+    const seen = new Set<string>();
+    for (const item of items) {
+      if (seen.has(item.hash)) continue;
+      const matchedById = item.ids.some((id) => requestIds.includes(id));
+      if (!matchedById && !this.isTitleMatch(item, parsedId, metadata)) {
+        continue;
+      }
+      seen.add(item.hash);
+      torrents.push({
+        hash: item.hash,
+        title: item.name,
+        size: item.size ?? 0,
+        sources: [],
+        type: 'torrent',
+        // the season and episode are still checked for these
+        confirmed: matchedById,
+      });
+    }
+    logger.info(
+      `Found ${torrents.length} library items for ${parsedId.fullId}`
+    );
+    return torrents;
+  }
+
+  private isTitleMatch(
+    item: LibraryItem,
+    parsedId: ParsedId,
+    metadata: SearchMetadata
+  ): boolean {
+    const { title, year, seasons, episodes } = item.parsedFile;
+    if (!title || isTitleWrong({ title }, metadata)) {
+      return false;
+    }
+    const isSeries = !!seasons?.length || !!episodes?.length;
+    if (parsedId.mediaType === 'movie') {
+      return (
+        !isSeries ||
+        !metadata.year ||
+        !year ||
+        Math.abs(Number(year) - metadata.year) <= 1
+      );
+    }
+    return isSeries;
+  }
+
+  public async getCatalog(
+    type: string,
+    id: string,
+    extras?: string
+  ): Promise<MetaPreview[]> {
+    if (
+      !['library.recent', 'library.shows'].includes(id) ||
+      (type !== 'movie' && type !== 'series')
+    ) {
+      throw new Error('Unsupported type or ID for Catalog request');
+    }
+    const parsedExtras = extras ? new ExtrasParser(extras) : undefined;
+    let entries = this.getEntries(await this.index.getItems(), type);
+
+    if (parsedExtras?.search) {
+      const search = normaliseTitle(decodeURIComponent(parsedExtras.search));
+      entries = entries.filter((entry) =>
+        normaliseTitle(entry.name).includes(search)
+      );
+    }
+    if (id === 'library.shows') {
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+    }
+    const skip = parsedExtras?.skip ?? 0;
+    return entries
+      .slice(skip, skip + CATALOG_PAGE_SIZE)
+      .map((entry) => this.createMetaPreview(entry));
+  }
+
+  public async getMeta(type: string, id: string): Promise<Meta> {
+    if (!id.startsWith('library.')) {
+      throw new Error('Unsupported type or ID for Meta request');
+    }
+    const entry = this.getEntries(
+      await this.index.getItems(),
+      type as LibraryEntry['type']
+    ).find((entry) => entry.id === id);
+    if (!entry) {
+      throw new Error(`${id} is not in the library`);
+    }
+
+    const encryptedStoreAuths = Object.fromEntries(
+      this.userData.services.map((service) => [
+        service.id,
+        encryptString(
+          JSON.stringify({ id: service.id, credential: service.credential })
+        ).data ?? '',
+      ])
+    ) as Record<BuiltinServiceId, string>;
+    const videos = await Promise.all(
+      entry.items.flatMap((item) =>
+        this.getVideoFiles(item).map(async (file) => {
+          const parsedFile = file.name
+            ? FileParser.parse(file.name)
+            : undefined;
+          const season =
+            parsedFile?.seasons?.[0] ?? item.parsedFile.seasons?.[0];
+          const episode =
+            parsedFile?.episodes?.[0] ??
+            (item.files.length <= 1
+              ? item.parsedFile.episodes?.[0]
+              : undefined);
+          const stream = await this.createLibraryStream(
+            entry,
+            item,
+            file,
+            encryptedStoreAuths,
+            { season, episode }
+          );
+          return {
+            id: `${entry.id}:${item.hash}:${file.index ?? 0}`,
+            title: file.name ?? item.name,
+            released: new Date(item.addedAt).toISOString(),
+            season: entry.type === 'series' ? (season ?? 1) : undefined,
+            episode: entry.type === 'series' ? episode : undefined,
+            streams: [stream],
+          };
+        })
+      )
+    );
+
+    return {
+      ...this.createMetaPreview(entry),
+      videos,
+    };
+  }
+
+  /**
+   * Group the items of the library into the movies or shows they are of.
+   * Items are grouped by the id they were matched to, and unmatched torrents
+   * by their title, with the most recently added first.
+   */
+  private getEntries(
+    items: LibraryItem[],
+    type: LibraryEntry['type']
+  ): LibraryEntry[] {
+    const entries = new Map<string, LibraryEntry>();
+    for (const item of items) {
+      const { title, year, seasons, episodes } = item.parsedFile;
+      const itemType = seasons?.length || episodes?.length ? 'series' : 'movie';
+      if (!title || itemType !== type) continue;
+
+      const matchedId = getMatchedId(item);
+      // unmatched NZBs aren't listed, see _searchNzbs
+      if (!matchedId && item.type === 'usenet') continue;
+      const id =
+        matchedId ??
+        (type === 'movie'
+          ? `library.${item.hash}`
+          : `library.show.${getSimpleTextHash(normaliseTitle(title))}`);
+
+      const entry = entries.get(id);
+      if (entry) {
+        entry.items.push(item);
+      } else {
+        entries.set(id, { id, type, name: title, year, items: [item] });
+      }
+    }
+    return [...entries.values()];
+  }
+
+  private getVideoFiles(item: LibraryItem): DebridFile[] {
+    if (item.type === 'usenet') return [];
+    return item.files.length > 0
+      ? item.files
+      : [{ name: item.name, size: item.size ?? 0, index: -1 }];
+  }
+
+  private createMetaPreview(entry: LibraryEntry): Meta {
+    const size = entry.items.reduce(
+      (total, item) => total + (item.size ?? 0),
+      0
+    );
+    const descriptionParts = [
+      `${entry.items.length} ${entry.items.length === 1 ? 'release' : 'releases'}`,
+      `📦 ${formatBytes(size, 1000)}`,
+      `📅 ${new Date(Math.max(...entry.items.map((item) => item.addedAt))).toLocaleDateString()}`,
+    ];
+    return {
+      id: entry.id,
+      type: entry.type,
+      name: entry.name,
+      releaseInfo: entry.year,
+      description: descriptionParts.join(' • '),
+    };
+  }
+
+  private async createLibraryStream(
+    entry: LibraryEntry,
+    item: LibraryItem,
+    file: DebridFile,
+    encryptedStoreAuths: Record<BuiltinServiceId, string>,
+    { season, episode }: { season?: number; episode?: number }
+  ): Promise<Stream> {
+    const titleMetadata: TitleMetadata = {
+      titles: [entry.name],
+      year: entry.year ? Number(entry.year) : undefined,
+      season,
+      episode,
+    };
+    const metadataId = getSimpleTextHash(JSON.stringify(titleMetadata));
+    await metadataStore().set(
+      metadataId,
+      titleMetadata,
+      Env.BUILTIN_PLAYBACK_LINK_VALIDITY
+    );
+    const torrent: TorrentWithSelectedFile = {
+      type: 'torrent',
+      hash: item.hash,
+      title: item.name,
+      size: item.size ?? 0,
+      sources: [],
+      private: false,
+      file,
+      service: { id: item.serviceId, cached: true, library: true },
+    };
+    return this._createStream(torrent, metadataId, encryptedStoreAuths);
+  }
+}
@@ -0,0 +1,240 @@
+import { ParsedFile } from '../../db/schemas.js';
+import {
+  DebridDownload,
+  DebridFile,
+  getDebridService,
+  isVideoFile,
+} from '../../debrid/index.js';
+import FileParser from '../../parser/file.js';
+import { normaliseTitle } from '../../parser/utils.js';
+import { ReleaseFingerprints } from '../../streams/fingerprints.js';
+import {
+  BuiltinServiceId,
+  Cache,
+  createLogger,
+  Env,
+  getSimpleTextHash,
+  getTimeTakenSincePoint,
+} from '../../utils/index.js';
+
+const logger = createLogger('library');
+
+// the index is kept long after it is due a refresh, so that the time items
+// were first seen survives rebuilds
+const INDEX_TTL = 30 * 24 * 60 * 60; // 30 days
+
+// services that only hold NZBs, listMagnets isn't implemented for them
+const USENET_ONLY_SERVICES: BuiltinServiceId[] = [
+  'nzbdav',
+  'altmount',
+  'stremio_nntp',
+  'easynews',
+];
+
+export interface LibraryItem {
+  serviceId: BuiltinServiceId;
+  type: 'torrent' | 'usenet';
+  // the info hash for torrents, and the identifier the service gives NZBs
+  hash: string;
+  name: string;
+  size?: number;
+  // the video files of the item
+  files: DebridFile[];
+  parsedFile: ParsedFile;
+  // the ids the release was matched to, see ReleaseFingerprints
+  ids: string[];
+  // when the item was first seen in the library
+  addedAt: number;
+}
+
+/**
+ * Get whether a library item is of a movie or a series, from the season and
+ * episode numbers in its name.
+ */
+export function getLibraryItemType(item: LibraryItem): 'movie' | 'series' {
+  const { seasons, episodes } = item.parsedFile;
+  return seasons?.length || episodes?.length ? 'series' : 'movie';
+}
+
+/**
+ * Get the id to list an item under, preferring IMDb ids as they are the most
+ * widely supported by other addons.
+ */
+export function getMatchedId(item: LibraryItem): string | undefined {
+  return item.ids.find((id) => id.startsWith('tt')) ?? item.ids.at(-1);
+}
+
+interface ServiceIndex {
+  builtAt: number;
+  items: LibraryItem[];
+}
+
+/**
+ * An index of what a user owns on a debrid service, built from the lists of
+ * its torrents and NZBs and matched to ids with the release fingerprints.
+ */
+export class LibraryIndex {
+  private static readonly cache = Cache.getInstance<string, ServiceIndex>(
+    'library:index'
+  );
+
+  constructor(
+    private readonly services: { id: BuiltinServiceId; credential: string }[],
+    private readonly clientIp?: string
+  ) {}
+
+  /**
+   * Get the items of every service, newest first. A service that fails to
+   * list its library is left out.
+   */
+  public async getItems(): Promise<LibraryItem[]> {
+    const results = await Promise.all(
+      this.services.map(async (service) => {
+        try {
+          return await this.getServiceItems(service);
+        } catch (error) {
+          logger.error(`Failed to index the library of ${service.id}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return [];
+        }
+      })
+    );
+    return results.flat().sort((a, b) => b.addedAt - a.addedAt);
+  }
+
+  /**
+   * Get a matcher for whether catalog items are in the library of any
+   * service.
+   */
+  public async getMatcher(): Promise<LibraryMatcher> {
+    return new LibraryMatcher(await this.getItems());
+  }
+
+  private async getServiceItems(service: {
+    id: BuiltinServiceId;
+    credential: string;
+  }): Promise<LibraryItem[]> {
+    const cacheKey = `${service.id}:${getSimpleTextHash(service.credential)}`;
+    const existing = await LibraryIndex.cache.get(cacheKey);
+    if (
+      existing &&
+      Date.now() - existing.builtAt <
+        Env.BUILTIN_LIBRARY_REFRESH_INTERVAL * 1000
+    ) {
+      return existing.items;
+    }
+
+    const start = Date.now();
+    const debridService = getDebridService(
+      service.id,
+      service.credential,
+      this.clientIp
+    );
+    const [magnets, nzbs] = await Promise.all([
+      USENET_ONLY_SERVICES.includes(service.id)
+        ? []
+        : debridService.listMagnets(),
+      debridService.listNzbs ? debridService.listNzbs() : [],
+    ]);
+
+    const downloads = [
+      ...magnets.map((download) => ({ download, type: 'torrent' as const })),
+      ...nzbs.map((download) => ({ download, type: 'usenet' as const })),
+    ].filter(
+      (
+        entry
+      ): entry is {
+        download: DebridDownload & { hash: string; name: string };
+        type: 'torrent' | 'usenet';
+      } =>
+        !!entry.download.hash &&
+        !!entry.download.name &&
+        (entry.download.status === 'cached' ||
+          entry.download.status === 'downloaded')
+    );
+
+    const fingerprints = await ReleaseFingerprints.get(
+      downloads.map(({ download }) => download.hash.toLowerCase())
+    );
+    const firstSeen = new Map(
+      existing?.items.map((item) => [item.hash, item.addedAt])
+    );
+    // services list the newest first, so the order is kept for items that
+    // are first seen together
+    const now = Date.now();
+    const items = downloads.map(
+      ({ download, type }, index): LibraryItem => ({
+        serviceId: service.id,
+        type,
+        hash: download.hash,
+        name: download.name,
+        size: download.size,
+        files: (download.files ?? []).filter((file) => isVideoFile(file)),
+        parsedFile: FileParser.parse(download.name),
+        ids: fingerprints.get(download.hash.toLowerCase())?.ids ?? [],
+        addedAt: firstSeen.get(download.hash) ?? now - index,
+      })
+    );
+
+    await LibraryIndex.cache.set(
+      cacheKey,
+      { builtAt: Date.now(), items },
+      INDEX_TTL
+    );
+    logger.info(
+      `Indexed ${items.length} items in the library of ${service.id} in ${getTimeTakenSincePoint(start)}`
+    );
+    return items;
+  }
+}
+
+/**
+ * Checks whether catalog items are in a library, by the ids its items were
+ * matched to, and for items that weren't matched to any, by their title and
+ * year as the library addon does.
+ */
+export class LibraryMatcher {
+  private readonly ids = new Set<string>();
+  // the years of the unmatched items, by their type and normalised title
+  private readonly titles = new Map<string, (number | undefined)[]>();
+
+  constructor(items: LibraryItem[]) {
+    for (const item of items) {
+      if (item.ids.length > 0) {
+        item.ids.forEach((id) => this.ids.add(id));
+        continue;
+      }
+      const { title, year } = item.parsedFile;
+      if (!title) continue;
+      const key = `${getLibraryItemType(item)}:${normaliseTitle(title)}`;
+      this.titles.set(key, [
+        ...(this.titles.get(key) ?? []),
+        year ? Number(year) : undefined,
+      ]);
+    }
+  }
+
+  public has(item: {
+    id: string;
+    imdbId?: string;
+    type: string;
+    name?: string;
+    year?: number;
+  }): boolean {
+    if (this.ids.has(item.id) || (item.imdbId && this.ids.has(item.imdbId))) {
+      return true;
+    }
+    if (!item.name) return false;
+    const years = this.titles.get(`${item.type}:${normaliseTitle(item.name)}`);
+    if (!years) return false;
+    // seasons are often released years after the show first aired, so only
+    // the years of movies are compared
+    return (
+      item.type !== 'movie' ||
+      years.some(
+        (year) => !year || !item.year || Math.abs(year - item.year) <= 1
+      )
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import path from 'path';
+import {
+  BaseDebridAddon,
+  BaseDebridConfigSchema,
+  SearchMetadata,
+} from '../base/debrid.js';
+import { z } from 'zod';
+import {
+  createLogger,
+  Env,
+  getDataFolder,
+  getTimeTakenSincePoint,
+  ParsedId,
+} from '../../utils/index.js';
+import ScraperAPI from './api.js';
+import { ScraperDefinition, loadScraperDefinitions } from './definitions.js';
+import { NZB, UnprocessedTorrent } from '../../debrid/utils.js';
+import {
+  extractInfoHashFromMagnet,
+  extractTrackersFromMagnet,
+  validateInfoHash,
+} from '../utils/debrid.js';
+import { createQueryLimit, useAllTitles } from '../utils/general.js';
+
+const logger = createLogger('scraper');
+
+export const ScraperAddonConfigSchema = BaseDebridConfigSchema.extend({
+  definitions: z.array(z.string()).min(1),
+});
+
+export type ScraperAddonConfig = z.infer<typeof ScraperAddonConfigSchema>;
+
+export class ScraperAddon extends BaseDebridAddon<ScraperAddonConfig> {
+  readonly id = 'scraper';
+  readonly name = 'Scraper';
+  readonly version = '1.0.0';
+  readonly logger = logger;
+
+  public static definitions = new Map<string, ScraperDefinition>();
+
+  constructor(userData: ScraperAddonConfig, clientIp?: string) {
+    super(userData, ScraperAddonConfigSchema, clientIp);
+  }
+
+  /**
+   * Load the site definitions from the definitions folder, replacing any that
+   * were loaded before.
+   */
+  public static async loadDefinitions(): Promise<void> {
+    const folder =
+      Env.BUILTIN_SCRAPER_DEFINITIONS_PATH ??
+      path.join(getDataFolder(), 'scrapers');
+    const start = Date.now();
+    this.definitions = await loadScraperDefinitions(folder);
+    if (this.definitions.size > 0) {
+      logger.info(
+        `Loaded ${this.definitions.size} scraper definitions from ${folder} in ${getTimeTakenSincePoint(start)}`
+      );
+    }
+  }
+
+  protected async _searchNzbs(
+    parsedId: ParsedId,
+    metadata: SearchMetadata
+  ): Promise<NZB[]> {
+    return [];
+  }
+
+  protected async _searchTorrents(
+    parsedId: ParsedId,
+    metadata: SearchMetadata
+  ): Promise<UnprocessedTorrent[]> {
+    const queryLimit = createQueryLimit();
+    if (!metadata.primaryTitle) {
+      return [];
+    }
+
+    const definitions = this.userData.definitions.flatMap((id) => {
+      const definition = ScraperAddon.definitions.get(id);
+      if (!definition) {
+        logger.warn(`Scraper definition ${id} is not loaded, skipping`);
+        return [];
+      }
+      return [definition];
+    });
+
+    const searchPromises = definitions.flatMap((definition) => {
+      const api = new ScraperAPI(definition);
+      const queries = this.buildQueries(parsedId, metadata, {
+        useAllTitles: useAllTitles(definition.links[0]),
+      });
+      logger.info(`Performing ${definition.name} search`, { queries });
+
+      return queries.map((q) =>
+        queryLimit(async () => {
+          const start = Date.now();
+          try {
+            const results = await api.search({
+              keywords: q,
+              imdbId: metadata.imdbId ?? undefined,
+              season: parsedId.season ? Number(parsedId.season) : undefined,
+              episode: parsedId.episode ? Number(parsedId.episode) : undefined,
+            });
+            logger.info(
+              `${definition.name} search for ${q} took ${getTimeTakenSincePoint(start)}`,
+              { results: results.length }
+            );
+            return results.map((result) => ({
+              ...result,
+              indexer: definition.name,
+            }));
+          } catch (error) {
+            // a broken definition shouldn't prevent results from the others
+            logger.error(
+              `${definition.name} search for ${q} failed: ${error instanceof Error ? error.message : String(error)}`
+            );
+            return [];
+          }
+        })
+      );
+    });
+
+    const results = (await Promise.all(searchPromises)).flat();
+
+    const seenTorrents = new Set<string>();
+    const torrents: UnprocessedTorrent[] = [];
+    for (const result of results) {
+      const hash = validateInfoHash(
+        result.infoHash ??
+          (result.magnet ? extractInfoHashFromMagnet(result.magnet) : undefined)
+      );
+      if (!hash && !result.downloadUrl) {
+        logger.debug(
+          `Scraper result has no hash or download url: ${result.title}`
+        );
+        continue;
+      }
+      if (seenTorrents.has(hash ?? result.downloadUrl ?? '')) {
+        continue;
+      }
+      seenTorrents.add(hash ?? result.downloadUrl ?? '');
+
+      torrents.push({
+        hash: hash ?? undefined,
+        downloadUrl: result.downloadUrl,
+        sources: result.magnet ? extractTrackersFromMagnet(result.magnet) : [],
+        indexer: result.indexer,
+        seeders: result.seeders,
+        title: result.title,
+        size: result.size ?? 0,
+        type: 'torrent',
+      });
+    }
+    return torrents;
+  }
+}
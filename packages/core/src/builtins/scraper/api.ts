@@ -0,0 +1,92 @@
+import { Cache } from '../../utils/cache.js';
+import { Env } from '../../utils/env.js';
+import { makeRequest, createLogger } from '../../utils/index.js';
+import { searchWithBackgroundRefresh } from '../utils/general.js';
+import {
+  ScraperDefinition,
+  ScraperQuery,
+  ScraperRequest,
+  ScraperResult,
+  buildSearchRequests,
+  parseSearchResults,
+} from './definitions.js';
+
+const logger = createLogger('scraper');
+
+class ScraperAPI {
+  private headers: Record<string, string>;
+
+  private readonly searchCache = Cache.getInstance<string, ScraperResult[]>(
+    'scraper:search'
+  );
+
+  constructor(private readonly definition: ScraperDefinition) {
+    this.headers = {
+      'User-Agent':
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    };
+  }
+
+  async search(query: ScraperQuery): Promise<ScraperResult[]> {
+    const requests = buildSearchRequests(this.definition, query);
+    const results = await Promise.all(
+      requests.map((request) => {
+        const cacheKey = `${this.definition.id}:${request.method}:${request.url}:${request.body ?? ''}`;
+        return searchWithBackgroundRefresh({
+          searchCache: this.searchCache,
+          searchCacheKey: cacheKey,
+          bgCacheKey: `scraper:${cacheKey}`,
+          cacheTTL: Env.BUILTIN_SCRAPER_SEARCH_CACHE_TTL,
+          fetchFn: () => this.request(request),
+          isEmptyResult: (result) => result.length === 0,
+          logger,
+        });
+      })
+    );
+    return results.flat();
+  }
+
+  private async request(request: ScraperRequest): Promise<ScraperResult[]> {
+    const path = new URL(request.url).pathname;
+    logger.debug(
+      `Making ${request.method} request to ${this.definition.id} ${path}`
+    );
+
+    try {
+      const response = await makeRequest(request.url, {
+        method: request.method,
+        headers: {
+          ...this.headers,
+          Accept:
+            request.responseType === 'json'
+              ? 'application/json'
+              : 'text/html,application/xhtml+xml',
+          ...request.headers,
+        },
+        body: request.body,
+        timeout: Env.BUILTIN_SCRAPER_SEARCH_TIMEOUT,
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `${this.definition.name} error (${response.status}): ${response.statusText}`
+        );
+      }
+
+      return parseSearchResults(
+        this.definition,
+        await response.text(),
+        request.responseType
+      );
+    } catch (error) {
+      logger.error(
+        `Request to ${this.definition.id} ${path} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw error instanceof Error
+        ? error
+        : new Error('Unknown error occurred');
+    }
+  }
+}
+
+export default ScraperAPI;
@@ -0,0 +1,468 @@
+import fs from 'fs/promises';
+import path from 'path';
+import bytes from 'bytes';
+import * as cheerio from 'cheerio';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { createLogger, formatZodError } from '../../utils/index.js';
+
+const logger = createLogger('scraper');
+
+const FILTERS = [
+  'replace',
+  're_replace',
+  'regexp',
+  'split',
+  'trim',
+  'append',
+  'prepend',
+  'tolower',
+  'toupper',
+  'urldecode',
+  'urlencode',
+  'querystring',
+] as const;
+
+const FilterSchema = z.object({
+  name: z.enum(FILTERS),
+  args: z
+    .union([z.string(), z.number(), z.array(z.union([z.string(), z.number()]))])
+    .optional(),
+});
+
+type Filter = z.infer<typeof FilterSchema>;
+
+const FieldSchema = z.object({
+  // a CSS selector for HTML responses, or a dot separated path for JSON responses
+  selector: z.string().optional(),
+  attribute: z.string().optional(),
+  // elements within the selected element to remove before reading its text
+  remove: z.string().optional(),
+  // a template used instead of a selector, e.g. for building a magnet from the infohash
+  text: z.union([z.string(), z.number()]).optional(),
+  optional: z.boolean().optional(),
+  filters: z.array(FilterSchema).optional(),
+});
+
+type Field = z.infer<typeof FieldSchema>;
+
+const SCRAPER_FIELDS = [
+  'title',
+  'size',
+  'seeders',
+  'infohash',
+  'magnet',
+  'download',
+] as const;
+
+type ScraperField = (typeof SCRAPER_FIELDS)[number];
+
+// definitions are Cardigann-style, with unsupported keys such as login and caps ignored
+export const ScraperDefinitionSchema = z
+  .looseObject({
+    id: z
+      .string()
+      .regex(
+        /^[a-z0-9._-]+$/i,
+        'must only contain letters, numbers, dots, dashes and underscores'
+      ),
+    name: z.string().min(1),
+    description: z.string().optional(),
+    links: z.array(z.url()).min(1),
+    search: z.looseObject({
+      paths: z
+        .array(
+          z.object({
+            path: z.string(),
+            method: z
+              .enum(['get', 'post', 'GET', 'POST'])
+              .transform((method) => method.toUpperCase() as 'GET' | 'POST')
+              .optional(),
+            response: z.object({ type: z.enum(['html', 'json']) }).optional(),
+          })
+        )
+        .min(1),
+      inputs: z
+        .record(z.string(), z.union([z.string(), z.number()]))
+        .optional(),
+      headers: z
+        .record(z.string(), z.union([z.string(), z.array(z.string())]))
+        .optional(),
+      keywordsfilters: z.array(FilterSchema).optional(),
+      rows: z.object({
+        selector: z.string(),
+      }),
+      fields: z.looseObject({
+        title: FieldSchema,
+        size: FieldSchema.optional(),
+        seeders: FieldSchema.optional(),
+        infohash: FieldSchema.optional(),
+        magnet: FieldSchema.optional(),
+        download: FieldSchema.optional(),
+      }),
+    }),
+  })
+  .refine(
+    ({ search: { fields } }) =>
+      fields.infohash || fields.magnet || fields.download,
+    'search.fields must include an infohash, magnet or download field'
+  );
+
+export type ScraperDefinition = z.infer<typeof ScraperDefinitionSchema>;
+
+export interface ScraperQuery {
+  keywords: string;
+  imdbId?: string;
+  season?: number;
+  episode?: number;
+}
+
+export interface ScraperRequest {
+  url: string;
+  method: 'GET' | 'POST';
+  headers: Record<string, string>;
+  body?: string;
+  responseType: 'html' | 'json';
+}
+
+export interface ScraperResult {
+  title: string;
+  size?: number;
+  seeders?: number;
+  infoHash?: string;
+  magnet?: string;
+  downloadUrl?: string;
+}
+
+type TemplateVariables = Record<string, string | undefined>;
+
+// supports variables, e.g. {{ .Keywords }}, and non-nested
+// {{ if .Var }}...{{ else }}...{{ end }} blocks
+function renderTemplate(
+  template: string,
+  variables: TemplateVariables,
+  encode: (value: string) => string = (value) => value
+) {
+  return template
+    .replace(
+      /{{-?\s*if\s+(\.[\w.]+)\s*-?}}([\s\S]*?)(?:{{-?\s*else\s*-?}}([\s\S]*?))?{{-?\s*end\s*-?}}/g,
+      (_, name: string, then: string, otherwise?: string) =>
+        variables[name] ? then : (otherwise ?? '')
+    )
+    .replace(/{{-?\s*(\.[\w.]+)\s*-?}}/g, (_, name: string) =>
+      encode(variables[name] ?? '')
+    );
+}
+
+function applyFilters(value: string, filters: Filter[] = []): string {
+  for (const { name, args } of filters) {
+    const argList = (Array.isArray(args) ? args : [args]).map((arg) =>
+      arg === undefined ? '' : String(arg)
+    );
+    switch (name) {
+      case 'replace':
+        value = value.split(argList[0]).join(argList[1]);
+        break;
+      case 're_replace':
+        value = value.replace(new RegExp(argList[0], 'g'), argList[1]);
+        break;
+      case 'regexp': {
+        const match = value.match(new RegExp(argList[0]));
+        value = match ? (match[1] ?? match[0]) : '';
+        break;
+      }
+      case 'split':
+        value = value.split(argList[0])[Number(argList[1] || 0)] ?? '';
+        break;
+      case 'trim':
+        value = argList[0]
+          ? value.split(argList[0]).join('').trim()
+          : value.trim();
+        break;
+      case 'append':
+        value += argList[0];
+        break;
+      case 'prepend':
+        value = argList[0] + value;
+        break;
+      case 'tolower':
+        value = value.toLowerCase();
+        break;
+      case 'toupper':
+        value = value.toUpperCase();
+        break;
+      case 'urldecode':
+        value = value.replace(/\+/g, ' ');
+        try {
+          value = decodeURIComponent(value);
+        } catch {
+          // malformed escapes are left as they are, rather than failing the search
+        }
+        break;
+      case 'urlencode':
+        value = encodeURIComponent(value);
+        break;
+      case 'querystring':
+        try {
+          value =
+            new URL(value, 'http://localhost').searchParams.get(argList[0]) ??
+            '';
+        } catch {
+          value = '';
+        }
+        break;
+    }
+  }
+  return value;
+}
+
+function parseSize(value: string): number | undefined {
+  const normalised = value
+    .replace(/,/g, '')
+    .replace(/([kmgtp])i?b$/i, '$1b')
+    .trim();
+  if (/^\d+$/.test(normalised)) {
+    return Number(normalised);
+  }
+  return bytes.parse(normalised) ?? undefined;
+}
+
+function parseNumber(value: string): number | undefined {
+  const number = parseInt(value.replace(/[,\s]/g, ''), 10);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+function getJsonPath(value: unknown, selector: string): unknown {
+  if (selector === '$' || selector === '') {
+    return value;
+  }
+  return selector
+    .replace(/^\$\.?/, '')
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        current !== null && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      value
+    );
+}
+
+/**
+ * Get the requests to make for a search, one for each search path of the
+ * definition.
+ */
+export function buildSearchRequests(
+  definition: ScraperDefinition,
+  query: ScraperQuery
+): ScraperRequest[] {
+  const { search } = definition;
+  const keywords = applyFilters(query.keywords, search.keywordsfilters);
+  const variables: TemplateVariables = {
+    '.Keywords': keywords,
+    '.Query.Keywords': keywords,
+    '.Query.IMDBID': query.imdbId,
+    '.Query.IMDBIDShort': query.imdbId?.replace(/^tt/, ''),
+    '.Query.Season': query.season?.toString(),
+    '.Query.Ep': query.episode?.toString(),
+    '.Config.sitelink': definition.links[0],
+  };
+  const headers = Object.fromEntries(
+    Object.entries(search.headers ?? {}).map(([name, value]) => [
+      name,
+      renderTemplate(
+        Array.isArray(value) ? value.join(', ') : value,
+        variables
+      ),
+    ])
+  );
+
+  return search.paths.map((searchPath) => {
+    const method = searchPath.method ?? 'GET';
+    // variables in the path are encoded, inputs are encoded when they're added
+    const url = new URL(
+      renderTemplate(searchPath.path, variables, encodeURIComponent),
+      definition.links[0]
+    );
+    const inputs = new URLSearchParams();
+    for (const [name, value] of Object.entries(search.inputs ?? {})) {
+      // inputs for values that aren't known for a request are left out
+      const rendered = renderTemplate(String(value), variables);
+      if (rendered) inputs.set(name, rendered);
+    }
+    if (method === 'GET') {
+      inputs.forEach((value, name) => url.searchParams.set(name, value));
+    }
+    return {
+      url: url.toString(),
+      method,
+      headers:
+        method === 'POST'
+          ? {
+              'Content-Type': 'application/x-www-form-urlencoded',
+              ...headers,
+            }
+          : headers,
+      body: method === 'POST' ? inputs.toString() : undefined,
+      responseType: searchPath.response?.type ?? 'html',
+    };
+  });
+}
+
+/**
+ * Parse the response to a search request into results. This doesn't make any
+ * requests, so definitions can be checked against saved responses.
+ */
+export function parseSearchResults(
+  definition: ScraperDefinition,
+  body: string,
+  responseType: 'html' | 'json'
+): ScraperResult[] {
+  const fields = definition.search.fields;
+  const rows: ((field: Field) => string | undefined)[] = [];
+
+  if (responseType === 'json') {
+    const data = getJsonPath(JSON.parse(body), definition.search.rows.selector);
+    if (!Array.isArray(data)) {
+      throw new Error(
+        `Rows selector ${definition.search.rows.selector} did not select an array`
+      );
+    }
+    for (const row of data) {
+      rows.push((field) => {
+        const value = getJsonPath(row, field.selector ?? '');
+        return value === undefined ||
+          value === null ||
+          typeof value === 'object'
+          ? undefined
+          : String(value);
+      });
+    }
+  } else {
+    const $ = cheerio.load(body);
+    $(definition.search.rows.selector).each((_, element) => {
+      const row = $(element);
+      rows.push((field) => {
+        const selected = field.selector
+          ? row.find(field.selector).first()
+          : row;
+        if (selected.length === 0) {
+          return undefined;
+        }
+        if (field.attribute) {
+          return selected.attr(field.attribute);
+        }
+        const clone = selected.clone();
+        if (field.remove) clone.find(field.remove).remove();
+        return clone.text();
+      });
+    });
+  }
+
+  const results: ScraperResult[] = [];
+  rowLoop: for (const getValue of rows) {
+    const values: Partial<Record<ScraperField, string>> = {};
+    for (const name of SCRAPER_FIELDS) {
+      const field = fields[name];
+      if (!field) continue;
+      const raw =
+        field.text !== undefined
+          ? renderTemplate(
+              String(field.text),
+              Object.fromEntries(
+                Object.entries(values).map(([key, value]) => [
+                  `.Result.${key}`,
+                  value,
+                ])
+              )
+            )
+          : getValue(field);
+      const value =
+        raw === undefined ? undefined : applyFilters(raw, field.filters).trim();
+      if (!value) {
+        // rows without a required field, e.g. headers, are skipped
+        if (!field.optional) continue rowLoop;
+        continue;
+      }
+      values[name] = value;
+    }
+
+    const resolveUrl = (url?: string) => {
+      if (!url) return undefined;
+      try {
+        return new URL(url, definition.links[0]).toString();
+      } catch {
+        return undefined;
+      }
+    };
+    results.push({
+      title: values.title!,
+      size: values.size ? parseSize(values.size) : undefined,
+      seeders: values.seeders ? parseNumber(values.seeders) : undefined,
+      infoHash: values.infohash?.toLowerCase(),
+      magnet: values.magnet?.startsWith('magnet:') ? values.magnet : undefined,
+      downloadUrl: resolveUrl(values.download),
+    });
+  }
+  return results;
+}
+
+/**
+ * Parse a definition from the contents of a YAML or JSON file.
+ */
+export function parseScraperDefinition(
+  content: string,
+  format: 'yaml' | 'json'
+): ScraperDefinition {
+  const data = format === 'json' ? JSON.parse(content) : parseYaml(content);
+  const {
+    success,
+    data: definition,
+    error,
+  } = ScraperDefinitionSchema.safeParse(data);
+  if (!success) {
+    throw new Error(formatZodError(error));
+  }
+  return definition;
+}
+
+/**
+ * Load the definitions in a folder, skipping any that are invalid.
+ */
+export async function loadScraperDefinitions(
+  folder: string
+): Promise<Map<string, ScraperDefinition>> {
+  const definitions = new Map<string, ScraperDefinition>();
+  let files: string[];
+  try {
+    files = await fs.readdir(folder);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return definitions;
+    }
+    throw error;
+  }
+
+  for (const file of files.sort()) {
+    const extension = path.extname(file).toLowerCase();
+    if (!['.yml', '.yaml', '.json'].includes(extension)) continue;
+    try {
+      const definition = parseScraperDefinition(
+        await fs.readFile(path.join(folder, file), 'utf-8'),
+        extension === '.json' ? 'json' : 'yaml'
+      );
+      if (definitions.has(definition.id)) {
+        logger.warn(
+          `Skipping scraper definition ${file}, the id ${definition.id} is already used`
+        );
+        continue;
+      }
+      definitions.set(definition.id, definition);
+    } catch (error) {
+      logger.error(
+        `Failed to load scraper definition ${file}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+  return definitions;
+}
@@ -20,6 +20,7 @@ import {
 } from '../../debrid/index.js';
 import { parseTorrentTitle, ParsedResult } from '@viren070/parse-torrent-title';
 import { preprocessTitle } from '../../parser/utils.js';
+import { ReleaseFingerprints } from '../../streams/fingerprints.js';
 
 // we have a list of torrents which need to be
 // - 1. checked for instant availability for each configured debrid service
@@ -236,6 +237,22 @@ async function processTorrentsForDebridService(
     }
   }
 
+  // remember the releases, and which passed the title checks for this item
+  const titlesByHash = new Map(
+    torrents.map((torrent) => [torrent.hash, torrent.title])
+  );
+  ReleaseFingerprints.record(
+    magnetCheckResults.map((result) => ({
+      ...result,
+      name:
+        result.name ??
+        (result.hash ? titlesByHash.get(result.hash) : undefined),
+    })),
+    metadata
+      ? { id: stremioId, hashes: results.map((result) => result.hash) }
+      : undefined
+  );
+
   logger.debug(`Finished processing of torrents`, {
     service: service.id,
     torrents: torrents.length,
@@ -494,6 +511,17 @@ async function processNZBsForDebridService(
     }
   }
 
+  // NZB titles aren't checked, so they aren't recorded as matches
+  const titlesByHash = new Map(nzbs.map((nzb) => [nzb.hash, nzb.title]));
+  ReleaseFingerprints.record(
+    nzbCheckResults.map((result) => ({
+      ...result,
+      name:
+        result.name ??
+        (result.hash ? titlesByHash.get(result.hash) : undefined),
+    }))
+  );
+
   logger.debug(`Finished processing of NZBs`, {
     service: service.id,
     nzbs: nzbs.length,
@@ -0,0 +1,435 @@
+import { MetaPreview, SmartCatalog, UserData } from '../db/schemas.js';
+import {
+  getLibraryItemType,
+  getMatchedId,
+  LibraryIndex,
+  LibraryItem,
+} from '../builtins/library/library.js';
+import { LibraryPreset } from '../presets/library.js';
+import { MetadataService } from '../metadata/service.js';
+import { getNextEpisode, Metadata } from '../metadata/utils.js';
+import { TMDBMetadata } from '../metadata/tmdb.js';
+import { normaliseTitle } from '../parser/utils.js';
+import { WatchHistory } from '../streams/watch-history.js';
+import {
+  Cache,
+  constants,
+  createLogger,
+  DistributedLock,
+  Env,
+  getSimpleTextHash,
+  getTimeTakenSincePoint,
+  IdParser,
+} from '../utils/index.js';
+
+const logger = createLogger('catalogs');
+
+interface SmartCatalogSnapshot {
+  builtAt: number;
+  items: MetaPreview[];
+}
+
+// the snapshots are kept long after they are due a refresh, so that the last
+// built items are still returned when a rebuild fails
+const SNAPSHOT_TTL = 7 * 24 * 60 * 60; // 7 days
+// how often the scheduled catalogs are checked for a due refresh
+const SCHEDULE_INTERVAL = 5 * 60 * 1000; // 5 minutes
+// catalogs that aren't requested for this long are no longer refreshed
+const SCHEDULE_IDLE_TIMEOUT = 24 * 60 * 60 * 1000; // 1 day
+const BUILD_TIMEOUT = 2 * 60 * 1000; // 2 minutes
+
+const snapshots = () =>
+  Cache.getInstance<string, SmartCatalogSnapshot>(
+    'smart-catalog',
+    1000,
+    Env.REDIS_URI ? undefined : 'sql'
+  );
+
+// the catalogs requested on this instance, which are rebuilt in the
+// background once their refresh interval has passed
+const scheduled = new Map<
+  string,
+  { userData: UserData; smartCatalog: SmartCatalog; requestedAt: number }
+>();
+let scheduleTimer: NodeJS.Timeout | undefined;
+let refreshingScheduled = false;
+
+/**
+ * Builds the catalogs of a user from what they own and what they watched,
+ * rather than from an addon.
+ *
+ * A catalog is built when it is first requested, and is then rebuilt on a
+ * schedule while it keeps being requested, so requests are always served the
+ * last built items.
+ */
+export class SmartCatalogBuilder {
+  private readonly metadataService: MetadataService;
+
+  constructor(private readonly userData: UserData) {
+    this.metadataService = new MetadataService({
+      tmdbAccessToken: userData.tmdbAccessToken,
+      tmdbApiKey: userData.tmdbApiKey,
+      tvdbApiKey: userData.tvdbApiKey,
+    });
+  }
+
+  /**
+   * Get the items of a smart catalog, newest first.
+   */
+  public async getItems(smartCatalog: SmartCatalog): Promise<MetaPreview[]> {
+    const cacheKey = this.getCacheKey(smartCatalog);
+    if (!cacheKey) {
+      return [];
+    }
+    SmartCatalogBuilder.schedule(cacheKey, this.userData, smartCatalog);
+    const snapshot = await snapshots().get(cacheKey);
+    if (snapshot) {
+      return snapshot.items;
+    }
+    return this.rebuild(smartCatalog, cacheKey);
+  }
+
+  private static schedule(
+    cacheKey: string,
+    userData: UserData,
+    smartCatalog: SmartCatalog
+  ) {
+    scheduled.set(cacheKey, {
+      userData,
+      smartCatalog,
+      requestedAt: Date.now(),
+    });
+    if (!scheduleTimer) {
+      scheduleTimer = setInterval(
+        () =>
+          SmartCatalogBuilder.refreshScheduled().catch((error) =>
+            logger.error(`Failed to refresh smart catalogs: ${error}`)
+          ),
+        SCHEDULE_INTERVAL
+      );
+      scheduleTimer.unref();
+    }
+  }
+
+  private static async refreshScheduled() {
+    // a slow run of rebuilds can outlast the interval
+    if (refreshingScheduled) {
+      return;
+    }
+    refreshingScheduled = true;
+    try {
+      for (const [cacheKey, entry] of scheduled) {
+        const { userData, smartCatalog, requestedAt } = entry;
+        if (Date.now() - requestedAt > SCHEDULE_IDLE_TIMEOUT) {
+          scheduled.delete(cacheKey);
+          continue;
+        }
+        const refreshInterval = smartCatalog.refreshInterval
+          ? smartCatalog.refreshInterval * 60 * 60
+          : Env.SMART_CATALOG_REFRESH_INTERVAL;
+        const snapshot = await snapshots().get(cacheKey);
+        if (
+          snapshot &&
+          Date.now() - snapshot.builtAt < refreshInterval * 1000
+        ) {
+          continue;
+        }
+        try {
+          await new SmartCatalogBuilder(userData).rebuild(
+            smartCatalog,
+            cacheKey
+          );
+        } catch (error) {
+          logger.warn(`Failed to rebuild smart catalog ${smartCatalog.name}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } finally {
+      refreshingScheduled = false;
+    }
+  }
+
+  /**
+   * Rebuild a smart catalog. Other instances that request or schedule the same
+   * catalog at the same time wait for this rebuild instead of making their own.
+   */
+  private async rebuild(
+    smartCatalog: SmartCatalog,
+    cacheKey: string
+  ): Promise<MetaPreview[]> {
+    const { result } = await DistributedLock.getInstance().withLock(
+      `smart-catalog:${cacheKey}`,
+      () => this.build(smartCatalog, cacheKey),
+      { timeout: BUILD_TIMEOUT, ttl: BUILD_TIMEOUT }
+    );
+    return result;
+  }
+
+  /**
+   * The key of the snapshot of a smart catalog, which changes with the
+   * catalog and the services it is built from. Undefined when there is
+   * nothing to build the catalog from.
+   */
+  private getCacheKey(smartCatalog: SmartCatalog): string | undefined {
+    const { id, type, source, services } = smartCatalog;
+    let owner: string | undefined = this.userData.uuid;
+    if (source === 'recentlyCached') {
+      const libraryServices = this.getServices(smartCatalog);
+      owner = libraryServices.length
+        ? getSimpleTextHash(JSON.stringify(libraryServices))
+        : undefined;
+    }
+    if (!owner) {
+      return undefined;
+    }
+    return `${owner}:${id}:${getSimpleTextHash(JSON.stringify({ type, source, services }))}`;
+  }
+
+  private getServices(smartCatalog: SmartCatalog) {
+    return LibraryPreset.getLibraryServices(this.userData).filter(
+      (service) =>
+        !smartCatalog.services?.length ||
+        smartCatalog.services.includes(service.id)
+    );
+  }
+
+  private async build(
+    smartCatalog: SmartCatalog,
+    cacheKey: string
+  ): Promise<MetaPreview[]> {
+    const start = Date.now();
+    const items =
+      smartCatalog.source === 'newEpisodes'
+        ? await this.buildNewEpisodes(smartCatalog)
+        : await this.buildRecentlyCached(smartCatalog);
+    await snapshots().set(
+      cacheKey,
+      { builtAt: Date.now(), items },
+      SNAPSHOT_TTL
+    );
+    logger.info(
+      `Built smart catalog ${smartCatalog.name} with ${items.length} items in ${getTimeTakenSincePoint(start)}`
+    );
+    return items;
+  }
+
+  /**
+   * List what was most recently added to the user's services, from their
+   * lists of torrents and NZBs. Items that weren't matched to an id are
+   * looked up on TMDB by their title and year.
+   */
+  private async buildRecentlyCached(
+    smartCatalog: SmartCatalog
+  ): Promise<MetaPreview[]> {
+    const libraryItems = await new LibraryIndex(
+      this.getServices(smartCatalog)
+    ).getItems();
+
+    // the latest item of each movie or show, by the id it was matched to or
+    // its title and year
+    const latest = new Map<string, LibraryItem>();
+    for (const item of libraryItems) {
+      const { title, year } = item.parsedFile;
+      const key =
+        getMatchedId(item) ??
+        (title ? `${normaliseTitle(title)}:${year ?? ''}` : undefined);
+      if (
+        getLibraryItemType(item) !== smartCatalog.type ||
+        !key ||
+        latest.has(key)
+      ) {
+        continue;
+      }
+      latest.set(key, item);
+      if (latest.size >= Env.SMART_CATALOG_MAX_ITEMS) break;
+    }
+
+    const resolved = await Promise.all(
+      [...latest.values()].map(async (item) => ({
+        item,
+        id: await this.getLibraryItemId(item, smartCatalog.type),
+      }))
+    );
+    // an unmatched item can resolve to the id of a matched one
+    const seen = new Set<string>();
+    const items = await Promise.all(
+      resolved.map(async ({ item, id }) => {
+        if (!id || seen.has(id)) return undefined;
+        seen.add(id);
+        const metadata = await this.getMetadata(id, smartCatalog.type);
+        return this.createMetaPreview(id, smartCatalog.type, metadata, {
+          name: item.parsedFile.title,
+          description: `Added to ${constants.SERVICE_DETAILS[item.serviceId].name} on ${new Date(item.addedAt).toLocaleDateString()}`,
+        });
+      })
+    );
+    return items.filter((item) => item !== undefined);
+  }
+
+  /**
+   * Get the id of a library item, preferring an IMDb id, and searching TMDB
+   * for items that weren't matched to any.
+   */
+  private async getLibraryItemId(
+    item: LibraryItem,
+    type: SmartCatalog['type']
+  ): Promise<string | undefined> {
+    const matchedId = getMatchedId(item);
+    const { title, year } = item.parsedFile;
+    if (matchedId || !title) {
+      return matchedId;
+    }
+    try {
+      const ids = await new TMDBMetadata({
+        accessToken: this.userData.tmdbAccessToken,
+        apiKey: this.userData.tmdbApiKey,
+      }).searchByTitle(title, type, year ? Number(year) : undefined);
+      return ids ? (ids.imdbId ?? `tmdb:${ids.tmdbId}`) : undefined;
+    } catch (error) {
+      logger.debug(`Failed to search TMDB for ${title}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * List the shows the user watched where the episode after the last one they
+   * watched has been released, most recently released first, with the show
+   * opened at that episode. Unlike the continue watching catalog, shows that
+   * are waiting on their next episode are left out.
+   */
+  private async buildNewEpisodes(
+    smartCatalog: SmartCatalog
+  ): Promise<MetaPreview[]> {
+    if (smartCatalog.type !== 'series' || !this.userData.uuid) {
+      return [];
+    }
+    const seen = new Set<string>();
+    const entries = (await WatchHistory.get(this.userData.uuid))
+      .filter((entry) => {
+        if (entry.type !== 'series' || !entry.episode || seen.has(entry.id)) {
+          return false;
+        }
+        seen.add(entry.id);
+        return true;
+      })
+      .slice(0, Env.SMART_CATALOG_MAX_ITEMS);
+
+    const now = Date.now();
+    const items = await Promise.all(
+      entries.map(async (entry) => {
+        const parsedId = IdParser.parse(entry.id, 'series');
+        const metadata = await this.getMetadata(entry.id, 'series');
+        if (!parsedId || !metadata) {
+          return undefined;
+        }
+        const next = getNextEpisode(
+          entry.season ?? 1,
+          entry.episode!,
+          metadata
+        );
+        const season = next.season ?? 1;
+        const released = await this.getEpisodeAirDate(
+          metadata,
+          season,
+          next.episode
+        );
+        const releasedAt = released ? new Date(released).getTime() : NaN;
+        // episodes without a known air date can't be shown to be out yet
+        if (isNaN(releasedAt) || releasedAt > now) {
+          return undefined;
+        }
+        const episode = `S${season.toString().padStart(2, '0')}E${next.episode.toString().padStart(2, '0')}`;
+        const item = this.createMetaPreview(entry.id, 'series', metadata, {
+          name: entry.name,
+          description: `${episode} released on ${new Date(releasedAt).toLocaleDateString()}`,
+          defaultVideoId: parsedId.generator(
+            parsedId.value,
+            season.toString(),
+            next.episode.toString()
+          ),
+        });
+        return item ? { item, releasedAt } : undefined;
+      })
+    );
+    return items
+      .filter((item) => item !== undefined)
+      .sort((a, b) => b.releasedAt - a.releasedAt)
+      .map(({ item }) => item);
+  }
+
+  private async getEpisodeAirDate(
+    metadata: Metadata,
+    season: number,
+    episode: number
+  ): Promise<string | undefined> {
+    if (!metadata.tmdbId) {
+      return undefined;
+    }
+    try {
+      return await new TMDBMetadata({
+        accessToken: this.userData.tmdbAccessToken,
+        apiKey: this.userData.tmdbApiKey,
+      }).getEpisodeAirDate(metadata.tmdbId, season, episode);
+    } catch (error) {
+      logger.debug(
+        `Failed to get the air date of S${season}E${episode} of ${metadata.title}`,
+        { error: error instanceof Error ? error.message : String(error) }
+      );
+      return undefined;
+    }
+  }
+
+  private async getMetadata(
+    id: string,
+    type: SmartCatalog['type']
+  ): Promise<Metadata | undefined> {
+    const parsedId = IdParser.parse(id, type);
+    if (!parsedId) {
+      return undefined;
+    }
+    try {
+      return await this.metadataService.getMetadata(parsedId, type);
+    } catch (error) {
+      logger.warn(`Failed to get the metadata of ${id} for a smart catalog`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  private createMetaPreview(
+    id: string,
+    type: SmartCatalog['type'],
+    metadata: Metadata | undefined,
+    {
+      name,
+      description,
+      defaultVideoId,
+    }: { name?: string; description: string; defaultVideoId?: string }
+  ): MetaPreview | undefined {
+    const title = name || metadata?.displayTitle || metadata?.title;
+    if (!title) {
+      return undefined;
+    }
+    return {
+      id,
+      type,
+      name: title,
+      poster: id.startsWith('tt')
+        ? `https://images.metahub.space/poster/small/${id}/img`
+        : undefined,
+      releaseInfo: metadata?.year
+        ? type === 'series' && metadata.yearEnd !== metadata.year
+          ? `${metadata.year}-${metadata.yearEnd ?? ''}`
+          : metadata.year.toString()
+        : undefined,
+      released: metadata?.releaseDate,
+      genres: metadata?.genres?.length ? metadata.genres : undefined,
+      description,
+      behaviorHints: defaultVideoId ? { defaultVideoId } : undefined,
+    };
+  }
+}
@@ -33,9 +33,19 @@ export type PassthroughStage = z.infer<typeof PassthroughStages>;
 
 // const SortDirections = z.enum(constants.SORT_DIRECTIONS);
 
+export const SelMacroSchema = z.object({
+  name: z.string().min(1).max(50),
+  parameters: z.array(z.string().min(1).max(50)).max(10).optional(),
+  expression: z.string().min(1).max(Env.MAX_SEL_LENGTH),
+});
+
+export type SelMacro = z.infer<typeof SelMacroSchema>;
+
 const SortCriterion = z.object({
   key: z.enum(constants.SORT_CRITERIA),
   direction: z.enum(constants.SORT_DIRECTIONS),
+  // the numeric stream expression used by the custom criterion
+  expression: z.string().min(1).max(Env.MAX_SEL_LENGTH).optional(),
 });
 
 export type SortCriterion = z.infer<typeof SortCriterion>;
@@ -62,6 +72,9 @@ const StreamProxyConfig = z.object({
   publicIp: z.string().optional(),
   proxiedAddons: z.array(z.string().min(1)).optional(),
   proxiedServices: z.array(z.string().min(1)).optional(),
+  // serve Matroska and fragmented MP4 files as HLS playlists, only supported
+  // by the built-in proxy
+  hls: z.boolean().optional(),
 });
 
 export type StreamProxyConfig = z.infer<typeof StreamProxyConfig>;
@@ -187,6 +200,15 @@ const DeduplicatorOptions = z.object({
     .enum(['keep_all', 'aggressive', 'conservative'])
     .optional(),
   keys: z.array(DeduplicatorKey).optional(),
+  // options for the fuzzy key
+  fuzzy: z
+    .object({
+      // minimum title similarity, from 0 to 1
+      threshold: z.number().min(0).max(1).optional(),
+      // maximum size difference in MB
+      sizeTolerance: z.number().min(0).optional(),
+    })
+    .optional(),
   cached: DeduplicatorMode.optional(),
   uncached: DeduplicatorMode.optional(),
   p2p: DeduplicatorMode.optional(),
@@ -310,6 +332,17 @@ const CatalogModification = z.object({
   hideable: z.boolean().optional(), // hide the catalog from the home page
   searchable: z.boolean().optional(), // property of whether the catalog is searchable (not a search only catalog)
   addonName: z.string().optional(), // the name of the addon that provides the catalog
+  filters: z
+    .object({
+      minRating: z.number().min(0).max(10).optional(), // drop items with a lower imdb rating, items without a rating are kept
+      excludeGenres: z.array(z.string().min(1)).optional(), // drop items of any of these genres
+      minYear: z.number().optional(), // drop items released before this year
+      maxYear: z.number().optional(), // drop items released after this year
+      hideLibrary: z.boolean().optional(), // drop items already in the debrid library
+      expression: z.string().min(1).max(Env.MAX_SEL_LENGTH).optional(), // only keep items matching this metadata expression
+    })
+    .optional(),
+  maxItems: z.number().min(1).optional(), // cap the number of items in the catalog
 });
 
 export type CatalogModification = z.infer<typeof CatalogModification>;
@@ -328,12 +361,33 @@ const MergedCatalog = z.object({
       'imdbRating', // sort by IMDB rating (descending)
       'releaseDateAsc', // sort by release date (oldest first)
       'releaseDateDesc', // sort by release date (newest first)
+      'weightedInterleave', // interleave, picking each source as often as its weight
+      'popularity', // sort by how many sources contain each item
+      'roundRobin', // interleave, deduplicating by title and year
     ])
     .optional(), // defaults to 'sequential' if not specified
+  sourceWeights: z
+    .record(z.string(), z.number().int().min(1).max(10))
+    .optional(), // weights of the catalogIds for weightedInterleave, defaults to 1
 });
 
 export type MergedCatalog = z.infer<typeof MergedCatalog>;
 
+const SmartCatalog = z.object({
+  id: z.string().min(1), // unique id for the smart catalog, e.g. aiostreams.smart.1700000000000
+  name: z.string().min(1), // name of the smart catalog
+  type: z.enum(['movie', 'series']), // the type of the smart catalog
+  source: z.enum([
+    'recentlyCached', // what was most recently added to the user's services
+    'newEpisodes', // shows from the watch history with episodes after the last one watched
+  ]),
+  services: z.array(z.enum(constants.BUILTIN_SUPPORTED_SERVICES)).optional(), // limit recentlyCached to these services
+  refreshInterval: z.number().min(1).max(168).optional(), // hours between refreshes of the items
+  enabled: z.boolean().optional(), // enable or disable the smart catalog
+});
+
+export type SmartCatalog = z.infer<typeof SmartCatalog>;
+
 export const CacheAndPlaySchema = z
   .object({
     enabled: z.boolean().optional(),
@@ -343,6 +397,27 @@ export const CacheAndPlaySchema = z
 
 export type CacheAndPlay = z.infer<typeof CacheAndPlaySchema>;
 
+export const DownloadClientSchema = z.object({
+  enabled: z.boolean().optional(),
+  type: z.enum(constants.DOWNLOAD_CLIENTS),
+  url: z.url().optional(),
+  // SABnzbd
+  apiKey: z.string().optional(),
+  // NZBGet
+  username: z.string().optional(),
+  password: z.string().optional(),
+  // categories to use for each request type, defaulting to the ones created by
+  // the download client on install
+  categories: z
+    .object({
+      movie: z.string().min(1).optional(),
+      series: z.string().min(1).optional(),
+    })
+    .optional(),
+});
+
+export type DownloadClient = z.infer<typeof DownloadClientSchema>;
+
 export const UserDataSchema = z.object({
   uuid: z.string().uuid().optional(),
   encryptedPassword: z.string().min(1).optional(),
@@ -451,6 +526,7 @@ export const UserDataSchema = z.object({
       })
     )
     .optional(),
+  selMacros: z.array(SelMacroSchema).optional(),
   // disableGroups: z.boolean().optional(),
   // groups: z
   //   .array(
@@ -518,7 +594,9 @@ export const UserDataSchema = z.object({
     .object({
       enabled: z.boolean().optional(),
       position: z.enum(['top', 'bottom']).optional(),
-      statsToShow: z.array(z.enum(['addon', 'filter'])).optional(),
+      statsToShow: z
+        .array(z.enum(['addon', 'filter', 'verification']))
+        .optional(),
     })
     .optional(),
   tmdbAccessToken: z.string().optional(),
@@ -567,15 +645,49 @@ export const UserDataSchema = z.object({
       cooldownMinutes: z.number().min(1).optional(),
     })
     .optional(),
+  watchHistory: z
+    .object({
+      enabled: z.boolean().optional(),
+      // list the continue watching catalog in the manifest
+      catalog: z.boolean().optional(),
+    })
+    .optional(),
   precacheNextEpisode: z.boolean().optional(),
+  precacheLookahead: z
+    .object({
+      // the number of episodes after the current one to precache
+      episodes: z.number().min(1).optional(),
+      // precache the rest of the current season instead
+      restOfSeason: z.boolean().optional(),
+      // the downloads a service may have in progress before precaching stops
+      maxActiveDownloads: z.number().min(1).optional(),
+    })
+    .optional(),
   /** @deprecated Use precacheCondition instead */
   alwaysPrecache: z.boolean().optional(),
   precacheCondition: z.string().optional(),
+  verifyCacheStatus: z
+    .object({
+      enabled: z.boolean().optional(),
+      addons: z.array(z.string().min(1)).optional(),
+    })
+    .optional(),
+  nzbHealthCheck: z
+    .object({
+      enabled: z.boolean().optional(),
+      // percentage of the segments of each NZB to check
+      samplePercentage: z.number().min(0.1).max(100).optional(),
+      // streams with a lower completeness are removed by the filterer
+      minCompleteness: z.number().min(0).max(100).optional(),
+    })
+    .optional(),
   services: ServiceList.optional(),
   presets: PresetList,
   catalogModifications: z.array(CatalogModification).optional(),
   mergedCatalogs: z.array(MergedCatalog).optional(),
+  smartCatalogs: z.array(SmartCatalog).optional(),
   externalDownloads: z.boolean().optional(),
+  downloadClient: DownloadClientSchema.optional(),
   cacheAndPlay: CacheAndPlaySchema.optional(),
 
   autoRemoveDownloads: z.boolean().optional(),
@@ -593,6 +705,13 @@ export const TABLES = {
       updated_at TIMESTAMP DEFAULT (CURRENT_TIMESTAMP),
       accessed_at TIMESTAMP DEFAULT (CURRENT_TIMESTAMP)
     `,
+  config_revisions: `
+      uuid TEXT NOT NULL REFERENCES users(uuid) ON DELETE CASCADE,
+      revision INTEGER NOT NULL,
+      config TEXT NOT NULL,
+      created_at BIGINT NOT NULL,
+      PRIMARY KEY (uuid, revision)
+    `,
   distributed_locks: `
       key TEXT PRIMARY KEY,
       owner TEXT NOT NULL,
@@ -838,6 +957,8 @@ export const ParsedStreamSchema = z.object({
   passthrough: PassthroughSchema.optional(),
   url: z.string().optional(),
   nzbUrl: z.string().optional(),
+  // percentage of the sampled articles of the NZB found on the user's servers
+  nzbCompleteness: z.number().optional(),
   servers: z.array(z.string().min(1)).optional(),
   rarUrls: z.array(SourceSchema).nullable().optional(),
   zipUrls: z.array(SourceSchema).nullable().optional(),
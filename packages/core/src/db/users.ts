@@ -23,6 +23,12 @@ const db = DB.getInstance();
 const txQueue = TransactionQueue.getInstance();
 const userCache = Cache.getInstance<string, UserData>('user_config', 1000, 'memory');
 
+export interface ConfigRevision {
+  revision: number;
+  // unix timestamp in milliseconds of when this config was replaced
+  createdAt: number;
+}
+
 export class UserRepository {
   static async createUser(
     config: UserData,
@@ -229,7 +235,7 @@ export class UserRepository {
       try {
         tx = await db.begin();
         const currentUser = await tx.execute(
-          'SELECT config_salt, password_hash FROM users WHERE uuid = ?',
+          'SELECT config, config_salt, password_hash FROM users WHERE uuid = ?',
           [uuid]
         );
 
@@ -278,6 +284,22 @@ export class UserRepository {
           password,
           currentUser.rows[0].config_salt
         );
+        if (Env.CONFIG_REVISION_HISTORY > 0) {
+          // keep the previous config, it is already encrypted with the same key
+          const latest = await tx.execute(
+            'SELECT MAX(revision) AS revision FROM config_revisions WHERE uuid = ?',
+            [uuid]
+          );
+          const revision = Number(latest.rows[0]?.revision ?? 0) + 1;
+          await tx.execute(
+            'INSERT INTO config_revisions (uuid, revision, config, created_at) VALUES (?, ?, ?, ?)',
+            [uuid, revision, currentUser.rows[0].config, Date.now()]
+          );
+          await tx.execute(
+            'DELETE FROM config_revisions WHERE uuid = ? AND revision <= ?',
+            [uuid, revision - Env.CONFIG_REVISION_HISTORY]
+          );
+        }
         await tx.execute(
           'UPDATE users SET config = ?, updated_at = CURRENT_TIMESTAMP WHERE uuid = ?',
           [encryptedConfig, uuid]
@@ -303,6 +325,79 @@ export class UserRepository {
     });
   }
 
+  /**
+   * List the stored revisions of a user's config, newest first.
+   */
+  static async getRevisions(
+    uuid: string,
+    password: string
+  ): Promise<ConfigRevision[]> {
+    await this.authenticate(uuid, password);
+    try {
+      const result = await db.query(
+        'SELECT revision, created_at FROM config_revisions WHERE uuid = ? ORDER BY revision DESC',
+        [uuid]
+      );
+      return result.map((row) => ({
+        revision: Number(row.revision),
+        createdAt: Number(row.created_at),
+      }));
+    } catch (error) {
+      logger.error(`Error listing revisions of user ${uuid}: ${error}`);
+      return Promise.reject(new APIError(constants.ErrorCode.DATABASE_ERROR));
+    }
+  }
+
+  static async getRevision(
+    uuid: string,
+    password: string,
+    revision: number
+  ): Promise<UserData> {
+    const { configSalt } = await this.authenticate(uuid, password);
+    let result;
+    try {
+      result = await db.query(
+        'SELECT config FROM config_revisions WHERE uuid = ? AND revision = ?',
+        [uuid, revision]
+      );
+    } catch (error) {
+      logger.error(`Error retrieving revision of user ${uuid}: ${error}`);
+      return Promise.reject(new APIError(constants.ErrorCode.DATABASE_ERROR));
+    }
+    if (!result.length) {
+      return Promise.reject(
+        new APIError(constants.ErrorCode.USER_REVISION_NOT_FOUND)
+      );
+    }
+    const config = await this.decryptConfig(
+      result[0].config,
+      password,
+      configSalt
+    );
+    config.ip = undefined;
+    return applyMigrations(config);
+  }
+
+  /**
+   * Replace a user's config with one of its revisions. This goes through
+   * updateUser, so the config being replaced is kept as a new revision and the
+   * restore can itself be undone.
+   */
+  static async restoreRevision(
+    uuid: string,
+    password: string,
+    revision: number,
+    addonPassword?: string
+  ): Promise<void> {
+    const config = await this.getRevision(uuid, password, revision);
+    if (addonPassword !== undefined) {
+      config.addonPassword = addonPassword;
+    }
+    config.uuid = uuid;
+    await this.updateUser(uuid, password, config);
+    logger.info(`Restored revision ${revision} for user ${uuid}`);
+  }
+
   static async getUserCount(): Promise<number> {
     try {
       const result = await db.query('SELECT COUNT(*) as count FROM users');
@@ -378,6 +473,31 @@ export class UserRepository {
     }
   }
 
+  private static async authenticate(
+    uuid: string,
+    password: string
+  ): Promise<{ configSalt: string }> {
+    let result;
+    try {
+      result = await db.query(
+        'SELECT config_salt, password_hash FROM users WHERE uuid = ?',
+        [uuid]
+      );
+    } catch (error) {
+      logger.error(`Error authenticating user ${uuid}: ${error}`);
+      return Promise.reject(new APIError(constants.ErrorCode.DATABASE_ERROR));
+    }
+    if (
+      !result.length ||
+      !(await this.verifyUserPassword(password, result[0].password_hash))
+    ) {
+      return Promise.reject(
+        new APIError(constants.ErrorCode.USER_INVALID_DETAILS)
+      );
+    }
+    return { configSalt: result[0].config_salt };
+  }
+
   private static async verifyUserPassword(
     password: string,
     storedHash: string
@@ -0,0 +1,410 @@
+import { z } from 'zod';
+import { DownloadClient, DownloadClientSchema } from '../db/schemas.js';
+import {
+  Cache,
+  DistributedLock,
+  Env,
+  NzbProxyManager,
+  constants,
+  createLogger,
+  decryptString,
+  encryptString,
+  getSimpleTextHash,
+  makeRequest,
+  maskSensitiveInfo,
+} from '../utils/index.js';
+import { DebridError } from './base.js';
+import { SABnzbdApi } from './usenet-stream-base.js';
+import { NZBGetApi } from './nzbget.js';
+
+const logger = createLogger('download-client');
+
+// sent jobs are remembered for this long so they can be polled, and so that
+// sending the same NZB again doesn't queue it twice
+const JOB_TTL = 7 * 24 * 60 * 60; // 7 days
+
+export const DownloadRequestSchema = z.object({
+  nzb: z.url(),
+  name: z.string().min(1),
+  category: z.string().optional(),
+});
+
+export type DownloadRequest = z.infer<typeof DownloadRequestSchema>;
+
+export type DownloadClientConfig = DownloadClient & { url: string };
+
+export interface DownloadJob {
+  id: string;
+  name?: string;
+  category?: string;
+  status:
+    | 'queued'
+    | 'downloading'
+    | 'paused'
+    | 'processing'
+    | 'completed'
+    | 'failed';
+  // percentage downloaded, only known while the job is in the queue
+  progress?: number;
+  error?: string;
+}
+
+function convertSABnzbdQueueStatus(status?: string): DownloadJob['status'] {
+  switch (status) {
+    case 'paused':
+      return 'paused';
+    case 'downloading':
+    case 'grabbing':
+    case 'fetching':
+      return 'downloading';
+    default:
+      return 'queued';
+  }
+}
+
+function convertSABnzbdHistoryStatus(status?: string): DownloadJob['status'] {
+  switch (status) {
+    case 'completed':
+      return 'completed';
+    case 'failed':
+      return 'failed';
+    default:
+      // verifying, repairing, extracting, moving and running scripts
+      return 'processing';
+  }
+}
+
+function convertNZBGetGroupStatus(status: string): DownloadJob['status'] {
+  switch (status) {
+    case 'PAUSED':
+      return 'paused';
+    case 'DOWNLOADING':
+    case 'FETCHING':
+      return 'downloading';
+    case 'QUEUED':
+    case 'PP_QUEUED':
+      return 'queued';
+    default:
+      return 'processing';
+  }
+}
+
+function convertNZBGetHistoryStatus(status: string): DownloadJob['status'] {
+  // history statuses are made up of a total status and detail, e.g. SUCCESS/ALL
+  switch (status.split('/')[0]) {
+    case 'SUCCESS':
+    case 'WARNING':
+      return 'completed';
+    default:
+      return 'failed';
+  }
+}
+
+/**
+ * Sends NZBs to a user's SABnzbd or NZBGet instance, for users that want to
+ * keep a copy of a release rather than stream it.
+ *
+ * The NZB is fetched by AIOStreams, subject to the limits of the NZB proxy,
+ * and uploaded to the download client so that the client doesn't need to be
+ * able to reach the indexer itself.
+ */
+export class DownloadClientService {
+  private static jobCache = Cache.getInstance<string, string>(
+    'download-client:jobs'
+  );
+
+  private readonly config: DownloadClientConfig;
+  private readonly sabnzbd?: SABnzbdApi;
+  private readonly nzbget?: NZBGetApi;
+
+  constructor(config: DownloadClientConfig) {
+    this.config = config;
+    switch (config.type) {
+      case 'sabnzbd':
+        this.sabnzbd = new SABnzbdApi(
+          `${config.url.replace(/\/+$/, '').replace(/\/api$/, '')}/api`,
+          config.apiKey ?? '',
+          'SABnzbd',
+          logger
+        );
+        break;
+      case 'nzbget':
+        this.nzbget = new NZBGetApi(
+          config.url,
+          config.username,
+          config.password,
+          logger
+        );
+        break;
+    }
+  }
+
+  get name(): string {
+    return constants.DOWNLOAD_CLIENT_DETAILS[this.config.type].name;
+  }
+
+  /**
+   * Create the service from the encrypted config in a URL generated with
+   * {@link DownloadClientService.generateSendUrl}.
+   */
+  static fromEncryptedConfig(encryptedConfig: string): DownloadClientService {
+    const { success, data, error } = decryptString(encryptedConfig);
+    if (!success) {
+      throw new Error(`Failed to decrypt download client config: ${error}`);
+    }
+    const config = DownloadClientSchema.parse(JSON.parse(data));
+    if (!config.url) {
+      throw new Error('Download client config is missing a URL');
+    }
+    return new DownloadClientService({ ...config, url: config.url });
+  }
+
+  private encryptConfig(): string {
+    const { success, data, error } = encryptString(JSON.stringify(this.config));
+    if (!success) {
+      throw new Error(`Failed to encrypt download client config: ${error}`);
+    }
+    return data;
+  }
+
+  /**
+   * Get the category to use for a request type, falling back to the categories
+   * the download client creates by default.
+   */
+  getCategory(type: string): string | undefined {
+    if (type !== 'movie' && type !== 'series') {
+      return undefined;
+    }
+    return (
+      this.config.categories?.[type] ??
+      constants.DOWNLOAD_CLIENT_DETAILS[this.config.type].defaultCategories[
+        type
+      ]
+    );
+  }
+
+  /**
+   * Generate the URL of the stream action that sends an NZB to the client.
+   * The status of the job can be polled at the same URL with `send` replaced
+   * by `status` and without the filename.
+   *
+   * The request is encrypted along with a hash of the client's URL, so only
+   * requests made here are accepted, and only for the client they were made
+   * for.
+   */
+  generateSendUrl(request: DownloadRequest): string {
+    const { success, data, error } = encryptString(
+      JSON.stringify({ ...request, client: this.getConfigHash() })
+    );
+    if (!success) {
+      throw new Error(`Failed to encrypt download request: ${error}`);
+    }
+    return `${Env.BASE_URL}/api/v1/downloads/send/${this.encryptConfig()}/${data}/${encodeURIComponent(request.name)}`;
+  }
+
+  /**
+   * Parse a request from a URL generated with
+   * {@link DownloadClientService.generateSendUrl} for this client.
+   */
+  parseRequest(encryptedRequest: string): DownloadRequest {
+    const { success, data, error } = decryptString(encryptedRequest);
+    if (!success) {
+      throw new Error(`Failed to decrypt download request: ${error}`);
+    }
+    const { client, ...request } = DownloadRequestSchema.extend({
+      client: z.string(),
+    }).parse(JSON.parse(data));
+    if (client !== this.getConfigHash()) {
+      throw new Error('Download request was not made for this client');
+    }
+    return request;
+  }
+
+  private getConfigHash(): string {
+    return getSimpleTextHash(`${this.config.type}:${this.config.url}`);
+  }
+
+  private getJobKey(request: DownloadRequest): string {
+    return getSimpleTextHash(
+      `${this.config.type}:${this.config.url}:${request.nzb}`
+    );
+  }
+
+  /**
+   * Send an NZB to the download client, returning the id of the job. An NZB
+   * that was already sent returns the existing job.
+   */
+  async send(request: DownloadRequest): Promise<string> {
+    const jobKey = this.getJobKey(request);
+    const { result } = await DistributedLock.getInstance().withLock(
+      `download-client:send:${jobKey}`,
+      async () => {
+        const existingJob = await DownloadClientService.jobCache.get(jobKey);
+        if (existingJob) {
+          logger.debug(`NZB was already sent to ${this.name}`, {
+            jobId: existingJob,
+          });
+          return existingJob;
+        }
+
+        const { content, filename } = await this.fetchNzb(request);
+        const category = request.category ?? '';
+        let jobId: string;
+        if (this.sabnzbd) {
+          ({ nzoId: jobId } = await this.sabnzbd.addFile(
+            content,
+            filename,
+            category,
+            request.name
+          ));
+        } else {
+          jobId = String(
+            await this.nzbget!.append(content, filename, category)
+          );
+        }
+        logger.info(`Sent ${request.name} to ${this.name}`, {
+          jobId,
+          category,
+        });
+        await DownloadClientService.jobCache.set(jobKey, jobId, JOB_TTL);
+        return jobId;
+      },
+      // held for the whole send, fetching the NZB and adding it can take up to
+      // 30s and 80s
+      { timeout: 120000, ttl: 120000 }
+    );
+    return result;
+  }
+
+  /**
+   * Get the status of a job that was sent with {@link DownloadClientService.send}.
+   */
+  async getJob(request: DownloadRequest): Promise<DownloadJob | undefined> {
+    const jobId = await DownloadClientService.jobCache.get(
+      this.getJobKey(request)
+    );
+    if (!jobId) {
+      return undefined;
+    }
+
+    if (this.sabnzbd) {
+      const queue = await this.sabnzbd.queue({ nzoIds: [jobId] });
+      const queueSlot = queue.slots.find((slot) => slot.nzoId === jobId);
+      if (queueSlot) {
+        return {
+          id: jobId,
+          name: queueSlot.name,
+          category: queueSlot.category,
+          status: convertSABnzbdQueueStatus(queueSlot.status),
+          progress: queueSlot.percentage,
+        };
+      }
+      const history = await this.sabnzbd.history({ nzoIds: [jobId] });
+      const historySlot = history.slots.find((slot) => slot.nzoId === jobId);
+      if (historySlot) {
+        return {
+          id: jobId,
+          name: historySlot.name,
+          category: historySlot.category,
+          status: convertSABnzbdHistoryStatus(historySlot.status),
+          progress: historySlot.status === 'completed' ? 100 : undefined,
+          error: historySlot.failMessage || undefined,
+        };
+      }
+      return undefined;
+    }
+
+    const nzbId = Number(jobId);
+    const group = (await this.nzbget!.listGroups()).find(
+      (group) => group.NZBID === nzbId
+    );
+    if (group) {
+      return {
+        id: jobId,
+        name: group.NZBName,
+        category: group.Category,
+        status: convertNZBGetGroupStatus(group.Status),
+        progress: group.FileSizeMB
+          ? Math.round(
+              ((group.FileSizeMB - (group.RemainingSizeMB ?? 0)) /
+                group.FileSizeMB) *
+                1000
+            ) / 10
+          : undefined,
+      };
+    }
+    const item = (await this.nzbget!.history()).find(
+      (item) => item.NZBID === nzbId
+    );
+    if (item) {
+      const status = convertNZBGetHistoryStatus(item.Status);
+      return {
+        id: jobId,
+        name: item.Name,
+        category: item.Category,
+        status,
+        progress: status === 'completed' ? 100 : undefined,
+        error: status === 'failed' ? item.Status : undefined,
+      };
+    }
+    return undefined;
+  }
+
+  private async fetchNzb(
+    request: DownloadRequest
+  ): Promise<{ content: Buffer; filename: string }> {
+    const userKey = NzbProxyManager.getUserKey(this.config.url);
+    const rateLimitCheck = NzbProxyManager.checkRateLimit(userKey);
+    if (!rateLimitCheck.allowed) {
+      throw new DebridError(rateLimitCheck.reason || 'Rate limit exceeded', {
+        statusCode: 429,
+        statusText: 'Too Many Requests',
+        code: 'TOO_MANY_REQUESTS',
+        headers: {},
+        type: 'api_error',
+      });
+    }
+
+    logger.debug(`Fetching NZB to send to ${this.name}`, {
+      nzb: maskSensitiveInfo(request.nzb),
+    });
+    const response = await makeRequest(request.nzb, {
+      method: 'GET',
+      timeout: 30000,
+    });
+    if (!response.ok) {
+      throw new DebridError(`Failed to fetch NZB: ${response.statusText}`, {
+        statusCode: response.status,
+        statusText: response.statusText,
+        code: 'UNPROCESSABLE_ENTITY',
+        headers: {},
+        type: 'api_error',
+      });
+    }
+    const content = Buffer.from(await response.arrayBuffer());
+
+    const sizeCheck = NzbProxyManager.checkSizeLimit(content.length);
+    if (!sizeCheck.allowed) {
+      throw new DebridError(sizeCheck.reason || 'NZB size limit exceeded', {
+        statusCode: 413,
+        statusText: 'Payload Too Large',
+        code: 'UNPROCESSABLE_ENTITY',
+        headers: {},
+        type: 'api_error',
+      });
+    }
+    NzbProxyManager.incrementRateLimit(userKey);
+
+    let filename =
+      response.headers
+        .get('content-disposition')
+        ?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i)?.[1] ??
+      `${request.name}.nzb`;
+    try {
+      filename = decodeURIComponent(filename);
+    } catch {
+      // malformed escapes are left as they are, rather than failing the download
+    }
+    return { content, filename };
+  }
+}
@@ -4,6 +4,11 @@ export * from './stremthru.js';
 export * from './torbox.js';
 export * from './nzbdav.js';
 export * from './altmount.js';
+export * from './torrent-client-base.js';
+export * from './qbittorrent.js';
+export * from './transmission.js';
+export * from './nzbget.js';
+export * from './download-client.js';
 
 import { ServiceId } from '../utils/index.js';
 import { DebridService, DebridServiceConfig } from './base.js';
@@ -14,6 +19,8 @@ import { NzbDAVService } from './nzbdav.js';
 import { AltmountService } from './altmount.js';
 import { StremioNNTPService } from './stremio-nntp.js';
 import { EasynewsService } from './easynews.js';
+import { QBittorrentService } from './qbittorrent.js';
+import { TransmissionService } from './transmission.js';
 
 export function getDebridService(
   serviceName: ServiceId,
@@ -36,6 +43,10 @@ export function getDebridService(
       return new StremioNNTPService(config);
     case 'easynews':
       return new EasynewsService(config);
+    case 'qbittorrent':
+      return new QBittorrentService(config);
+    case 'transmission':
+      return new TransmissionService(config);
     default:
       if (StremThruPreset.supportedServices.includes(serviceName)) {
         return new StremThruInterface({ ...config, serviceName });
@@ -0,0 +1,166 @@
+import { z } from 'zod';
+import { fetch } from 'undici';
+import { Logger } from 'winston';
+import { DebridError, convertStatusCodeToError } from './base.js';
+import { throwClientRequestError } from './torrent-client-base.js';
+import { maskSensitiveInfo } from '../utils/index.js';
+
+const RpcResponseSchema = z.object({
+  result: z.unknown().optional(),
+  error: z
+    .object({
+      name: z.string().optional(),
+      message: z.string().optional(),
+    })
+    .nullable()
+    .optional(),
+});
+
+const GroupSchema = z.object({
+  NZBID: z.number(),
+  NZBName: z.string().optional(),
+  Status: z.string(),
+  Category: z.string().optional(),
+  FileSizeMB: z.number().optional(),
+  RemainingSizeMB: z.number().optional(),
+});
+
+const HistoryItemSchema = z.object({
+  NZBID: z.number(),
+  Name: z.string().optional(),
+  Status: z.string(),
+  Category: z.string().optional(),
+});
+
+/**
+ * API client for the NZBGet JSON-RPC API.
+ *
+ * https://nzbget.com/documentation/api/
+ */
+export class NZBGetApi {
+  private readonly rpcUrl: string;
+
+  constructor(
+    url: string,
+    private readonly username: string | undefined,
+    private readonly password: string | undefined,
+    private readonly logger: Logger
+  ) {
+    // accept both the base URL and the full RPC URL
+    const baseUrl = url.trim().replace(/\/+$/, '');
+    this.rpcUrl = baseUrl.endsWith('/jsonrpc') ? baseUrl : `${baseUrl}/jsonrpc`;
+  }
+
+  private async rpc(method: string, params: unknown[]): Promise<unknown> {
+    this.logger.debug(`Making NZBGet RPC request`, {
+      method,
+      url: maskSensitiveInfo(this.rpcUrl),
+    });
+
+    let response;
+    try {
+      response = await fetch(this.rpcUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.username
+            ? {
+                Authorization: `Basic ${Buffer.from(
+                  `${this.username}:${this.password ?? ''}`
+                ).toString('base64')}`,
+              }
+            : {}),
+        },
+        body: JSON.stringify({ method, params }),
+        signal: AbortSignal.timeout(30000),
+      });
+    } catch (error) {
+      throwClientRequestError('nzbget', error);
+    }
+
+    if (!response.ok) {
+      throw new DebridError(`NZBGet API error: ${response.statusText}`, {
+        statusCode: response.status,
+        statusText: response.statusText,
+        code: convertStatusCodeToError(response.status),
+        headers: Object.fromEntries(response.headers.entries()),
+        body: await response.text(),
+        type: 'api_error',
+      });
+    }
+
+    const data = await response.json();
+    const { success, data: parsed } = RpcResponseSchema.safeParse(data);
+    if (!success) {
+      throw new DebridError('Invalid NZBGet API response', {
+        statusCode: 502,
+        statusText: 'Bad Gateway',
+        code: 'BAD_GATEWAY',
+        headers: {},
+        body: data,
+        type: 'api_error',
+      });
+    }
+    if (parsed.error) {
+      throw new DebridError(
+        `NZBGet RPC error: ${parsed.error.message ?? parsed.error.name}`,
+        {
+          statusCode: 400,
+          statusText: 'Bad Request',
+          code: 'BAD_REQUEST',
+          headers: {},
+          body: parsed,
+          type: 'api_error',
+        }
+      );
+    }
+    return parsed.result;
+  }
+
+  /**
+   * Add an NZB to the queue, returning the id of the new job.
+   */
+  async append(
+    content: Buffer,
+    filename: string,
+    category: string
+  ): Promise<number> {
+    const id = z
+      .number()
+      .parse(
+        await this.rpc('append', [
+          filename,
+          content.toString('base64'),
+          category,
+          0,
+          false,
+          false,
+          '',
+          0,
+          'SCORE',
+          [],
+        ])
+      );
+    // the id is 0 or negative when the NZB could not be added
+    if (id <= 0) {
+      throw new DebridError('Failed to queue NZB', {
+        statusCode: 400,
+        statusText: 'Bad Request',
+        code: 'BAD_REQUEST',
+        headers: {},
+        body: { filename },
+        type: 'api_error',
+      });
+    }
+    this.logger.debug(`NZB job successfully added`, { nzbId: id });
+    return id;
+  }
+
+  async listGroups() {
+    return z.array(GroupSchema).parse(await this.rpc('listgroups', [0]));
+  }
+
+  async history() {
+    return z.array(HistoryItemSchema).parse(await this.rpc('history', [false]));
+  }
+}
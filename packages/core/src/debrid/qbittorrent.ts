@@ -0,0 +1,274 @@
+import { z } from 'zod';
+import { fetch } from 'undici';
+import {
+  ClientTorrent,
+  TorrentClientConfig,
+  TorrentClientService,
+  throwClientRequestError,
+} from './torrent-client-base.js';
+import {
+  DebridDownload,
+  DebridError,
+  DebridServiceConfig,
+  convertStatusCodeToError,
+} from './base.js';
+import {
+  Cache,
+  ServiceId,
+  createLogger,
+  fromUrlSafeBase64,
+  getSimpleTextHash,
+  maskSensitiveInfo,
+} from '../utils/index.js';
+
+const logger = createLogger('qbittorrent');
+
+export const QBittorrentConfig = TorrentClientConfig.extend({
+  qbittorrentUrl: z.string().transform((s) => s.trim().replace(/\/+$/, '')),
+  qbittorrentUser: z.string().optional(),
+  qbittorrentPassword: z.string().optional(),
+});
+
+const TorrentInfoSchema = z.object({
+  hash: z.string(),
+  name: z.string(),
+  size: z.number(),
+  progress: z.number(),
+  state: z.string(),
+  save_path: z.string(),
+});
+
+const TorrentFileSchema = z.object({
+  index: z.number().optional(),
+  name: z.string(),
+  size: z.number(),
+});
+
+const QUEUED_STATES = ['metaDL', 'forcedMetaDL', 'queuedDL', 'allocating'];
+const FAILED_STATES = ['error', 'missingFiles'];
+const PROCESSING_STATES = ['moving', 'checkingResumeData'];
+
+function convertState(
+  info: z.infer<typeof TorrentInfoSchema>
+): DebridDownload['status'] {
+  if (FAILED_STATES.includes(info.state)) return 'failed';
+  if (PROCESSING_STATES.includes(info.state)) return 'processing';
+  if (info.progress >= 1) return 'downloaded';
+  if (QUEUED_STATES.includes(info.state)) return 'queued';
+  return 'downloading';
+}
+
+/**
+ * Talks to the qBittorrent WebUI API (v2).
+ */
+export class QBittorrentService extends TorrentClientService {
+  private static sessionCache = Cache.getInstance<string, string>(
+    'qbittorrent:session'
+  );
+  readonly serviceName: ServiceId = 'qbittorrent';
+  private readonly auth: z.infer<typeof QBittorrentConfig>;
+
+  constructor(config: DebridServiceConfig) {
+    const parsedConfig = QBittorrentConfig.parse(
+      JSON.parse(fromUrlSafeBase64(config.token))
+    );
+    super(config, parsedConfig, 'qbittorrent');
+    this.auth = parsedConfig;
+  }
+
+  private get sessionCacheKey() {
+    return getSimpleTextHash(
+      `${this.auth.qbittorrentUrl}:${this.auth.qbittorrentUser}:${this.auth.qbittorrentPassword}`
+    );
+  }
+
+  /**
+   * Log in and return the SID cookie. When no username is given, we rely on
+   * the WebUI's "bypass authentication for localhost/whitelisted" setting.
+   */
+  private async login(): Promise<string | undefined> {
+    if (!this.auth.qbittorrentUser) {
+      return undefined;
+    }
+    const cached = await QBittorrentService.sessionCache.get(
+      this.sessionCacheKey
+    );
+    if (cached) {
+      return cached;
+    }
+
+    let response;
+    try {
+      response = await fetch(`${this.auth.qbittorrentUrl}/api/v2/auth/login`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Referer: this.auth.qbittorrentUrl,
+        },
+        body: new URLSearchParams({
+          username: this.auth.qbittorrentUser,
+          password: this.auth.qbittorrentPassword ?? '',
+        }).toString(),
+        signal: AbortSignal.timeout(10000),
+      });
+    } catch (error) {
+      throwClientRequestError(this.serviceName, error);
+    }
+    const body = await response.text();
+    const sid = response.headers.get('set-cookie')?.match(/SID=([^;]+)/)?.[1];
+    if (!response.ok || body.trim() !== 'Ok.' || !sid) {
+      throw new DebridError('Failed to log in to qBittorrent', {
+        statusCode: response.ok ? 401 : response.status,
+        statusText: response.ok ? 'Unauthorized' : response.statusText,
+        code: 'UNAUTHORIZED',
+        headers: {},
+        body,
+        type: 'api_error',
+      });
+    }
+    await QBittorrentService.sessionCache.set(this.sessionCacheKey, sid, 1800);
+    return sid;
+  }
+
+  private async request(
+    path: string,
+    options: { query?: Record<string, string>; form?: Record<string, string> },
+    retry: boolean = true
+  ): Promise<string> {
+    const url = new URL(`${this.auth.qbittorrentUrl}/api/v2/${path}`);
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      url.searchParams.set(key, value);
+    }
+    const sid = await this.login();
+
+    logger.debug(`Making qBittorrent API request`, {
+      path,
+      url: maskSensitiveInfo(url.toString()),
+    });
+
+    let response;
+    try {
+      response = await fetch(url.toString(), {
+        method: options.form ? 'POST' : 'GET',
+        headers: {
+          Referer: this.auth.qbittorrentUrl,
+          ...(sid ? { Cookie: `SID=${sid}` } : {}),
+          ...(options.form
+            ? { 'Content-Type': 'application/x-www-form-urlencoded' }
+            : {}),
+        },
+        body: options.form
+          ? new URLSearchParams(options.form).toString()
+          : undefined,
+        signal: AbortSignal.timeout(15000),
+      });
+    } catch (error) {
+      throwClientRequestError(this.serviceName, error);
+    }
+
+    // the session expired, log in again once
+    if (response.status === 403 && sid && retry) {
+      await QBittorrentService.sessionCache.delete(this.sessionCacheKey);
+      return this.request(path, options, false);
+    }
+
+    const body = await response.text();
+    if (!response.ok) {
+      throw new DebridError(`qBittorrent API error: ${response.statusText}`, {
+        statusCode: response.status,
+        statusText: response.statusText,
+        code: convertStatusCodeToError(response.status),
+        headers: Object.fromEntries(response.headers.entries()),
+        body,
+        type: 'api_error',
+      });
+    }
+    return body;
+  }
+
+  private async requestJson<T>(
+    path: string,
+    schema: z.ZodType<T>,
+    query?: Record<string, string>
+  ): Promise<T> {
+    const body = await this.request(path, { query });
+    const { success, data } = schema.safeParse(JSON.parse(body));
+    if (!success) {
+      throw new DebridError('Invalid qBittorrent API response', {
+        statusCode: 502,
+        statusText: 'Bad Gateway',
+        code: 'BAD_GATEWAY',
+        headers: {},
+        body,
+        type: 'api_error',
+      });
+    }
+    return data;
+  }
+
+  private toClientTorrent(
+    info: z.infer<typeof TorrentInfoSchema>
+  ): ClientTorrent {
+    return {
+      hash: info.hash.toLowerCase(),
+      name: info.name,
+      size: info.size,
+      status: convertState(info),
+      savePath: info.save_path,
+    };
+  }
+
+  protected async listTorrents(): Promise<ClientTorrent[]> {
+    const torrents = await this.requestJson(
+      'torrents/info',
+      z.array(TorrentInfoSchema)
+    );
+    return torrents.map((info) => this.toClientTorrent(info));
+  }
+
+  protected async getTorrent(hash: string): Promise<ClientTorrent | undefined> {
+    const [info] = await this.requestJson(
+      'torrents/info',
+      z.array(TorrentInfoSchema),
+      { hashes: hash }
+    );
+    if (!info) {
+      return undefined;
+    }
+    const files = await this.requestJson(
+      'torrents/files',
+      z.array(TorrentFileSchema),
+      { hash }
+    );
+    return {
+      ...this.toClientTorrent(info),
+      files: files.map((file, index) => ({
+        name: file.name,
+        size: file.size,
+        index: file.index ?? index,
+      })),
+    };
+  }
+
+  protected async addTorrent(magnet: string): Promise<void> {
+    const body = await this.request('torrents/add', {
+      form: { urls: magnet },
+    });
+    if (body.trim() === 'Fails.') {
+      throw new DebridError('qBittorrent refused to add the torrent', {
+        statusCode: 400,
+        statusText: 'Bad Request',
+        code: 'STORE_MAGNET_INVALID',
+        headers: {},
+        body,
+        type: 'api_error',
+      });
+    }
+  }
+
+  protected async deleteTorrent(hash: string): Promise<void> {
+    await this.request('torrents/delete', {
+      form: { hashes: hash, deleteFiles: 'false' },
+    });
+  }
+}
@@ -18,6 +18,7 @@ import {
 import { StremThruServiceId } from '../presets/stremthru.js';
 import { parseTorrentTitle, ParsedResult } from '@viren070/parse-torrent-title';
 import assert from 'assert';
+import { ReleaseFingerprints } from '../streams/fingerprints.js';
 
 const logger = createLogger('debrid:stremthru');
 
@@ -64,6 +65,7 @@ export class StremThruInterface implements DebridService {
 
   public async listMagnets(): Promise<DebridDownload[]> {
     const result = await this.stremthru.store.listMagnets({});
+    ReleaseFingerprints.record(result.data.items);
     return result.data.items;
   }
 
@@ -0,0 +1,507 @@
+import {
+  Env,
+  ServiceId,
+  constants,
+  createLogger,
+  getTimeTakenSincePoint,
+  maskSensitiveInfo,
+  Cache,
+  DistributedLock,
+} from '../utils/index.js';
+import { selectFileInTorrentOrNZB, Torrent } from './utils.js';
+import {
+  DebridService,
+  DebridServiceConfig,
+  DebridDownload,
+  PlaybackInfo,
+  DebridError,
+  DebridFile,
+} from './base.js';
+import { ParsedResult, parseTorrentTitle } from '@viren070/parse-torrent-title';
+import { z } from 'zod';
+import { BuiltinProxy } from '../proxy/builtin.js';
+import { posix } from 'path';
+import { Logger } from 'winston';
+
+const logger = createLogger('torrent-client');
+
+const trimUrl = (s: string) => s.trim().replace(/\/+$/, '');
+
+/**
+ * Options shared by all self-hosted torrent clients. The client itself only
+ * downloads the files, so finished files are served from `fileServerUrl`,
+ * which must expose the client's download directory (`downloadPath`) over
+ * HTTP, e.g. a static file server or a WebDAV share.
+ */
+export const TorrentClientConfig = z.object({
+  fileServerUrl: z.string().transform(trimUrl),
+  fileServerUser: z.string().optional(),
+  fileServerPassword: z.string().optional(),
+  downloadPath: z
+    .string()
+    .optional()
+    .transform((s) => s?.trim().replace(/\/+$/, '') || '/'),
+  aiostreamsAuth: z.string().optional(),
+});
+
+export type TorrentClientConfig = z.infer<typeof TorrentClientConfig>;
+
+/**
+ * A torrent as reported by the client. `savePath` is the directory that the
+ * file names are relative to, as seen by the client.
+ */
+export interface ClientTorrent {
+  hash: string;
+  name: string;
+  size: number;
+  status: DebridDownload['status'];
+  savePath: string;
+  files?: { name: string; size: number; index: number }[];
+}
+
+/**
+ * Base class for self-hosted torrent clients (qBittorrent, Transmission).
+ * Unlike a debrid service, nothing is instantly available: a torrent is only
+ * reported as cached once the client has finished downloading it.
+ */
+export abstract class TorrentClientService implements DebridService {
+  protected static playbackLinkCache = Cache.getInstance<string, string | null>(
+    'torrent-client:link'
+  );
+  protected static libraryCache = Cache.getInstance<string, ClientTorrent[]>(
+    'torrent-client:library'
+  );
+
+  readonly supportsUsenet = false;
+  abstract readonly serviceName: ServiceId;
+
+  protected readonly serviceLogger: Logger;
+
+  /**
+   * List the torrents in the client, without their files.
+   */
+  protected abstract listTorrents(): Promise<ClientTorrent[]>;
+
+  /**
+   * Get a single torrent along with its files, or undefined if the client
+   * does not have it.
+   */
+  protected abstract getTorrent(
+    hash: string
+  ): Promise<ClientTorrent | undefined>;
+
+  protected abstract addTorrent(magnet: string): Promise<void>;
+
+  protected abstract deleteTorrent(hash: string): Promise<void>;
+
+  constructor(
+    protected readonly config: DebridServiceConfig,
+    protected readonly options: TorrentClientConfig,
+    serviceName: ServiceId
+  ) {
+    this.serviceLogger = createLogger(serviceName);
+  }
+
+  private get libraryCacheKey() {
+    return `${this.serviceName}:${this.config.token}`;
+  }
+
+  private async getLibrary(): Promise<ClientTorrent[]> {
+    const { result } = await DistributedLock.getInstance().withLock(
+      `torrent-client:library:${this.libraryCacheKey}`,
+      async () => {
+        const cached = await TorrentClientService.libraryCache.get(
+          this.libraryCacheKey
+        );
+        if (cached) {
+          return cached;
+        }
+        const start = Date.now();
+        const torrents = await this.listTorrents();
+        this.serviceLogger.debug(`Listed torrents from client`, {
+          count: torrents.length,
+          time: getTimeTakenSincePoint(start),
+        });
+        await TorrentClientService.libraryCache.set(
+          this.libraryCacheKey,
+          torrents,
+          Env.BUILTIN_DEBRID_LIBRARY_CACHE_TTL,
+          true
+        );
+        return torrents;
+      },
+      {
+        type: 'memory',
+        timeout: 5000,
+      }
+    );
+    return result;
+  }
+
+  private toDebridDownload(torrent: ClientTorrent): DebridDownload {
+    return {
+      id: torrent.hash,
+      hash: torrent.hash,
+      name: torrent.name,
+      size: torrent.size,
+      status: torrent.status,
+      library: true,
+      files: torrent.files?.map((file) => {
+        const path = posix.join(torrent.savePath, file.name);
+        return {
+          id: file.index,
+          index: file.index,
+          name: posix.basename(file.name),
+          size: file.size,
+          path,
+          link: this.getFileUrl(path),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Map a path on the client's filesystem to a URL on the file server.
+   */
+  protected getFileUrl(path: string): string {
+    const relativePath = posix.relative(this.options.downloadPath, path);
+    if (relativePath.startsWith('..')) {
+      throw new DebridError(
+        `File ${path} is outside of the download path ${this.options.downloadPath}`,
+        {
+          statusCode: 400,
+          statusText: 'Bad Request',
+          code: 'BAD_REQUEST',
+          headers: {},
+          body: { path, downloadPath: this.options.downloadPath },
+          type: 'api_error',
+        }
+      );
+    }
+    return `${this.options.fileServerUrl}/${relativePath
+      .split('/')
+      .map(encodeURIComponent)
+      .join('/')}`;
+  }
+
+  public async listMagnets(): Promise<DebridDownload[]> {
+    const torrents = await this.getLibrary();
+    return torrents.map((torrent) => this.toDebridDownload(torrent));
+  }
+
+  public async checkMagnets(
+    magnets: string[],
+    sid?: string
+  ): Promise<DebridDownload[]> {
+    const library = await this.getLibrary();
+    return Promise.all(
+      magnets.map(async (magnet) => {
+        const hash = extractHash(magnet);
+        const torrent = library.find((t) => t.hash === hash);
+        if (!torrent) {
+          return { id: -1, hash, status: 'unknown' as const };
+        }
+        // only fetch files for torrents the client actually has
+        const detailed = (await this.getTorrent(hash)) ?? torrent;
+        const download = this.toDebridDownload(detailed);
+        return {
+          ...download,
+          status: download.status === 'downloaded' ? 'cached' : download.status,
+        };
+      })
+    );
+  }
+
+  public async addMagnet(magnet: string): Promise<DebridDownload> {
+    const hash = extractHash(magnet);
+    let torrent = await this.getTorrent(hash);
+    if (!torrent) {
+      await this.addTorrent(magnet);
+      await TorrentClientService.libraryCache.delete(this.libraryCacheKey);
+      // the client adds torrents asynchronously, so wait for it to show up
+      for (let i = 0; i < 5 && !torrent; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        torrent = await this.getTorrent(hash);
+      }
+    }
+    if (!torrent) {
+      return { id: hash, hash, status: 'queued' };
+    }
+    return this.toDebridDownload(torrent);
+  }
+
+  public async removeMagnet(magnetId: string): Promise<void> {
+    await this.deleteTorrent(magnetId);
+    await TorrentClientService.libraryCache.delete(this.libraryCacheKey);
+  }
+
+  /**
+   * Files are served by the file server, so the link is only proxied through
+   * the built-in proxy when an auth token was given. Otherwise, the file
+   * server credentials are embedded in the URL.
+   */
+  public async generateTorrentLink(
+    link: string,
+    clientIp?: string
+  ): Promise<string> {
+    const { fileServerUser, fileServerPassword, aiostreamsAuth } = this.options;
+    if (!aiostreamsAuth) {
+      const url = new URL(link);
+      if (fileServerUser && fileServerPassword) {
+        url.username = encodeURIComponent(fileServerUser);
+        url.password = encodeURIComponent(fileServerPassword);
+      }
+      return url.toString();
+    }
+
+    const proxy = new BuiltinProxy({
+      id: constants.BUILTIN_SERVICE,
+      enabled: true,
+      credentials: aiostreamsAuth,
+    });
+    const urls = await proxy.generateUrls([
+      {
+        url: link,
+        filename: decodeURIComponent(posix.basename(new URL(link).pathname)),
+        headers:
+          fileServerUser && fileServerPassword
+            ? {
+                request: {
+                  Authorization: `Basic ${Buffer.from(
+                    `${fileServerUser}:${fileServerPassword}`
+                  ).toString('base64')}`,
+                },
+              }
+            : undefined,
+      },
+    ]);
+    if (!urls || 'error' in urls || !urls[0]) {
+      throw new DebridError('Invalid AIOStreams Proxy Auth', {
+        statusCode: 401,
+        statusText: 'Unauthorized',
+        code: 'UNAUTHORIZED',
+        headers: {},
+        body: urls && 'error' in urls ? urls.error : null,
+        type: 'api_error',
+      });
+    }
+    return urls[0];
+  }
+
+  public async resolve(
+    playbackInfo: PlaybackInfo,
+    filename: string,
+    cacheAndPlay: boolean
+  ): Promise<string | undefined> {
+    if (playbackInfo.type === 'usenet') {
+      throw new DebridError(
+        `${this.serviceName} does not support usenet operations`,
+        {
+          statusCode: 400,
+          statusText: 'Bad Request',
+          code: 'NOT_IMPLEMENTED',
+          headers: {},
+          body: null,
+          type: 'api_error',
+        }
+      );
+    }
+    const { result } = await DistributedLock.getInstance().withLock(
+      `${this.serviceName}:resolve:${playbackInfo.hash}:${playbackInfo.metadata?.season}:${playbackInfo.metadata?.episode}:${playbackInfo.metadata?.absoluteEpisode}:${filename}:${cacheAndPlay}:${this.config.clientIp}:${this.config.token}`,
+      () => this._resolve(playbackInfo, filename, cacheAndPlay),
+      {
+        timeout: cacheAndPlay ? 120000 : 30000,
+        ttl: 10000,
+      }
+    );
+    return result;
+  }
+
+  // autoRemoveDownloads is not supported here, removing the torrent from a
+  // local client would also remove the files we are about to stream.
+  protected async _resolve(
+    playbackInfo: PlaybackInfo & { type: 'torrent' },
+    filename: string,
+    cacheAndPlay: boolean
+  ): Promise<string | undefined> {
+    const { hash, metadata } = playbackInfo;
+    const cacheKey = `${this.serviceName}:${this.config.token}:${this.config.clientIp}:${hash}:${metadata?.season}:${metadata?.episode}:${metadata?.absoluteEpisode}`;
+    const cachedLink =
+      await TorrentClientService.playbackLinkCache.get(cacheKey);
+
+    if (cachedLink !== undefined) {
+      this.serviceLogger.debug(`Using cached link for ${hash}`);
+      if (cachedLink === null) {
+        if (!cacheAndPlay) {
+          return undefined;
+        }
+      } else {
+        return cachedLink;
+      }
+    }
+
+    let magnet = `magnet:?xt=urn:btih:${hash}`;
+    if (playbackInfo.filename) {
+      magnet += `&dn=${encodeURIComponent(playbackInfo.filename)}`;
+    }
+    if (playbackInfo.sources.length > 0) {
+      magnet += `&tr=${playbackInfo.sources.map(encodeURIComponent).join('&tr=')}`;
+    }
+
+    this.serviceLogger.debug(`Adding magnet to ${this.serviceName}`, {
+      hash,
+      magnet: maskSensitiveInfo(magnet),
+    });
+    let download = await this.addMagnet(magnet);
+
+    if (download.status !== 'downloaded') {
+      // temporarily cache the null value for 1m
+      await TorrentClientService.playbackLinkCache.set(cacheKey, null, 60);
+      if (!cacheAndPlay) {
+        return undefined;
+      }
+      // poll status when cacheAndPlay is true, max wait time is 110s
+      for (let i = 0; i < 10; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 11000));
+        const torrent = await this.getTorrent(hash);
+        this.serviceLogger.debug(`Polled status for ${hash}`, {
+          attempt: i + 1,
+          status: torrent?.status,
+        });
+        if (torrent?.status === 'failed') {
+          throw new DebridError('Torrent failed to download', {
+            statusCode: 400,
+            statusText: 'Bad Request',
+            code: 'UNKNOWN',
+            headers: {},
+            body: { hash },
+            type: 'api_error',
+          });
+        }
+        if (torrent?.status === 'downloaded') {
+          download = this.toDebridDownload(torrent);
+          break;
+        }
+      }
+      if (download.status !== 'downloaded') {
+        return undefined;
+      }
+    }
+
+    if (!download.files?.length) {
+      throw new DebridError('No files found for torrent', {
+        statusCode: 400,
+        statusText: 'Bad Request',
+        code: 'NO_MATCHING_FILE',
+        headers: {},
+        body: download,
+        type: 'api_error',
+      });
+    }
+
+    const torrent: Torrent = {
+      title: download.name || '',
+      hash,
+      size: download.size || 0,
+      type: 'torrent',
+      sources: playbackInfo.sources,
+      private: playbackInfo.private,
+    };
+
+    const allStrings = [
+      download.name ?? '',
+      ...download.files.map((file) => file.name ?? ''),
+    ];
+    const parseResults: ParsedResult[] = allStrings.map((string) =>
+      parseTorrentTitle(string)
+    );
+    const parsedFiles = new Map<string, ParsedResult>();
+    for (const [index, result] of parseResults.entries()) {
+      parsedFiles.set(allStrings[index], result);
+    }
+
+    const file: DebridFile | undefined = await selectFileInTorrentOrNZB(
+      torrent,
+      download,
+      parsedFiles,
+      metadata,
+      {
+        chosenFilename: playbackInfo.filename,
+        chosenIndex: playbackInfo.index,
+      }
+    );
+
+    if (!file?.link) {
+      throw new DebridError('No matching file found', {
+        statusCode: 400,
+        statusText: 'Bad Request',
+        code: 'NO_MATCHING_FILE',
+        headers: {},
+        body: { availableFiles: download.files.map((f) => f.name) },
+        type: 'api_error',
+      });
+    }
+
+    this.serviceLogger.debug(`Selected file for playback`, {
+      chosenFile: file.name,
+      chosenPath: file.path,
+      availableFiles: download.files.length,
+    });
+
+    const playbackLink = await this.generateTorrentLink(
+      file.link,
+      this.config.clientIp
+    );
+    await TorrentClientService.playbackLinkCache.set(
+      cacheKey,
+      playbackLink,
+      Env.BUILTIN_DEBRID_PLAYBACK_LINK_CACHE_TTL,
+      true
+    );
+    return playbackLink;
+  }
+}
+
+function extractHash(magnet: string): string {
+  return (
+    magnet.match(/(?:urn(?::|%3A)btih(?::|%3A))([a-f0-9]{40})/i)?.[1] ?? magnet
+  ).toLowerCase();
+}
+
+/**
+ * Throw a DebridError for a failed request to a torrent client.
+ */
+export function throwClientRequestError(
+  serviceName: string,
+  error: unknown
+): never {
+  if (error instanceof DebridError) {
+    throw error;
+  }
+  if (
+    (error as Error).name === 'AbortError' ||
+    (error as Error).name === 'TimeoutError'
+  ) {
+    throw new DebridError('Request timeout', {
+      statusCode: 504,
+      statusText: 'Gateway Timeout',
+      code: 'UNKNOWN',
+      headers: {},
+      body: null,
+      type: 'api_error',
+      cause: error,
+    });
+  }
+  logger.error(`${serviceName} request failed`, {
+    error: (error as Error).message,
+  });
+  throw new DebridError(`Request failed: ${(error as Error).message}`, {
+    statusCode: 500,
+    statusText: 'Internal Server Error',
+    code: 'UNKNOWN',
+    headers: {},
+    body: error,
+    type: 'api_error',
+    cause: error,
+  });
+}
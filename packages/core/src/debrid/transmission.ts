@@ -0,0 +1,225 @@
+import { z } from 'zod';
+import { fetch } from 'undici';
+import {
+  ClientTorrent,
+  TorrentClientConfig,
+  TorrentClientService,
+  throwClientRequestError,
+} from './torrent-client-base.js';
+import {
+  DebridDownload,
+  DebridError,
+  DebridServiceConfig,
+  convertStatusCodeToError,
+} from './base.js';
+import {
+  ServiceId,
+  createLogger,
+  fromUrlSafeBase64,
+  maskSensitiveInfo,
+} from '../utils/index.js';
+
+const logger = createLogger('transmission');
+
+export const TransmissionConfig = TorrentClientConfig.extend({
+  transmissionUrl: z
+    .string()
+    .transform((s) => s.trim().replace(/\/+$/, ''))
+    // accept both the base URL and the full RPC URL
+    .transform((s) => (s.endsWith('/rpc') ? s : `${s}/transmission/rpc`)),
+  transmissionUser: z.string().optional(),
+  transmissionPassword: z.string().optional(),
+});
+
+const TorrentSchema = z.object({
+  hashString: z.string(),
+  name: z.string(),
+  totalSize: z.number(),
+  percentDone: z.number(),
+  status: z.number(),
+  error: z.number(),
+  downloadDir: z.string(),
+  files: z.array(z.object({ name: z.string(), length: z.number() })).optional(),
+});
+
+const RpcResponseSchema = z.object({
+  result: z.string(),
+  arguments: z
+    .object({
+      torrents: z.array(TorrentSchema).optional(),
+    })
+    .passthrough()
+    .optional(),
+});
+
+const TORRENT_FIELDS = [
+  'hashString',
+  'name',
+  'totalSize',
+  'percentDone',
+  'status',
+  'error',
+  'downloadDir',
+];
+
+// https://github.com/transmission/transmission/blob/main/docs/rpc-spec.md
+const STATUS_CHECK_WAIT = 1;
+const STATUS_CHECK = 2;
+const STATUS_DOWNLOAD_WAIT = 3;
+
+function convertStatus(
+  torrent: z.infer<typeof TorrentSchema>
+): DebridDownload['status'] {
+  if (torrent.error !== 0) return 'failed';
+  if (torrent.status === STATUS_CHECK_WAIT || torrent.status === STATUS_CHECK)
+    return 'processing';
+  if (torrent.percentDone >= 1) return 'downloaded';
+  if (torrent.status === STATUS_DOWNLOAD_WAIT) return 'queued';
+  return 'downloading';
+}
+
+/**
+ * Talks to the Transmission RPC API.
+ */
+export class TransmissionService extends TorrentClientService {
+  // Transmission requires a session id header to protect against CSRF, it is
+  // returned in a 409 response and stays valid until the daemon restarts
+  private static sessionIds = new Map<string, string>();
+  readonly serviceName: ServiceId = 'transmission';
+  private readonly auth: z.infer<typeof TransmissionConfig>;
+
+  constructor(config: DebridServiceConfig) {
+    const parsedConfig = TransmissionConfig.parse(
+      JSON.parse(fromUrlSafeBase64(config.token))
+    );
+    super(config, parsedConfig, 'transmission');
+    this.auth = parsedConfig;
+  }
+
+  private async rpc(
+    method: string,
+    args: Record<string, unknown>,
+    retry: boolean = true
+  ): Promise<z.infer<typeof RpcResponseSchema>> {
+    const sessionId = TransmissionService.sessionIds.get(
+      this.auth.transmissionUrl
+    );
+
+    logger.debug(`Making Transmission RPC request`, {
+      method,
+      url: maskSensitiveInfo(this.auth.transmissionUrl),
+    });
+
+    let response;
+    try {
+      response = await fetch(this.auth.transmissionUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(sessionId ? { 'X-Transmission-Session-Id': sessionId } : {}),
+          ...(this.auth.transmissionUser
+            ? {
+                Authorization: `Basic ${Buffer.from(
+                  `${this.auth.transmissionUser}:${this.auth.transmissionPassword ?? ''}`
+                ).toString('base64')}`,
+              }
+            : {}),
+        },
+        body: JSON.stringify({ method, arguments: args }),
+        signal: AbortSignal.timeout(15000),
+      });
+    } catch (error) {
+      throwClientRequestError(this.serviceName, error);
+    }
+
+    if (response.status === 409 && retry) {
+      const newSessionId = response.headers.get('X-Transmission-Session-Id');
+      if (newSessionId) {
+        TransmissionService.sessionIds.set(
+          this.auth.transmissionUrl,
+          newSessionId
+        );
+        return this.rpc(method, args, false);
+      }
+    }
+
+    if (!response.ok) {
+      throw new DebridError(`Transmission API error: ${response.statusText}`, {
+        statusCode: response.status,
+        statusText: response.statusText,
+        code: convertStatusCodeToError(response.status),
+        headers: Object.fromEntries(response.headers.entries()),
+        body: await response.text(),
+        type: 'api_error',
+      });
+    }
+
+    const data = await response.json();
+    const { success, data: parsed } = RpcResponseSchema.safeParse(data);
+    if (!success) {
+      throw new DebridError('Invalid Transmission API response', {
+        statusCode: 502,
+        statusText: 'Bad Gateway',
+        code: 'BAD_GATEWAY',
+        headers: {},
+        body: data,
+        type: 'api_error',
+      });
+    }
+    if (parsed.result !== 'success') {
+      throw new DebridError(`Transmission RPC error: ${parsed.result}`, {
+        statusCode: 400,
+        statusText: 'Bad Request',
+        code: 'BAD_REQUEST',
+        headers: {},
+        body: parsed,
+        type: 'api_error',
+      });
+    }
+    return parsed;
+  }
+
+  private toClientTorrent(
+    torrent: z.infer<typeof TorrentSchema>
+  ): ClientTorrent {
+    return {
+      hash: torrent.hashString.toLowerCase(),
+      name: torrent.name,
+      size: torrent.totalSize,
+      status: convertStatus(torrent),
+      savePath: torrent.downloadDir,
+      files: torrent.files?.map((file, index) => ({
+        name: file.name,
+        size: file.length,
+        index,
+      })),
+    };
+  }
+
+  protected async listTorrents(): Promise<ClientTorrent[]> {
+    const { arguments: result } = await this.rpc('torrent-get', {
+      fields: TORRENT_FIELDS,
+    });
+    return (result?.torrents ?? []).map((t) => this.toClientTorrent(t));
+  }
+
+  protected async getTorrent(hash: string): Promise<ClientTorrent | undefined> {
+    const { arguments: result } = await this.rpc('torrent-get', {
+      ids: [hash],
+      fields: [...TORRENT_FIELDS, 'files'],
+    });
+    const torrent = result?.torrents?.[0];
+    return torrent ? this.toClientTorrent(torrent) : undefined;
+  }
+
+  protected async addTorrent(magnet: string): Promise<void> {
+    await this.rpc('torrent-add', { filename: magnet });
+  }
+
+  protected async deleteTorrent(hash: string): Promise<void> {
+    await this.rpc('torrent-remove', {
+      ids: [hash],
+      'delete-local-data': false,
+    });
+  }
+}
@@ -17,12 +17,14 @@ import {
   PlaybackInfo,
   DebridError,
   DebridFile,
+  convertStatusCodeToError,
 } from './base.js';
 import { ParsedResult, parseTorrentTitle } from '@viren070/parse-torrent-title';
 import z, { ZodError } from 'zod';
 import { createClient, WebDAVClient, FileStat } from 'webdav';
-import { fetch } from 'undici';
+import { fetch, FormData } from 'undici';
 import { BuiltinProxy } from '../proxy/builtin.js';
+import { ReleaseFingerprints } from '../streams/fingerprints.js';
 import { basename } from 'path';
 import { Logger } from 'winston';
 
@@ -42,6 +44,25 @@ const HistorySlotSchema = z.object({
   fail_message: z.string().optional(),
 });
 
+const QueueSlotSchema = z.object({
+  nzo_id: z.string(),
+  status: z.string().optional(),
+  filename: z.string().optional(),
+  cat: z.string().optional(),
+  percentage: z.coerce.number().optional(),
+  timeleft: z.string().optional(),
+});
+
+const QueueResponseSchema = z.object({
+  status: z.boolean().optional(),
+  queue: z
+    .object({
+      slots: z.array(QueueSlotSchema),
+    })
+    .optional(),
+  error: z.string().nullable().optional(),
+});
+
 const HistoryResponseSchema = z.object({
   status: z.boolean().optional(),
   history: z
@@ -80,28 +101,14 @@ const transformHistoryResponse = (
   error: data.error,
 });
 
-const convertStatusCodeToError = (code: number): DebridError['code'] => {
-  switch (code) {
-    case 400:
-      return 'BAD_REQUEST';
-    case 401:
-      return 'UNAUTHORIZED';
-    case 403:
-      return 'FORBIDDEN';
-    case 404:
-      return 'NOT_FOUND';
-    case 429:
-      return 'TOO_MANY_REQUESTS';
-    case 500:
-      return 'INTERNAL_SERVER_ERROR';
-    case 501:
-      return 'NOT_IMPLEMENTED';
-    case 503:
-      return 'SERVICE_UNAVAILABLE';
-    default:
-      return 'UNKNOWN';
-  }
-};
+const transformQueueSlot = (slot: z.infer<typeof QueueSlotSchema>) => ({
+  nzoId: slot.nzo_id,
+  status: slot.status?.toLowerCase(),
+  name: slot.filename,
+  category: slot.cat,
+  percentage: slot.percentage,
+  timeLeft: slot.timeleft,
+});
 
 /**
  * API client for SABnzbd APIs
@@ -123,7 +130,8 @@ export class SABnzbdApi {
       string | undefined | number | boolean | null | string[]
     >,
     schema: T,
-    timeoutMs: number = 80000
+    timeoutMs: number = 80000,
+    body?: FormData
   ): Promise<{
     data: z.infer<T>;
     statusCode: number;
@@ -145,10 +153,11 @@ export class SABnzbdApi {
 
     try {
       const response = await fetch(url.toString(), {
-        method: 'GET',
+        method: body ? 'POST' : 'GET',
         headers: {
           'x-api-key': this.apiKey,
         },
+        body,
         signal: AbortSignal.timeout(timeoutMs),
         // redirect: 'manual',
       });
@@ -304,6 +313,90 @@ export class SABnzbdApi {
     return { nzoId };
   }
 
+  /**
+   * Upload the contents of an NZB, for when the NZB URL is not reachable by
+   * the SABnzbd instance.
+   */
+  async addFile(
+    content: Buffer,
+    filename: string,
+    category: string,
+    jobLabel: string
+  ): Promise<{ nzoId: string }> {
+    const params = {
+      mode: 'addfile',
+      apikey: this.apiKey,
+      cat: category,
+      nzbname: jobLabel,
+      output: 'json',
+    };
+    const form = new FormData();
+    form.append(
+      'name',
+      new Blob([content], { type: 'application/x-nzb' }),
+      filename
+    );
+
+    const {
+      data: parsed,
+      statusCode,
+      statusText,
+      headers,
+    } = await this.request(params, AddUrlResponseSchema, 80000, form);
+    const transformed = transformAddUrlResponse(parsed);
+
+    const nzoId = transformed.nzoIds?.[0];
+    if (!transformed.status || !nzoId) {
+      throw new DebridError(
+        `Failed to queue NZB: ${transformed.error || 'Unknown error'}`,
+        {
+          statusCode,
+          statusText,
+          code: convertStatusCodeToError(statusCode),
+          headers,
+          body: parsed,
+          type: 'api_error',
+        }
+      );
+    }
+
+    this.logger.debug(`NZB file successfully added`, {
+      nzoId,
+    });
+    return { nzoId };
+  }
+
+  async queue(params: { nzoIds?: string[] } = {}) {
+    const tParams = {
+      mode: 'queue',
+      apikey: this.apiKey,
+      nzo_ids: params.nzoIds ? params.nzoIds.join(',') : undefined,
+      output: 'json',
+    };
+
+    const {
+      data: parsed,
+      statusCode,
+      statusText,
+      headers,
+    } = await this.request(tParams, QueueResponseSchema, 60000);
+
+    if (parsed.status === false || !parsed.queue) {
+      throw new DebridError(
+        `Failed to query queue: ${parsed.error || 'Unknown error'}`,
+        {
+          statusCode,
+          statusText,
+          code: convertStatusCodeToError(statusCode),
+          headers,
+          body: JSON.stringify(parsed),
+          type: 'api_error',
+        }
+      );
+    }
+    return { slots: parsed.queue.slots.map(transformQueueSlot) };
+  }
+
   async history(
     params: {
       start?: number;
@@ -678,6 +771,7 @@ export abstract class UsenetStreamService implements DebridService {
           Env.BUILTIN_DEBRID_LIBRARY_CACHE_TTL,
           true
         );
+        ReleaseFingerprints.record(nzbs);
 
         return nzbs;
       },
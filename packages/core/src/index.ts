@@ -17,6 +17,8 @@ export {
   ProwlarrAddon,
   KnabenAddon,
   TorrentGalaxyAddon,
+  ScraperAddon,
+  LibraryAddon,
   SeaDexAddon,
   EasynewsSearchAddon,
   EasynewsAuthSchema,
@@ -25,3 +27,16 @@ export {
   EasynewsNzbParams,
 } from './builtins/index.js';
 export { PresetManager } from './presets/index.js';
+export { LocalMetadata } from './metadata/local.js';
+export {
+  StreamCacheVerifier,
+  AddonHealth,
+  WatchHistory,
+} from './streams/index.js';
+export type {
+  StreamExplanation,
+  CacheClaimAccuracy,
+  AddonHealthStatus,
+  AddonHealthSummary,
+  WatchEntry,
+} from './streams/index.js';
@@ -18,12 +18,15 @@ import {
   AnimeDatabase,
   ParsedId,
   IdParser,
+  DistributedLock,
 } from './utils/index.js';
 import { Wrapper } from './wrapper.js';
 import { PresetManager } from './presets/index.js';
 import {
   AddonCatalog,
+  CatalogModification,
   MergedCatalog,
+  SmartCatalog,
   Meta,
   MetaPreview,
   ParsedMeta,
@@ -32,6 +35,7 @@ import {
   Subtitle,
 } from './db/schemas.js';
 import { createProxy } from './proxy/index.js';
+import { DownloadClientService } from './debrid/download-client.js';
 import { TopPoster } from './utils/top-poster.js';
 import { RPDB } from './utils/rpdb.js';
 import { FeatureControl } from './utils/feature.js';
@@ -45,19 +49,54 @@ import {
   StreamPrecomputer as Precomputer,
   StreamUtils,
   StreamContext,
+  StreamExplainer,
+  StreamExplanation,
+  StreamCacheVerifier as Verifier,
+  DownloadBudget,
+  WatchHistory,
 } from './streams/index.js';
 import { getAddonName } from './utils/general.js';
-import { Metadata } from './metadata/utils.js';
+import { getNextEpisode, Metadata } from './metadata/utils.js';
 import { PrecacheConditionEvaluator } from './parser/streamExpression.js';
+import {
+  getMetaGenres,
+  getMetaRating,
+  getMetaYear,
+  MetaExpressionEvaluator,
+} from './parser/metaExpression.js';
+import { normaliseTitle } from './parser/utils.js';
+import { LibraryIndex, LibraryMatcher } from './builtins/library/library.js';
+import { LibraryPreset } from './presets/library.js';
+import { SmartCatalogBuilder } from './catalogs/smart.js';
 const logger = createLogger('core');
 
 const shuffleCache = Cache.getInstance<string, MetaPreview[]>('shuffle');
 
 type MergedCatalogSkipState = {
   sourceSkips: Record<string, number>; // What skip to send to each upstream source
+  pending: Record<string, MetaPreview[]>; // items fetched from each source that weren't returned yet
+  exhausted: string[]; // sources that have no more items
+  seen: string[]; // the deduplication keys of the items already returned
+  credits: Record<string, number>; // the weighted round robin credits of each source
 };
+// v2: states cached before pending, exhausted, seen and credits were added
+// can't be resumed
 const mergedCatalogCache = Cache.getInstance<string, MergedCatalogSkipState>(
-  'merged_catalog'
+  'merged_catalog:v2'
+);
+// the merged items returned at each skip, so a page is the same each time it
+// is requested
+const mergedCatalogPageCache = Cache.getInstance<string, MetaPreview[]>(
+  'merged_catalog_page'
+);
+const MERGED_CATALOG_CACHE_TTL = 3600; // 1 hour expiry, this should be fine
+// how many times sources are fetched for one page when the items fetched are
+// all filtered out or duplicates
+const MERGED_CATALOG_MAX_ROUNDS = 3;
+// the skip to send to the addon of a filtered catalog, as the skip a client
+// sends only counts the items that were kept
+const filteredCatalogSkipCache = Cache.getInstance<string, number>(
+  'filtered_catalog_skip'
 );
 
 const precacheCache = Cache.getInstance<string, boolean>(
@@ -65,6 +104,12 @@ const precacheCache = Cache.getInstance<string, boolean>(
   undefined,
   'memory'
 );
+// shared between instances, so an episode is only submitted once
+const precachedEpisodeCache = Cache.getInstance<string, boolean>(
+  'precache:episode'
+);
+
+const CONTINUE_WATCHING_CATALOG_ID = 'aiostreams.continue-watching';
 
 export interface AIOStreamsError {
   title?: string;
@@ -81,6 +126,18 @@ export interface AIOStreamsOptions {
   skipFailedAddons?: boolean;
   increasedManifestTimeout?: boolean;
   bypassManifestCache?: boolean;
+  // record a per-stream trace of the stream pipeline
+  explain?: boolean;
+  // called as soon as each addon responds, with its streams after they have
+  // been filtered, deduplicated and proxied on their own. The final streams
+  // are still returned by getStreams once every addon has responded.
+  onAddonStreams?: (
+    addon: Addon,
+    response: AIOStreamsResponse<{
+      streams: ParsedStream[];
+      statistics: { title: string; description: string }[];
+    }>
+  ) => void | Promise<void>;
 }
 
 export class AIOStreams {
@@ -101,6 +158,9 @@ export class AIOStreams {
   private deduplicator: Deduplicator;
   private sorter: Sorter;
   private precomputer: Precomputer;
+  private verifier: Verifier;
+  // the items of the user's debrid library, listed once per request
+  private library: Promise<LibraryMatcher> | undefined;
 
   private addonInitialisationErrors: {
     addon: Addon | Preset;
@@ -118,7 +178,13 @@ export class AIOStreams {
     this.limiter = new StreamLimiter(userData);
     this.filterer = new Filterer(userData);
     this.precomputer = new Precomputer(userData);
-    this.fetcher = new Fetcher(userData, this.filterer, this.precomputer);
+    this.verifier = new Verifier(userData);
+    this.fetcher = new Fetcher(
+      userData,
+      this.filterer,
+      this.precomputer,
+      this.verifier
+    );
     this.deduplicator = new Deduplicator(userData);
     this.sorter = new Sorter(userData);
   }
@@ -153,27 +219,48 @@ export class AIOStreams {
     AIOStreamsResponse<{
       streams: ParsedStream[];
       statistics: { title: string; description: string }[];
+      explain?: StreamExplanation;
     }>
   > {
     logger.info(`Handling stream request`, { type, id });
     const statistics: { title: string; description: string }[] = [];
+    const context = StreamContext.create(type, id, this.userData, {
+      explain: this.options?.explain && !preCaching,
+    });
     // get a list of all addons that support the stream resource with the given type and id.
     const supportedAddons = [];
     for (const [instanceId, addonResources] of Object.entries(
       this.supportedResources
     )) {
-      const resource = addonResources.find(
+      const streamResources = addonResources.filter(
+        (r) => r.name === 'stream' && r.types.includes(type)
+      );
+      const resource = streamResources.find(
         (r) =>
-          r.name === 'stream' &&
-          r.types.includes(type) &&
-          (r.idPrefixes
+          r.idPrefixes
             ? r.idPrefixes?.some((prefix) => id.startsWith(prefix))
-            : true) // if no id prefixes are defined, assume it supports all IDs
+            : true // if no id prefixes are defined, assume it supports all IDs
       );
-      if (resource) {
+      // anime ids can be mapped to an id the addon does support
+      const mappedId = !resource
+        ? streamResources
+            .map((r) =>
+              r.idPrefixes?.length
+                ? context.episodeMapper?.getIdForPrefixes(r.idPrefixes)
+                : undefined
+            )
+            .find((mappedId) => mappedId !== undefined)
+        : undefined;
+      if (resource || mappedId) {
         const addon = this.getAddon(instanceId);
         if (addon) {
           supportedAddons.push(addon);
+          if (mappedId) {
+            logger.debug(
+              `Requesting ${id} as ${mappedId} from ${getAddonName(addon)}`
+            );
+            context.addonRequestIds.set(instanceId, mappedId);
+          }
         }
       }
     }
@@ -185,13 +272,32 @@ export class AIOStreams {
       }
     );
 
-    const context = StreamContext.create(type, id, this.userData);
-
+    const onAddonStreams = this.options?.onAddonStreams;
+    const previewFilterer = new Filterer(this.userData);
     const {
       streams,
       errors,
       statistics: addonStatistics,
-    } = await this.fetcher.fetch(supportedAddons, context);
+    } = await this.fetcher.fetch(
+      supportedAddons,
+      context,
+      onAddonStreams && !preCaching
+        ? async (addon, addonStreams, addonErrors) => {
+            await onAddonStreams(addon, {
+              success: true,
+              data: {
+                streams: await this.previewStreams(
+                  addonStreams,
+                  context,
+                  previewFilterer
+                ),
+                statistics: [],
+              },
+              errors: addonErrors,
+            });
+          }
+        : undefined
+    );
 
     if (
       this.userData.statistics?.enabled &&
@@ -212,8 +318,18 @@ export class AIOStreams {
     let finalStreams = processResults.streams;
     errors.push(...processResults.errors);
 
-    // if this.userData.precacheNextEpisode is true, start a new thread to request the next episode, check if
-    // all provider streams are uncached, and only if so, then send a request to the first uncached stream in the list.
+    // streams that were precached aren't played, so they aren't recorded
+    if (
+      this.userData.watchHistory?.enabled &&
+      this.userData.uuid &&
+      !preCaching
+    ) {
+      await this.addWatchTokens(finalStreams, context);
+    }
+
+    // if this.userData.precacheNextEpisode is true, start a new thread to request the next episodes (as many as
+    // this.userData.precacheLookahead asks for), check the precache condition on the streams of each, and if it is met,
+    // send a request to the first uncached stream in the list whose service has budget for another download.
     if (this.userData.precacheNextEpisode && !preCaching) {
       // only precache if the same user hasn't previously cached the next episode of the current episode
       // within the last 24 hours (Env.PRECACHE_NEXT_EPISODE_MIN_INTERVAL)
@@ -230,7 +346,7 @@ export class AIOStreams {
       }
       if (precache) {
         setImmediate(() => {
-          this.precacheNextEpisode(context).catch((error) => {
+          this.precacheNextEpisodes(context).catch((error) => {
             logger.error('Error during precaching:', {
               error: error instanceof Error ? error.message : String(error),
               type,
@@ -288,6 +404,19 @@ export class AIOStreams {
         }
       }
     }
+
+    if (
+      this.userData.statistics?.enabled &&
+      this.userData.statistics?.statsToShow?.includes('verification')
+    ) {
+      statistics.push(...this.verifier.getStatistics());
+    }
+
+    const explain = context.explainer?.finalise(finalStreams);
+    if (explain) {
+      statistics.push(...StreamExplainer.toStatistics(explain));
+    }
+
     // return the final list of streams, followed by the error streams.
     logger.info(
       `Returning ${finalStreams.length} streams and ${errors.length} errors and ${statistics.length} statistic`
@@ -297,6 +426,7 @@ export class AIOStreams {
       data: {
         streams: finalStreams,
         statistics: statistics,
+        explain,
       },
       errors: errors,
     };
@@ -316,6 +446,15 @@ export class AIOStreams {
     items: MetaPreview[];
     error?: { title: string; description: string };
   }> {
+    // smart catalogs are built by AIOStreams, but are fetched like the
+    // catalogs of an addon so that they can be sources of merged catalogs
+    const smartCatalog = this.userData.smartCatalogs?.find(
+      (sc) => sc.id === `${addonInstanceId}.${catalogId}`
+    );
+    if (smartCatalog) {
+      return this.fetchSmartCatalogItems(smartCatalog, parsedExtras);
+    }
+
     const addon = this.getAddon(addonInstanceId);
 
     if (!addon) {
@@ -381,6 +520,51 @@ export class AIOStreams {
     }
   }
 
+  /**
+   * Fetches the items of a smart catalog, which are listed on one page.
+   */
+  private async fetchSmartCatalogItems(
+    smartCatalog: SmartCatalog,
+    parsedExtras?: ExtrasParser
+  ): Promise<{
+    success: boolean;
+    items: MetaPreview[];
+    error?: { title: string; description: string };
+  }> {
+    if (smartCatalog.enabled === false) {
+      return {
+        success: false,
+        items: [],
+        error: {
+          title: `Smart catalog ${smartCatalog.name} is disabled`,
+          description: 'Enable the smart catalog or remove it.',
+        },
+      };
+    }
+    if (parsedExtras?.skip || parsedExtras?.search) {
+      return { success: true, items: [] };
+    }
+    try {
+      const start = Date.now();
+      const items = await new SmartCatalogBuilder(this.userData).getItems(
+        smartCatalog
+      );
+      logger.info(
+        `Received smart catalog ${smartCatalog.name} in ${getTimeTakenSincePoint(start)}`
+      );
+      return { success: true, items };
+    } catch (error) {
+      return {
+        success: false,
+        items: [],
+        error: {
+          title: `[❌] ${smartCatalog.name}`,
+          description: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
   public async getCatalog(
     type: string,
     id: string,
@@ -392,18 +576,39 @@ export class AIOStreams {
       return this.getMergedCatalog(type, id, extras);
     }
 
+    if (id === CONTINUE_WATCHING_CATALOG_ID) {
+      return this.getContinueWatchingCatalog(type, id, extras);
+    }
+
     // Get the addon instance id and actual catalog id from the id
     const addonInstanceId = id.split('.', 2)[0];
     const actualCatalogId = id.split('.').slice(1).join('.');
 
     const parsedExtras = new ExtrasParser(extras);
+    const modification = this.userData.catalogModifications?.find(
+      (mod) => mod.id === id && (mod.type === type || mod.overrideType === type)
+    );
+
+    // filtered catalogs are requested from the addon at the skip that the
+    // items kept so far were fetched up to
+    const requestedSkip = parsedExtras.skip || 0;
+    const extrasForCacheKey = new ExtrasParser(extras);
+    extrasForCacheKey.skip = undefined;
+    const filterSkipCacheKey = `${type}-${id}-${extrasForCacheKey.toString()}-${this.userData.uuid}`;
+    const addonExtras = new ExtrasParser(extras);
+    if (modification?.filters && requestedSkip > 0) {
+      addonExtras.skip =
+        (await filteredCatalogSkipCache.get(
+          `${filterSkipCacheKey}-skip=${requestedSkip}`
+        )) ?? requestedSkip;
+    }
 
     // Fetch raw catalog items
     const result = await this.fetchRawCatalogItems(
       addonInstanceId,
       actualCatalogId,
       type,
-      parsedExtras
+      addonExtras
     );
 
     if (!result.success) {
@@ -430,6 +635,14 @@ export class AIOStreams {
       shuffleCacheKey
     );
 
+    if (modification?.filters && catalog.length > 0) {
+      await filteredCatalogSkipCache.set(
+        `${filterSkipCacheKey}-skip=${requestedSkip + catalog.length}`,
+        (addonExtras.skip || 0) + result.items.length,
+        3600
+      );
+    }
+
     return { success: true, data: catalog, errors: [] };
   }
 
@@ -451,6 +664,17 @@ export class AIOStreams {
       (mod) =>
         mod.id === catalogId && (mod.type === type || mod.overrideType === type)
     );
+    // drop and cap items before shuffling, so that only the kept items are shuffled
+    if (modification?.filters) {
+      catalog = await this.applyCatalogFilters(catalog, modification.filters);
+    }
+    if (modification?.maxItems) {
+      catalog = catalog.slice(
+        0,
+        Math.max(0, modification.maxItems - (parsedExtras?.skip || 0))
+      );
+    }
+
     const applyShuffle = modification?.shuffle && !isSearch && shuffleCacheKey;
     const applyReverse = !applyShuffle && modification?.reverse && !isSearch;
 
@@ -503,6 +727,147 @@ export class AIOStreams {
     return catalog;
   }
 
+  /**
+   * Lists what the user last played from their watch history, newest first.
+   * Series are listed at the episode after the last one played.
+   */
+  private async getContinueWatchingCatalog(
+    type: string,
+    id: string,
+    extras?: string
+  ): Promise<AIOStreamsResponse<MetaPreview[]>> {
+    const parsedExtras = new ExtrasParser(extras);
+    // the history is short enough to be listed on one page
+    if (
+      !this.userData.watchHistory?.enabled ||
+      !this.userData.uuid ||
+      parsedExtras.skip
+    ) {
+      return { success: true, data: [], errors: [] };
+    }
+
+    const seen = new Set<string>();
+    const items: MetaPreview[] = [];
+    for (const entry of await WatchHistory.get(this.userData.uuid)) {
+      if (entry.type !== type || seen.has(entry.id)) continue;
+      seen.add(entry.id);
+      const next = entry.nextVideoId
+        ? IdParser.parse(entry.nextVideoId, entry.type)
+        : undefined;
+      const description = next?.episode
+        ? `Next up: ${next.season ? `S${next.season.padStart(2, '0')}` : ''}E${next.episode.padStart(2, '0')}`
+        : `Last watched on ${new Date(entry.watchedAt).toLocaleDateString()}`;
+      items.push({
+        id: entry.id,
+        type: entry.type,
+        name: entry.name ?? entry.id,
+        poster: entry.id.startsWith('tt')
+          ? `https://images.metahub.space/poster/small/${entry.id}/img`
+          : undefined,
+        description,
+        // open the next episode directly
+        behaviorHints: entry.nextVideoId
+          ? { defaultVideoId: entry.nextVideoId }
+          : undefined,
+      });
+    }
+
+    const catalog = await this.applyCatalogModifications(
+      items,
+      id,
+      type,
+      parsedExtras
+    );
+    return { success: true, data: catalog, errors: [] };
+  }
+
+  /**
+   * Drop the items of a catalog that don't pass the filters of its
+   * modification.
+   */
+  private async applyCatalogFilters(
+    items: MetaPreview[],
+    filters: NonNullable<CatalogModification['filters']>
+  ): Promise<MetaPreview[]> {
+    let evaluator: MetaExpressionEvaluator | undefined;
+    try {
+      evaluator = filters.expression
+        ? new MetaExpressionEvaluator(filters.expression)
+        : undefined;
+    } catch (error) {
+      logger.warn(`Ignoring invalid catalog filter expression`, {
+        expression: filters.expression,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    const library =
+      filters.hideLibrary || evaluator?.usesLibrary()
+        ? await this.getLibrary()
+        : undefined;
+    const excludedGenres = new Set(
+      filters.excludeGenres?.map((genre) => genre.toLowerCase())
+    );
+
+    const filtered = items.filter((item) => {
+      const rating = getMetaRating(item);
+      if (
+        filters.minRating !== undefined &&
+        rating !== undefined &&
+        rating < filters.minRating
+      ) {
+        return false;
+      }
+      const year = getMetaYear(item);
+      if (
+        year !== undefined &&
+        ((filters.minYear !== undefined && year < filters.minYear) ||
+          (filters.maxYear !== undefined && year > filters.maxYear))
+      ) {
+        return false;
+      }
+      if (
+        excludedGenres.size > 0 &&
+        getMetaGenres(item).some((genre) =>
+          excludedGenres.has(genre.toLowerCase())
+        )
+      ) {
+        return false;
+      }
+      const inLibrary =
+        library?.has({
+          id: item.id,
+          imdbId: typeof item.imdb_id === 'string' ? item.imdb_id : undefined,
+          type: item.type,
+          name: item.name ?? undefined,
+          year,
+        }) ?? false;
+      if (filters.hideLibrary && inLibrary) {
+        return false;
+      }
+      if (evaluator) {
+        try {
+          return evaluator.evaluate(item, { inLibrary });
+        } catch (error) {
+          logger.debug(`Catalog filter expression failed for ${item.id}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+      return true;
+    });
+    logger.debug(
+      `Catalog filters removed ${items.length - filtered.length} of ${items.length} items`
+    );
+    return filtered;
+  }
+
+  private getLibrary(): Promise<LibraryMatcher> {
+    this.library ??= new LibraryIndex(
+      LibraryPreset.getLibraryServices(this.userData)
+    ).getMatcher();
+    return this.library;
+  }
+
   private async getMergedCatalog(
     type: string,
     id: string,
@@ -559,70 +924,62 @@ export class AIOStreams {
         catalogIds: mergedCatalog.catalogIds,
         deduplicationMethods: mergedCatalog.deduplicationMethods,
         mergeMethod: mergedCatalog.mergeMethod,
+        sourceWeights: mergedCatalog.sourceWeights,
       })
     );
     const baseCacheKey = `${id}-${this.userData.uuid}-${configHash}${extrasCacheKeyPart ? `-${extrasCacheKeyPart}` : ''}`;
     const skipCacheKey = `${baseCacheKey}-skip=${requestedSkip}`;
 
-    let skipState: MergedCatalogSkipState | undefined;
-
-    if (requestedSkip === 0) {
-      // For skip=0, always start fresh with all sources at skip=0
-      skipState = { sourceSkips: {} };
-      for (const encodedCatalogId of mergedCatalog.catalogIds) {
-        skipState.sourceSkips[encodedCatalogId] = 0;
-      }
-    } else {
-      skipState = await mergedCatalogCache.get(skipCacheKey);
-      if (!skipState) {
-        // No cached state for this skip value - either cache expired or invalid skip
-        // Return empty to signal end of pagination
-        logger.warn(
-          `No cached state for merged catalog ${id} at skip=${requestedSkip}. ` +
-            `Cache may have expired or skip value is invalid.`
-        );
-        return { success: true, data: [], errors: [] };
+    const fetchSource = async (
+      encodedCatalogId: string,
+      sourceSkip: number
+    ) => {
+      logger.debug(`Handling merged catalog source`, { encodedCatalogId });
+      const params = new URLSearchParams(encodedCatalogId);
+      const catalogId = params.get('id');
+      const catalogType = params.get('type');
+      if (!catalogId || !catalogType) {
+        return {
+          encodedCatalogId,
+          items: [],
+          fetched: 0,
+          success: false,
+          skipped: false,
+          exhausted: false,
+        };
       }
-    }
 
-    // Track next skip values for each source (to store for the next page)
-    const nextSourceSkips: Record<string, number> = {
-      ...skipState.sourceSkips,
-    };
-
-    const fetchPromises = mergedCatalog.catalogIds.map(
-      async (encodedCatalogId: string) => {
-        logger.debug(`Handling merged catalog source`, { encodedCatalogId });
-        const params = new URLSearchParams(encodedCatalogId);
-        const catalogId = params.get('id');
-        const catalogType = params.get('type');
-        if (!catalogId || !catalogType) {
-          return {
-            encodedCatalogId,
-            items: [],
-            fetched: 0,
-            success: false,
-            skipped: false,
-          };
-        }
+      const addonInstanceId = catalogId.split('.', 2)[0];
+      const actualCatalogId = catalogId.split('.').slice(1).join('.');
 
-        const addonInstanceId = catalogId.split('.', 2)[0];
-        const actualCatalogId = catalogId.split('.').slice(1).join('.');
+      // Smart filtering: check if this source supports the requested extras
+      const catalogExtras = this.getCatalogExtras(
+        addonInstanceId,
+        actualCatalogId,
+        catalogType
+      );
 
-        // Smart filtering: check if this source supports the requested extras
-        const catalogExtras = this.getCatalogExtras(
-          addonInstanceId,
-          actualCatalogId,
-          catalogType
+      // If search is requested but catalog doesn't support search, skip it
+      if (isSearchRequest && !catalogExtras?.some((e) => e.name === 'search')) {
+        logger.debug(
+          `Skipping source ${encodedCatalogId} for merged catalog ${mergedCatalog.name}: doesn't support search`
         );
+        return {
+          encodedCatalogId,
+          items: [],
+          fetched: 0,
+          success: true,
+          skipped: true,
+          exhausted: true,
+        };
+      }
 
-        // If search is requested but catalog doesn't support search, skip it
-        if (
-          isSearchRequest &&
-          !catalogExtras?.some((e) => e.name === 'search')
-        ) {
+      // If genre is requested, check if catalog supports it and has the genre option
+      if (requestedGenre && requestedGenre !== 'None') {
+        const genreExtra = catalogExtras?.find((e) => e.name === 'genre');
+        if (!genreExtra) {
           logger.debug(
-            `Skipping source ${encodedCatalogId} for merged catalog ${mergedCatalog.name}: doesn't support search`
+            `Skipping source ${encodedCatalogId} for merged catalog ${mergedCatalog.name}: doesn't support genre extra`
           );
           return {
             encodedCatalogId,
@@ -630,15 +987,17 @@ export class AIOStreams {
             fetched: 0,
             success: true,
             skipped: true,
+            exhausted: true,
           };
         }
-
-        // If genre is requested, check if catalog supports it and has the genre option
-        if (requestedGenre && requestedGenre !== 'None') {
-          const genreExtra = catalogExtras?.find((e) => e.name === 'genre');
-          if (!genreExtra) {
+        // If the genre extra has specific options, check if the requested genre is available
+        if (genreExtra.options && genreExtra.options.length > 0) {
+          const hasGenre = genreExtra.options.some(
+            (opt) => opt === requestedGenre || opt === null // null can mean "all genres"
+          );
+          if (!hasGenre) {
             logger.debug(
-              `Skipping source ${encodedCatalogId} for merged catalog ${mergedCatalog.name}: doesn't support genre extra`
+              `Skipping source ${encodedCatalogId} for merged catalog ${mergedCatalog.name}: doesn't have genre "${requestedGenre}"`
             );
             return {
               encodedCatalogId,
@@ -646,179 +1005,208 @@ export class AIOStreams {
               fetched: 0,
               success: true,
               skipped: true,
+              exhausted: true,
             };
           }
-          // If the genre extra has specific options, check if the requested genre is available
-          if (genreExtra.options && genreExtra.options.length > 0) {
-            const hasGenre = genreExtra.options.some(
-              (opt) => opt === requestedGenre || opt === null // null can mean "all genres"
-            );
-            if (!hasGenre) {
-              logger.debug(
-                `Skipping source ${encodedCatalogId} for merged catalog ${mergedCatalog.name}: doesn't have genre "${requestedGenre}"`
-              );
-              return {
-                encodedCatalogId,
-                items: [],
-                fetched: 0,
-                success: true,
-                skipped: true,
-              };
-            }
-          }
         }
+      }
 
-        const sourceSkip = skipState!.sourceSkips[encodedCatalogId] || 0;
-        const supportsSkip = catalogExtras?.some((e) => e.name === 'skip');
+      const supportsSkip = catalogExtras?.some((e) => e.name === 'skip');
 
-        // If this catalog doesn't support skip and we've already fetched from it once,
-        // mark it as exhausted to prevent returning the same items repeatedly
-        if (!supportsSkip && sourceSkip > 0) {
-          logger.debug(
-            `Skipping source ${encodedCatalogId} for merged catalog ${mergedCatalog.name}: doesn't support skip and already fetched (exhausted)`
-          );
-          return {
-            encodedCatalogId,
-            items: [],
-            fetched: 0,
-            success: true,
-            skipped: true,
-          };
-        }
-
-        // Build source extras - copy all extras and set the appropriate skip for this source
-        // Only include skip if the catalog supports it
-        const sourceExtras = new ExtrasParser(extras);
-        if (supportsSkip) {
-          sourceExtras.skip = sourceSkip > 0 ? sourceSkip : undefined;
-        } else {
-          sourceExtras.skip = undefined; // Don't send skip to catalogs that don't support it
-        }
+      // Build source extras - copy all extras and set the appropriate skip for this source
+      // Only include skip if the catalog supports it
+      const sourceExtras = new ExtrasParser(extras);
+      if (supportsSkip) {
+        sourceExtras.skip = sourceSkip > 0 ? sourceSkip : undefined;
+      } else {
+        sourceExtras.skip = undefined; // Don't send skip to catalogs that don't support it
+      }
 
-        // now check whether the catalog requires an extra but we dont have it - in which case we skip it
-        const requiredExtras = catalogExtras?.filter((e) => e.isRequired);
-        if (requiredExtras && requiredExtras.length > 0) {
-          for (const reqExtra of requiredExtras) {
-            if (!sourceExtras.has(reqExtra.name)) {
-              logger.debug(
-                `Skipping source ${encodedCatalogId} for merged catalog ${mergedCatalog.name}: missing required extra "${reqExtra.name}"`
-              );
-              return {
-                encodedCatalogId,
-                items: [],
-                fetched: 0,
-                success: true,
-                skipped: true,
-              };
-            }
+      // now check whether the catalog requires an extra but we dont have it - in which case we skip it
+      const requiredExtras = catalogExtras?.filter((e) => e.isRequired);
+      if (requiredExtras && requiredExtras.length > 0) {
+        for (const reqExtra of requiredExtras) {
+          if (!sourceExtras.has(reqExtra.name)) {
+            logger.debug(
+              `Skipping source ${encodedCatalogId} for merged catalog ${mergedCatalog.name}: missing required extra "${reqExtra.name}"`
+            );
+            return {
+              encodedCatalogId,
+              items: [],
+              fetched: 0,
+              success: true,
+              skipped: true,
+              exhausted: true,
+            };
           }
         }
+      }
 
-        logger.debug('Fetching merged catalog source', {
-          encodedCatalogId,
-          addonInstanceId,
-          catalogType,
-          constructedExtras: sourceExtras.toString(),
-        });
-
-        const result = await this.fetchRawCatalogItems(
-          addonInstanceId,
-          actualCatalogId,
-          catalogType,
-          sourceExtras
-        );
+      logger.debug('Fetching merged catalog source', {
+        encodedCatalogId,
+        addonInstanceId,
+        catalogType,
+        constructedExtras: sourceExtras.toString(),
+      });
 
-        if (!result.success) {
-          logger.warn(
-            `Failed to fetch source catalog ${encodedCatalogId} for merged catalog ${mergedCatalog.name} at skip=${requestedSkip}: ${
-              result.error
-                ? maskSensitiveInfo(result.error.description || '')
-                : 'Unknown error'
-            }`
-          );
-          return {
-            encodedCatalogId,
-            items: [],
-            fetched: 0,
-            success: false,
-            skipped: false,
-          };
-        }
+      const result = await this.fetchRawCatalogItems(
+        addonInstanceId,
+        actualCatalogId,
+        catalogType,
+        sourceExtras
+      );
 
+      if (!result.success) {
+        logger.warn(
+          `Failed to fetch source catalog ${encodedCatalogId} for merged catalog ${mergedCatalog.name} at skip=${sourceSkip}: ${
+            result.error
+              ? maskSensitiveInfo(result.error.description || '')
+              : 'Unknown error'
+          }`
+        );
         return {
           encodedCatalogId,
-          items: result.items,
-          fetched: result.items.length,
-          success: true,
+          items: [],
+          fetched: 0,
+          success: false,
           skipped: false,
+          exhausted: false,
         };
       }
-    );
-
-    logger.debug(
-      `Fetching merged catalog ${mergedCatalog.name} at skip=${requestedSkip}`,
-      {
-        upstreamAddons: fetchPromises.length,
-      }
-    );
-
-    const fetchResults = await Promise.all(fetchPromises);
 
-    // Check if ALL non-skipped sources failed
-    const nonSkippedResults = fetchResults.filter((r) => !r.skipped);
-    const allFailed =
-      nonSkippedResults.length > 0 &&
-      nonSkippedResults.every((r) => !r.success);
-    if (allFailed) {
-      logger.error(
-        `All sources failed for merged catalog ${mergedCatalog.name}`
-      );
+      // the filters of the source catalog still apply, its other
+      // modifications are replaced by those of the merged catalog
+      const sourceFilters = this.userData.catalogModifications?.find(
+        (mod) => mod.id === catalogId && mod.type === catalogType
+      )?.filters;
       return {
-        success: false,
-        data: [],
-        errors: [
-          {
-            title: `All sources failed for merged catalog ${mergedCatalog.name}`,
-            description:
-              'Unable to fetch items from any source catalog. Please try again later.',
-          },
-        ],
+        encodedCatalogId,
+        items: sourceFilters
+          ? await this.applyCatalogFilters(result.items, sourceFilters)
+          : result.items,
+        fetched: result.items.length,
+        success: true,
+        skipped: false,
+        // a catalog that doesn't support skip returns the same items for
+        // every page, so it is only fetched once
+        exhausted: result.items.length === 0 || !supportsSkip,
       };
-    }
+    };
 
-    // Collect items per source for merge method processing
-    const itemsBySource: MetaPreview[][] = [];
-    for (const { encodedCatalogId, items, fetched, skipped } of fetchResults) {
-      // Don't update skip tracking for skipped sources - they weren't queried
-      if (skipped) continue;
+    let items = await mergedCatalogPageCache.get(skipCacheKey);
+    let nextState: MergedCatalogSkipState | undefined;
+    if (items) {
+      logger.debug(
+        `Using cached page of merged catalog ${mergedCatalog.name} at skip=${requestedSkip}`
+      );
+    } else {
+      let state: MergedCatalogSkipState;
+      if (requestedSkip === 0) {
+        // For skip=0, always start fresh with all sources at skip=0
+        state = {
+          sourceSkips: {},
+          pending: {},
+          exhausted: [],
+          seen: [],
+          credits: {},
+        };
+      } else {
+        const cachedState = await mergedCatalogCache.get(skipCacheKey);
+        if (!cachedState) {
+          // No cached state for this skip value - either cache expired or invalid skip
+          // Return empty to signal end of pagination
+          logger.warn(
+            `No cached state for merged catalog ${id} at skip=${requestedSkip}. ` +
+              `Cache may have expired or skip value is invalid.`
+          );
+          return { success: true, data: [], errors: [] };
+        }
+        // the state of this page stays cached, so it is copied before the
+        // state of the next page is built from it
+        state = structuredClone(cachedState);
+      }
 
-      // Update next skip for this source (current skip + items returned)
-      nextSourceSkips[encodedCatalogId] =
-        (skipState.sourceSkips[encodedCatalogId] || 0) + fetched;
-      itemsBySource.push(items);
-    }
+      // sources that failed in this request, the next page tries them again
+      const unavailable = new Set<string>();
+      let fetchedAny = false;
+      items = [];
+      for (let round = 0; round < MERGED_CATALOG_MAX_ROUNDS; round++) {
+        // only the sources whose fetched items were all returned are fetched
+        const toFetch = mergedCatalog.catalogIds.filter(
+          (encodedCatalogId) =>
+            !state.exhausted.includes(encodedCatalogId) &&
+            !unavailable.has(encodedCatalogId) &&
+            !state.pending[encodedCatalogId]?.length
+        );
+        logger.debug(
+          `Fetching merged catalog ${mergedCatalog.name} at skip=${requestedSkip}`,
+          {
+            upstreamAddons: toFetch.length,
+            round,
+          }
+        );
+        const fetchResults = await Promise.all(
+          toFetch.map((encodedCatalogId) =>
+            fetchSource(
+              encodedCatalogId,
+              state.sourceSkips[encodedCatalogId] || 0
+            )
+          )
+        );
+        for (const result of fetchResults) {
+          const { encodedCatalogId } = result;
+          if (!result.success) {
+            unavailable.add(encodedCatalogId);
+            continue;
+          }
+          if (!result.skipped) {
+            fetchedAny = true;
+            state.sourceSkips[encodedCatalogId] =
+              (state.sourceSkips[encodedCatalogId] || 0) + result.fetched;
+            state.pending[encodedCatalogId] = result.items;
+          }
+          if (result.exhausted) {
+            state.exhausted.push(encodedCatalogId);
+          }
+        }
 
-    // Apply merge method
-    let allItems: MetaPreview[] = this.applyMergeMethod(
-      itemsBySource,
-      mergedCatalog.mergeMethod
-    );
+        items = this.mergeSourceItems(mergedCatalog, state, unavailable);
+        if (items.length > 0 || toFetch.length === 0) {
+          break;
+        }
+      }
 
-    logger.debug(
-      `Merged catalog ${mergedCatalog.name} collected ${allItems.length} items before deduplication`
-    );
+      // Check if ALL non-skipped sources failed
+      if (items.length === 0 && unavailable.size > 0 && !fetchedAny) {
+        logger.error(
+          `All sources failed for merged catalog ${mergedCatalog.name}`
+        );
+        return {
+          success: false,
+          data: [],
+          errors: [
+            {
+              title: `All sources failed for merged catalog ${mergedCatalog.name}`,
+              description:
+                'Unable to fetch items from any source catalog. Please try again later.',
+            },
+          ],
+        };
+      }
 
-    // Deduplicate the collected items
-    allItems = this.deduplicateMergedCatalog(
-      allItems,
-      mergedCatalog.deduplicationMethods
-    );
+      await mergedCatalogPageCache.set(
+        skipCacheKey,
+        items,
+        MERGED_CATALOG_CACHE_TTL
+      );
+      nextState = state;
+    }
 
     const shuffleCacheKey = `${baseCacheKey}-skip=${requestedSkip}-shuffle`;
 
     // Apply catalog modifications (shuffle, reverse, RPDB) to the merged catalog
-    allItems = await this.applyCatalogModifications(
-      allItems,
+    const allItems = await this.applyCatalogModifications(
+      items,
       id,
       type,
       parsedExtras,
@@ -830,12 +1218,12 @@ export class AIOStreams {
 
     // Cache the state for the next page (keyed by the next skip value)
     // This creates a chain: skip=0 stores state for skip=35, skip=35 stores state for skip=73, etc.
-    if (allItems.length > 0) {
+    if (nextState && allItems.length > 0) {
       const nextSkipCacheKey = `${baseCacheKey}-skip=${nextSkip}`;
       await mergedCatalogCache.set(
         nextSkipCacheKey,
-        { sourceSkips: nextSourceSkips },
-        3600 // 1 hour expiry, this should be fine
+        nextState,
+        MERGED_CATALOG_CACHE_TTL
       );
     }
 
@@ -847,70 +1235,176 @@ export class AIOStreams {
   }
 
   /**
-   * Applies merge method to combine items from multiple source catalogs.
+   * Takes the items of the next page of a merged catalog from the items
+   * fetched from its sources, leaving the rest for the next page. Sources
+   * that are unavailable are passed over.
    */
-  private applyMergeMethod(
-    itemsBySource: MetaPreview[][],
-    method?: MergedCatalog['mergeMethod']
+  private mergeSourceItems(
+    mergedCatalog: MergedCatalog,
+    state: MergedCatalogSkipState,
+    unavailable: Set<string>
   ): MetaPreview[] {
-    const mergeMethod = method || 'sequential';
+    const mergeMethod = mergedCatalog.mergeMethod || 'sequential';
+    const seen = new Set(state.seen);
+    const isNew = (item: MetaPreview) => {
+      const keys = this.getMergedItemKeys(
+        item,
+        mergedCatalog.deduplicationMethods,
+        mergeMethod === 'roundRobin'
+      );
+      if (keys.some((key) => seen.has(key))) {
+        return false;
+      }
+      keys.forEach((key) => seen.add(key));
+      return true;
+    };
+    const sources = mergedCatalog.catalogIds.filter(
+      (encodedCatalogId) =>
+        !unavailable.has(encodedCatalogId) &&
+        state.pending[encodedCatalogId]?.length
+    );
+    // takes every item fetched from the sources
+    const takeAll = () =>
+      sources.map((encodedCatalogId) => {
+        const sourceItems = state.pending[encodedCatalogId];
+        delete state.pending[encodedCatalogId];
+        return sourceItems;
+      });
 
+    let items: MetaPreview[] = [];
     switch (mergeMethod) {
-      case 'interleave': {
+      case 'interleave':
+      case 'weightedInterleave':
+      case 'roundRobin': {
         // Interleave: take 1st from each source, then 2nd from each, etc.
-        const result: MetaPreview[] = [];
-        const maxLength = Math.max(
-          0,
-          ...itemsBySource.map((arr) => arr.length)
+        // Weighted sources are picked with a smooth weighted round robin, so
+        // a source with a weight of 3 is picked 3 times as often, spread out
+        // between the picks of the others. The page ends when a source that
+        // has more items runs out of fetched items.
+        const getWeight = (encodedCatalogId: string) =>
+          mergeMethod === 'weightedInterleave'
+            ? (mergedCatalog.sourceWeights?.[encodedCatalogId] ?? 1)
+            : 1;
+        const getCredit = (encodedCatalogId: string) =>
+          (state.credits[encodedCatalogId] ?? 0) + getWeight(encodedCatalogId);
+        const active = mergedCatalog.catalogIds.filter(
+          (encodedCatalogId) =>
+            !unavailable.has(encodedCatalogId) &&
+            (state.pending[encodedCatalogId]?.length ||
+              !state.exhausted.includes(encodedCatalogId))
         );
-        for (let i = 0; i < maxLength; i++) {
-          for (const sourceItems of itemsBySource) {
-            if (i < sourceItems.length) {
-              result.push(sourceItems[i]);
+        while (active.length > 0) {
+          const next = active.reduce((best, encodedCatalogId) =>
+            getCredit(encodedCatalogId) > getCredit(best)
+              ? encodedCatalogId
+              : best
+          );
+          const sourceItems = state.pending[next];
+          if (!sourceItems?.length) {
+            if (!state.exhausted.includes(next)) {
+              break;
             }
+            active.splice(active.indexOf(next), 1);
+            delete state.credits[next];
+            continue;
+          }
+          const totalWeight = active.reduce(
+            (total, encodedCatalogId) => total + getWeight(encodedCatalogId),
+            0
+          );
+          for (const encodedCatalogId of active) {
+            state.credits[encodedCatalogId] = getCredit(encodedCatalogId);
+          }
+          state.credits[next] -= totalWeight;
+
+          const item = sourceItems.shift()!;
+          if (isNew(item)) {
+            items.push(item);
           }
         }
-        return result;
+        break;
+      }
+
+      case 'popularity': {
+        // Sort by how many sources contain each item, then by the best
+        // position of the item within a source
+        const popularity = new Map<
+          string,
+          { item: MetaPreview; sources: number; position: number }
+        >();
+        for (const sourceItems of takeAll()) {
+          const counted = new Set<string>();
+          sourceItems.forEach((item, position) => {
+            const key = (item as any).imdb_id || item.id;
+            const entry = popularity.get(key);
+            if (!entry) {
+              popularity.set(key, { item, sources: 1, position });
+            } else if (!counted.has(key)) {
+              entry.sources++;
+              entry.position = Math.min(entry.position, position);
+            }
+            counted.add(key);
+          });
+        }
+        items = [...popularity.values()]
+          .sort((a, b) => b.sources - a.sources || a.position - b.position)
+          .map(({ item }) => item)
+          .filter(isNew);
+        break;
       }
 
       case 'imdbRating': {
         // Merge all and sort by IMDB rating (descending)
-        const allItems = itemsBySource.flat();
-        return allItems.sort((a, b) => {
-          const ratingA = parseFloat(a.imdbRating?.toString() ?? '0');
-          const ratingB = parseFloat(b.imdbRating?.toString() ?? '0');
-          if (isNaN(ratingA) && isNaN(ratingB)) return 0;
-          if (isNaN(ratingA)) return 1;
-          if (isNaN(ratingB)) return -1;
-          return ratingB - ratingA;
-        });
+        items = takeAll()
+          .flat()
+          .sort((a, b) => {
+            const ratingA = parseFloat(a.imdbRating?.toString() ?? '0');
+            const ratingB = parseFloat(b.imdbRating?.toString() ?? '0');
+            if (isNaN(ratingA) && isNaN(ratingB)) return 0;
+            if (isNaN(ratingA)) return 1;
+            if (isNaN(ratingB)) return -1;
+            return ratingB - ratingA;
+          })
+          .filter(isNew);
+        break;
       }
 
       case 'releaseDateAsc': {
         // Merge all and sort by release date (oldest first)
-        const allItems = itemsBySource.flat();
-        return allItems.sort((a, b) => {
-          const yearA = this.extractYear(a.releaseInfo);
-          const yearB = this.extractYear(b.releaseInfo);
-          return yearA - yearB;
-        });
+        items = takeAll()
+          .flat()
+          .sort(
+            (a, b) =>
+              this.extractYear(a.releaseInfo) - this.extractYear(b.releaseInfo)
+          )
+          .filter(isNew);
+        break;
       }
 
       case 'releaseDateDesc': {
         // Merge all and sort by release date (newest first)
-        const allItems = itemsBySource.flat();
-        return allItems.sort((a, b) => {
-          const yearA = this.extractYear(a.releaseInfo);
-          const yearB = this.extractYear(b.releaseInfo);
-          return yearB - yearA;
-        });
+        items = takeAll()
+          .flat()
+          .sort(
+            (a, b) =>
+              this.extractYear(b.releaseInfo) - this.extractYear(a.releaseInfo)
+          )
+          .filter(isNew);
+        break;
       }
 
       case 'sequential':
       default:
         // Just concatenate in order of catalogIds
-        return itemsBySource.flat();
+        items = takeAll().flat().filter(isNew);
     }
+
+    state.seen = [...seen];
+    logger.debug(
+      `Merged ${items.length} items for merged catalog ${mergedCatalog.name}`,
+      { mergeMethod }
+    );
+    return items;
   }
 
   /**
@@ -1021,34 +1515,33 @@ export class AIOStreams {
     );
   }
 
-  private deduplicateMergedCatalog(
-    items: MetaPreview[],
-    methods?: ('id' | 'title')[]
-  ): MetaPreview[] {
-    if (!methods || methods.length === 0) {
-      return items;
+  /**
+   * Gets the keys an item of a merged catalog is deduplicated by, an item
+   * being a duplicate when any of its keys was seen before.
+   */
+  private getMergedItemKeys(
+    item: MetaPreview,
+    methods?: ('id' | 'title')[],
+    byTitleAndYear: boolean = false
+  ): string[] {
+    const keys: string[] = [];
+    if (methods?.includes('id')) {
+      keys.push(
+        ...[item.id, (item as any).imdb_id]
+          .filter(Boolean)
+          .map((id) => `id:${id}`)
+      );
     }
-
-    const seenIds = new Set<string>();
-    const seenTitles = new Set<string>();
-
-    return items.filter((item) => {
-      const itemIds = [item.id, (item as any).imdb_id].filter(Boolean);
-      const title = (item.name || item.id).toLowerCase();
-
-      const isDuplicateById =
-        methods.includes('id') && itemIds.some((id) => seenIds.has(id));
-      const isDuplicateByTitle =
-        methods.includes('title') && seenTitles.has(title);
-
-      if (isDuplicateById || isDuplicateByTitle) {
-        return false;
-      }
-
-      itemIds.forEach((id) => seenIds.add(id));
-      seenTitles.add(title);
-      return true;
-    });
+    const title = (item.name || item.id).toLowerCase();
+    if (methods?.includes('title')) {
+      keys.push(`title:${title}`);
+    }
+    if (byTitleAndYear) {
+      keys.push(
+        `title-year:${normaliseTitle(item.name || item.id)}:${getMetaYear(item) ?? ''}`
+      );
+    }
+    return keys;
   }
 
   public async getMeta(
@@ -1638,6 +2131,33 @@ export class AIOStreams {
       }
     }
 
+    // Add the continue watching catalogs, which can also be moved, renamed and
+    // disabled with catalogModifications
+    if (
+      this.userData.watchHistory?.enabled &&
+      this.userData.watchHistory.catalog
+    ) {
+      this.finalCatalogs.push(
+        {
+          id: CONTINUE_WATCHING_CATALOG_ID,
+          name: 'Continue Watching',
+          type: 'movie',
+        },
+        { id: CONTINUE_WATCHING_CATALOG_ID, name: 'Next Up', type: 'series' }
+      );
+    }
+
+    // Add the smart catalogs, which can be sources of merged catalogs like the
+    // catalogs of addons
+    for (const smartCatalog of this.userData.smartCatalogs ?? []) {
+      if (smartCatalog.enabled === false) continue;
+      this.finalCatalogs.push({
+        id: smartCatalog.id,
+        name: smartCatalog.name,
+        type: smartCatalog.type,
+      });
+    }
+
     if (this.userData.catalogModifications) {
       this.finalCatalogs = this.finalCatalogs
         // Sort catalogs based on catalogModifications order, with non-modified catalogs at the end
@@ -2114,35 +2634,44 @@ export class AIOStreams {
     });
   }
 
-  private _getNextEpisode(
-    currentSeason: number | undefined,
-    currentEpisode: number,
-    metadata?: Metadata
-  ): {
-    season: number | undefined;
-    episode: number;
-  } {
-    let season = currentSeason;
-    let episode = currentEpisode + 1;
-    if (!currentSeason) return { season, episode };
-    const episodeCount = metadata?.seasons?.find(
-      (s) => s.season_number === season
-    )?.episode_count;
-
-    // If we are at the last episode of the season, try to move to the next season
-    if (episodeCount && currentEpisode === episodeCount) {
-      const nextSeasonNumber = currentSeason + 1;
-      if (
-        metadata?.seasons?.find((s) => s.season_number === nextSeasonNumber)
-      ) {
-        logger.debug(
-          `Current episode is the last of season ${currentSeason}, moving to S${nextSeasonNumber}E01.`
-        );
-        season = nextSeasonNumber;
-        episode = 1;
-      }
+  /**
+   * Add a token to the URLs of the streams so that the playback and proxy
+   * routes record the stream that is played in the user's watch history.
+   */
+  private async addWatchTokens(
+    streams: ParsedStream[],
+    context: StreamContext
+  ) {
+    const { type, id, parsedId } = context;
+    const itemId = parsedId
+      ? IdParser.generate(parsedId.type, parsedId.value)
+      : undefined;
+    if (!parsedId || !itemId) {
+      return;
+    }
+    const metadata = await context.getMetadata();
+    const season = parsedId.season ? Number(parsedId.season) : undefined;
+    const episode = parsedId.episode ? Number(parsedId.episode) : undefined;
+    let nextVideoId: string | undefined;
+    if (episode) {
+      const next = getNextEpisode(season, episode, metadata);
+      nextVideoId = parsedId.generator(
+        parsedId.value,
+        next.season?.toString(),
+        next.episode.toString()
+      );
+    }
+    for (const stream of streams) {
+      stream.url = WatchHistory.addToken(stream, this.userData.uuid!, {
+        type,
+        id: itemId,
+        videoId: id,
+        name: metadata?.displayTitle ?? metadata?.title,
+        season,
+        episode,
+        nextVideoId,
+      });
     }
-    return { season, episode };
   }
 
   private async _processStreams(
@@ -2160,7 +2689,10 @@ export class AIOStreams {
       processedStreams = await this.filterer.filter(processedStreams, context);
     }
 
-    processedStreams = await this.deduplicator.deduplicate(processedStreams);
+    processedStreams = await this.deduplicator.deduplicate(
+      processedStreams,
+      context
+    );
 
     if (isMeta) {
       // Run preferred matching after filter
@@ -2169,7 +2701,8 @@ export class AIOStreams {
 
     let finalStreams = await this.filterer.applyStreamExpressionFilters(
       await this.limiter.limit(
-        await this.sorter.sort(processedStreams, context)
+        await this.sorter.sort(processedStreams, context),
+        context
       ),
       context
     );
@@ -2179,6 +2712,23 @@ export class AIOStreams {
     const { streams: proxiedStreams, error } =
       await this.proxifier.proxify(finalStreams);
 
+    if (context.explainer) {
+      const proxiedIds = new Set(proxiedStreams.map((stream) => stream.id));
+      for (const stream of finalStreams) {
+        if (!proxiedIds.has(stream.id)) {
+          context.explainer.recordRemoved(
+            stream,
+            'proxifier',
+            'proxyFailed',
+            error
+          );
+        }
+      }
+      context.explainer.recordPassed(proxiedStreams, 'proxifier', (stream) =>
+        stream.proxied ? 'Proxied' : undefined
+      );
+    }
+
     if (error) {
       errors.push({
         title: `Proxifier Error`,
@@ -2197,15 +2747,41 @@ export class AIOStreams {
       return stream;
     });
 
-    if (this.userData.externalDownloads) {
+    const downloadClientConfig = this.userData.downloadClient;
+    const downloadClient =
+      downloadClientConfig?.enabled && downloadClientConfig.url
+        ? new DownloadClientService({
+            ...downloadClientConfig,
+            url: downloadClientConfig.url,
+          })
+        : undefined;
+    if (this.userData.externalDownloads || downloadClient) {
       const streamsWithExternalDownloads: ParsedStream[] = [];
       for (const stream of finalStreams) {
         streamsWithExternalDownloads.push(stream);
-        if (stream.url) {
+        if (this.userData.externalDownloads && stream.url) {
           const downloadableStream: ParsedStream =
             StreamUtils.createDownloadableStream(stream);
           streamsWithExternalDownloads.push(downloadableStream);
         }
+        if (downloadClient && stream.nzbUrl) {
+          const sendUrl = downloadClient.generateSendUrl({
+            nzb: stream.nzbUrl,
+            name:
+              stream.folderName ??
+              stream.filename ??
+              stream.parsedFile?.title ??
+              'Unknown',
+            category: downloadClient.getCategory(type),
+          });
+          streamsWithExternalDownloads.push(
+            StreamUtils.createDownloadClientStream(
+              stream,
+              sendUrl,
+              downloadClient.name
+            )
+          );
+        }
       }
       logger.info(
         `Added ${streamsWithExternalDownloads.length - finalStreams.length} external downloads to streams`
@@ -2216,6 +2792,28 @@ export class AIOStreams {
     return { streams: finalStreams, errors };
   }
 
+  /**
+   * Process the streams of a single addon for an incremental response. The
+   * streams are copied so that the full pipeline, which runs once every addon
+   * has responded, is not affected. A separate filterer is used so that the
+   * filter statistics are only counted once.
+   */
+  private async previewStreams(
+    streams: ParsedStream[],
+    context: StreamContext,
+    filterer: Filterer
+  ): Promise<ParsedStream[]> {
+    let previewStreams: ParsedStream[] = structuredClone(streams);
+    await this.precomputer.precomputeSeaDexOnly(previewStreams, context);
+    previewStreams = await this.deduplicator.deduplicate(
+      await filterer.filter(previewStreams, context),
+      context
+    );
+    const { streams: proxiedStreams } =
+      await this.proxifier.proxify(previewStreams);
+    return proxiedStreams;
+  }
+
   private async _fetchAndHandleRedirects(stream: ParsedStream, id: string) {
     const wrapper = new Wrapper(stream.addon);
     if (!stream.url) {
@@ -2254,7 +2852,7 @@ export class AIOStreams {
     return initialResponse;
   }
 
-  private async precacheNextEpisode(context: StreamContext) {
+  private async precacheNextEpisodes(context: StreamContext) {
     const { type, id, parsedId } = context;
     if (!parsedId) {
       return;
@@ -2269,22 +2867,18 @@ export class AIOStreams {
     }
 
     const metadata = await context.getMetadata();
-
-    const { season: seasonToPrecache, episode: episodeToPrecache } =
-      this._getNextEpisode(currentSeason, currentEpisode, metadata);
-
-    const precacheId = parsedId.generator(
-      parsedId.value,
-      seasonToPrecache?.toString(),
-      episodeToPrecache?.toString()
+    const episodesToPrecache = this._getEpisodesToPrecache(
+      currentSeason,
+      currentEpisode,
+      metadata
     );
-    logger.info(`Pre-caching next episode`, {
+    logger.info(`Pre-caching next episodes`, {
       titleId: parsedId.value,
       currentSeason,
       currentEpisode,
-      episodeToPrecache,
-      seasonToPrecache,
-      precacheId,
+      episodesToPrecache: episodesToPrecache.map(
+        ({ season, episode }) => `${season ?? ''}:${episode}`
+      ),
     });
 
     // modify userData to remove the excludeUncached filter
@@ -2293,12 +2887,72 @@ export class AIOStreams {
     userData.groups = undefined;
     this.setUserData(userData);
 
+    // the nearest episodes are precached first, so they get the budget first
+    const budget = new DownloadBudget(this.userData);
+    let precached = 0;
+    for (const { season, episode } of episodesToPrecache) {
+      const precacheId = parsedId.generator(
+        parsedId.value,
+        season?.toString(),
+        episode.toString()
+      );
+      try {
+        // other instances handling requests of the same user wait for the
+        // submission instead of making their own
+        const { result, cached } = await DistributedLock.getInstance().withLock(
+          `precache:${this.userData.uuid}:${type}:${precacheId}`,
+          () => this.precacheEpisode(context, precacheId, budget),
+          { timeout: 120000, ttl: 120000 }
+        );
+        if (result && !cached) {
+          precached++;
+        }
+      } catch (error) {
+        logger.error(`Error during precaching of ${precacheId}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (precached > 0) {
+      const cacheKey = `precache-${type}-${id}-${this.userData.uuid}`;
+      await precacheCache.set(
+        cacheKey,
+        true,
+        Env.PRECACHE_NEXT_EPISODE_MIN_INTERVAL
+      );
+      logger.info(
+        `Successfully precached ${precached} episodes after ${id} (${type})`
+      );
+    }
+  }
+
+  /**
+   * Precache the first uncached stream of an episode, in the order of the
+   * user's sort criteria, that a service has the budget to download.
+   *
+   * Returns whether a stream was precached.
+   */
+  private async precacheEpisode(
+    context: StreamContext,
+    precacheId: string,
+    budget: DownloadBudget
+  ): Promise<boolean> {
+    const { type } = context;
+    const episodeCacheKey = `${type}-${precacheId}-${this.userData.uuid}`;
+    if (await precachedEpisodeCache.get(episodeCacheKey)) {
+      logger.debug(
+        `Skipping precaching ${precacheId} as it has been precached within the last ${Env.PRECACHE_NEXT_EPISODE_MIN_INTERVAL} seconds`
+      );
+      return false;
+    }
+
     const nextStreamsResponse = await this.getStreams(precacheId, type, true);
     if (!nextStreamsResponse.success) {
-      logger.error(`Failed to get streams during precaching ${id}`, {
+      logger.error(`Failed to get streams during precaching ${precacheId}`, {
         error: nextStreamsResponse.errors,
       });
-      return;
+      return false;
     }
 
     const nextStreams = nextStreamsResponse.data.streams;
@@ -2310,7 +2964,8 @@ export class AIOStreams {
     try {
       const evaluator = new PrecacheConditionEvaluator(
         nextStreams,
-        context.toExpressionContext()
+        context.toExpressionContext(),
+        this.userData.selMacros
       );
       shouldPrecache = await evaluator.evaluate(condition);
       logger.debug(`Precache condition evaluated`, {
@@ -2326,28 +2981,35 @@ export class AIOStreams {
 
     if (!shouldPrecache) {
       logger.debug(
-        `Skipping precaching ${id} as precache condition was not met`
+        `Skipping precaching ${precacheId} as precache condition was not met`
       );
-      return;
+      return false;
     }
 
-    const firstUncachedStream = nextStreams.find(
-      (stream) => stream.service?.cached === false
-    );
-    if (!firstUncachedStream || !firstUncachedStream.url) {
+    let streamToPrecache: ParsedStream | undefined;
+    for (const stream of nextStreams) {
+      if (stream.service?.cached !== false || !stream.url) {
+        continue;
+      }
+      if (await budget.reserve(stream)) {
+        streamToPrecache = stream;
+        break;
+      }
+    }
+    if (!streamToPrecache) {
       logger.debug(
-        `Skipping precaching ${id} as no uncached streams were found or it had no URL`
+        `Skipping precaching ${precacheId} as no uncached streams with a URL and download budget were found`
       );
-      return;
+      return false;
     }
 
     logger.debug(
-      `Selected following stream for precaching:\n${firstUncachedStream.originalName}\n${firstUncachedStream.originalDescription}`
+      `Selected following stream for precaching:\n${streamToPrecache.originalName}\n${streamToPrecache.originalDescription}`
     );
 
     try {
       const response = await this._fetchAndHandleRedirects(
-        firstUncachedStream,
+        streamToPrecache,
         precacheId
       );
       logger.debug(`Response: ${response.status} ${response.statusText}`);
@@ -2356,17 +3018,59 @@ export class AIOStreams {
           `Final Response not OK: ${response.status} ${response.statusText}`
         );
       }
-      const cacheKey = `precache-${type}-${id}-${this.userData.uuid}`;
-      await precacheCache.set(
-        cacheKey,
+      await precachedEpisodeCache.set(
+        episodeCacheKey,
         true,
         Env.PRECACHE_NEXT_EPISODE_MIN_INTERVAL
       );
-      logger.info(`Successfully precached a stream for ${id} (${type})`);
+      logger.info(
+        `Successfully precached a stream for ${precacheId} (${type})`
+      );
+      return true;
     } catch (error) {
-      logger.error(`Error pinging url of first uncached stream`, {
+      logger.error(`Error pinging url of uncached stream for ${precacheId}`, {
         error: error instanceof Error ? error.message : String(error),
       });
+      return false;
+    }
+  }
+
+  /**
+   * Get the episodes after the current one to precache: the number of
+   * episodes the user set, or the rest of the season, up to the instance's
+   * maximum.
+   */
+  private _getEpisodesToPrecache(
+    currentSeason: number | undefined,
+    currentEpisode: number,
+    metadata?: Metadata
+  ): { season: number | undefined; episode: number }[] {
+    const lookahead = this.userData.precacheLookahead;
+    const limit = lookahead?.restOfSeason
+      ? Env.PRECACHE_MAX_LOOKAHEAD
+      : Math.min(lookahead?.episodes ?? 1, Env.PRECACHE_MAX_LOOKAHEAD);
+    const seasonEpisodeCount = currentSeason
+      ? metadata?.seasons?.find((s) => s.season_number === currentSeason)
+          ?.episode_count
+      : undefined;
+
+    const episodes: { season: number | undefined; episode: number }[] = [];
+    let current = { season: currentSeason, episode: currentEpisode };
+    while (episodes.length < limit) {
+      if (
+        lookahead?.restOfSeason &&
+        episodes.length > 0 &&
+        // without an episode count only the next episode is known to exist,
+        // and once the next season is reached the current one is done
+        (!seasonEpisodeCount ||
+          current.season !== currentSeason ||
+          current.episode >= seasonEpisodeCount)
+      ) {
+        break;
+      }
+      current = getNextEpisode(current.season, current.episode, metadata);
+      episodes.push(current);
     }
+    return episodes;
   }
 }
@@ -0,0 +1,234 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { z } from 'zod';
+import { Metadata } from './utils.js';
+import { createLogger, getTimeTakenSincePoint } from '../utils/logger.js';
+import { Env, formatZodError } from '../utils/index.js';
+
+const logger = createLogger('local-metadata');
+
+const LocalMetadataEntrySchema = z.object({
+  type: z.enum(['movie', 'series']),
+  title: z.string().min(1),
+  aliases: z.array(z.string()).optional(),
+  year: z.number().int().optional(),
+  yearEnd: z.number().int().optional(),
+  runtime: z.number().optional(), // minutes
+  releaseDate: z.string().optional(),
+  originalLanguage: z.string().optional(),
+  genres: z.array(z.string()).optional(),
+  seasons: z
+    .array(
+      z.object({
+        season: z.number().int(),
+        episodes: z.number().int(),
+      })
+    )
+    .optional(),
+  ids: z.object({
+    imdb: z.string().optional(),
+    tmdb: z.coerce.number().optional(),
+    tvdb: z.coerce.number().optional(),
+  }),
+});
+
+export type LocalMetadataEntry = z.infer<typeof LocalMetadataEntrySchema>;
+
+// columns of the 'metadata' table of an SQLite dump
+interface LocalMetadataRow {
+  type: string;
+  title: string;
+  aliases?: string | null;
+  year?: number | null;
+  year_end?: number | null;
+  runtime?: number | null;
+  release_date?: string | null;
+  original_language?: string | null;
+  genres?: string | null;
+  seasons?: string | null;
+  imdb_id?: string | null;
+  tmdb_id?: number | string | null;
+  tvdb_id?: number | string | null;
+}
+
+function rowToEntry(row: LocalMetadataRow): unknown {
+  // invalid JSON is left as is so the entry fails validation
+  const json = (value?: string | null) => {
+    if (!value) return undefined;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  };
+  return {
+    type: row.type,
+    title: row.title,
+    aliases: json(row.aliases),
+    year: row.year ?? undefined,
+    yearEnd: row.year_end ?? undefined,
+    runtime: row.runtime ?? undefined,
+    releaseDate: row.release_date ?? undefined,
+    originalLanguage: row.original_language ?? undefined,
+    genres: json(row.genres),
+    seasons: json(row.seasons),
+    ids: {
+      imdb: row.imdb_id ?? undefined,
+      tmdb: row.tmdb_id ?? undefined,
+      tvdb: row.tvdb_id ?? undefined,
+    },
+  };
+}
+
+export interface LocalMetadataIds {
+  imdbId?: string | null;
+  tmdbId?: number | null;
+  tvdbId?: number | null;
+}
+
+/**
+ * Metadata from a local dump of a media library, e.g. one exported from
+ * Jellyfin or Plex. It is checked before the online providers so that
+ * instances can run without depending on them for the items in the dump.
+ *
+ * The dump is loaded into memory, and reloaded when it is modified.
+ */
+export class LocalMetadata {
+  private static instance: LocalMetadata;
+  private entries = new Map<string, LocalMetadataEntry>();
+  private lastModified?: number;
+  private refreshTimer?: NodeJS.Timeout;
+
+  private constructor() {}
+
+  public static getInstance(): LocalMetadata {
+    if (!this.instance) {
+      this.instance = new LocalMetadata();
+    }
+    return this.instance;
+  }
+
+  public async initialise(): Promise<void> {
+    if (!Env.LOCAL_METADATA_PATH) {
+      return;
+    }
+    await this.load(Env.LOCAL_METADATA_PATH);
+    if (Env.LOCAL_METADATA_REFRESH_INTERVAL > 0 && !this.refreshTimer) {
+      this.refreshTimer = setInterval(
+        () =>
+          this.load(Env.LOCAL_METADATA_PATH!).catch((error) =>
+            logger.error(`Failed to reload local metadata: ${error}`)
+          ),
+        Env.LOCAL_METADATA_REFRESH_INTERVAL
+      );
+      this.refreshTimer.unref();
+    }
+  }
+
+  public cleanup() {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+
+  private async load(file: string) {
+    const { mtimeMs } = await fs.stat(file);
+    if (this.lastModified === mtimeMs) {
+      return;
+    }
+    const start = Date.now();
+    const extension = path.extname(file).toLowerCase();
+    const rawEntries =
+      extension === '.db' || extension === '.sqlite'
+        ? await this.readSqlite(file)
+        : JSON.parse(await fs.readFile(file, 'utf-8'));
+    if (!Array.isArray(rawEntries)) {
+      throw new Error(`Local metadata in ${file} must be an array of entries`);
+    }
+
+    const entries = new Map<string, LocalMetadataEntry>();
+    let invalid = 0;
+    for (const rawEntry of rawEntries) {
+      const {
+        success,
+        data: entry,
+        error,
+      } = LocalMetadataEntrySchema.safeParse(rawEntry);
+      if (!success) {
+        if (invalid++ === 0) {
+          logger.warn(
+            `Skipping invalid local metadata entry: ${formatZodError(error)}`
+          );
+        }
+        continue;
+      }
+      const { imdb, tmdb, tvdb } = entry.ids;
+      if (imdb) entries.set(`imdb:${imdb}`, entry);
+      if (tmdb) entries.set(`${entry.type}:tmdb:${tmdb}`, entry);
+      if (tvdb) entries.set(`${entry.type}:tvdb:${tvdb}`, entry);
+    }
+
+    this.entries = entries;
+    this.lastModified = mtimeMs;
+    logger.info(
+      `Loaded ${rawEntries.length - invalid} local metadata entries from ${file} in ${getTimeTakenSincePoint(start)}`,
+      { invalid }
+    );
+  }
+
+  private async readSqlite(file: string): Promise<unknown[]> {
+    const db = await open({
+      filename: file,
+      driver: sqlite3.Database,
+      mode: sqlite3.OPEN_READONLY,
+    });
+    try {
+      const rows = await db.all<LocalMetadataRow[]>('SELECT * FROM metadata');
+      return rows.map(rowToEntry);
+    } finally {
+      await db.close();
+    }
+  }
+
+  /**
+   * Find the metadata of an item by any of its external ids.
+   */
+  public get(
+    ids: LocalMetadataIds,
+    type: 'movie' | 'series'
+  ): Metadata | undefined {
+    if (this.entries.size === 0) {
+      return undefined;
+    }
+    const entry =
+      (ids.imdbId ? this.entries.get(`imdb:${ids.imdbId}`) : undefined) ??
+      (ids.tmdbId
+        ? this.entries.get(`${type}:tmdb:${ids.tmdbId}`)
+        : undefined) ??
+      (ids.tvdbId ? this.entries.get(`${type}:tvdb:${ids.tvdbId}`) : undefined);
+    if (!entry) {
+      return undefined;
+    }
+    return {
+      title: entry.title,
+      titles: [entry.title, ...(entry.aliases ?? [])],
+      year: entry.year,
+      yearEnd: entry.yearEnd,
+      originalLanguage: entry.originalLanguage,
+      releaseDate: entry.releaseDate,
+      runtime: entry.runtime,
+      seasons: entry.seasons
+        ?.map(({ season, episodes }) => ({
+          season_number: season,
+          episode_count: episodes,
+        }))
+        .sort((a, b) => a.season_number - b.season_number),
+      tmdbId: entry.ids.tmdb ?? ids.tmdbId ?? null,
+      tvdbId: entry.ids.tvdb ?? ids.tvdbId ?? null,
+      genres: entry.genres,
+    };
+  }
+}
@@ -9,6 +9,7 @@ import { AnimeDatabase, IdParser, ParsedId, Env } from '../utils/index.js';
 import { withRetry } from '../utils/general.js';
 import { Meta } from '../db/schemas.js';
 import { TVDBMetadata } from './tvdb.js';
+import { LocalMetadata } from './local.js';
 import { parseDuration } from '../parser/utils.js';
 
 const logger = createLogger('metadata-service');
@@ -85,6 +86,40 @@ export class MetadataService {
               year = animeEntry.animeSeason?.year ?? undefined;
             }
 
+            // Check local metadata before any online providers
+            const localMetadata = LocalMetadata.getInstance().get(
+              { imdbId, tmdbId, tvdbId },
+              type === 'movie' ? 'movie' : 'series'
+            );
+            if (
+              localMetadata &&
+              (localMetadata.year !== undefined || id.mediaType !== 'movie')
+            ) {
+              const uniqueTitles = [
+                ...new Set(
+                  [...localMetadata.titles!, ...titles].map((title) =>
+                    title.toLowerCase()
+                  )
+                ),
+              ];
+              logger.debug(
+                `Found local metadata for ${id.fullId} in ${getTimeTakenSincePoint(start)}`,
+                {
+                  title: uniqueTitles[0],
+                  aliases: uniqueTitles.slice(1).length,
+                  year: localMetadata.year,
+                  seasons: localMetadata.seasons?.length,
+                }
+              );
+              return {
+                ...localMetadata,
+                title: uniqueTitles[0],
+                displayTitle: localMetadata.titles?.[0] ?? titles[0],
+                titles: uniqueTitles,
+                genres: localMetadata.genres ?? [],
+              };
+            }
+
             // Setup parallel API requests
             const promises = [];
 
@@ -326,6 +361,7 @@ export class MetadataService {
             );
             return {
               title: uniqueTitles[0],
+              displayTitle: titles[0],
               titles: uniqueTitles,
               year,
               yearEnd,
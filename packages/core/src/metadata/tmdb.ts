@@ -17,6 +17,8 @@ const MOVIE_TRANSLATIONS_PATH = (id: string) => `/movie/${id}/translations`;
 const TV_DETAILS_PATH = '/tv';
 const TV_TRANSLATIONS_PATH = (id: string) => `/tv/${id}/translations`;
 const ALTERNATIVE_TITLES_PATH = '/alternative_titles';
+const SEARCH_PATH = '/search';
+const EXTERNAL_IDS_PATH = '/external_ids';
 
 // Cache TTLs in seconds
 const ID_CACHE_TTL = 30 * 24 * 60 * 60; // 30 days
@@ -103,6 +105,18 @@ const FindResultsSchema = z.object({
   ),
 });
 
+const SearchResultsSchema = z.object({
+  results: z.array(
+    z.object({
+      id: z.number(),
+    })
+  ),
+});
+
+const ExternalIdsSchema = z.object({
+  imdb_id: z.string().nullable().optional(),
+});
+
 const ReleaseDateSchema = z.object({
   release_date: z.string(),
   type: z.number().min(0).max(6),
@@ -146,6 +160,13 @@ export class TMDBMetadata {
   >('tmdb_id_conversion');
   private static readonly metadataCache: Cache<string, Metadata> =
     Cache.getInstance<string, Metadata>('tmdb_metadata');
+  // searches that found nothing are cached as an empty object
+  private static readonly searchCache: Cache<
+    string,
+    { tmdbId?: number; imdbId?: string }
+  > = Cache.getInstance<string, { tmdbId?: number; imdbId?: string }>(
+    'tmdb_search'
+  );
   private readonly accessToken: string | undefined;
   private readonly apiKey: string | undefined;
   private static readonly validationCache: Cache<string, boolean> =
@@ -464,6 +485,70 @@ export class TMDBMetadata {
     return episodeData.air_date ?? undefined;
   }
 
+  /**
+   * Search for a movie or show by its title, and for movies the year it was
+   * released in, returning the ids of the best match.
+   */
+  public async searchByTitle(
+    title: string,
+    mediaType: 'movie' | 'series',
+    year?: number
+  ): Promise<{ tmdbId: number; imdbId?: string } | undefined> {
+    const cacheKey = `${mediaType}:${title.toLowerCase()}:${year ?? ''}`;
+    const cached = await TMDBMetadata.searchCache.get(cacheKey);
+    if (cached) {
+      return cached.tmdbId
+        ? { tmdbId: cached.tmdbId, imdbId: cached.imdbId }
+        : undefined;
+    }
+
+    const path = mediaType === 'movie' ? MOVIE_DETAILS_PATH : TV_DETAILS_PATH;
+    const searchUrl = new URL(API_BASE_URL + SEARCH_PATH + path);
+    searchUrl.searchParams.set('query', title);
+    if (year && mediaType === 'movie') {
+      searchUrl.searchParams.set('year', year.toString());
+    }
+    this.addSearchParams(searchUrl);
+    const searchResponse = await makeRequest(searchUrl.toString(), {
+      timeout: 5000,
+      headers: this.getHeaders(),
+    });
+    if (!searchResponse.ok) {
+      throw new Error(
+        `Failed to search for ${title}: ${searchResponse.statusText}`
+      );
+    }
+    const result = SearchResultsSchema.parse(await searchResponse.json())
+      .results[0];
+    if (!result) {
+      TMDBMetadata.searchCache.set(cacheKey, {}, TITLE_CACHE_TTL);
+      return undefined;
+    }
+
+    const externalIdsUrl = new URL(
+      API_BASE_URL + path + `/${result.id}` + EXTERNAL_IDS_PATH
+    );
+    this.addSearchParams(externalIdsUrl);
+    const externalIdsResponse = await makeRequest(externalIdsUrl.toString(), {
+      timeout: 5000,
+      headers: this.getHeaders(),
+    });
+    if (!externalIdsResponse.ok) {
+      throw new Error(
+        `Failed to fetch external ids: ${externalIdsResponse.statusText}`
+      );
+    }
+    const externalIds = ExternalIdsSchema.parse(
+      await externalIdsResponse.json()
+    );
+    const ids = {
+      tmdbId: result.id,
+      imdbId: externalIds.imdb_id || undefined,
+    };
+    TMDBMetadata.searchCache.set(cacheKey, ids, ID_CACHE_TTL);
+    return ids;
+  }
+
   public async validateAuthorisation() {
     const cacheKey = this.accessToken || this.apiKey;
     if (!cacheKey) {
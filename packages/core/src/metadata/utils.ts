@@ -1,5 +1,8 @@
 export interface Metadata {
+  // lowercased, for matching against release titles
   title: string;
+  // the title as it should be shown to the user
+  displayTitle?: string;
   titles?: string[];
   year?: number;
   yearEnd?: number;
@@ -14,3 +17,33 @@ export interface Metadata {
   tvdbId?: number | null;
   genres?: string[]; // Genre names (e.g., ["Action", "Drama"])
 }
+
+/**
+ * Get the episode after an episode, moving on to the first episode of the
+ * next season after the last episode of a season.
+ */
+export function getNextEpisode(
+  currentSeason: number | undefined,
+  currentEpisode: number,
+  metadata?: Metadata
+): {
+  season: number | undefined;
+  episode: number;
+} {
+  let season = currentSeason;
+  let episode = currentEpisode + 1;
+  if (!currentSeason) return { season, episode };
+  const episodeCount = metadata?.seasons?.find(
+    (s) => s.season_number === season
+  )?.episode_count;
+
+  // If we are at the last episode of the season, try to move to the next season
+  if (episodeCount && currentEpisode === episodeCount) {
+    const nextSeasonNumber = currentSeason + 1;
+    if (metadata?.seasons?.find((s) => s.season_number === nextSeasonNumber)) {
+      season = nextSeasonNumber;
+      episode = 1;
+    }
+  }
+  return { season, episode };
+}
@@ -3,6 +3,7 @@ import { ParsedFile } from '../db/schemas.js';
 import { Parser, handlers } from '@viren070/parse-torrent-title';
 import { FULL_LANGUAGE_MAPPING } from '../utils/languages.js';
 import { LANGUAGES } from '../utils/constants.js';
+import { removeSiteTags } from './utils.js';
 
 function matchPattern(
   filename: string,
@@ -68,6 +69,7 @@ class FileParser {
   );
 
   static parse(filename: string): ParsedFile {
+    filename = removeSiteTags(filename);
     const parsed = this.parser.parse(filename);
     if (
       ['vinland', 'furiosaamadmax', 'horizonanamerican'].includes(
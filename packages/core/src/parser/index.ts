@@ -1,2 +1,16 @@
 export { default as FileParser } from './file.js';
 export { default as StreamParser } from './streams.js';
+export {
+  StreamExpressionEngine,
+  STREAM_EXPRESSION_KINDS,
+} from './streamExpression.js';
+export {
+  MetaExpressionEvaluator,
+  getMetaGenres,
+  getMetaRating,
+  getMetaYear,
+} from './metaExpression.js';
+export type {
+  StreamExpressionKind,
+  StreamExpressionDiagnostic,
+} from './streamExpression.js';
@@ -0,0 +1,123 @@
+import { Expression, Parser } from 'expr-eval';
+import { MetaPreview } from '../db/schemas.js';
+
+export interface MetaExpressionContext {
+  // whether the item is in the user's debrid library
+  inLibrary: boolean;
+}
+
+/**
+ * Get the IMDb rating of a catalog item, if it has one.
+ */
+export function getMetaRating(item: MetaPreview): number | undefined {
+  const rating = Number(item.imdbRating);
+  return item.imdbRating != null && !isNaN(rating) ? rating : undefined;
+}
+
+/**
+ * Get the year a catalog item was released in, from its release info (e.g.
+ * 2019 or 2019-2023) or release date.
+ */
+export function getMetaYear(item: MetaPreview): number | undefined {
+  const year = `${item.releaseInfo ?? item.released ?? ''}`.match(
+    /\b(\d{4})\b/
+  )?.[1];
+  return year ? Number(year) : undefined;
+}
+
+/**
+ * Get the genres of a catalog item, from its genres or its genre links.
+ */
+export function getMetaGenres(item: MetaPreview): string[] {
+  return [
+    ...new Set([
+      ...(item.genres ?? []),
+      ...(item.links ?? [])
+        .filter((link) => link.category.toLowerCase() === 'genres')
+        .map((link) => link.name),
+    ]),
+  ];
+}
+
+/**
+ * Evaluates expressions over the items of a catalog, e.g.
+ * `rating >= 7 and year >= 2000 and not ("Horror" in genres)`.
+ *
+ * The variables are name, type, rating and year (0 when unknown), genres and
+ * inLibrary. Only comparison, logical, arithmetic and `in` operators are
+ * available.
+ */
+export class MetaExpressionEvaluator {
+  private static readonly parser = new Parser({
+    operators: {
+      comparison: true,
+      logical: true,
+      add: true,
+      subtract: true,
+      multiply: true,
+      divide: true,
+      conditional: true,
+      in: true,
+      concatenate: false,
+      factorial: false,
+      power: false,
+      remainder: false,
+      assignment: false,
+      fndef: false,
+    },
+  });
+
+  private readonly expression: Expression;
+
+  constructor(expression: string) {
+    try {
+      this.expression = MetaExpressionEvaluator.parser.parse(expression);
+    } catch (error) {
+      throw new Error(
+        `Expression could not be parsed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Whether the expression uses inLibrary, which needs the user's library to
+   * be listed.
+   */
+  public usesLibrary(): boolean {
+    return this.expression.variables().includes('inLibrary');
+  }
+
+  /**
+   * Whether an item matches the expression.
+   */
+  public evaluate(item: MetaPreview, context: MetaExpressionContext): boolean {
+    // expr-eval's types don't include arrays or booleans, which it supports
+    const values: Record<string, any> = {
+      name: item.name ?? '',
+      type: item.type,
+      rating: getMetaRating(item) ?? 0,
+      year: getMetaYear(item) ?? 0,
+      genres: getMetaGenres(item),
+      inLibrary: context.inLibrary,
+    };
+    return !!this.expression.evaluate(values);
+  }
+
+  /**
+   * Parse an expression and evaluate it against a test item, throwing if it
+   * is invalid.
+   */
+  static testEvaluate(expression: string): boolean {
+    return new MetaExpressionEvaluator(expression).evaluate(
+      {
+        id: 'tt0000000',
+        type: 'movie',
+        name: 'Test',
+        imdbRating: '7.5',
+        releaseInfo: '2020',
+        genres: ['Drama'],
+      },
+      { inLibrary: false }
+    );
+  }
+}
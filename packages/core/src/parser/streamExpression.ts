@@ -4,20 +4,58 @@ import {
   ParsedStreams,
   ParsedStreamSchema,
   PassthroughStage,
+  SelMacro,
 } from '../db/schemas.js';
 import bytes from 'bytes';
 import { formatZodError } from '../utils/config.js';
 import { ZodError } from 'zod';
-import { PASSTHROUGH_STAGES } from '../utils/constants.js';
+import {
+  AUDIO_CHANNELS,
+  AUDIO_TAGS,
+  ENCODES,
+  LANGUAGES,
+  PASSTHROUGH_STAGES,
+  QUALITIES,
+  RESOLUTIONS,
+  STREAM_TYPES,
+  VISUAL_TAGS,
+} from '../utils/constants.js';
+import { extract } from 'fuzzball';
 import { parseBitrate } from './utils.js';
 import { createLogger } from '../utils/logger.js';
 
 const logger = createLogger('stream-expression');
 
+const MAX_MACRO_DEPTH = 16;
+const MACRO_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// service ids accepted by the service() function
+const SEL_SERVICE_IDS: readonly string[] = [
+  'realdebrid',
+  'debridlink',
+  'alldebrid',
+  'torbox',
+  'pikpak',
+  'seedr',
+  'offcloud',
+  'premiumize',
+  'easynews',
+  'nzbdav',
+  'altmount',
+  'stremio_nntp',
+  'easydebrid',
+  'debrider',
+  'qbittorrent',
+  'transmission',
+];
+
 export abstract class StreamExpressionEngine {
   protected parser: Parser;
+  private macroDepth: number = 0;
+  // health scores of the addons being fetched from, keyed by addon name
+  protected addonHealth: Record<string, number> = {};
 
-  constructor() {
+  constructor(macros?: SelMacro[]) {
     // only allow comparison and logical operators
     this.parser = new Parser({
       operators: {
@@ -71,6 +109,160 @@ export abstract class StreamExpressionEngine {
     });
 
     this.setupParserFunctions();
+    if (macros?.length) {
+      this.setupMacros(macros);
+    }
+  }
+
+  /**
+   * Validate a set of user defined macros. Macro names must be valid
+   * identifiers that don't clash with built-in functions or constants,
+   * parameters must be unique, bodies must parse, and macros may call each
+   * other as long as there are no cycles.
+   */
+  static validateMacros(macros: SelMacro[]) {
+    const engines: StreamExpressionEngine[] = [
+      new StreamSelector({}),
+      new PrecacheConditionEvaluator([], {}),
+      new GroupConditionEvaluator([], [], 0, 0, 'movie'),
+      new ExitConditionEvaluator([], 0, 'movie', [], []),
+    ];
+    const reserved = new Set<string>(['and', 'or', 'not', 'in']);
+    for (const engine of engines) {
+      Object.keys(engine.parser.functions).forEach((n) => reserved.add(n));
+      Object.keys(engine.parser.consts).forEach((n) => reserved.add(n));
+      Object.keys(engine.parser.unaryOps).forEach((n) => reserved.add(n));
+    }
+
+    const macroNames = new Set<string>();
+    const references = new Map<string, string[]>();
+    const parser = engines[0].parser;
+
+    for (const macro of macros) {
+      if (!MACRO_NAME_REGEX.test(macro.name)) {
+        throw new Error(
+          `Macro name '${macro.name}' must start with a letter or underscore and only contain letters, numbers and underscores`
+        );
+      }
+      if (reserved.has(macro.name)) {
+        throw new Error(
+          `Macro name '${macro.name}' clashes with a built-in function or constant`
+        );
+      }
+      if (macroNames.has(macro.name)) {
+        throw new Error(`Macro '${macro.name}' is defined more than once`);
+      }
+      macroNames.add(macro.name);
+
+      const parameters = macro.parameters ?? [];
+      const seenParameters = new Set<string>();
+      for (const parameter of parameters) {
+        if (!MACRO_NAME_REGEX.test(parameter)) {
+          throw new Error(
+            `Parameter '${parameter}' of macro '${macro.name}' is not a valid name`
+          );
+        }
+        if (seenParameters.has(parameter)) {
+          throw new Error(
+            `Parameter '${parameter}' of macro '${macro.name}' is defined more than once`
+          );
+        }
+        seenParameters.add(parameter);
+      }
+
+      let symbols: string[];
+      try {
+        symbols = parser.parse(macro.expression).symbols();
+      } catch (error) {
+        throw new Error(
+          `Macro '${macro.name}' could not be parsed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      references.set(macro.name, symbols);
+    }
+
+    // depth first search for cycles in the macro call graph
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+    const visit = (name: string, path: string[]) => {
+      if (visiting.has(name)) {
+        const cycle = [...path.slice(path.indexOf(name)), name];
+        throw new Error(`Macros cannot be recursive: ${cycle.join(' → ')}`);
+      }
+      if (visited.has(name)) return;
+      visiting.add(name);
+      for (const symbol of references.get(name) ?? []) {
+        if (macroNames.has(symbol)) {
+          visit(symbol, [...path, name]);
+        }
+      }
+      visiting.delete(name);
+      visited.add(name);
+    };
+    for (const name of macroNames) {
+      visit(name, []);
+    }
+  }
+
+  /**
+   * Statically analyse an expression without evaluating it, returning any
+   * problems found along with their position in the expression.
+   */
+  static analyse(
+    expression: string,
+    kind: StreamExpressionKind,
+    macros?: SelMacro[]
+  ): StreamExpressionDiagnostic[] {
+    const engine = new StreamSelector({});
+    return new StreamExpressionAnalyser(
+      kind,
+      Object.keys(engine.parser.functions),
+      macros ?? []
+    ).analyse(expression);
+  }
+
+  private setupMacros(macros: SelMacro[]) {
+    for (const macro of macros) {
+      const parameters = macro.parameters ?? [];
+      this.parser.functions[macro.name] = (...args: any[]) => {
+        if (args.length !== parameters.length) {
+          throw new Error(
+            `Macro '${macro.name}' expects ${parameters.length} argument(s), got ${args.length}`
+          );
+        }
+        if (this.macroDepth >= MAX_MACRO_DEPTH) {
+          throw new Error(
+            `Macro '${macro.name}' exceeded the maximum nesting depth of ${MAX_MACRO_DEPTH}`
+          );
+        }
+        // constants are substituted when an expression is parsed, so hide any
+        // that share a name with a parameter (e.g. streams) while parsing the body
+        const shadowedConsts: Record<string, any> = {};
+        for (const parameter of parameters) {
+          if (parameter in this.parser.consts) {
+            shadowedConsts[parameter] = this.parser.consts[parameter];
+            delete this.parser.consts[parameter];
+          }
+        }
+        let expression;
+        try {
+          expression = this.parser.parse(macro.expression);
+        } finally {
+          Object.assign(this.parser.consts, shadowedConsts);
+        }
+
+        this.macroDepth++;
+        try {
+          return expression.evaluate(
+            Object.fromEntries(
+              parameters.map((parameter, index) => [parameter, args[index]])
+            )
+          );
+        } finally {
+          this.macroDepth--;
+        }
+      };
+    }
   }
 
   private setupParserFunctions() {
@@ -646,6 +838,34 @@ export abstract class StreamExpressionEngine {
       });
     };
 
+    this.parser.functions.completeness = function (
+      streams: ParsedStream[],
+      minCompleteness?: number,
+      maxCompleteness?: number
+    ) {
+      if (!Array.isArray(streams) || streams.some((stream) => !stream.type)) {
+        throw new Error('Your streams input must be an array of streams');
+      } else if (
+        typeof minCompleteness !== 'number' &&
+        typeof maxCompleteness !== 'number'
+      ) {
+        throw new Error('Min and max completeness must be a number');
+      }
+      // select streams with a checked NZB whose completeness lies within the range
+      return streams.filter((stream) => {
+        if (stream.nzbCompleteness === undefined) {
+          return false;
+        }
+        if (minCompleteness && stream.nzbCompleteness < minCompleteness) {
+          return false;
+        }
+        if (maxCompleteness && stream.nzbCompleteness > maxCompleteness) {
+          return false;
+        }
+        return true;
+      });
+    };
+
     this.parser.functions.age = function (
       streams: ParsedStream[],
       minAge?: number,
@@ -771,28 +991,9 @@ export abstract class StreamExpressionEngine {
         throw new Error(
           'You must provide one or more service string parameters'
         );
-      } else if (
-        !services.every((s) =>
-          [
-            'realdebrid',
-            'debridlink',
-            'alldebrid',
-            'torbox',
-            'pikpak',
-            'seedr',
-            'offcloud',
-            'premiumize',
-            'easynews',
-            'nzbdav',
-            'altmount',
-            'stremio_nntp',
-            'easydebrid',
-            'debrider',
-          ].includes(s)
-        )
-      ) {
+      } else if (!services.every((s) => SEL_SERVICE_IDS.includes(s))) {
         throw new Error(
-          'Service must be a string and one of: realdebrid, debridlink, alldebrid, torbox, pikpak, seedr, offcloud, premiumize, easynews, nzbdav, altmount, easydebrid, debrider'
+          `Service must be a string and one of: ${SEL_SERVICE_IDS.join(', ')}`
         );
       }
       return streams.filter((stream) =>
@@ -1031,6 +1232,14 @@ export abstract class StreamExpressionEngine {
       return merged;
     };
 
+    this.parser.functions.addonHealth = (addon: string) => {
+      if (typeof addon !== 'string') {
+        throw new Error('You must provide an addon name');
+      }
+      // addons that haven't been tracked yet are assumed to be healthy
+      return this.addonHealth[addon] ?? 100;
+    };
+
     this.parser.functions.slice = function (
       streams: ParsedStream[],
       start: number,
@@ -1154,9 +1363,12 @@ export class ExitConditionEvaluator extends StreamExpressionEngine {
     private totalTimeTaken: number,
     private queryType: string,
     private queriedAddons: string[],
-    private allAddons: string[]
+    private allAddons: string[],
+    macros?: SelMacro[],
+    addonHealth: Record<string, number> = {}
   ) {
-    super();
+    super(macros);
+    this.addonHealth = addonHealth;
     this.parser.consts.totalStreams = this.totalStreams;
     this.parser.consts.totalTimeTaken = this.totalTimeTaken;
     this.parser.consts.queryType = this.queryType;
@@ -1168,21 +1380,26 @@ export class ExitConditionEvaluator extends StreamExpressionEngine {
     return await this.evaluateCondition(condition);
   }
 
-  static async testEvaluate(condition: string) {
+  static async testEvaluate(condition: string, macros?: SelMacro[]) {
     const parser = new ExitConditionEvaluator(
       [],
       200,
       'movie',
       ['Test Addon'],
-      ['Test Addon']
+      ['Test Addon'],
+      macros
     );
     return await parser.evaluate(condition);
   }
 }
 
 export class PrecacheConditionEvaluator extends StreamExpressionEngine {
-  constructor(streams: ParsedStream[], context: ExpressionContext) {
-    super();
+  constructor(
+    streams: ParsedStream[],
+    context: ExpressionContext,
+    macros?: SelMacro[]
+  ) {
+    super(macros);
     this.parser.consts.streams = streams;
     this.parser.consts.queryType = context.queryType ?? '';
     this.parser.consts.isAnime = context.isAnime ?? false;
@@ -1197,6 +1414,7 @@ export class PrecacheConditionEvaluator extends StreamExpressionEngine {
     this.parser.consts.absoluteEpisode = context.absoluteEpisode ?? -1;
     this.parser.consts.originalLanguage = context.originalLanguage ?? '';
     this.parser.consts.hasSeaDex = context.hasSeaDex ?? false;
+    this.addonHealth = context.addonHealth ?? {};
   }
 
   async evaluate(condition: string): Promise<boolean> {
@@ -1209,8 +1427,15 @@ export class PrecacheConditionEvaluator extends StreamExpressionEngine {
     return result;
   }
 
-  static async testEvaluate(condition: string): Promise<boolean> {
-    const parser = new PrecacheConditionEvaluator([], { queryType: 'series' });
+  static async testEvaluate(
+    condition: string,
+    macros?: SelMacro[]
+  ): Promise<boolean> {
+    const parser = new PrecacheConditionEvaluator(
+      [],
+      { queryType: 'series' },
+      macros
+    );
     return await parser.evaluate(condition);
   }
 }
@@ -1226,9 +1451,12 @@ export class GroupConditionEvaluator extends StreamExpressionEngine {
     totalStreams: ParsedStream[],
     previousGroupTimeTaken: number,
     totalTimeTaken: number,
-    queryType: string
+    queryType: string,
+    macros?: SelMacro[],
+    addonHealth: Record<string, number> = {}
   ) {
-    super();
+    super(macros);
+    this.addonHealth = addonHealth;
 
     this.previousStreams = previousStreams;
     this.totalStreams = totalStreams;
@@ -1247,8 +1475,8 @@ export class GroupConditionEvaluator extends StreamExpressionEngine {
     return await this.evaluateCondition(condition);
   }
 
-  static async testEvaluate(condition: string) {
-    const parser = new GroupConditionEvaluator([], [], 0, 0, 'movie');
+  static async testEvaluate(condition: string, macros?: SelMacro[]) {
+    const parser = new GroupConditionEvaluator([], [], 0, 0, 'movie', macros);
     return await parser.evaluate(condition);
   }
 }
@@ -1279,11 +1507,13 @@ export interface ExpressionContext {
   malId?: number;
   // SeaDex availability
   hasSeaDex?: boolean;
+  // Health scores of the addons being fetched from, keyed by addon name
+  addonHealth?: Record<string, number>;
 }
 
 export class StreamSelector extends StreamExpressionEngine {
-  constructor(context: ExpressionContext) {
-    super();
+  constructor(context: ExpressionContext, macros?: SelMacro[]) {
+    super(macros);
 
     // we need to ensure these are always defined to a safe default
     // because otherwise the expression parser may throw errors
@@ -1300,6 +1530,7 @@ export class StreamSelector extends StreamExpressionEngine {
     this.parser.consts.absoluteEpisode = context.absoluteEpisode ?? -1;
     this.parser.consts.originalLanguage = context.originalLanguage ?? '';
     this.parser.consts.hasSeaDex = context.hasSeaDex ?? false;
+    this.addonHealth = context.addonHealth ?? {};
   }
 
   async select(
@@ -1329,8 +1560,11 @@ export class StreamSelector extends StreamExpressionEngine {
     return selectedStreams;
   }
 
-  static async testSelect(condition: string): Promise<ParsedStream[]> {
-    const parser = new StreamSelector({ queryType: 'movie' });
+  static async testSelect(
+    condition: string,
+    macros?: SelMacro[]
+  ): Promise<ParsedStream[]> {
+    const parser = new StreamSelector({ queryType: 'movie' }, macros);
     const streams = [
       parser.createTestStream({ type: 'debrid' }),
       parser.createTestStream({ type: 'debrid' }),
@@ -1342,3 +1576,1350 @@ export class StreamSelector extends StreamExpressionEngine {
     return await parser.select(streams, condition);
   }
 }
+
+/**
+ * Evaluates a numeric expression for a single stream, used by the custom sort
+ * criterion. The stream being evaluated is available as `stream` (a single
+ * element array so that every stream function can be used on it), alongside
+ * all of the streams being sorted as `streams`.
+ */
+export class SortKeyEvaluator extends StreamExpressionEngine {
+  private streams: ParsedStream[];
+
+  constructor(
+    streams: ParsedStream[],
+    context: ExpressionContext,
+    macros?: SelMacro[]
+  ) {
+    super(macros);
+    this.streams = streams;
+
+    this.parser.consts.streams = streams;
+    this.parser.consts.queryType = context.queryType ?? '';
+    this.parser.consts.isAnime = context.isAnime ?? false;
+    this.parser.consts.season = context.season ?? -1;
+    this.parser.consts.episode = context.episode ?? -1;
+    this.parser.consts.genres = context.genres ?? [];
+    this.parser.consts.title = context.title ?? '';
+    this.parser.consts.year = context.year ?? 0;
+    this.parser.consts.yearEnd = context.yearEnd ?? 0;
+    this.parser.consts.daysSinceRelease = context.daysSinceRelease ?? -1;
+    this.parser.consts.runtime = context.runtime ?? 0;
+    this.parser.consts.absoluteEpisode = context.absoluteEpisode ?? -1;
+    this.parser.consts.originalLanguage = context.originalLanguage ?? '';
+    this.parser.consts.hasSeaDex = context.hasSeaDex ?? false;
+    this.addonHealth = context.addonHealth ?? {};
+  }
+
+  async evaluate(stream: ParsedStream, expression: string): Promise<number> {
+    this.parser.consts.stream = [stream];
+    const result = await this.evaluateCondition(expression);
+    if (typeof result === 'boolean') {
+      return result ? 1 : 0;
+    }
+    if (typeof result !== 'number' || isNaN(result)) {
+      throw new Error(
+        `Sort expression must evaluate to a number, got: ${Array.isArray(result) ? 'array' : typeof result}`
+      );
+    }
+    return result;
+  }
+
+  static async testEvaluate(
+    expression: string,
+    macros?: SelMacro[]
+  ): Promise<number> {
+    const parser = new SortKeyEvaluator([], { queryType: 'movie' }, macros);
+    const stream = parser.createTestStream();
+    parser.streams.push(stream);
+    return await parser.evaluate(stream, expression);
+  }
+}
+
+export const STREAM_EXPRESSION_KINDS = [
+  'select',
+  'precache',
+  'group',
+  'exit',
+  'sort',
+] as const;
+
+export type StreamExpressionKind = (typeof STREAM_EXPRESSION_KINDS)[number];
+
+export interface StreamExpressionDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  // 1-based, end positions are exclusive
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+type SelType = 'streams' | 'number' | 'boolean' | 'string' | 'array' | 'any';
+
+const SEL_TYPE_NAMES: Record<SelType, string> = {
+  streams: 'a stream array',
+  number: 'a number',
+  boolean: 'a boolean',
+  string: 'a string',
+  array: 'an array',
+  any: 'a value',
+};
+
+const KIND_NAMES: Record<StreamExpressionKind, string> = {
+  select: 'stream expressions',
+  precache: 'precache conditions',
+  group: 'group conditions',
+  exit: 'exit conditions',
+  sort: 'sort expressions',
+};
+
+const CONTEXT_CONSTS: Record<string, SelType> = {
+  queryType: 'string',
+  isAnime: 'boolean',
+  season: 'number',
+  episode: 'number',
+  genres: 'array',
+  title: 'string',
+  year: 'number',
+  yearEnd: 'number',
+  daysSinceRelease: 'number',
+  runtime: 'number',
+  absoluteEpisode: 'number',
+  originalLanguage: 'string',
+  hasSeaDex: 'boolean',
+};
+
+// the constants each evaluator defines, see their constructors
+const KIND_CONSTS: Record<StreamExpressionKind, Record<string, SelType>> = {
+  select: { streams: 'streams', ...CONTEXT_CONSTS },
+  precache: { streams: 'streams', ...CONTEXT_CONSTS },
+  group: {
+    previousStreams: 'streams',
+    totalStreams: 'streams',
+    queryType: 'string',
+    previousGroupTimeTaken: 'number',
+    totalTimeTaken: 'number',
+  },
+  exit: {
+    totalStreams: 'streams',
+    totalTimeTaken: 'number',
+    queryType: 'string',
+    queriedAddons: 'array',
+    allAddons: 'array',
+  },
+  sort: { stream: 'streams', streams: 'streams', ...CONTEXT_CONSTS },
+};
+
+// constants built in to expr-eval
+const LITERAL_CONSTS: Record<string, boolean | number> = {
+  true: true,
+  false: false,
+  PI: Math.PI,
+  E: Math.E,
+};
+
+interface SelParameter {
+  types: SelType[];
+  // known values for string arguments
+  values?: readonly string[];
+  label?: string;
+  caseSensitive?: boolean;
+  // whether the function throws for unknown values rather than not matching
+  strict?: boolean;
+}
+
+interface SelSignature {
+  params: SelParameter[];
+  rest?: SelParameter;
+  minArgs: number;
+  returns: SelType;
+}
+
+const streamsParameter: SelParameter = { types: ['streams'] };
+const numberParameter: SelParameter = { types: ['number'] };
+
+const statisticSignature: SelSignature = {
+  params: [{ types: ['number', 'array'] }],
+  rest: numberParameter,
+  minArgs: 1,
+  returns: 'number',
+};
+
+const listFilterSignature = (
+  parameter: Omit<SelParameter, 'types'> = {}
+): SelSignature => ({
+  params: [streamsParameter],
+  rest: { types: ['string'], ...parameter },
+  minArgs: 2,
+  returns: 'streams',
+});
+
+const rangeFilterSignature = (
+  types: SelType[],
+  minArgs: number = 2
+): SelSignature => ({
+  params: [streamsParameter, { types }, { types }],
+  minArgs,
+  returns: 'streams',
+});
+
+// the signatures of the functions set up in setupParserFunctions, which must
+// be kept in step with them (see tests/parser/streamExpression.test.ts)
+export const SEL_SIGNATURES: Record<string, SelSignature> = {
+  max: statisticSignature,
+  min: statisticSignature,
+  avg: statisticSignature,
+  mean: statisticSignature,
+  sum: statisticSignature,
+  q1: statisticSignature,
+  median: statisticSignature,
+  q2: statisticSignature,
+  q3: statisticSignature,
+  iqr: statisticSignature,
+  variance: statisticSignature,
+  stddev: statisticSignature,
+  range: statisticSignature,
+  mode: statisticSignature,
+  skewness: statisticSignature,
+  kurtosis: statisticSignature,
+  percentile: {
+    params: [{ types: ['array'] }, numberParameter],
+    minArgs: 2,
+    returns: 'number',
+  },
+  values: {
+    params: [
+      streamsParameter,
+      {
+        types: ['string'],
+        values: ['bitrate', 'size', 'folderSize', 'age', 'duration', 'seeders'],
+        label: 'attribute',
+        caseSensitive: true,
+        strict: true,
+      },
+    ],
+    minArgs: 2,
+    returns: 'array',
+  },
+  regexMatched: {
+    params: [streamsParameter],
+    rest: { types: ['string'] },
+    minArgs: 1,
+    returns: 'streams',
+  },
+  regexMatchedInRange: {
+    params: [streamsParameter, numberParameter, numberParameter],
+    minArgs: 3,
+    returns: 'streams',
+  },
+  indexer: listFilterSignature({ caseSensitive: true }),
+  resolution: listFilterSignature({
+    values: RESOLUTIONS,
+    label: 'resolution',
+  }),
+  quality: listFilterSignature({ values: QUALITIES, label: 'quality' }),
+  encode: listFilterSignature({ values: ENCODES, label: 'encode' }),
+  type: listFilterSignature({ values: STREAM_TYPES, label: 'stream type' }),
+  visualTag: listFilterSignature({
+    values: VISUAL_TAGS,
+    label: 'visual tag',
+  }),
+  audioTag: listFilterSignature({ values: AUDIO_TAGS, label: 'audio tag' }),
+  audioChannels: listFilterSignature({
+    values: AUDIO_CHANNELS,
+    label: 'audio channel',
+  }),
+  language: listFilterSignature({ values: LANGUAGES, label: 'language' }),
+  seeders: rangeFilterSignature(['number']),
+  completeness: rangeFilterSignature(['number']),
+  age: rangeFilterSignature(['number']),
+  size: rangeFilterSignature(['number', 'string']),
+  bitrate: rangeFilterSignature(['number', 'string']),
+  service: listFilterSignature({
+    values: SEL_SERVICE_IDS,
+    label: 'service',
+    caseSensitive: true,
+    strict: true,
+  }),
+  cached: { params: [streamsParameter], minArgs: 1, returns: 'streams' },
+  uncached: { params: [streamsParameter], minArgs: 1, returns: 'streams' },
+  releaseGroup: listFilterSignature({ caseSensitive: true }),
+  seasonPack: {
+    params: [
+      streamsParameter,
+      {
+        types: ['string'],
+        values: ['seasonPack', 'onlySeasons'],
+        label: 'season pack mode',
+        caseSensitive: true,
+        strict: true,
+      },
+    ],
+    minArgs: 1,
+    returns: 'streams',
+  },
+  addon: listFilterSignature({ caseSensitive: true }),
+  library: { params: [streamsParameter], minArgs: 1, returns: 'streams' },
+  seadex: {
+    params: [
+      streamsParameter,
+      { types: ['string'], values: ['best', 'all'], label: 'SeaDex mode' },
+    ],
+    minArgs: 1,
+    returns: 'streams',
+  },
+  score: rangeFilterSignature(['number'], 1),
+  message: {
+    params: [
+      streamsParameter,
+      {
+        types: ['string'],
+        values: ['exact', 'includes'],
+        label: 'message mode',
+        caseSensitive: true,
+        strict: true,
+      },
+    ],
+    rest: { types: ['string'] },
+    minArgs: 3,
+    returns: 'streams',
+  },
+  passthrough: {
+    params: [streamsParameter],
+    rest: {
+      types: ['string'],
+      values: PASSTHROUGH_STAGES,
+      label: 'passthrough stage',
+      caseSensitive: true,
+      strict: true,
+    },
+    minArgs: 1,
+    returns: 'streams',
+  },
+  count: { params: [{ types: ['array'] }], minArgs: 1, returns: 'number' },
+  addonHealth: {
+    params: [{ types: ['string'], label: 'addon name' }],
+    minArgs: 1,
+    returns: 'number',
+  },
+  negate: {
+    params: [streamsParameter, streamsParameter],
+    minArgs: 2,
+    returns: 'streams',
+  },
+  merge: { params: [], rest: streamsParameter, minArgs: 1, returns: 'streams' },
+  slice: {
+    params: [streamsParameter, numberParameter, numberParameter],
+    minArgs: 2,
+    returns: 'streams',
+  },
+};
+
+const COMPARISON_OPERATORS = ['==', '!=', '<', '<=', '>', '>=', 'in'];
+const PREFIX_OPERATORS = ['-', '+', 'not', 'sqrt'];
+const NAMED_OPERATORS = ['and', 'or', 'not', 'in', 'sqrt'];
+
+interface SelToken {
+  type:
+    | 'number'
+    | 'string'
+    | 'name'
+    | 'operator'
+    | 'paren'
+    | 'bracket'
+    | 'comma'
+    | 'semicolon'
+    | 'eof';
+  value: string | number;
+  start: number;
+  end: number;
+}
+
+type SelNode = { start: number; end: number } & (
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'name'; name: string }
+  | { type: 'array'; items: SelNode[] }
+  | { type: 'call'; callee: SelNode; args: SelNode[] }
+  | { type: 'member'; object: SelNode; property: string }
+  | { type: 'index'; object: SelNode; index: SelNode }
+  | { type: 'unary'; operator: string; operand: SelNode }
+  | { type: 'binary'; operator: string; left: SelNode; right: SelNode }
+  | {
+      type: 'conditional';
+      test: SelNode;
+      consequent: SelNode;
+      alternate: SelNode;
+    }
+  | { type: 'sequence'; expressions: SelNode[] }
+);
+
+interface SelInference {
+  type: SelType;
+  constant?: { value: unknown };
+  // set for values that can never be negative, e.g. count()
+  nonNegative?: boolean;
+  // set once a diagnostic has reported this value as constant so that
+  // enclosing expressions don't report it again
+  reported?: boolean;
+}
+
+class SelSyntaxError extends Error {
+  constructor(
+    message: string,
+    public start: number,
+    public end: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A static analyser for stream expressions. It mirrors the tokenizer and
+ * grammar of expr-eval but keeps track of positions, and then type checks
+ * the resulting tree against the functions and constants available to the
+ * given kind of expression.
+ */
+class StreamExpressionAnalyser {
+  private expression = '';
+  private tokens: SelToken[] = [];
+  private position = 0;
+  private diagnostics: StreamExpressionDiagnostic[] = [];
+  private readonly consts: Record<string, SelType>;
+  private readonly macros: Map<string, SelMacro>;
+
+  constructor(
+    private readonly kind: StreamExpressionKind,
+    private readonly builtinFunctions: string[],
+    macros: SelMacro[]
+  ) {
+    this.consts = KIND_CONSTS[kind];
+    this.macros = new Map(macros.map((macro) => [macro.name, macro]));
+  }
+
+  analyse(expression: string): StreamExpressionDiagnostic[] {
+    this.expression = expression;
+    this.position = 0;
+    this.diagnostics = [];
+
+    let root: SelNode;
+    try {
+      this.tokens = this.tokenize();
+      root = this.parseExpression();
+      if (this.peek().type !== 'eof') {
+        throw this.unexpected(this.peek());
+      }
+    } catch (error) {
+      if (error instanceof SelSyntaxError) {
+        this.report('error', error.message, error.start, error.end);
+        return this.diagnostics;
+      }
+      throw error;
+    }
+
+    const result = this.check(root);
+    this.checkResult(root, result);
+    return this.diagnostics;
+  }
+
+  private report(
+    severity: StreamExpressionDiagnostic['severity'],
+    message: string,
+    start: number,
+    end: number
+  ) {
+    const from = this.toLineColumn(start);
+    const to = this.toLineColumn(Math.max(end, start + 1));
+    this.diagnostics.push({
+      severity,
+      message,
+      line: from.line,
+      column: from.column,
+      endLine: to.line,
+      endColumn: to.column,
+    });
+  }
+
+  private toLineColumn(offset: number) {
+    const before = this.expression.slice(0, offset).split('\n');
+    return {
+      line: before.length,
+      column: before[before.length - 1].length + 1,
+    };
+  }
+
+  private suggest(value: string, choices: readonly string[]) {
+    const [match] = extract(value, [...choices], { limit: 1, cutoff: 60 });
+    return match ? `. Did you mean '${match[0]}'?` : '';
+  }
+
+  private tokenize(): SelToken[] {
+    const tokens: SelToken[] = [];
+    const source = this.expression;
+    let pos = 0;
+    const push = (
+      type: SelToken['type'],
+      value: string | number,
+      end: number
+    ) => {
+      tokens.push({ type, value, start: pos, end });
+      pos = end;
+    };
+
+    while (pos < source.length) {
+      const rest = source.slice(pos);
+      const c = source[pos];
+      let match: RegExpMatchArray | null;
+
+      if (/\s/.test(c)) {
+        pos++;
+      } else if (rest.startsWith('/*')) {
+        const close = source.indexOf('*/', pos + 2);
+        pos = close === -1 ? source.length : close + 2;
+      } else if ((match = rest.match(/^0x[0-9a-f]+|^0b[01]+/i))) {
+        push(
+          'number',
+          parseInt(match[0].slice(2), match[0][1] === 'b' ? 2 : 16),
+          pos + match[0].length
+        );
+      } else if ((match = rest.match(/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i))) {
+        push('number', parseFloat(match[0]), pos + match[0].length);
+      } else if ((match = rest.match(/^(==|!=|<=|>=|[<>+\-*/?:.])/))) {
+        push('operator', match[0], pos + match[0].length);
+      } else if (c === '"' || c === "'") {
+        let close = source.indexOf(c, pos + 1);
+        while (close !== -1 && source[close - 1] === '\\') {
+          close = source.indexOf(c, close + 1);
+        }
+        if (close === -1) {
+          throw new SelSyntaxError('Unterminated string', pos, source.length);
+        }
+        push(
+          'string',
+          this.unescape(source.slice(pos + 1, close), pos),
+          close + 1
+        );
+      } else if (c === '(' || c === ')') {
+        push('paren', c, pos + 1);
+      } else if (c === '[' || c === ']') {
+        push('bracket', c, pos + 1);
+      } else if (c === ',') {
+        push('comma', c, pos + 1);
+      } else if (c === ';') {
+        push('semicolon', c, pos + 1);
+      } else if ((match = rest.match(/^[\p{L}_$][\p{L}\d_]*/u))) {
+        push(
+          NAMED_OPERATORS.includes(match[0]) ? 'operator' : 'name',
+          match[0],
+          pos + match[0].length
+        );
+      } else {
+        const alternatives: Record<string, string> = {
+          '=': "'=='",
+          '&': "'and'",
+          '|': "'or'",
+          '!': "'not' or '!='",
+        };
+        const hint = alternatives[c] ? `. Use ${alternatives[c]} instead` : '';
+        throw new SelSyntaxError(
+          `Unknown character '${c}'${hint}`,
+          pos,
+          pos + 1
+        );
+      }
+    }
+    tokens.push({ type: 'eof', value: 'EOF', start: pos, end: pos });
+    return tokens;
+  }
+
+  private unescape(value: string, offset: number): string {
+    return value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (sequence, code: string) => {
+      if (code.length === 5) {
+        return String.fromCharCode(parseInt(code.slice(1), 16));
+      }
+      const escapes: Record<string, string> = {
+        "'": "'",
+        '"': '"',
+        '\\': '\\',
+        '/': '/',
+        b: '\b',
+        f: '\f',
+        n: '\n',
+        r: '\r',
+        t: '\t',
+      };
+      if (!(code in escapes)) {
+        throw new SelSyntaxError(
+          `Illegal escape sequence '${sequence}'`,
+          offset,
+          offset + value.length + 2
+        );
+      }
+      return escapes[code];
+    });
+  }
+
+  private peek(): SelToken {
+    return this.tokens[this.position];
+  }
+
+  private accept(
+    type: SelToken['type'],
+    values?: string[]
+  ): SelToken | undefined {
+    const token = this.peek();
+    if (
+      token.type === type &&
+      (!values || values.includes(token.value as string))
+    ) {
+      this.position++;
+      return token;
+    }
+    return undefined;
+  }
+
+  private expect(type: SelToken['type'], value: string): SelToken {
+    const token = this.accept(type, [value]);
+    if (!token) {
+      const next = this.peek();
+      throw new SelSyntaxError(`Expected '${value}'`, next.start, next.end);
+    }
+    return token;
+  }
+
+  private unexpected(token: SelToken) {
+    return new SelSyntaxError(
+      token.type === 'eof'
+        ? 'Unexpected end of expression'
+        : `Unexpected ${token.type === 'string' ? `string '${token.value}'` : `'${token.value}'`}`,
+      token.start,
+      token.end
+    );
+  }
+
+  private parseExpression(): SelNode {
+    const expressions = [this.parseConditional()];
+    while (this.accept('semicolon')) {
+      if (this.peek().type === 'eof') break;
+      expressions.push(this.parseConditional());
+    }
+    if (expressions.length === 1) return expressions[0];
+    return {
+      type: 'sequence',
+      expressions,
+      start: expressions[0].start,
+      end: expressions[expressions.length - 1].end,
+    };
+  }
+
+  private parseConditional(): SelNode {
+    const test = this.parseBinary(0);
+    if (!this.accept('operator', ['?'])) return test;
+    const consequent = this.parseConditional();
+    this.expect('operator', ':');
+    const alternate = this.parseConditional();
+    return {
+      type: 'conditional',
+      test,
+      consequent,
+      alternate,
+      start: test.start,
+      end: alternate.end,
+    };
+  }
+
+  // binary operators from lowest to highest precedence, all left associative
+  private static readonly BINARY_PRECEDENCE = [
+    ['or'],
+    ['and'],
+    COMPARISON_OPERATORS,
+    ['+', '-'],
+    ['*', '/'],
+  ];
+
+  private parseBinary(level: number): SelNode {
+    const operators = StreamExpressionAnalyser.BINARY_PRECEDENCE[level];
+    if (!operators) return this.parseFactor();
+    let left = this.parseBinary(level + 1);
+    let operator: SelToken | undefined;
+    while ((operator = this.accept('operator', operators))) {
+      const right = this.parseBinary(level + 1);
+      left = {
+        type: 'binary',
+        operator: operator.value as string,
+        left,
+        right,
+        start: left.start,
+        end: right.end,
+      };
+    }
+    return left;
+  }
+
+  private parseFactor(): SelNode {
+    const operator = this.accept('operator', PREFIX_OPERATORS);
+    if (!operator) return this.parseCall();
+    const next = this.peek();
+    // named operators followed by brackets behave like function calls and
+    // bind tighter than the binary operators, e.g. not(a) == b
+    const operand =
+      (operator.value === 'not' || operator.value === 'sqrt') &&
+      next.type === 'paren' &&
+      next.value === '('
+        ? this.parseAtom()
+        : this.parseFactor();
+    return {
+      type: 'unary',
+      operator: operator.value as string,
+      operand,
+      start: operator.start,
+      end: operand.end,
+    };
+  }
+
+  private parseCall(): SelNode {
+    let node = this.parseMember();
+    while (this.accept('paren', ['('])) {
+      const args = this.parseList('paren', ')');
+      node = {
+        type: 'call',
+        callee: node,
+        args,
+        start: node.start,
+        end: this.tokens[this.position - 1].end,
+      };
+    }
+    return node;
+  }
+
+  private parseMember(): SelNode {
+    let node = this.parseAtom();
+    for (;;) {
+      if (this.accept('operator', ['.'])) {
+        const property = this.accept('name');
+        if (!property) throw this.unexpected(this.peek());
+        node = {
+          type: 'member',
+          object: node,
+          property: property.value as string,
+          start: node.start,
+          end: property.end,
+        };
+      } else if (this.accept('bracket', ['['])) {
+        const index = this.parseExpression();
+        const close = this.expect('bracket', ']');
+        node = {
+          type: 'index',
+          object: node,
+          index,
+          start: node.start,
+          end: close.end,
+        };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseList(type: 'paren' | 'bracket', close: string): SelNode[] {
+    const items: SelNode[] = [];
+    if (this.accept(type, [close])) return items;
+    do {
+      items.push(this.parseExpression());
+    } while (this.accept('comma'));
+    this.expect(type, close);
+    return items;
+  }
+
+  private parseAtom(): SelNode {
+    const token = this.peek();
+    if (this.accept('name')) {
+      return {
+        type: 'name',
+        name: token.value as string,
+        start: token.start,
+        end: token.end,
+      };
+    } else if (this.accept('number')) {
+      return {
+        type: 'number',
+        value: token.value as number,
+        start: token.start,
+        end: token.end,
+      };
+    } else if (this.accept('string')) {
+      return {
+        type: 'string',
+        value: token.value as string,
+        start: token.start,
+        end: token.end,
+      };
+    } else if (this.accept('paren', ['('])) {
+      const node = this.parseExpression();
+      this.expect('paren', ')');
+      return node;
+    } else if (this.accept('bracket', ['['])) {
+      const items = this.parseList('bracket', ']');
+      return {
+        type: 'array',
+        items,
+        start: token.start,
+        end: this.tokens[this.position - 1].end,
+      };
+    }
+    throw this.unexpected(token);
+  }
+
+  private check(node: SelNode): SelInference {
+    switch (node.type) {
+      case 'number':
+        return { type: 'number', constant: { value: node.value } };
+      case 'string':
+        return { type: 'string', constant: { value: node.value } };
+      case 'array': {
+        const items = node.items.map((item) => this.check(item));
+        return {
+          type: 'array',
+          constant: items.every((item) => item.constant)
+            ? { value: items.map((item) => item.constant!.value) }
+            : undefined,
+        };
+      }
+      case 'name':
+        return this.checkName(node.name, node);
+      case 'member':
+        this.check(node.object);
+        return { type: 'any' };
+      case 'index':
+        this.check(node.object);
+        this.check(node.index);
+        return { type: 'any' };
+      case 'unary':
+        return this.checkUnary(node.operator, this.check(node.operand), node);
+      case 'binary':
+        return this.checkBinary(node.operator, node.left, node.right, node);
+      case 'conditional':
+        return this.checkConditional(
+          node.test,
+          node.consequent,
+          node.alternate
+        );
+      case 'call':
+        return this.checkCall(node.callee, node.args, node);
+      case 'sequence':
+        return node.expressions.map((expression) => this.check(expression))[
+          node.expressions.length - 1
+        ];
+    }
+  }
+
+  private checkName(name: string, node: SelNode): SelInference {
+    if (name in this.consts) {
+      return { type: this.consts[name] };
+    }
+    if (name in LITERAL_CONSTS) {
+      const value = LITERAL_CONSTS[name];
+      return {
+        type: typeof value === 'boolean' ? 'boolean' : 'number',
+        constant: { value },
+      };
+    }
+    if (
+      this.macros.has(name) ||
+      name in SEL_SIGNATURES ||
+      this.builtinFunctions.includes(name)
+    ) {
+      this.report(
+        'error',
+        `'${name}' is a function and must be called, e.g. ${name}(...)`,
+        node.start,
+        node.end
+      );
+      return { type: 'any' };
+    }
+
+    const availableIn = STREAM_EXPRESSION_KINDS.filter(
+      (kind) => name in KIND_CONSTS[kind]
+    );
+    this.report(
+      'error',
+      availableIn.length
+        ? `'${name}' is not available in ${KIND_NAMES[this.kind]}, only in ${availableIn.map((kind) => KIND_NAMES[kind]).join(' and ')}`
+        : `Unknown variable '${name}'${this.suggest(name, Object.keys(this.consts))}`,
+      node.start,
+      node.end
+    );
+    return { type: 'any' };
+  }
+
+  private checkUnary(
+    operator: string,
+    operand: SelInference,
+    node: SelNode
+  ): SelInference {
+    if (operator === 'not') {
+      if (operand.type === 'streams') {
+        this.report(
+          'warning',
+          `A stream array is always truthy, so 'not' always returns false. Use count(...) == 0 instead`,
+          node.start,
+          node.end
+        );
+      }
+      return {
+        type: 'boolean',
+        constant: operand.constant
+          ? { value: !operand.constant.value }
+          : undefined,
+        reported: operand.reported,
+      };
+    }
+
+    this.expectNumeric(operand, operator, node);
+    let constant: SelInference['constant'];
+    if (operand.constant) {
+      const value = Number(operand.constant.value);
+      constant = {
+        value:
+          operator === '-'
+            ? -value
+            : operator === '+'
+              ? value
+              : Math.sqrt(value),
+      };
+    }
+    return { type: 'number', constant };
+  }
+
+  private expectNumeric(
+    operand: SelInference,
+    operator: string,
+    node: SelNode
+  ) {
+    if (['streams', 'array', 'string'].includes(operand.type)) {
+      this.report(
+        'error',
+        `'${operator}' expects a number, got ${SEL_TYPE_NAMES[operand.type]}${operand.type === 'streams' ? '. Use count(...) to get the number of streams' : ''}`,
+        node.start,
+        node.end
+      );
+    }
+  }
+
+  private checkBinary(
+    operator: string,
+    leftNode: SelNode,
+    rightNode: SelNode,
+    node: SelNode
+  ): SelInference {
+    const left = this.check(leftNode);
+    const right = this.check(rightNode);
+    const constants = left.constant && right.constant;
+
+    if (operator === 'and' || operator === 'or') {
+      for (const [operand, operandNode] of [
+        [left, leftNode],
+        [right, rightNode],
+      ] as const) {
+        if (operand.type === 'streams') {
+          this.report(
+            'warning',
+            `A stream array is always truthy, even when it is empty. Use count(...) > 0 instead`,
+            operandNode.start,
+            operandNode.end
+          );
+        }
+      }
+      // the result is fixed when either side short circuits the operator
+      const decisive = operator === 'and' ? false : true;
+      const decidedBy = [left, right].find(
+        (operand) =>
+          operand.constant && Boolean(operand.constant.value) === decisive
+      );
+      let value: boolean | undefined = decidedBy ? decisive : undefined;
+      if (constants && value === undefined) {
+        value = Boolean(right.constant!.value);
+      }
+      return this.constantCondition(
+        value,
+        node,
+        left.reported || right.reported
+      );
+    }
+
+    if (['+', '-', '*', '/'].includes(operator)) {
+      this.expectNumeric(left, operator, leftNode);
+      this.expectNumeric(right, operator, rightNode);
+      let constant: SelInference['constant'];
+      if (constants) {
+        const a = Number(left.constant!.value);
+        const b = Number(right.constant!.value);
+        constant = {
+          value:
+            operator === '+'
+              ? a + b
+              : operator === '-'
+                ? a - b
+                : operator === '*'
+                  ? a * b
+                  : a / b,
+        };
+      }
+      return { type: 'number', constant };
+    }
+
+    if (operator === 'in') {
+      if (!['array', 'streams', 'any'].includes(right.type)) {
+        this.report(
+          'error',
+          `The right side of 'in' must be an array, got ${SEL_TYPE_NAMES[right.type]}`,
+          rightNode.start,
+          rightNode.end
+        );
+        return { type: 'boolean' };
+      }
+      return this.constantCondition(
+        constants
+          ? (right.constant!.value as unknown[]).includes(left.constant!.value)
+          : undefined,
+        node,
+        left.reported || right.reported
+      );
+    }
+
+    if (operator === '==' || operator === '!=') {
+      const arrays = [left, right].some(
+        (operand) =>
+          (operand.type === 'streams' || operand.type === 'array') &&
+          !operand.constant
+      );
+      const mismatched =
+        left.type !== 'any' && right.type !== 'any' && left.type !== right.type;
+      if (arrays || mismatched) {
+        this.report(
+          'warning',
+          arrays
+            ? `Arrays are compared by reference, so this is always ${operator === '!='}. Use count(...) or 'in' instead`
+            : `Comparing ${SEL_TYPE_NAMES[left.type]} with ${SEL_TYPE_NAMES[right.type]} is always ${operator === '!='}, as '${operator}' does not convert types`,
+          node.start,
+          node.end
+        );
+        return {
+          type: 'boolean',
+          constant: { value: operator === '!=' },
+          reported: true,
+        };
+      }
+    } else {
+      for (const [operand, operandNode] of [
+        [left, leftNode],
+        [right, rightNode],
+      ] as const) {
+        if (operand.type === 'streams' || operand.type === 'array') {
+          this.report(
+            'error',
+            `Cannot compare ${SEL_TYPE_NAMES[operand.type]} with '${operator}'${operand.type === 'streams' ? '. Use count(...) to compare the number of streams' : ''}`,
+            operandNode.start,
+            operandNode.end
+          );
+          return { type: 'boolean' };
+        }
+      }
+    }
+
+    let value: boolean | undefined;
+    if (constants) {
+      value = StreamExpressionAnalyser.compare(
+        operator,
+        left.constant!.value,
+        right.constant!.value
+      );
+    } else if (left.nonNegative && right.constant) {
+      value = StreamExpressionAnalyser.compareNonNegative(
+        operator,
+        Number(right.constant.value)
+      );
+    } else if (right.nonNegative && left.constant) {
+      // flip the comparison so that the non negative value is on the left
+      const flipped: Record<string, string> = {
+        '<': '>',
+        '<=': '>=',
+        '>': '<',
+        '>=': '<=',
+      };
+      value = StreamExpressionAnalyser.compareNonNegative(
+        flipped[operator] ?? operator,
+        Number(left.constant.value)
+      );
+    }
+    return this.constantCondition(value, node, left.reported || right.reported);
+  }
+
+  private static compare(operator: string, a: any, b: any): boolean {
+    switch (operator) {
+      case '==':
+        return a === b;
+      case '!=':
+        return a !== b;
+      case '<':
+        return a < b;
+      case '<=':
+        return a <= b;
+      case '>':
+        return a > b;
+      default:
+        return a >= b;
+    }
+  }
+
+  // the outcome of comparing an unknown value that is >= 0 with a constant,
+  // if it is the same for every such value
+  private static compareNonNegative(
+    operator: string,
+    bound: number
+  ): boolean | undefined {
+    switch (operator) {
+      case '>=':
+        return bound <= 0 ? true : undefined;
+      case '<':
+        return bound <= 0 ? false : undefined;
+      case '>':
+      case '!=':
+        return bound < 0 ? true : undefined;
+      case '<=':
+      case '==':
+        return bound < 0 ? false : undefined;
+    }
+    return undefined;
+  }
+
+  private constantCondition(
+    value: boolean | undefined,
+    node: SelNode,
+    alreadyReported?: boolean
+  ): SelInference {
+    if (value === undefined) {
+      return { type: 'boolean', reported: alreadyReported };
+    }
+    if (!alreadyReported) {
+      this.report(
+        'warning',
+        `This condition is always ${value}`,
+        node.start,
+        node.end
+      );
+    }
+    return { type: 'boolean', constant: { value }, reported: true };
+  }
+
+  private checkConditional(
+    testNode: SelNode,
+    consequentNode: SelNode,
+    alternateNode: SelNode
+  ): SelInference {
+    const test = this.check(testNode);
+    const consequent = this.check(consequentNode);
+    const alternate = this.check(alternateNode);
+
+    if (test.type === 'streams') {
+      this.report(
+        'warning',
+        `A stream array is always truthy, so only the first branch is used. Use count(...) > 0 instead`,
+        testNode.start,
+        testNode.end
+      );
+    } else if (test.constant && !test.reported) {
+      this.report(
+        'warning',
+        `This condition is always ${Boolean(test.constant.value)}, so only the ${test.constant.value ? 'first' : 'second'} branch is used`,
+        testNode.start,
+        testNode.end
+      );
+    }
+
+    if (test.constant) {
+      return test.constant.value ? consequent : alternate;
+    }
+    return {
+      type: consequent.type === alternate.type ? consequent.type : 'any',
+    };
+  }
+
+  private checkCall(
+    calleeNode: SelNode,
+    argNodes: SelNode[],
+    node: SelNode
+  ): SelInference {
+    const args = argNodes.map((arg) => this.check(arg));
+    if (calleeNode.type !== 'name') {
+      this.check(calleeNode);
+      return { type: 'any' };
+    }
+
+    const name = calleeNode.name;
+    const macro = this.macros.get(name);
+    if (macro) {
+      const expected = macro.parameters?.length ?? 0;
+      if (args.length !== expected) {
+        this.report(
+          'error',
+          `Macro '${name}' expects ${expected} argument(s), got ${args.length}`,
+          node.start,
+          node.end
+        );
+      }
+      return { type: 'any' };
+    }
+
+    const signature = SEL_SIGNATURES[name];
+    if (!signature) {
+      if (!this.builtinFunctions.includes(name)) {
+        const known = [...Object.keys(SEL_SIGNATURES), ...this.macros.keys()];
+        this.report(
+          'error',
+          name in this.consts
+            ? `'${name}' is not a function`
+            : `Unknown function '${name}'${this.suggest(name, known)}`,
+          calleeNode.start,
+          calleeNode.end
+        );
+      }
+      return { type: 'any' };
+    }
+
+    const maxArgs = signature.rest ? Infinity : signature.params.length;
+    if (args.length < signature.minArgs || args.length > maxArgs) {
+      const expected =
+        maxArgs === Infinity
+          ? `at least ${signature.minArgs}`
+          : signature.minArgs === maxArgs
+            ? `${maxArgs}`
+            : `${signature.minArgs} to ${maxArgs}`;
+      this.report(
+        'error',
+        `'${name}' expects ${expected} argument(s), got ${args.length}`,
+        node.start,
+        node.end
+      );
+    }
+
+    args.forEach((arg, index) => {
+      const parameter = signature.params[index] ?? signature.rest;
+      if (parameter) {
+        this.checkArgument(name, index, parameter, arg, argNodes[index]);
+      }
+    });
+
+    return {
+      type: signature.returns,
+      nonNegative: name === 'count' ? true : undefined,
+    };
+  }
+
+  private checkArgument(
+    name: string,
+    index: number,
+    parameter: SelParameter,
+    arg: SelInference,
+    node: SelNode
+  ) {
+    const accepted =
+      arg.type === 'any' ||
+      parameter.types.includes(arg.type) ||
+      (arg.type === 'streams' && parameter.types.includes('array'));
+    if (!accepted) {
+      this.report(
+        'error',
+        `Argument ${index + 1} of '${name}' must be ${parameter.types.map((type) => SEL_TYPE_NAMES[type]).join(' or ')}, got ${SEL_TYPE_NAMES[arg.type]}`,
+        node.start,
+        node.end
+      );
+      return;
+    }
+
+    const value = arg.constant?.value;
+    if (typeof value !== 'string') {
+      if (typeof value === 'number') {
+        this.checkNumericArgument(name, index, value, node);
+      }
+      return;
+    }
+
+    if (parameter.values) {
+      const normalise = (v: string) =>
+        parameter.caseSensitive ? v : v.toLowerCase();
+      if (!parameter.values.some((v) => normalise(v) === normalise(value))) {
+        this.report(
+          parameter.strict ? 'error' : 'warning',
+          parameter.strict
+            ? `'${value}' is not a valid ${parameter.label}${this.suggest(value, parameter.values) || `. Expected one of: ${parameter.values.join(', ')}`}`
+            : `'${value}' is not a known ${parameter.label} and will never match${this.suggest(value, parameter.values)}`,
+          node.start,
+          node.end
+        );
+      }
+    } else if (
+      (name === 'size' && bytes.parse(value) === null) ||
+      (name === 'bitrate' && parseBitrate(value) === undefined)
+    ) {
+      this.report(
+        'error',
+        `'${value}' is not a valid ${name}`,
+        node.start,
+        node.end
+      );
+    }
+  }
+
+  private checkNumericArgument(
+    name: string,
+    index: number,
+    value: number,
+    node: SelNode
+  ) {
+    if (name === 'percentile' && index === 1 && (value < 0 || value > 100)) {
+      this.report(
+        'error',
+        'Percentile must be between 0 and 100',
+        node.start,
+        node.end
+      );
+    } else if (name === 'age' && value < 0) {
+      this.report('error', 'Age cannot be negative', node.start, node.end);
+    }
+  }
+
+  private checkResult(root: SelNode, result: SelInference) {
+    if (result.type === 'any' || result.type === 'boolean') return;
+    if (this.kind === 'select') {
+      if (result.type !== 'streams') {
+        this.report(
+          'error',
+          `A stream expression must evaluate to a stream array or a boolean, got ${SEL_TYPE_NAMES[result.type]}`,
+          root.start,
+          root.end
+        );
+      }
+      return;
+    }
+    if (this.kind === 'sort') {
+      if (result.type !== 'number') {
+        this.report(
+          'error',
+          `A sort expression must evaluate to a number, got ${SEL_TYPE_NAMES[result.type]}${result.type === 'streams' ? '. Use count(...) to get the number of streams' : ''}`,
+          root.start,
+          root.end
+        );
+      }
+      return;
+    }
+    this.report(
+      this.kind === 'exit' ? 'warning' : 'error',
+      `${KIND_NAMES[this.kind].replace(/^\w/, (c) => c.toUpperCase())} must evaluate to a boolean, got ${SEL_TYPE_NAMES[result.type]}${result.type === 'streams' ? '. Use count(...) > 0 instead' : ''}`,
+      root.start,
+      root.end
+    );
+  }
+}
@@ -13,6 +13,43 @@ const umlautMap: Record<string, string> = {
   ß: 'ss',
 };
 
+// sites that add their name to the files they list
+const SITE_NAMES = [
+  'eztvx?',
+  'ettv',
+  'rarbg',
+  'rartv',
+  'tgx',
+  'torrentgalaxy',
+  'glodls',
+  '1337x',
+  'publichd',
+];
+const SITE_DOMAIN =
+  '(?:www\\.)?[\\w-]+\\.(?:com|net|org|to|re|io|ag|cc|me|se|ws|xyz|lol)';
+const SITE_TAG_PATTERNS = [
+  // in brackets, e.g. 'Show.S01E01-NTb[EZTVx.to].mkv' or '[rarbg] Movie'
+  new RegExp(
+    `[\\s._-]*[[(](?:${SITE_NAMES.join('|')}|${SITE_DOMAIN})[\\])]`,
+    'gi'
+  ),
+  // as a prefix, e.g. 'www.Torrenting.com - Movie'
+  /^www\.[\w-]+\.\w{2,4}\s*-?\s*/i,
+  // as a second release group, e.g. 'Movie.x264-SPARKS-RARBG.mkv'
+  new RegExp(`-(?:${SITE_NAMES.join('|')})(?=\\.\\w{2,4}$|$)`, 'i'),
+];
+
+/**
+ * Remove the tags that sites add to the names of the files they list, so the
+ * tags aren't parsed as the release group or part of the title.
+ */
+export function removeSiteTags(filename: string): string {
+  return SITE_TAG_PATTERNS.reduce(
+    (name, pattern) => name.replace(pattern, ''),
+    filename
+  ).trim();
+}
+
 export function titleMatch(
   parsedTitle: string,
   titles: string[],
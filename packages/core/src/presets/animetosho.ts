@@ -1,7 +1,6 @@
 import { Option, UserData } from '../db/index.js';
 import { Env, constants } from '../utils/index.js';
 import { baseOptions } from './preset.js';
-import { StremThruPreset } from './stremthru.js';
 import { TorznabPreset } from './torznab.js';
 
 export class AnimeToshoPreset extends TorznabPreset {
@@ -21,7 +20,7 @@ export class AnimeToshoPreset extends TorznabPreset {
         type: 'multi-select',
         required: false,
         showInSimpleMode: false,
-        options: StremThruPreset.supportedServices.map((service) => ({
+        options: this.supportedTorrentServices.map((service) => ({
           value: service,
           label: constants.SERVICE_DETAILS[service].name,
         })),
@@ -70,7 +69,7 @@ export class AnimeToshoPreset extends TorznabPreset {
       URL: Env.BUILTIN_ANIMETOSHO_URL,
       TIMEOUT: Env.BUILTIN_DEFAULT_ANIMETOSHO_TIMEOUT || Env.DEFAULT_TIMEOUT,
       USER_AGENT: Env.DEFAULT_USER_AGENT,
-      SUPPORTED_SERVICES: StremThruPreset.supportedServices,
+      SUPPORTED_SERVICES: this.supportedTorrentServices,
       DESCRIPTION:
         'An addon to get debrid results from AnimeTosho which mirrors most results from Nyaa.si and TokyoTosho.',
       OPTIONS: options,
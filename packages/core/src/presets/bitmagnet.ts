@@ -1,6 +1,5 @@
 import { Option, UserData } from '../db/index.js';
 import { Env, constants } from '../utils/index.js';
-import { StremThruPreset } from './stremthru.js';
 import { TorznabPreset } from './torznab.js';
 
 export class BitmagnetPreset extends TorznabPreset {
@@ -51,7 +50,7 @@ export class BitmagnetPreset extends TorznabPreset {
         type: 'multi-select',
         required: false,
         showInSimpleMode: false,
-        options: StremThruPreset.supportedServices.map((service) => ({
+        options: this.supportedTorrentServices.map((service) => ({
           value: service,
           label: constants.SERVICE_DETAILS[service].name,
         })),
@@ -85,7 +84,7 @@ export class BitmagnetPreset extends TorznabPreset {
       URL: `${Env.INTERNAL_URL}/builtins/torznab`,
       TIMEOUT: Env.BUILTIN_DEFAULT_BITMAGNET_TIMEOUT || Env.DEFAULT_TIMEOUT,
       USER_AGENT: Env.DEFAULT_USER_AGENT,
-      SUPPORTED_SERVICES: StremThruPreset.supportedServices,
+      SUPPORTED_SERVICES: this.supportedTorrentServices,
       DESCRIPTION:
         'An addon to get debrid results from Bitmagnet, a self-hosted BitTorrent indexer and DHT crawler.',
       OPTIONS: options,
@@ -3,7 +3,7 @@ import { StreamParser } from '../parser/index.js';
 import { ServiceId } from '../utils/constants.js';
 import { constants, toUrlSafeBase64 } from '../utils/index.js';
 import { Preset } from './preset.js';
-import { stremthruSpecialCases } from './stremthru.js';
+import { StremThruPreset, stremthruSpecialCases } from './stremthru.js';
 
 export class BuiltinStreamParser extends StreamParser {
   protected getFolder(
@@ -98,7 +98,25 @@ export class BuiltinStreamParser extends StreamParser {
   }
 }
 
+const getTorrentClientFileServer = (credentials: any) => ({
+  fileServerUrl: credentials.fileServerUrl,
+  fileServerUser: credentials.fileServerUsername,
+  fileServerPassword: credentials.fileServerPassword,
+  downloadPath: credentials.downloadPath,
+  aiostreamsAuth: credentials.aiostreamsAuth,
+});
+
 export class BuiltinAddonPreset extends Preset {
+  /**
+   * Services that torrent based built-in addons can use: everything StremThru
+   * supports plus self-hosted torrent clients.
+   */
+  protected static readonly supportedTorrentServices: ServiceId[] = [
+    ...StremThruPreset.supportedServices,
+    constants.QBITTORRENT_SERVICE,
+    constants.TRANSMISSION_SERVICE,
+  ];
+
   static override getParser(): typeof StreamParser {
     return BuiltinStreamParser;
   }
@@ -147,14 +165,47 @@ export class BuiltinAddonPreset extends Preset {
           })
         ),
     };
+    const torrentClientSpecialCase: Partial<
+      Record<ServiceId, (credentials: any) => any>
+    > = {
+      [constants.QBITTORRENT_SERVICE]: (credentials: any) =>
+        toUrlSafeBase64(
+          JSON.stringify({
+            qbittorrentUrl: credentials.url,
+            qbittorrentUser: credentials.username,
+            qbittorrentPassword: credentials.password,
+            ...getTorrentClientFileServer(credentials),
+          })
+        ),
+      [constants.TRANSMISSION_SERVICE]: (credentials: any) =>
+        toUrlSafeBase64(
+          JSON.stringify({
+            transmissionUrl: credentials.url,
+            transmissionUser: credentials.username,
+            transmissionPassword: credentials.password,
+            ...getTorrentClientFileServer(credentials),
+          })
+        ),
+    };
     return super.getServiceCredential(serviceId, userData, {
       ...stremthruSpecialCases,
       ...specialCases,
       ...nzbDavSpecialCase,
       ...altmountSpecialCase,
+      ...torrentClientSpecialCase,
     });
   }
 
+  /**
+   * Get the credential of a service in the format expected by getDebridService.
+   */
+  public static getDebridServiceCredential(
+    serviceId: ServiceId,
+    userData: UserData
+  ): string {
+    return this.getServiceCredential(serviceId, userData);
+  }
+
   protected static getBaseConfig(userData: UserData, services: ServiceId[]) {
     return {
       tmdbAccessToken: userData.tmdbAccessToken,
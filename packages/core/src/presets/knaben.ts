@@ -1,6 +1,5 @@
 import { Option, UserData } from '../db/index.js';
 import { Env, constants } from '../utils/index.js';
-import { StremThruPreset } from './stremthru.js';
 import { TorznabPreset } from './torznab.js';
 
 export class KnabenPreset extends TorznabPreset {
@@ -36,7 +35,7 @@ export class KnabenPreset extends TorznabPreset {
         type: 'multi-select',
         required: false,
         showInSimpleMode: false,
-        options: StremThruPreset.supportedServices.map((service) => ({
+        options: this.supportedTorrentServices.map((service) => ({
           value: service,
           label: constants.SERVICE_DETAILS[service].name,
         })),
@@ -76,7 +75,7 @@ export class KnabenPreset extends TorznabPreset {
       URL: `${Env.INTERNAL_URL}/builtins/knaben`,
       TIMEOUT: Env.BUILTIN_DEFAULT_KNABEN_TIMEOUT || Env.DEFAULT_TIMEOUT,
       USER_AGENT: Env.DEFAULT_USER_AGENT,
-      SUPPORTED_SERVICES: StremThruPreset.supportedServices,
+      SUPPORTED_SERVICES: this.supportedTorrentServices,
       DESCRIPTION:
         'An addon to get debrid results from Knaben, an indexer proxy for several indexers, including The Pirate Bay, 1337x, RARBG, YTS, Nyaa.si and more.',
       OPTIONS: options,
@@ -0,0 +1,194 @@
+import { Addon, Option, UserData } from '../db/index.js';
+import { BuiltinServiceId, Env, ServiceId, constants } from '../utils/index.js';
+import { BuiltinAddonPreset } from './builtin.js';
+
+export class LibraryPreset extends BuiltinAddonPreset {
+  static override get METADATA() {
+    const supportedResources = [
+      constants.STREAM_RESOURCE,
+      constants.CATALOG_RESOURCE,
+      constants.META_RESOURCE,
+    ];
+    const supportedServices: ServiceId[] = [
+      ...this.supportedTorrentServices,
+      constants.NZBDAV_SERVICE,
+      constants.ALTMOUNT_SERVICE,
+    ];
+    const options: Option[] = [
+      {
+        id: 'name',
+        name: 'Name',
+        description: 'What to call this addon',
+        type: 'string',
+        required: true,
+        default: 'Library',
+      },
+      {
+        id: 'timeout',
+        name: 'Timeout (ms)',
+        description: 'The timeout for this addon',
+        type: 'number',
+        required: true,
+        default: Env.BUILTIN_DEFAULT_LIBRARY_TIMEOUT || Env.DEFAULT_TIMEOUT,
+        constraints: {
+          min: Env.MIN_TIMEOUT,
+          max: Env.MAX_TIMEOUT,
+          forceInUi: false,
+        },
+      },
+      {
+        id: 'resources',
+        name: 'Resources',
+        description:
+          'Optionally override the resources to use, e.g. to only use the catalogs',
+        type: 'multi-select',
+        required: false,
+        showInSimpleMode: false,
+        default: supportedResources,
+        options: supportedResources.map((resource) => ({
+          label: constants.RESOURCE_LABELS[resource],
+          value: resource,
+        })),
+      },
+      {
+        id: 'services',
+        name: 'Services',
+        description:
+          'Optionally override the services whose libraries are used. If not specified, then the services that are enabled and supported will be used.',
+        type: 'multi-select',
+        required: false,
+        showInSimpleMode: false,
+        options: supportedServices.map((service) => ({
+          value: service,
+          label: constants.SERVICE_DETAILS[service].name,
+        })),
+        default: undefined,
+        emptyIsUndefined: true,
+      },
+      {
+        id: 'mediaTypes',
+        name: 'Media Types',
+        description:
+          'Limits this addon to the selected media types for streams. For example, selecting "Movie" means this addon will only be used for movie streams (if the addon supports them). Leave empty to allow all.',
+        type: 'multi-select',
+        required: false,
+        showInSimpleMode: false,
+        options: [
+          { label: 'Movie', value: 'movie' },
+          { label: 'Series', value: 'series' },
+          { label: 'Anime', value: 'anime' },
+        ],
+        default: [],
+      },
+      {
+        id: 'useMultipleInstances',
+        name: 'Use Multiple Instances',
+        description:
+          'Library supports multiple services in one instance of the addon - which is used by default. If this is enabled, then the addon will be created for each service.',
+        type: 'boolean',
+        default: false,
+        showInSimpleMode: false,
+      },
+    ];
+
+    return {
+      ID: 'library',
+      NAME: 'Library',
+      LOGO: '',
+      URL: `${Env.INTERNAL_URL}/builtins/library`,
+      TIMEOUT: Env.BUILTIN_DEFAULT_LIBRARY_TIMEOUT || Env.DEFAULT_TIMEOUT,
+      USER_AGENT: Env.DEFAULT_USER_AGENT,
+      SUPPORTED_SERVICES: supportedServices,
+      DESCRIPTION:
+        'Browse and stream what you already own on your debrid services, even when no other addon returns it.',
+      OPTIONS: options,
+      SUPPORTED_STREAM_TYPES: [constants.DEBRID_STREAM_TYPE],
+      SUPPORTED_RESOURCES: supportedResources,
+      BUILTIN: true,
+    };
+  }
+
+  static async generateAddons(
+    userData: UserData,
+    options: Record<string, any>
+  ): Promise<Addon[]> {
+    const usableServices = this.getUsableServices(userData, options.services);
+    if (!usableServices || usableServices.length === 0) {
+      throw new Error(
+        `${this.METADATA.NAME} requires at least one usable service, but none were found. Please enable at least one of the following services: ${this.METADATA.SUPPORTED_SERVICES.join(
+          ', '
+        )}`
+      );
+    }
+    return options.useMultipleInstances
+      ? usableServices.map((service) =>
+          this.generateAddon(userData, options, [service.id])
+        )
+      : [
+          this.generateAddon(
+            userData,
+            options,
+            usableServices.map((service) => service.id)
+          ),
+        ];
+  }
+
+  /**
+   * Get the enabled services of a user whose libraries can be indexed.
+   */
+  static getLibraryServices(
+    userData: UserData
+  ): { id: BuiltinServiceId; credential: string }[] {
+    return (this.getUsableServices(userData) ?? []).map((service) => ({
+      id: service.id as BuiltinServiceId,
+      credential: this.getServiceCredential(service.id, userData),
+    }));
+  }
+
+  private static generateAddon(
+    userData: UserData,
+    options: Record<string, any>,
+    services: ServiceId[]
+  ): Addon {
+    return {
+      name: options.name || this.METADATA.NAME,
+      manifestUrl: this.generateManifestUrl(userData, services),
+      identifier:
+        services.length > 1
+          ? 'multi'
+          : constants.SERVICE_DETAILS[services[0]].shortName,
+      displayIdentifier: services
+        .map((id) => constants.SERVICE_DETAILS[id].shortName)
+        .join(' | '),
+      enabled: true,
+      // everything this addon returns is from a library
+      library: true,
+      resources: options.resources || undefined,
+      mediaTypes: options.mediaTypes || [],
+      timeout: options.timeout || this.METADATA.TIMEOUT,
+      preset: {
+        id: '',
+        type: this.METADATA.ID,
+        options: options,
+      },
+      formatPassthrough:
+        options.formatPassthrough ?? options.streamPassthrough ?? false,
+      resultPassthrough: options.resultPassthrough ?? false,
+      forceToTop: options.forceToTop ?? false,
+      headers: {
+        'User-Agent': this.METADATA.USER_AGENT,
+      },
+    };
+  }
+
+  protected static generateManifestUrl(
+    userData: UserData,
+    services: ServiceId[]
+  ) {
+    const configString = this.base64EncodeJSON(
+      this.getBaseConfig(userData, services),
+      'urlSafe'
+    );
+    return `${this.METADATA.URL}/${configString}/manifest.json`;
+  }
+}
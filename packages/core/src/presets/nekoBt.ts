@@ -10,7 +10,6 @@ import StreamParser from '../parser/streams.js';
 import { Env, constants } from '../utils/index.js';
 import { BuiltinStreamParser } from './builtin.js';
 import { baseOptions } from './preset.js';
-import { StremThruPreset } from './stremthru.js';
 import { TorznabPreset } from './torznab.js';
 
 export class NekoBtStreamParser extends BuiltinStreamParser {
@@ -202,7 +201,7 @@ export class NekoBtPreset extends TorznabPreset {
         type: 'multi-select',
         required: false,
         showInSimpleMode: false,
-        options: StremThruPreset.supportedServices.map((service) => ({
+        options: this.supportedTorrentServices.map((service) => ({
           value: service,
           label: constants.SERVICE_DETAILS[service].name,
         })),
@@ -263,7 +262,7 @@ export class NekoBtPreset extends TorznabPreset {
       URL: Env.BUILTIN_NEKOBT_URL,
       TIMEOUT: Env.BUILTIN_DEFAULT_NEKOBT_TIMEOUT || Env.DEFAULT_TIMEOUT,
       USER_AGENT: Env.DEFAULT_USER_AGENT,
-      SUPPORTED_SERVICES: StremThruPreset.supportedServices,
+      SUPPORTED_SERVICES: this.supportedTorrentServices,
       DESCRIPTION: 'An addon to get debrid results from nekoBT.',
       OPTIONS: options,
       SUPPORTED_STREAM_TYPES: [constants.DEBRID_STREAM_TYPE],
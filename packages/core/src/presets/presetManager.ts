@@ -66,6 +66,8 @@ import { KnabenPreset } from './knaben.js';
 import { BitmagnetPreset } from './bitmagnet.js';
 import { SootioPreset } from './sootio.js';
 import { TorrentGalaxyPreset } from './torrentGalaxy.js';
+import { ScraperPreset } from './scraper.js';
+import { LibraryPreset } from './library.js';
 import { UsenetStreamerPreset } from './usenetStreamer.js';
 import { NekoBtPreset } from './nekoBt.js';
 import { EasynewsSearchPreset } from './easynewsSearch.js';
@@ -86,6 +88,8 @@ let PRESET_LIST: string[] = [
   'zilean',
   'knaben',
   'torrent-galaxy',
+  'scraper',
+  'library',
   'bitmagnet',
   'seadex',
   'animetosho',
@@ -297,6 +301,10 @@ export class PresetManager {
         return SootioPreset;
       case 'torrent-galaxy':
         return TorrentGalaxyPreset;
+      case 'scraper':
+        return ScraperPreset;
+      case 'library':
+        return LibraryPreset;
       case 'usenet-streamer':
         return UsenetStreamerPreset;
       case 'easynews-search':
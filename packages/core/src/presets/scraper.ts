@@ -0,0 +1,130 @@
+import { Option, UserData } from '../db/index.js';
+import { Env, constants } from '../utils/index.js';
+import { TorznabPreset } from './torznab.js';
+import { ScraperAddon } from '../builtins/index.js';
+
+export class ScraperPreset extends TorznabPreset {
+  static override get METADATA() {
+    const supportedResources = [constants.STREAM_RESOURCE];
+    const definitions = [...ScraperAddon.definitions.values()];
+    const options: Option[] = [
+      ...(definitions.length === 0
+        ? [
+            {
+              id: 'noDefinitionsNote',
+              name: '',
+              description:
+                'This instance has no site definitions. Definitions must be added to the folder set by BUILTIN_SCRAPER_DEFINITIONS_PATH by the owner of this instance.',
+              type: 'alert',
+              intent: 'warning',
+            } as const,
+          ]
+        : []),
+      {
+        id: 'name',
+        name: 'Name',
+        description: 'What to call this addon',
+        type: 'string',
+        required: true,
+        default: 'Scraper',
+      },
+      {
+        id: 'timeout',
+        name: 'Timeout (ms)',
+        description: 'The timeout for this addon',
+        type: 'number',
+        required: true,
+        default: Env.BUILTIN_DEFAULT_SCRAPER_TIMEOUT || Env.DEFAULT_TIMEOUT,
+        constraints: {
+          min: Env.MIN_TIMEOUT,
+          max: Env.MAX_TIMEOUT,
+          forceInUi: false,
+        },
+      },
+      {
+        id: 'definitions',
+        name: 'Sites',
+        description: 'The sites to search.',
+        type: 'multi-select',
+        required: true,
+        options: definitions.map((definition) => ({
+          value: definition.id,
+          label: definition.name,
+        })),
+        default: definitions.map((definition) => definition.id),
+      },
+      {
+        id: 'services',
+        name: 'Services',
+        description:
+          'Optionally override the services that are used. If not specified, then the services that are enabled and supported will be used.',
+        type: 'multi-select',
+        required: false,
+        showInSimpleMode: false,
+        options: this.supportedTorrentServices.map((service) => ({
+          value: service,
+          label: constants.SERVICE_DETAILS[service].name,
+        })),
+        default: undefined,
+        emptyIsUndefined: true,
+      },
+      {
+        id: 'mediaTypes',
+        name: 'Media Types',
+        description:
+          'Limits this addon to the selected media types for streams. For example, selecting "Movie" means this addon will only be used for movie streams (if the addon supports them). Leave empty to allow all.',
+        type: 'multi-select',
+        required: false,
+        showInSimpleMode: false,
+        options: [
+          { label: 'Movie', value: 'movie' },
+          { label: 'Series', value: 'series' },
+          { label: 'Anime', value: 'anime' },
+        ],
+        default: [],
+      },
+      {
+        id: 'useMultipleInstances',
+        name: 'Use Multiple Instances',
+        description:
+          'Scraper supports multiple services in one instance of the addon - which is used by default. If this is enabled, then the addon will be created for each service.',
+        type: 'boolean',
+        default: false,
+        showInSimpleMode: false,
+      },
+    ];
+
+    return {
+      ID: 'scraper',
+      NAME: 'Scraper',
+      LOGO: '',
+      URL: `${Env.INTERNAL_URL}/builtins/scraper`,
+      TIMEOUT: Env.BUILTIN_DEFAULT_SCRAPER_TIMEOUT || Env.DEFAULT_TIMEOUT,
+      USER_AGENT: Env.DEFAULT_USER_AGENT,
+      SUPPORTED_SERVICES: this.supportedTorrentServices,
+      DESCRIPTION:
+        'An addon to get debrid results from sites described by the Cardigann-style site definitions configured on this instance.',
+      OPTIONS: options,
+      SUPPORTED_STREAM_TYPES: [constants.DEBRID_STREAM_TYPE],
+      SUPPORTED_RESOURCES: supportedResources,
+      BUILTIN: true,
+    };
+  }
+
+  protected static override generateManifestUrl(
+    userData: UserData,
+    services: constants.ServiceId[],
+    options: Record<string, any>
+  ): string {
+    const definitions: string[] = Array.isArray(options.definitions)
+      ? options.definitions
+      : [...ScraperAddon.definitions.keys()];
+    if (definitions.length === 0) {
+      throw new Error(`${this.METADATA.NAME} requires at least one site`);
+    }
+    return `${Env.INTERNAL_URL}/builtins/scraper/${this.base64EncodeJSON(
+      { ...this.getBaseConfig(userData, services), definitions },
+      'urlSafe'
+    )}/manifest.json`;
+  }
+}
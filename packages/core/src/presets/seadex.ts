@@ -1,6 +1,5 @@
 import { Option, UserData } from '../db/index.js';
 import { Env, constants } from '../utils/index.js';
-import { StremThruPreset } from './stremthru.js';
 import { TorznabPreset } from './torznab.js';
 
 export class SeaDexPreset extends TorznabPreset {
@@ -36,7 +35,7 @@ export class SeaDexPreset extends TorznabPreset {
         type: 'multi-select',
         required: false,
         showInSimpleMode: false,
-        options: StremThruPreset.supportedServices.map((service) => ({
+        options: this.supportedTorrentServices.map((service) => ({
           value: service,
           label: constants.SERVICE_DETAILS[service].name,
         })),
@@ -63,7 +62,7 @@ export class SeaDexPreset extends TorznabPreset {
       URL: `${Env.INTERNAL_URL}/builtins/seadex`,
       TIMEOUT: Env.DEFAULT_TIMEOUT,
       USER_AGENT: Env.DEFAULT_USER_AGENT,
-      SUPPORTED_SERVICES: StremThruPreset.supportedServices,
+      SUPPORTED_SERVICES: this.supportedTorrentServices,
       DESCRIPTION:
         'SeaDex is a curated database of the best anime releases. Get high-quality torrents for anime based on community recommendations.',
       OPTIONS: options,
@@ -1,7 +1,6 @@
 import { Option, UserData } from '../db/index.js';
 import { Env, constants } from '../utils/index.js';
 import { baseOptions } from './preset.js';
-import { StremThruPreset } from './stremthru.js';
 import { TorznabPreset } from './torznab.js';
 
 export class ZileanPreset extends TorznabPreset {
@@ -44,7 +43,7 @@ export class ZileanPreset extends TorznabPreset {
         type: 'multi-select',
         required: false,
         showInSimpleMode: false,
-        options: StremThruPreset.supportedServices.map((service) => ({
+        options: this.supportedTorrentServices.map((service) => ({
           value: service,
           label: constants.SERVICE_DETAILS[service].name,
         })),
@@ -69,7 +68,7 @@ export class ZileanPreset extends TorznabPreset {
       URL: Env.BUILTIN_ZILEAN_URL,
       TIMEOUT: Env.BUILTIN_DEFAULT_ZILEAN_TIMEOUT || Env.DEFAULT_TIMEOUT,
       USER_AGENT: Env.DEFAULT_USER_AGENT,
-      SUPPORTED_SERVICES: StremThruPreset.supportedServices,
+      SUPPORTED_SERVICES: this.supportedTorrentServices,
       DESCRIPTION:
         'An addon to get debrid results from Zilean, a DMM hashlist scraper.',
       OPTIONS: options,
@@ -14,7 +14,10 @@ const cache = Cache.getInstance<string, string>('publicIp');
 export interface ProxyStream {
   url: string;
   filename?: string;
-  type?: 'nzb' | 'stream';
+  type?: 'nzb' | 'stream' | 'hls';
+  // build the HLS index of the file when it is played, so that it can be
+  // served as HLS once the index shows it can be
+  index?: boolean;
   headers?: {
     request?: Record<string, string>;
     response?: Record<string, string>;
@@ -50,6 +53,7 @@ export abstract class BaseProxy {
       publicIp: config.publicIp,
       proxiedAddons: config.proxiedAddons,
       proxiedServices: config.proxiedServices,
+      hls: config.hls,
     };
   }
 
@@ -11,6 +11,7 @@ import {
   constants,
 } from '../utils/index.js';
 import z from 'zod';
+import { Transform } from 'stream';
 
 const logger = createLogger('builtin');
 
@@ -129,7 +130,8 @@ export class BuiltinProxy extends BaseProxy {
         filename: stream.filename,
         requestHeaders: stream.headers?.request,
         responseHeaders: stream.headers?.response,
-        type: 'nzb',
+        type: stream.type ?? 'nzb',
+        index: stream.index,
       });
 
       if (stream.type !== 'nzb' && isPublicProxy) {
@@ -156,7 +158,13 @@ export class BuiltinProxy extends BaseProxy {
         streamData = toUrlSafeBase64(streamData);
       }
 
-      return `${Env.BASE_URL}/api/v1/proxy/${encrypt ? 'e' : 'u'}.${authData}.${streamData}/${encodeURIComponent(stream.filename ?? '')}`;
+      // the segments of an HLS playlist are byte ranges of the file at the
+      // same path without the .m3u8 extension, or remuxed segments next to it
+      const filename =
+        stream.type === 'hls'
+          ? `${encodeURIComponent(stream.filename || 'stream')}.m3u8`
+          : encodeURIComponent(stream.filename ?? '');
+      return `${Env.BASE_URL}/api/v1/proxy/${encrypt ? 'e' : 'u'}.${authData}.${streamData}/${filename}`;
     });
   }
 }
@@ -171,9 +179,38 @@ interface ConnectionRecord {
   requestIds: string[]; // List of active request IDs
 }
 
+interface UserUsage {
+  daily: number; // bytes streamed today (UTC)
+  monthly: number; // bytes streamed this month (UTC)
+}
+
+export interface UserLimits {
+  connections: number;
+  dailyQuota: number;
+  monthlyQuota: number;
+  rateLimit: number; // bytes per second
+}
+
 interface UserStats {
   active: ConnectionRecord[];
   history: ConnectionRecord[];
+  usage: UserUsage;
+  limits: UserLimits;
+}
+
+export class ProxyQuotaExceededError extends Error {
+  constructor(user: string) {
+    super(`Bandwidth quota of ${user} exceeded`);
+    this.name = 'ProxyQuotaExceededError';
+  }
+}
+
+// resolves the limit of a user, falling back to the wildcard, 0 is unlimited
+function getUserLimit(
+  limits: Map<string, number> | undefined,
+  user: string
+): number {
+  return limits?.get(user) ?? limits?.get('*') ?? 0;
 }
 
 export class BuiltinProxyStats {
@@ -188,8 +225,21 @@ export class BuiltinProxyStats {
     'sql'
   );
 
+  private usage = Cache.getInstance<string, number>(
+    'bproxy:usage',
+    10000,
+    'sql'
+  );
+
   private static ACTIVE_THRESHOLD = 6 * 60 * 60 * 1000; // 6 hours
   private static HISTORY_RETENTION = 7 * 24 * 60 * 60 * 1000; // 7 days
+  // how often the bytes counted by a stream are added to the stored usage
+  private static USAGE_FLUSH_INTERVAL = 10 * 1000; // 10 seconds
+  private static USAGE_FLUSH_BYTES = 64 * 1024 * 1024; // 64MB
+
+  // the time at which each user's rate limit allows the next byte to be sent,
+  // shared by all of their streams on this instance
+  private static throttles = new Map<string, number>();
 
   constructor() {}
 
@@ -228,12 +278,144 @@ export class BuiltinProxyStats {
   }
 
   public async getUserStats(user: string): Promise<UserStats> {
-    const [active, history] = await Promise.all([
+    const [active, history, usage] = await Promise.all([
       this.getActiveConnections(user),
       this.getConnectionHistory(user),
+      this.getUsage(user),
     ]);
 
-    return { active, history };
+    return { active, history, usage, limits: this.getLimits(user) };
+  }
+
+  public getLimits(user: string): UserLimits {
+    return {
+      connections: getUserLimit(Env.AIOSTREAMS_AUTH_CONNECTIONS_LIMIT, user),
+      dailyQuota: getUserLimit(Env.AIOSTREAMS_AUTH_DAILY_QUOTA, user),
+      monthlyQuota: getUserLimit(Env.AIOSTREAMS_AUTH_MONTHLY_QUOTA, user),
+      rateLimit: getUserLimit(Env.AIOSTREAMS_AUTH_RATE_LIMIT, user),
+    };
+  }
+
+  private getUsageKeys(user: string): { daily: string; monthly: string } {
+    const date = new Date().toISOString();
+    return {
+      daily: `${user}:day:${date.slice(0, 10)}`,
+      monthly: `${user}:month:${date.slice(0, 7)}`,
+    };
+  }
+
+  public async getUsage(user: string): Promise<UserUsage> {
+    const keys = this.getUsageKeys(user);
+    const [daily, monthly] = await Promise.all([
+      this.usage.get(keys.daily),
+      this.usage.get(keys.monthly),
+    ]);
+    return { daily: daily ?? 0, monthly: monthly ?? 0 };
+  }
+
+  /**
+   * Add to the number of bytes a user has streamed. The update is not atomic,
+   * so concurrent streams may occasionally lose a few bytes of usage.
+   */
+  public async addUsage(user: string, bytes: number): Promise<UserUsage> {
+    const keys = this.getUsageKeys(user);
+    const usage = await this.getUsage(user);
+    const updated = {
+      daily: usage.daily + bytes,
+      monthly: usage.monthly + bytes,
+    };
+    await Promise.all([
+      this.usage.set(keys.daily, updated.daily, 2 * 24 * 60 * 60, true),
+      this.usage.set(keys.monthly, updated.monthly, 32 * 24 * 60 * 60, true),
+    ]);
+    return updated;
+  }
+
+  private exceedsQuota(user: string, usage: UserUsage): boolean {
+    const { dailyQuota, monthlyQuota } = this.getLimits(user);
+    return (
+      (dailyQuota > 0 && usage.daily >= dailyQuota) ||
+      (monthlyQuota > 0 && usage.monthly >= monthlyQuota)
+    );
+  }
+
+  public async isQuotaExceeded(user: string): Promise<boolean> {
+    const { dailyQuota, monthlyQuota } = this.getLimits(user);
+    if (dailyQuota === 0 && monthlyQuota === 0) {
+      return false;
+    }
+    return this.exceedsQuota(user, await this.getUsage(user));
+  }
+
+  /**
+   * Create a transform that counts the bytes streamed to a user, applies their
+   * rate limit and fails with a ProxyQuotaExceededError once their quota is used up.
+   */
+  public createUsageMeter(user: string): Transform {
+    const { rateLimit } = this.getLimits(user);
+    let pending = 0;
+    let lastFlush = Date.now();
+    let flushing: Promise<void> = Promise.resolve();
+
+    const flushUsage = (): Promise<void> => {
+      const bytes = pending;
+      pending = 0;
+      lastFlush = Date.now();
+      flushing = flushing
+        .then(async () => {
+          if (bytes === 0) return;
+          const usage = await this.addUsage(user, bytes);
+          if (this.exceedsQuota(user, usage)) {
+            throw new ProxyQuotaExceededError(user);
+          }
+        })
+        .catch((error) => {
+          if (error instanceof ProxyQuotaExceededError) throw error;
+          logger.warn(`Failed to update proxy usage of ${user}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      return flushing;
+    };
+
+    const throttle = (size: number): number => {
+      if (rateLimit <= 0) return 0;
+      const now = Date.now();
+      const next = Math.max(now, BuiltinProxyStats.throttles.get(user) ?? 0);
+      BuiltinProxyStats.throttles.set(user, next + (size / rateLimit) * 1000);
+      return next - now;
+    };
+
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        pending += chunk.length;
+        const delay = throttle(chunk.length);
+        const send = () =>
+          delay > 0
+            ? setTimeout(() => callback(null, chunk), delay)
+            : callback(null, chunk);
+        if (
+          pending >= BuiltinProxyStats.USAGE_FLUSH_BYTES ||
+          Date.now() - lastFlush >= BuiltinProxyStats.USAGE_FLUSH_INTERVAL
+        ) {
+          flushUsage().then(send, (error) => callback(error));
+        } else {
+          send();
+        }
+      },
+      flush(callback) {
+        flushUsage().then(
+          () => callback(),
+          // the stream is complete, so there is nothing left to cut off
+          () => callback()
+        );
+      },
+      destroy(error, callback) {
+        // count what was sent before the client disconnected
+        flushUsage().catch(() => {});
+        callback(error);
+      },
+    });
   }
 
   public async getActiveConnections(user: string): Promise<ConnectionRecord[]> {
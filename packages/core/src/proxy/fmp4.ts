@@ -0,0 +1,318 @@
+/**
+ * A track of an HLS stream, with what is needed to describe it in the
+ * initialisation section of a fragmented MP4 stream.
+ */
+export interface Fmp4Track {
+  id: number;
+  kind: 'video' | 'audio';
+  // the type of the MP4 sample entry
+  codec: 'avc1' | 'hvc1' | 'mp4a' | 'ac-3' | 'ec-3' | 'Opus';
+  // the payload of the decoder configuration box, base64. For mp4a tracks,
+  // the AudioSpecificConfig, which MP3 tracks don't have.
+  config: string;
+  timescale: number;
+  width?: number;
+  height?: number;
+  channels?: number;
+  sampleRate?: number;
+  // the MPEG-4 object type of mp4a tracks, 0x40 for AAC and 0x6b for MP3
+  objectType?: number;
+}
+
+export interface Fmp4Sample {
+  data: Buffer;
+  duration: number;
+  keyframe: boolean;
+  // presentation time minus decode time, for video
+  compositionOffset?: number;
+}
+
+export interface Fmp4Run {
+  track: Fmp4Track;
+  baseMediaDecodeTime: number;
+  samples: Fmp4Sample[];
+}
+
+// ISO/IEC 14496-12 sample flags
+const KEYFRAME_FLAGS = 0x02000000; // sample_depends_on = 2
+const NON_KEYFRAME_FLAGS = 0x01010000; // sample_depends_on = 1, non sync
+
+const MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+const UNDETERMINED_LANGUAGE = 0x55c4; // 'und', packed
+
+function uint(value: number, bytes: 1 | 2 | 3 | 4 | 8): Buffer {
+  const buf = Buffer.alloc(bytes);
+  if (bytes === 8) {
+    buf.writeBigUInt64BE(BigInt(Math.max(0, Math.round(value))));
+  } else {
+    buf.writeUIntBE(value, 0, bytes);
+  }
+  return buf;
+}
+
+function int32(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeInt32BE(value);
+  return buf;
+}
+
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const size = payload.reduce((total, part) => total + part.length, 8);
+  return Buffer.concat([
+    uint(size, 4),
+    Buffer.from(type, 'latin1'),
+    ...payload,
+  ]);
+}
+
+function fullBox(
+  type: string,
+  version: number,
+  flags: number,
+  ...payload: Buffer[]
+): Buffer {
+  return box(type, uint(version, 1), uint(flags, 3), ...payload);
+}
+
+// an MPEG-4 descriptor, with its size in the single byte form
+function descriptor(tag: number, ...payload: Buffer[]): Buffer {
+  const size = payload.reduce((total, part) => total + part.length, 0);
+  return Buffer.concat([uint(tag, 1), uint(size, 1), ...payload]);
+}
+
+function matrix(): Buffer {
+  return Buffer.concat(MATRIX.map((value) => uint(value, 4)));
+}
+
+function sampleEntry(track: Fmp4Track): Buffer {
+  const config = Buffer.from(track.config, 'base64');
+  // reserved, then the data reference index
+  const header = Buffer.concat([Buffer.alloc(6), uint(1, 2)]);
+  if (track.kind === 'video') {
+    return box(
+      track.codec,
+      header,
+      Buffer.alloc(16), // pre_defined and reserved
+      uint(track.width ?? 0, 2),
+      uint(track.height ?? 0, 2),
+      uint(0x00480000, 4), // 72 dpi
+      uint(0x00480000, 4),
+      Buffer.alloc(4),
+      uint(1, 2), // frame count
+      Buffer.alloc(32), // compressor name
+      uint(0x0018, 2), // depth
+      uint(0xffff, 2),
+      box(track.codec === 'avc1' ? 'avcC' : 'hvcC', config)
+    );
+  }
+
+  let configBox: Buffer;
+  switch (track.codec) {
+    case 'ac-3':
+      configBox = box('dac3', config);
+      break;
+    case 'ec-3':
+      configBox = box('dec3', config);
+      break;
+    case 'Opus':
+      configBox = box('dOps', config);
+      break;
+    default:
+      configBox = fullBox(
+        'esds',
+        0,
+        0,
+        descriptor(
+          0x03, // ES_Descriptor
+          uint(track.id, 2),
+          uint(0, 1),
+          descriptor(
+            0x04, // DecoderConfigDescriptor
+            uint(track.objectType ?? 0x40, 1),
+            uint(0x15, 1), // audio stream
+            uint(0, 3), // buffer size
+            uint(0, 4), // max bitrate
+            uint(0, 4), // average bitrate
+            ...(config.length > 0 ? [descriptor(0x05, config)] : [])
+          ),
+          descriptor(0x06, uint(0x02, 1)) // SLConfigDescriptor
+        )
+      );
+  }
+  return box(
+    track.codec,
+    header,
+    Buffer.alloc(8),
+    uint(track.channels ?? 2, 2),
+    uint(16, 2), // sample size
+    Buffer.alloc(4),
+    // the rate is 16.16 fixed point, so rates above 65535 are left out
+    uint(((track.sampleRate ?? 0) & 0xffff) * 0x10000, 4),
+    configBox
+  );
+}
+
+function trak(track: Fmp4Track): Buffer {
+  const video = track.kind === 'video';
+  return box(
+    'trak',
+    fullBox(
+      'tkhd',
+      0,
+      0x000003, // enabled, in movie
+      Buffer.alloc(8), // creation and modification time
+      uint(track.id, 4),
+      Buffer.alloc(4),
+      uint(0, 4), // duration
+      Buffer.alloc(8),
+      uint(0, 2), // layer
+      uint(0, 2), // alternate group
+      uint(video ? 0 : 0x0100, 2), // volume
+      Buffer.alloc(2),
+      matrix(),
+      uint((track.width ?? 0) * 0x10000, 4),
+      uint((track.height ?? 0) * 0x10000, 4)
+    ),
+    box(
+      'mdia',
+      fullBox(
+        'mdhd',
+        0,
+        0,
+        Buffer.alloc(8),
+        uint(track.timescale, 4),
+        uint(0, 4),
+        uint(UNDETERMINED_LANGUAGE, 2),
+        uint(0, 2)
+      ),
+      fullBox(
+        'hdlr',
+        0,
+        0,
+        uint(0, 4),
+        Buffer.from(video ? 'vide' : 'soun', 'latin1'),
+        Buffer.alloc(12),
+        Buffer.from(video ? 'VideoHandler\0' : 'SoundHandler\0', 'latin1')
+      ),
+      box(
+        'minf',
+        video
+          ? fullBox('vmhd', 0, 1, Buffer.alloc(8))
+          : fullBox('smhd', 0, 0, Buffer.alloc(4)),
+        box('dinf', fullBox('dref', 0, 0, uint(1, 4), fullBox('url ', 0, 1))),
+        box(
+          'stbl',
+          fullBox('stsd', 0, 0, uint(1, 4), sampleEntry(track)),
+          fullBox('stts', 0, 0, uint(0, 4)),
+          fullBox('stsc', 0, 0, uint(0, 4)),
+          fullBox('stsz', 0, 0, uint(0, 4), uint(0, 4)),
+          fullBox('stco', 0, 0, uint(0, 4))
+        )
+      )
+    )
+  );
+}
+
+/**
+ * Build the initialisation section of a fragmented MP4 stream, the ftyp and
+ * a moov box describing the tracks without any samples.
+ */
+export function buildInitSegment(tracks: Fmp4Track[]): Buffer {
+  const nextTrackId = Math.max(0, ...tracks.map((track) => track.id)) + 1;
+  return Buffer.concat([
+    box(
+      'ftyp',
+      Buffer.from('isom', 'latin1'),
+      uint(0x200, 4),
+      Buffer.from('isomiso6mp41', 'latin1')
+    ),
+    box(
+      'moov',
+      fullBox(
+        'mvhd',
+        0,
+        0,
+        Buffer.alloc(8),
+        uint(1000, 4), // timescale
+        uint(0, 4), // duration
+        uint(0x00010000, 4), // rate
+        uint(0x0100, 2), // volume
+        Buffer.alloc(10),
+        matrix(),
+        Buffer.alloc(24),
+        uint(nextTrackId, 4)
+      ),
+      ...tracks.map(trak),
+      box(
+        'mvex',
+        ...tracks.map((track) =>
+          fullBox(
+            'trex',
+            0,
+            0,
+            uint(track.id, 4),
+            uint(1, 4), // sample description index
+            uint(0, 4), // duration
+            uint(0, 4), // size
+            uint(0, 4) // flags
+          )
+        )
+      )
+    ),
+  ]);
+}
+
+function traf(run: Fmp4Run, dataOffset: number): Buffer {
+  const video = run.track.kind === 'video';
+  // data offset, and the duration, size, flags and composition offset of
+  // each sample, with signed composition offsets in version 1
+  const flags = video ? 0x000f01 : 0x000301;
+  return box(
+    'traf',
+    // the data offset is relative to the start of the moof
+    fullBox('tfhd', 0, 0x020000, uint(run.track.id, 4)),
+    fullBox('tfdt', 1, 0, uint(run.baseMediaDecodeTime, 8)),
+    fullBox(
+      'trun',
+      video ? 1 : 0,
+      flags,
+      uint(run.samples.length, 4),
+      int32(dataOffset),
+      ...run.samples.flatMap((sample) => [
+        uint(sample.duration, 4),
+        uint(sample.data.length, 4),
+        ...(video
+          ? [
+              uint(sample.keyframe ? KEYFRAME_FLAGS : NON_KEYFRAME_FLAGS, 4),
+              int32(sample.compositionOffset ?? 0),
+            ]
+          : []),
+      ])
+    )
+  );
+}
+
+/**
+ * Build a media segment of a fragmented MP4 stream, a moof box with a run of
+ * samples for each track, followed by the samples in an mdat box.
+ */
+export function buildMediaSegment(sequence: number, runs: Fmp4Run[]): Buffer {
+  const moof = (dataOffsets: number[]) =>
+    box(
+      'moof',
+      fullBox('mfhd', 0, 0, uint(sequence, 4)),
+      ...runs.map((run, i) => traf(run, dataOffsets[i]))
+    );
+  // the size of the moof doesn't depend on the offsets written in it
+  const moofSize = moof(runs.map(() => 0)).length;
+  const dataOffsets: number[] = [];
+  let offset = moofSize + 8;
+  for (const run of runs) {
+    dataOffsets.push(offset);
+    offset += run.samples.reduce((total, s) => total + s.data.length, 0);
+  }
+  return Buffer.concat([
+    moof(dataOffsets),
+    box('mdat', ...runs.flatMap((run) => run.samples.map((s) => s.data))),
+  ]);
+}
@@ -0,0 +1,324 @@
+import { Cache, createLogger, getSimpleTextHash } from '../utils/index.js';
+import {
+  getMatroskaIndex,
+  getMatroskaInitSegment,
+  MatroskaHlsIndex,
+  remuxMatroskaSegment,
+} from './matroska.js';
+
+const logger = createLogger('hls');
+
+/**
+ * Reads the inclusive byte range of the upstream file. The total size is taken
+ * from the Content-Range header when the upstream provides it.
+ */
+export type RangeReader = (
+  start: number,
+  end: number
+) => Promise<{ data: Buffer; totalSize?: number }>;
+
+export interface HlsSegment {
+  offset: number;
+  length: number;
+  duration: number; // seconds
+}
+
+export interface Mp4HlsIndex {
+  container: 'mp4';
+  // the ftyp and moov boxes, served as the initialisation section
+  initLength: number;
+  segments: HlsSegment[];
+}
+
+/**
+ * The segments of a file that can be served as HLS. Fragmented MP4 files are
+ * served as byte ranges, Matroska files are remuxed a segment at a time.
+ */
+export type HlsIndex = Mp4HlsIndex | MatroskaHlsIndex;
+
+// the index is undefined for files that can't be served as HLS
+export interface HlsIndexEntry {
+  index?: HlsIndex;
+}
+
+const HEAD_SIZE = 512 * 1024;
+// top level boxes read to find the segment index before giving up
+const MAX_TOP_LEVEL_BOXES = 16;
+const MAX_SIDX_SIZE = 4 * 1024 * 1024;
+const TARGET_SEGMENT_DURATION = 6;
+const INDEX_TTL = 24 * 60 * 60; // 1 day
+
+interface BoxHeader {
+  type: string;
+  // undefined when the box extends to the end of the file
+  size?: number;
+  headerLength: number;
+}
+
+interface SidxReference {
+  length: number;
+  duration: number; // seconds
+  startsWithSap: boolean;
+}
+
+// ISO/IEC 14496-12, the ISO base media file format
+function readBoxHeader(buf: Buffer, offset: number): BoxHeader | undefined {
+  if (offset + 8 > buf.length) return undefined;
+  const size = buf.readUInt32BE(offset);
+  const type = buf.toString('latin1', offset + 4, offset + 8);
+  if (size === 1) {
+    if (offset + 16 > buf.length) return undefined;
+    return {
+      type,
+      size: Number(buf.readBigUInt64BE(offset + 8)),
+      headerLength: 16,
+    };
+  }
+  if (size === 0) {
+    return { type, size: undefined, headerLength: 8 };
+  }
+  if (size < 8) return undefined;
+  return { type, size, headerLength: 8 };
+}
+
+/**
+ * Parse a sidx box, returning the offset of the first subsegment relative to
+ * the end of the box and the subsegments it references.
+ */
+function parseSidx(
+  buf: Buffer,
+  start: number,
+  end: number
+): { firstOffset: number; references: SidxReference[] } | undefined {
+  if (start + 12 > end) return undefined;
+  const version = buf[start];
+  const timescale = buf.readUInt32BE(start + 8);
+  let offset = start + 12;
+  let firstOffset: number;
+  if (version === 0) {
+    if (offset + 8 > end) return undefined;
+    firstOffset = buf.readUInt32BE(offset + 4);
+    offset += 8;
+  } else {
+    if (offset + 16 > end) return undefined;
+    firstOffset = Number(buf.readBigUInt64BE(offset + 8));
+    offset += 16;
+  }
+  if (offset + 4 > end || !timescale) return undefined;
+  const count = buf.readUInt16BE(offset + 2);
+  offset += 4;
+  if (offset + count * 12 > end) return undefined;
+
+  const references: SidxReference[] = [];
+  for (let i = 0; i < count; i++, offset += 12) {
+    const reference = buf.readUInt32BE(offset);
+    // references to other sidx boxes are not supported
+    if (reference & 0x80000000) return undefined;
+    references.push({
+      length: reference & 0x7fffffff,
+      duration: buf.readUInt32BE(offset + 4) / timescale,
+      startsWithSap: !!(buf.readUInt32BE(offset + 8) & 0x80000000),
+    });
+  }
+  return { firstOffset, references };
+}
+
+/**
+ * Compute byte-range segments for a fragmented MP4 file from its segment index
+ * (sidx), so that it can be served as an HLS playlist without remuxing.
+ *
+ * HLS media segments must be MPEG-TS or fragmented MP4 (RFC 8216 section 3),
+ * so regular MP4 files can't be split into segments this way. Returns
+ * undefined for those files, and for files that aren't MP4 files.
+ */
+export async function getMp4Index(
+  read: RangeReader
+): Promise<Mp4HlsIndex | undefined> {
+  const { data: head } = await read(0, HEAD_SIZE - 1);
+  const ftyp = readBoxHeader(head, 0);
+  if (!ftyp || ftyp.type !== 'ftyp') {
+    return undefined;
+  }
+
+  let initLength: number | undefined;
+  let offset = 0;
+  for (let i = 0; i < MAX_TOP_LEVEL_BOXES; i++) {
+    // the head holds the whole file when it is shorter than requested
+    const header =
+      offset + 16 <= head.length || head.length < HEAD_SIZE
+        ? readBoxHeader(head, offset)
+        : readBoxHeader((await read(offset, offset + 15)).data, 0);
+    if (!header?.size) break;
+    const boxEnd = offset + header.size;
+
+    if (header.type === 'moov') {
+      initLength = boxEnd;
+    } else if (header.type === 'moof' || header.type === 'mdat') {
+      // the media starts without an index in front of it
+      break;
+    } else if (header.type === 'sidx') {
+      if (initLength === undefined || header.size > MAX_SIDX_SIZE) break;
+      const box =
+        boxEnd <= head.length
+          ? head.subarray(offset, boxEnd)
+          : (await read(offset, boxEnd - 1)).data;
+      const sidx = parseSidx(
+        box,
+        header.headerLength,
+        Math.min(box.length, header.size)
+      );
+      if (!sidx?.references.length) break;
+      return {
+        container: 'mp4',
+        initLength,
+        segments: groupReferences(boxEnd + sidx.firstOffset, sidx.references),
+      };
+    }
+    offset = boxEnd;
+  }
+  logger.debug('No segment index found in MP4 file');
+  return undefined;
+}
+
+// join subsegments into segments of about the target duration, only starting
+// a new segment at a subsegment that starts with a keyframe
+function groupReferences(
+  firstOffset: number,
+  references: SidxReference[]
+): HlsSegment[] {
+  const segments: HlsSegment[] = [];
+  let offset = firstOffset;
+  let current: HlsSegment | undefined;
+  for (const reference of references) {
+    if (
+      !current ||
+      (reference.startsWithSap && current.duration >= TARGET_SEGMENT_DURATION)
+    ) {
+      current = { offset, length: 0, duration: 0 };
+      segments.push(current);
+    }
+    current.length += reference.length;
+    current.duration += reference.duration;
+    offset += reference.length;
+  }
+  return segments;
+}
+
+const indexCache = Cache.getInstance<string, HlsIndexEntry>(
+  // v3: indexes of Matroska files, and of files without one
+  'bproxy:hls:v3',
+  1000
+);
+// indexes being built, so that concurrent requests read the file once
+const pendingIndexes = new Map<string, Promise<HlsIndex | undefined>>();
+
+/**
+ * Get the cached HLS index entry of the upstream file, or undefined when the
+ * file hasn't been indexed yet.
+ */
+export async function getCachedHlsIndex(
+  url: string
+): Promise<HlsIndexEntry | undefined> {
+  return indexCache.get(getSimpleTextHash(url));
+}
+
+/**
+ * Get the HLS index of the upstream file, reusing the cached index so that
+ * reloading the playlist does not read the container again. Files that can't
+ * be served as HLS are cached too, so they are only read once.
+ */
+export async function getHlsIndex(
+  url: string,
+  read: RangeReader
+): Promise<HlsIndex | undefined> {
+  const key = getSimpleTextHash(url);
+  const cached = await indexCache.get(key);
+  if (cached) {
+    return cached.index;
+  }
+  let pending = pendingIndexes.get(key);
+  if (!pending) {
+    pending = buildHlsIndex(read)
+      .then(async (index) => {
+        await indexCache.set(key, { index }, INDEX_TTL);
+        return index;
+      })
+      .finally(() => pendingIndexes.delete(key));
+    pendingIndexes.set(key, pending);
+  }
+  return pending;
+}
+
+async function buildHlsIndex(read: RangeReader): Promise<HlsIndex | undefined> {
+  // both containers start by reading the same head of the file
+  let head: ReturnType<RangeReader> | undefined;
+  const readHeadOnce: RangeReader = (start, end) => {
+    if (start !== 0 || end !== HEAD_SIZE - 1) {
+      return read(start, end);
+    }
+    head ??= read(start, end);
+    return head;
+  };
+  return (
+    (await getMp4Index(readHeadOnce)) ?? (await getMatroskaIndex(readHeadOnce))
+  );
+}
+
+/**
+ * Build a VOD playlist for the file at the given URI. The segments of
+ * fragmented MP4 files are byte ranges of the file, and the segments of
+ * Matroska files are served next to it, at <uri>.init.mp4 and <uri>.<n>.m4s.
+ */
+export function buildHlsPlaylist(index: HlsIndex, uri: string): string {
+  const targetDuration = Math.ceil(
+    Math.max(...index.segments.map((segment) => segment.duration))
+  );
+  const lines = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:7',
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    '#EXT-X-PLAYLIST-TYPE:VOD',
+    '#EXT-X-INDEPENDENT-SEGMENTS',
+    index.container === 'mp4'
+      ? `#EXT-X-MAP:URI="${uri}",BYTERANGE="${index.initLength}@0"`
+      : `#EXT-X-MAP:URI="${uri}.init.mp4"`,
+  ];
+  index.segments.forEach((segment, i) => {
+    lines.push(`#EXTINF:${segment.duration.toFixed(3)},`);
+    if (index.container === 'mp4') {
+      lines.push(`#EXT-X-BYTERANGE:${segment.length}@${segment.offset}`, uri);
+    } else {
+      lines.push(`${uri}.${i}.m4s`);
+    }
+  });
+  lines.push('#EXT-X-ENDLIST');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Get the initialisation section of a remuxed HLS stream.
+ */
+export function getHlsInitSegment(index: MatroskaHlsIndex): Buffer {
+  return getMatroskaInitSegment(index);
+}
+
+/**
+ * Read a segment of the upstream file and remux it to a fragmented MP4 media
+ * segment, or return undefined when the index has no such segment.
+ */
+export async function getHlsMediaSegment(
+  index: MatroskaHlsIndex,
+  segmentNumber: number,
+  read: RangeReader
+): Promise<Buffer | undefined> {
+  const segment = index.segments[segmentNumber];
+  if (!segment) {
+    return undefined;
+  }
+  const { data } = await read(
+    segment.offset,
+    segment.offset + segment.length - 1
+  );
+  return remuxMatroskaSegment(index, segmentNumber, data);
+}
@@ -0,0 +1,939 @@
+import { createLogger } from '../utils/index.js';
+import {
+  buildInitSegment,
+  buildMediaSegment,
+  Fmp4Run,
+  Fmp4Sample,
+  Fmp4Track,
+} from './fmp4.js';
+import type { HlsSegment, RangeReader } from './hls.js';
+
+const logger = createLogger('hls');
+
+// the same head as getMp4Index reads, so it is only read once
+const HEAD_SIZE = 512 * 1024;
+// top level elements read to find the tracks and cues before giving up
+const MAX_TOP_LEVEL_ELEMENTS = 64;
+const MAX_ELEMENT_SIZE = 16 * 1024 * 1024;
+// how much of the first cluster is read to find the first audio frame
+const FIRST_FRAME_READ_SIZE = 2 * 1024 * 1024;
+const TARGET_SEGMENT_DURATION = 6;
+const VIDEO_TIMESCALE = 90000;
+
+// the ids of the Matroska elements that are read, with their marker bits
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  FlagDefault: 0x88,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  DefaultDuration: 0x23e383,
+  ContentEncodings: 0x6d80,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb,
+} as const;
+
+// elements that can follow a cluster of unknown size
+const TOP_LEVEL_IDS = new Set<number>([
+  ID.Cluster,
+  ID.Cues,
+  ID.SeekHead,
+  ID.Info,
+  ID.Tracks,
+  0x1941a469, // Attachments
+  0x1043a770, // Chapters
+  0x1254c367, // Tags
+]);
+
+const AAC_SAMPLE_RATES = [
+  96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025,
+  8000, 7350,
+];
+const AC3_SAMPLE_RATES = [48000, 44100, 32000];
+
+/**
+ * A track of the Matroska file that is remuxed, numbered by its position in
+ * the fragmented MP4 stream.
+ */
+export interface MatroskaHlsTrack extends Fmp4Track {
+  // the number of the track in the Matroska file
+  number: number;
+  // the duration of every audio frame, in the timescale of the track. Opus
+  // frames vary in duration and are measured from their packets.
+  frameDuration?: number;
+  // the duration of every video frame, in the timescale of the track
+  defaultDuration?: number;
+}
+
+export interface MatroskaHlsSegment extends HlsSegment {
+  // the cue times the segment starts and ends at, in timestamp ticks
+  start: number;
+  end: number;
+}
+
+export interface MatroskaHlsIndex {
+  container: 'mkv';
+  // nanoseconds per timestamp tick
+  timestampScale: number;
+  tracks: MatroskaHlsTrack[];
+  segments: MatroskaHlsSegment[];
+}
+
+interface ElementHeader {
+  id: number;
+  // undefined when the size is unknown
+  size?: number;
+  headerLength: number;
+}
+
+interface Element {
+  id: number;
+  start: number;
+  end: number;
+}
+
+interface TrackEntry {
+  number: number;
+  type: number;
+  isDefault: boolean;
+  codecId: string;
+  codecPrivate?: Buffer;
+  defaultDuration?: number; // nanoseconds
+  encoded: boolean;
+  width?: number;
+  height?: number;
+  sampleRate?: number;
+  channels?: number;
+}
+
+interface Frame {
+  track: number;
+  // the timestamp of the block, in timestamp ticks
+  timestamp: number;
+  keyframe: boolean;
+  data: Buffer;
+}
+
+// RFC 8794, the Extensible Binary Meta Language
+function readVint(
+  buf: Buffer,
+  offset: number,
+  keepMarker: boolean
+): { value: number; length: number; unknown: boolean } | undefined {
+  if (offset >= buf.length || buf[offset] === 0) return undefined;
+  const first = buf[offset];
+  const length = Math.clz32(first) - 23;
+  if (offset + length > buf.length) return undefined;
+  let value = keepMarker ? first : first & (0xff >> length);
+  let unknown = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buf[offset + i];
+    unknown &&= buf[offset + i] === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && unknown };
+}
+
+function readElementHeader(
+  buf: Buffer,
+  offset: number
+): ElementHeader | undefined {
+  const id = readVint(buf, offset, true);
+  if (!id || id.length > 4) return undefined;
+  const size = readVint(buf, offset + id.length, false);
+  if (!size) return undefined;
+  return {
+    id: id.value,
+    size: size.unknown ? undefined : size.value,
+    headerLength: id.length + size.length,
+  };
+}
+
+/**
+ * List the child elements in a range of a buffer, stopping at an element that
+ * is cut off by the end of the range.
+ */
+function children(buf: Buffer, start: number, end: number): Element[] {
+  const elements: Element[] = [];
+  let offset = start;
+  while (offset < end) {
+    const header = readElementHeader(buf, offset);
+    if (!header || header.size === undefined) break;
+    const dataStart = offset + header.headerLength;
+    const dataEnd = dataStart + header.size;
+    if (dataEnd > end) break;
+    elements.push({ id: header.id, start: dataStart, end: dataEnd });
+    offset = dataEnd;
+  }
+  return elements;
+}
+
+function readUint(buf: Buffer, element: Element): number {
+  let value = 0;
+  for (let i = element.start; i < element.end; i++) {
+    value = value * 256 + buf[i];
+  }
+  return value;
+}
+
+function readFloat(buf: Buffer, element: Element): number | undefined {
+  switch (element.end - element.start) {
+    case 4:
+      return buf.readFloatBE(element.start);
+    case 8:
+      return buf.readDoubleBE(element.start);
+    default:
+      return undefined;
+  }
+}
+
+function readString(buf: Buffer, element: Element): string {
+  return buf.toString('latin1', element.start, element.end).replace(/\0+$/, '');
+}
+
+function find(elements: Element[], id: number): Element | undefined {
+  return elements.find((element) => element.id === id);
+}
+
+function parseTrackEntry(buf: Buffer, entry: Element): TrackEntry {
+  const elements = children(buf, entry.start, entry.end);
+  const get = (id: number) => find(elements, id);
+  const uintOf = (id: number) => {
+    const element = get(id);
+    return element ? readUint(buf, element) : undefined;
+  };
+  const video = get(ID.Video);
+  const videoElements = video ? children(buf, video.start, video.end) : [];
+  const audio = get(ID.Audio);
+  const audioElements = audio ? children(buf, audio.start, audio.end) : [];
+  const codecPrivate = get(ID.CodecPrivate);
+  const sampleRate = find(audioElements, ID.SamplingFrequency);
+  const channels = find(audioElements, ID.Channels);
+  const width = find(videoElements, ID.PixelWidth);
+  const height = find(videoElements, ID.PixelHeight);
+  const codecId = get(ID.CodecID);
+  return {
+    number: uintOf(ID.TrackNumber) ?? 0,
+    type: uintOf(ID.TrackType) ?? 0,
+    isDefault: (uintOf(ID.FlagDefault) ?? 1) === 1,
+    codecId: codecId ? readString(buf, codecId) : '',
+    codecPrivate: codecPrivate
+      ? Buffer.from(buf.subarray(codecPrivate.start, codecPrivate.end))
+      : undefined,
+    defaultDuration: uintOf(ID.DefaultDuration),
+    // compressed or encrypted frames would have to be decoded first
+    encoded: !!get(ID.ContentEncodings),
+    width: width ? readUint(buf, width) : undefined,
+    height: height ? readUint(buf, height) : undefined,
+    sampleRate: sampleRate
+      ? Math.round(readFloat(buf, sampleRate) ?? 0) || undefined
+      : undefined,
+    channels: channels ? readUint(buf, channels) : undefined,
+  };
+}
+
+// ISO/IEC 14496-3, a two byte AudioSpecificConfig for AAC LC
+function aacConfig(sampleRate: number, channels: number): Buffer | undefined {
+  const rateIndex = AAC_SAMPLE_RATES.indexOf(sampleRate);
+  if (rateIndex === -1 || channels > 7) return undefined;
+  const config = Buffer.alloc(2);
+  config.writeUInt16BE((2 << 11) | (rateIndex << 7) | (channels << 3));
+  return config;
+}
+
+// RFC 7845 section 5.1 OpusHead to the dOps box of the Opus in ISOBMFF spec
+function opusConfig(head: Buffer): Buffer | undefined {
+  if (head.length < 19 || head.toString('latin1', 0, 8) !== 'OpusHead') {
+    return undefined;
+  }
+  const config = Buffer.alloc(11 + (head[18] !== 0 ? head.length - 19 : 0));
+  config.writeUInt8(0, 0); // version
+  config.writeUInt8(head[9], 1); // output channel count
+  config.writeUInt16BE(head.readUInt16LE(10), 2); // pre-skip
+  config.writeUInt32BE(head.readUInt32LE(12), 4); // input sample rate
+  config.writeInt16BE(head.readInt16LE(16), 8); // output gain
+  config.writeUInt8(head[18], 10); // channel mapping family
+  if (head[18] !== 0) {
+    head.copy(config, 11, 19);
+  }
+  return config;
+}
+
+/**
+ * Get the fragmented MP4 track for a Matroska track, or undefined when its
+ * codec can't be carried in HLS.
+ */
+function toHlsTrack(
+  entry: TrackEntry,
+  id: number
+): MatroskaHlsTrack | undefined {
+  if (entry.encoded || !entry.number) return undefined;
+  const base = { id, number: entry.number };
+
+  if (entry.type === 1) {
+    const codec =
+      entry.codecId === 'V_MPEG4/ISO/AVC'
+        ? 'avc1'
+        : entry.codecId === 'V_MPEGH/ISO/HEVC'
+          ? 'hvc1'
+          : undefined;
+    if (!codec || !entry.codecPrivate?.length) return undefined;
+    return {
+      ...base,
+      kind: 'video',
+      codec,
+      config: entry.codecPrivate.toString('base64'),
+      timescale: VIDEO_TIMESCALE,
+      width: entry.width,
+      height: entry.height,
+      defaultDuration: entry.defaultDuration
+        ? Math.round((entry.defaultDuration * VIDEO_TIMESCALE) / 1e9)
+        : undefined,
+    };
+  }
+
+  if (entry.type !== 2 || !entry.sampleRate) return undefined;
+  const audio = {
+    ...base,
+    kind: 'audio' as const,
+    timescale: entry.sampleRate,
+    sampleRate: entry.sampleRate,
+    channels: entry.channels ?? 2,
+  };
+  if (entry.codecId.startsWith('A_AAC')) {
+    // AAC in Matroska may only be described by its codec id
+    const config = entry.codecPrivate?.length
+      ? entry.codecPrivate
+      : entry.codecId.includes('SBR')
+        ? undefined
+        : aacConfig(entry.sampleRate, audio.channels);
+    if (!config) return undefined;
+    return {
+      ...audio,
+      codec: 'mp4a',
+      objectType: 0x40,
+      config: config.toString('base64'),
+      frameDuration: 1024,
+    };
+  }
+  switch (entry.codecId) {
+    case 'A_MPEG/L3':
+      return {
+        ...audio,
+        codec: 'mp4a',
+        objectType: 0x6b,
+        config: '',
+        frameDuration: entry.sampleRate >= 32000 ? 1152 : 576,
+      };
+    case 'A_OPUS': {
+      const config = entry.codecPrivate && opusConfig(entry.codecPrivate);
+      if (!config) return undefined;
+      return {
+        ...audio,
+        codec: 'Opus',
+        config: config.toString('base64'),
+        timescale: 48000,
+      };
+    }
+    case 'A_AC3':
+    case 'A_EAC3':
+      // the config is read from the first frame, see readAc3Config
+      return {
+        ...audio,
+        codec: entry.codecId === 'A_AC3' ? 'ac-3' : 'ec-3',
+        config: '',
+        frameDuration: 1536,
+      };
+    default:
+      return undefined;
+  }
+}
+
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly buf: Buffer) {}
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++, this.position++) {
+      const byte = this.buf[this.position >> 3] ?? 0;
+      value = value * 2 + ((byte >> (7 - (this.position & 7))) & 1);
+    }
+    return value;
+  }
+}
+
+/**
+ * Read the dac3 or dec3 box payload of an AC-3 or E-AC-3 track from its first
+ * frame, along with the duration of its frames.
+ */
+function readAc3Config(
+  codec: 'ac-3' | 'ec-3',
+  frame: Buffer
+): { config: Buffer; frameDuration: number } | undefined {
+  if (frame.length < 8 || frame.readUInt16BE(0) !== 0x0b77) return undefined;
+  const bits = new BitReader(frame.subarray(2));
+  if (codec === 'ac-3') {
+    // ETSI TS 102 366 section 4.4.1 and annex F
+    bits.read(16); // crc1
+    const fscod = bits.read(2);
+    const frmsizecod = bits.read(6);
+    const bsid = bits.read(5);
+    const bsmod = bits.read(3);
+    const acmod = bits.read(3);
+    if (acmod & 1 && acmod !== 1) bits.read(2); // cmixlev
+    if (acmod & 4) bits.read(2); // surmixlev
+    if (acmod === 2) bits.read(2); // dsurmod
+    const lfeon = bits.read(1);
+    if (fscod === 3) return undefined;
+    const config = Buffer.alloc(3);
+    config.writeUIntBE(
+      (fscod << 22) |
+        (bsid << 17) |
+        (bsmod << 14) |
+        (acmod << 11) |
+        (lfeon << 10) |
+        ((frmsizecod >> 1) << 5),
+      0,
+      3
+    );
+    return { config, frameDuration: 1536 };
+  }
+
+  // ETSI TS 102 366 section E.1.2 and annex F
+  bits.read(2); // strmtyp
+  bits.read(3); // substreamid
+  const frmsiz = bits.read(11);
+  const fscod = bits.read(2);
+  const numblkscod = fscod === 3 ? 3 : bits.read(2);
+  if (fscod === 3) bits.read(2); // fscod2, for reduced sample rates
+  const acmod = bits.read(3);
+  const lfeon = bits.read(1);
+  const bsid = bits.read(5);
+  const blocks = [1, 2, 3, 6][numblkscod];
+  const sampleRate = AC3_SAMPLE_RATES[fscod] ?? AC3_SAMPLE_RATES[0] / 2;
+  const frameDuration = blocks * 256;
+  const dataRate = Math.round(
+    ((frmsiz + 1) * 2 * 8 * sampleRate) / frameDuration / 1000
+  );
+  const config = Buffer.alloc(5);
+  // data_rate and num_ind_sub, for a single independent substream
+  config.writeUInt16BE(dataRate << 3, 0);
+  // fscod, bsid, reserved, asvc, bsmod, acmod, lfeon, reserved, num_dep_sub
+  // and reserved, without dependent substreams
+  config.writeUIntBE(
+    ((fscod === 3 ? 0 : fscod) << 22) |
+      (bsid << 17) |
+      (acmod << 9) |
+      (lfeon << 8),
+    2,
+    3
+  );
+  return { config, frameDuration };
+}
+
+// RFC 6716 section 3.1, the duration of an Opus packet at 48kHz
+function getOpusPacketDuration(packet: Buffer): number {
+  if (packet.length === 0) return 0;
+  const toc = packet[0];
+  const config = toc >> 3;
+  const frameSize =
+    config < 12
+      ? [480, 960, 1920, 2880][config & 3]
+      : config < 16
+        ? [480, 960][config & 1]
+        : [120, 240, 480, 960][config & 3];
+  const code = toc & 3;
+  const frames =
+    code === 0 ? 1 : code < 3 ? 2 : packet.length > 1 ? packet[1] & 0x3f : 0;
+  return frameSize * frames;
+}
+
+/**
+ * Split the frames of a block by its lacing, see RFC 9559 section 10.3.
+ */
+function readLacedFrames(
+  buf: Buffer,
+  start: number,
+  end: number,
+  lacing: number
+): Buffer[] | undefined {
+  if (lacing === 0) return [buf.subarray(start, end)];
+  if (start >= end) return undefined;
+  const count = buf[start] + 1;
+  let offset = start + 1;
+  const sizes: number[] = [];
+  if (lacing === 1) {
+    // Xiph lacing
+    for (let i = 0; i < count - 1; i++) {
+      let size = 0;
+      let byte: number;
+      do {
+        if (offset >= end) return undefined;
+        byte = buf[offset++];
+        size += byte;
+      } while (byte === 255);
+      sizes.push(size);
+    }
+  } else if (lacing === 3) {
+    // EBML lacing, the sizes after the first are signed differences
+    const first = readVint(buf, offset, false);
+    if (!first) return undefined;
+    offset += first.length;
+    sizes.push(first.value);
+    for (let i = 1; i < count - 1; i++) {
+      const difference = readVint(buf, offset, false);
+      if (!difference) return undefined;
+      offset += difference.length;
+      const bias = 2 ** (7 * difference.length - 1) - 1;
+      sizes.push(sizes[i - 1] + difference.value - bias);
+    }
+  } else {
+    // fixed-size lacing
+    const size = (end - offset) / count;
+    if (!Number.isInteger(size)) return undefined;
+    sizes.push(...Array(count - 1).fill(size));
+  }
+  const frames: Buffer[] = [];
+  for (const size of sizes) {
+    if (size < 0 || offset + size > end) return undefined;
+    frames.push(buf.subarray(offset, offset + size));
+    offset += size;
+  }
+  frames.push(buf.subarray(offset, end));
+  return frames;
+}
+
+function readBlock(
+  buf: Buffer,
+  element: Element,
+  clusterTimestamp: number,
+  simple: boolean,
+  tracks: Set<number>
+): Frame[] {
+  const track = readVint(buf, element.start, false);
+  if (!track || !tracks.has(track.value)) return [];
+  const offset = element.start + track.length;
+  if (offset + 3 > element.end) return [];
+  const timestamp = clusterTimestamp + buf.readInt16BE(offset);
+  const flags = buf[offset + 2];
+  const frames = readLacedFrames(
+    buf,
+    offset + 3,
+    element.end,
+    (flags >> 1) & 3
+  );
+  return (frames ?? []).map((data) => ({
+    track: track.value,
+    timestamp,
+    // block groups are keyframes unless they reference another block
+    keyframe: simple ? !!(flags & 0x80) : true,
+    data,
+  }));
+}
+
+/**
+ * Read the frames of the given tracks from the clusters in a buffer, in the
+ * order they are stored in.
+ */
+function readFrames(buf: Buffer, tracks: Set<number>): Frame[] {
+  const frames: Frame[] = [];
+  let offset = 0;
+  while (offset < buf.length) {
+    const header = readElementHeader(buf, offset);
+    if (!header) break;
+    const dataStart = offset + header.headerLength;
+    if (header.id !== ID.Cluster) {
+      if (header.size === undefined) break;
+      offset = dataStart + header.size;
+      continue;
+    }
+
+    // clusters of unknown size end at the next top level element
+    const clusterEnd =
+      header.size === undefined
+        ? buf.length
+        : Math.min(buf.length, dataStart + header.size);
+    let clusterTimestamp = 0;
+    let position = dataStart;
+    while (position < clusterEnd) {
+      const child = readElementHeader(buf, position);
+      if (!child || child.size === undefined) break;
+      if (TOP_LEVEL_IDS.has(child.id)) break;
+      const element = {
+        id: child.id,
+        start: position + child.headerLength,
+        end: position + child.headerLength + child.size,
+      };
+      if (element.end > clusterEnd) break;
+      if (child.id === ID.Timestamp) {
+        clusterTimestamp = readUint(buf, element);
+      } else if (child.id === ID.SimpleBlock) {
+        frames.push(...readBlock(buf, element, clusterTimestamp, true, tracks));
+      } else if (child.id === ID.BlockGroup) {
+        const group = children(buf, element.start, element.end);
+        const block = find(group, ID.Block);
+        if (block) {
+          const blockFrames = readBlock(
+            buf,
+            block,
+            clusterTimestamp,
+            false,
+            tracks
+          );
+          const keyframe = !find(group, ID.ReferenceBlock);
+          frames.push(...blockFrames.map((frame) => ({ ...frame, keyframe })));
+        }
+      }
+      position = element.end;
+    }
+    offset = position;
+  }
+  return frames;
+}
+
+/**
+ * Compute segments for a Matroska file from its cues, so that it can be
+ * remuxed to fragmented MP4 segments a few at a time. Each segment is the run
+ * of clusters between two cued video keyframes about 6 seconds apart.
+ *
+ * Only H.264 and H.265 video, with AAC, MP3, AC-3, E-AC-3 or Opus audio can
+ * be carried in HLS, so returns undefined for files with other codecs, and
+ * for files without cues or with compressed tracks.
+ */
+export async function getMatroskaIndex(
+  read: RangeReader
+): Promise<MatroskaHlsIndex | undefined> {
+  const { data: head, totalSize } = await read(0, HEAD_SIZE - 1);
+  const ebml = readElementHeader(head, 0);
+  if (ebml?.id !== ID.EBML || ebml.size === undefined) {
+    return undefined;
+  }
+  const segmentOffset = ebml.headerLength + ebml.size;
+  const segment = readElementHeader(head, segmentOffset);
+  if (segment?.id !== ID.Segment) {
+    return undefined;
+  }
+  const segmentStart = segmentOffset + segment.headerLength;
+  const fileEnd =
+    totalSize ?? (head.length < HEAD_SIZE ? head.length : undefined);
+  const segmentEnd =
+    segment.size !== undefined ? segmentStart + segment.size : fileEnd;
+
+  const readElement = async (offset: number, header: ElementHeader) => {
+    const end = offset + header.headerLength + header.size!;
+    const data =
+      end <= head.length
+        ? head.subarray(offset, end)
+        : (await read(offset, end - 1)).data;
+    return { data, start: header.headerLength, end: data.length };
+  };
+
+  // the positions of the top level elements, relative to the segment
+  const positions: { id: number; position: number }[] = [];
+  let timestampScale = 1000000;
+  let duration: number | undefined;
+  let entries: TrackEntry[] | undefined;
+  let cues: { data: Buffer; start: number; end: number } | undefined;
+  let firstCluster: number | undefined;
+
+  let offset = segmentStart;
+  for (let i = 0; i < MAX_TOP_LEVEL_ELEMENTS; i++) {
+    const header =
+      offset + 12 <= head.length || head.length < HEAD_SIZE
+        ? readElementHeader(head, offset)
+        : readElementHeader((await read(offset, offset + 11)).data, 0);
+    if (!header || header.size === undefined) break;
+    positions.push({ id: header.id, position: offset - segmentStart });
+    if (header.id === ID.Cluster) {
+      firstCluster = offset - segmentStart;
+      break;
+    }
+    const wanted = [ID.SeekHead, ID.Info, ID.Tracks, ID.Cues] as number[];
+    if (wanted.includes(header.id) && header.size <= MAX_ELEMENT_SIZE) {
+      const element = await readElement(offset, header);
+      const elements = children(element.data, element.start, element.end);
+      switch (header.id) {
+        case ID.SeekHead:
+          for (const seek of elements.filter((e) => e.id === ID.Seek)) {
+            const seekElements = children(element.data, seek.start, seek.end);
+            const seekId = find(seekElements, ID.SeekID);
+            const seekPosition = find(seekElements, ID.SeekPosition);
+            if (seekId && seekPosition) {
+              positions.push({
+                id: readUint(element.data, seekId),
+                position: readUint(element.data, seekPosition),
+              });
+            }
+          }
+          break;
+        case ID.Info: {
+          const scale = find(elements, ID.TimestampScale);
+          const durationElement = find(elements, ID.Duration);
+          if (scale) timestampScale = readUint(element.data, scale);
+          if (durationElement) {
+            duration = readFloat(element.data, durationElement);
+          }
+          break;
+        }
+        case ID.Tracks:
+          entries = elements
+            .filter((e) => e.id === ID.TrackEntry)
+            .map((entry) => parseTrackEntry(element.data, entry));
+          break;
+        case ID.Cues:
+          cues = element;
+          break;
+      }
+    }
+    offset += header.headerLength + header.size;
+  }
+
+  if (!entries) {
+    logger.debug('No tracks found in Matroska file');
+    return undefined;
+  }
+
+  // the cues are usually after the clusters
+  const cuesPosition = positions.find((p) => p.id === ID.Cues)?.position;
+  if (!cues && cuesPosition !== undefined) {
+    const cuesOffset = segmentStart + cuesPosition;
+    const header = readElementHeader(
+      (await read(cuesOffset, cuesOffset + 11)).data,
+      0
+    );
+    if (
+      header?.id === ID.Cues &&
+      header.size !== undefined &&
+      header.size <= MAX_ELEMENT_SIZE
+    ) {
+      cues = await readElement(cuesOffset, header);
+    }
+  }
+  if (!cues) {
+    logger.debug('No cues found in Matroska file');
+    return undefined;
+  }
+
+  const video = entries.find((entry) => entry.type === 1);
+  const videoTrack = video && toHlsTrack(video, 1);
+  if (!videoTrack) {
+    logger.debug('Matroska file has no video track that HLS can carry', {
+      codec: video?.codecId,
+    });
+    return undefined;
+  }
+  const audioEntries = entries
+    .filter((entry) => entry.type === 2)
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+  const audioTrack = audioEntries
+    .map((entry) => toHlsTrack(entry, 2))
+    .find((track) => track !== undefined);
+  if (audioEntries.length > 0 && !audioTrack) {
+    logger.debug('Matroska file has no audio track that HLS can carry', {
+      codecs: audioEntries.map((entry) => entry.codecId),
+    });
+    return undefined;
+  }
+
+  // the cluster positions of the cued keyframes of the video track
+  const cuePoints: { time: number; position: number }[] = [];
+  for (const point of children(cues.data, cues.start, cues.end)) {
+    if (point.id !== ID.CuePoint) continue;
+    const pointElements = children(cues.data, point.start, point.end);
+    const time = find(pointElements, ID.CueTime);
+    if (!time) continue;
+    for (const trackPositions of pointElements) {
+      if (trackPositions.id !== ID.CueTrackPositions) continue;
+      const positionElements = children(
+        cues.data,
+        trackPositions.start,
+        trackPositions.end
+      );
+      const track = find(positionElements, ID.CueTrack);
+      const position = find(positionElements, ID.CueClusterPosition);
+      if (
+        track &&
+        position &&
+        readUint(cues.data, track) === videoTrack.number
+      ) {
+        cuePoints.push({
+          time: readUint(cues.data, time),
+          position: readUint(cues.data, position),
+        });
+      }
+    }
+  }
+  cuePoints.sort((a, b) => a.time - b.time);
+  // segments can only start at a cluster
+  const starts = cuePoints.filter(
+    (point, i) =>
+      i === 0 ||
+      (point.position > cuePoints[i - 1].position &&
+        point.time > cuePoints[i - 1].time)
+  );
+  if (starts.length === 0) {
+    logger.debug('No cues for the video track of Matroska file');
+    return undefined;
+  }
+  if (firstCluster !== undefined && firstCluster < starts[0].position) {
+    starts[0] = { ...starts[0], position: firstCluster };
+  }
+
+  // the media ends at the first top level element after the last cluster
+  const lastStart = starts[starts.length - 1].position;
+  const following = positions
+    .map((p) => p.position)
+    .filter((position) => position > lastStart);
+  const mediaEnd =
+    following.length > 0 ? segmentStart + Math.min(...following) : segmentEnd;
+  if (mediaEnd === undefined) {
+    logger.debug('Could not find the end of the Matroska file');
+    return undefined;
+  }
+
+  const ticksPerSecond = 1e9 / timestampScale;
+  // the duration is a float in timestamp ticks
+  const totalTicks =
+    duration ??
+    starts[starts.length - 1].time + TARGET_SEGMENT_DURATION * ticksPerSecond;
+  const segments: MatroskaHlsSegment[] = [];
+  let current = starts[0];
+  for (let i = 1; i <= starts.length; i++) {
+    const next = starts[i];
+    if (
+      next &&
+      (next.time - current.time) / ticksPerSecond < TARGET_SEGMENT_DURATION
+    ) {
+      continue;
+    }
+    const end = next?.time ?? Math.max(totalTicks, current.time);
+    const endOffset = next ? segmentStart + next.position : mediaEnd;
+    segments.push({
+      offset: segmentStart + current.position,
+      length: endOffset - (segmentStart + current.position),
+      duration: (end - current.time) / ticksPerSecond,
+      start: current.time,
+      end: Math.round(end),
+    });
+    if (next) current = next;
+  }
+
+  const tracks = [videoTrack];
+  if (audioTrack) {
+    if (audioTrack.codec === 'ac-3' || audioTrack.codec === 'ec-3') {
+      // the config of AC-3 tracks is only in their frames
+      const first = segments[0];
+      const { data } = await read(
+        first.offset,
+        first.offset + Math.min(first.length, FIRST_FRAME_READ_SIZE) - 1
+      );
+      const frame = readFrames(data, new Set([audioTrack.number]))[0];
+      const ac3 = frame && readAc3Config(audioTrack.codec, frame.data);
+      if (!ac3) {
+        logger.debug('Could not read the first AC-3 frame of Matroska file');
+        return undefined;
+      }
+      audioTrack.config = ac3.config.toString('base64');
+      audioTrack.frameDuration = ac3.frameDuration;
+    }
+    tracks.push(audioTrack);
+  }
+  return { container: 'mkv', timestampScale, tracks, segments };
+}
+
+/**
+ * Build the initialisation section of the fragmented MP4 stream that a
+ * Matroska file is remuxed to.
+ */
+export function getMatroskaInitSegment(index: MatroskaHlsIndex): Buffer {
+  return buildInitSegment(index.tracks);
+}
+
+/**
+ * Remux a segment of a Matroska file, the clusters read from its byte range,
+ * to a fragmented MP4 media segment.
+ */
+export function remuxMatroskaSegment(
+  index: MatroskaHlsIndex,
+  segmentNumber: number,
+  data: Buffer
+): Buffer {
+  const segment = index.segments[segmentNumber];
+  const frames = readFrames(
+    data,
+    new Set(index.tracks.map((track) => track.number))
+  );
+  // timestamp ticks to the timescale of a track
+  const toTimescale = (ticks: number, track: MatroskaHlsTrack) =>
+    Math.round((ticks * index.timestampScale * track.timescale) / 1e9);
+
+  const runs: Fmp4Run[] = [];
+  for (const track of index.tracks) {
+    const trackFrames = frames.filter((frame) => frame.track === track.number);
+    if (trackFrames.length === 0) continue;
+
+    if (track.kind === 'audio') {
+      runs.push({
+        track,
+        baseMediaDecodeTime: toTimescale(trackFrames[0].timestamp, track),
+        samples: trackFrames.map((frame) => ({
+          data: frame.data,
+          duration: track.frameDuration ?? getOpusPacketDuration(frame.data),
+          keyframe: true,
+        })),
+      });
+      continue;
+    }
+
+    // the frames are stored in decode order with presentation timestamps,
+    // the decode times are the presentation times in order
+    const presentationTimes = trackFrames.map((frame) =>
+      toTimescale(frame.timestamp, track)
+    );
+    const decodeTimes = [...presentationTimes].sort((a, b) => a - b);
+    const end = toTimescale(segment.end, track);
+    const samples: Fmp4Sample[] = trackFrames.map((frame, i) => {
+      const next = decodeTimes[i + 1] ?? end;
+      const previous = i > 0 ? decodeTimes[i] - decodeTimes[i - 1] : 0;
+      return {
+        data: frame.data,
+        duration:
+          next > decodeTimes[i]
+            ? next - decodeTimes[i]
+            : (track.defaultDuration ?? previous),
+        keyframe: frame.keyframe,
+        compositionOffset: presentationTimes[i] - decodeTimes[i],
+      };
+    });
+    runs.push({ track, baseMediaDecodeTime: decodeTimes[0], samples });
+  }
+  return buildMediaSegment(segmentNumber + 1, runs);
+}
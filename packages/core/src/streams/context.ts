@@ -11,10 +11,14 @@ import {
   getTimeTakenSincePoint,
   getSeaDexInfoHashes,
   enrichParsedIdWithAnimeEntry,
+  EpisodeMapper,
+  EpisodeNumbering,
 } from '../utils/index.js';
 import { SeaDexResult } from '../utils/seadex.js';
-import { calculateAbsoluteEpisode } from '../builtins/utils/general.js';
 import { iso6391ToLanguage } from '../formatters/utils.js';
+import StreamExplainer from './explainer.js';
+import { ReleaseFingerprint } from './fingerprints.js';
+import { WatchEntry, WatchHistory } from './watch-history.js';
 
 const logger = createLogger('stream-context');
 
@@ -23,6 +27,7 @@ const logger = createLogger('stream-context');
  */
 export interface ExtendedMetadata extends Metadata {
   absoluteEpisode?: number;
+  episodeNumbering?: EpisodeNumbering;
 }
 
 /**
@@ -40,6 +45,7 @@ export class StreamContext {
   public readonly isAnime: boolean;
   public readonly animeEntry: AnimeEntry | null;
   public readonly queryType: string; // 'anime.movie', 'anime.series', 'movie', 'series'
+  public readonly episodeMapper: EpisodeMapper | null;
 
   // Metadata (fetched from TMDB/TVDB/IMDB)
   private _metadata: ExtendedMetadata | undefined;
@@ -63,6 +69,25 @@ export class StreamContext {
   // public readonly yearWithinTitle: string | undefined;
   // public readonly yearWithinTitleRegex: RegExp | undefined;
 
+  // Per-stream pipeline trace, only present when an explain was requested
+  public readonly explainer: StreamExplainer | undefined;
+
+  // Values of custom sort expressions, keyed by expression then stream id
+  public readonly customSortKeys = new Map<string, Map<string, number>>();
+
+  // Health scores of the addons being fetched from, keyed by addon name
+  public addonHealth: Record<string, number> = {};
+
+  // Ids to request from addons that don't support the requested id, keyed by addon instance id
+  public readonly addonRequestIds = new Map<string, string>();
+
+  // Fingerprints of the releases of the fetched streams, keyed by info hash or NZB hash
+  public readonly releaseFingerprints = new Map<string, ReleaseFingerprint>();
+
+  // The last play of the requested item by the user, from their watch history
+  private _lastWatched: WatchEntry | undefined;
+  private _lastWatchedFetched: boolean = false;
+
   // User data reference
   private readonly userData: UserData;
 
@@ -74,7 +99,9 @@ export class StreamContext {
       parsedId: ParsedId | null;
       isAnime: boolean;
       animeEntry: AnimeEntry | null;
+      episodeMapper: EpisodeMapper | null;
       queryType: string;
+      explain?: boolean;
     }
   ) {
     this.type = type;
@@ -83,17 +110,23 @@ export class StreamContext {
     this.parsedId = options.parsedId;
     this.isAnime = options.isAnime;
     this.animeEntry = options.animeEntry;
+    this.episodeMapper = options.episodeMapper;
     this.queryType = options.queryType;
+    this.explainer = options.explain
+      ? new StreamExplainer(type, id)
+      : undefined;
   }
 
   /**
    * Create a StreamContext for a request.
    * This performs initial synchronous lookups from the AnimeDatabase.
+   * Pass `explain` to record a per-stream trace of the pipeline.
    */
   public static create(
     type: string,
     id: string,
-    userData: UserData
+    userData: UserData,
+    options?: { explain?: boolean }
   ): StreamContext {
     const start = Date.now();
     const parsedId = IdParser.parse(id, type);
@@ -105,6 +138,7 @@ export class StreamContext {
     }
 
     let animeEntry: AnimeEntry | null = null;
+    let episodeMapper: EpisodeMapper | null = null;
     if (parsedId) {
       animeEntry = animeDb.getEntryById(
         parsedId.type,
@@ -113,6 +147,11 @@ export class StreamContext {
         parsedId.episode ? Number(parsedId.episode) : undefined
       );
 
+      // created before enrichment, which replaces the episode of anime ids
+      if (isAnime) {
+        episodeMapper = new EpisodeMapper({ ...parsedId }, animeEntry);
+      }
+
       // Enrich parsedId with anime entry data if available and no season specified
       if (animeEntry && !parsedId.season) {
         enrichParsedIdWithAnimeEntry(parsedId, animeEntry);
@@ -134,7 +173,9 @@ export class StreamContext {
       parsedId,
       isAnime,
       animeEntry,
+      episodeMapper,
       queryType,
+      explain: options?.explain,
     });
   }
 
@@ -179,41 +220,15 @@ export class StreamContext {
           this.type as any
         );
 
-        // Calculate absolute episode for anime
-        let absoluteEpisode: number | undefined;
-        if (
-          this.isAnime &&
-          this.parsedId!.season &&
-          this.parsedId!.episode &&
+        // Map the episode between numbering orders for anime
+        const episodeNumbering = this.episodeMapper?.getNumbering(
           metadata.seasons
-        ) {
-          const seasons = metadata.seasons.map(
-            ({ season_number, episode_count }) => ({
-              number: season_number.toString(),
-              episodes: episode_count,
-            })
-          );
-          absoluteEpisode = Number(
-            calculateAbsoluteEpisode(
-              this.parsedId!.season,
-              this.parsedId!.episode,
-              seasons
-            )
-          );
-          if (this.animeEntry?.imdb?.nonImdbEpisodes && absoluteEpisode) {
-            const nonImdbEpisodesBefore =
-              this.animeEntry.imdb.nonImdbEpisodes.filter(
-                (ep: number) => ep < absoluteEpisode!
-              ).length;
-            if (nonImdbEpisodesBefore > 0) {
-              absoluteEpisode += nonImdbEpisodesBefore;
-            }
-          }
-        }
+        );
 
         const extendedMetadata: ExtendedMetadata = {
           ...metadata,
-          absoluteEpisode,
+          absoluteEpisode: episodeNumbering?.absolute,
+          episodeNumbering,
         };
 
         logger.info(`Fetched metadata for context`, {
@@ -437,6 +452,41 @@ export class StreamContext {
     return this._seadex;
   }
 
+  /**
+   * Get the last play of the requested item by the user, when they keep a
+   * watch history.
+   */
+  public async getLastWatched(): Promise<WatchEntry | undefined> {
+    if (this._lastWatchedFetched) {
+      return this._lastWatched;
+    }
+    this._lastWatchedFetched = true;
+    if (
+      !this.userData.watchHistory?.enabled ||
+      !this.userData.uuid ||
+      !this.parsedId
+    ) {
+      return undefined;
+    }
+    const itemId = IdParser.generate(this.parsedId.type, this.parsedId.value);
+    try {
+      this._lastWatched = itemId
+        ? await WatchHistory.getLast(this.userData.uuid, itemId)
+        : undefined;
+    } catch (error) {
+      logger.warn(`Error getting the watch history for ${this.id}: ${error}`);
+    }
+    return this._lastWatched;
+  }
+
+  /**
+   * The last play of the requested item, once {@link getLastWatched} has
+   * resolved.
+   */
+  public get lastWatched(): WatchEntry | undefined {
+    return this._lastWatched;
+  }
+
   private computeAgeInDays(): number | undefined {
     const getDaysDifference = (dateString: string): number => {
       const date = new Date(dateString);
@@ -481,6 +531,7 @@ export class StreamContext {
       malId: this.animeEntry?.mappings?.malId,
       // SeaDex availability
       hasSeaDex: !!this._seadex?.allHashes?.size,
+      addonHealth: this.addonHealth,
     };
   }
 }
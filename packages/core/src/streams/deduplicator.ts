@@ -4,8 +4,11 @@ import {
   getTimeTakenSincePoint,
   DSU,
   getSimpleTextHash,
+  constants,
 } from '../utils/index.js';
+import { ratio } from 'fuzzball';
 import StreamUtils, { shouldPassthroughStage } from './utils.js';
+import { StreamContext } from './context.js';
 
 const logger = createLogger('deduplicator');
 
@@ -16,7 +19,10 @@ class StreamDeduplicator {
     this.userData = userData;
   }
 
-  public async deduplicate(streams: ParsedStream[]): Promise<ParsedStream[]> {
+  public async deduplicate(
+    streams: ParsedStream[],
+    context?: StreamContext
+  ): Promise<ParsedStream[]> {
     let deduplicator = this.userData.deduplicator;
     if (!deduplicator || !deduplicator.enabled) {
       return streams;
@@ -37,6 +43,7 @@ class StreamDeduplicator {
       live: deduplicator.live || 'disabled',
       youtube: deduplicator.youtube || 'disabled',
       external: deduplicator.external || 'disabled',
+      fuzzy: deduplicator.fuzzy,
     };
 
     // Group streams by their deduplication keys
@@ -114,6 +121,10 @@ class StreamDeduplicator {
         }
       }
     }
+    if (deduplicationKeys.includes('fuzzy')) {
+      this.unionSimilarStreams(streams, dsu);
+    }
+
     // Group actual stream objects by their DSU representative ID
     const idToStreamMap = new Map(streams.map((s) => [s.id, s])); // For quick lookup
     const finalDuplicateGroupsMap = new Map<string, ParsedStream[]>(); // Maps representative ID to stream objects
@@ -374,6 +385,28 @@ class StreamDeduplicator {
       }
     }
 
+    if (context?.explainer) {
+      for (const [representativeId, group] of finalDuplicateGroupsMap) {
+        const kept = group.filter((stream) => processedStreams.has(stream));
+        context.explainer.recordPassed(
+          kept,
+          'deduplicator',
+          group.length > 1
+            ? `Kept from duplicate group ${representativeId} (${group.length} streams)`
+            : undefined
+        );
+        for (const stream of group) {
+          if (processedStreams.has(stream)) continue;
+          context.explainer.recordRemoved(
+            stream,
+            'deduplicator',
+            'duplicate',
+            `Duplicate group ${representativeId}, kept: ${kept.map((s) => s.filename || s.id).join(', ')}`
+          );
+        }
+      }
+    }
+
     let deduplicatedStreams = StreamUtils.mergeStreams(
       Array.from(processedStreams)
     );
@@ -382,6 +415,74 @@ class StreamDeduplicator {
     );
     return deduplicatedStreams;
   }
+
+  /**
+   * Union streams that look like the same release renamed by different
+   * indexers, i.e. the parsed resolution, encode and season/episode numbers
+   * are identical, the sizes are within the size tolerance and the normalised
+   * titles are at least `threshold` similar. The release group isn't compared,
+   * as indexers that rename releases often drop or replace it.
+   */
+  private unionSimilarStreams(streams: ParsedStream[], dsu: DSU<string>) {
+    const threshold =
+      (this.userData.deduplicator?.fuzzy?.threshold ??
+        constants.DEFAULT_FUZZY_DEDUPLICATION_THRESHOLD) * 100;
+    const sizeTolerance =
+      (this.userData.deduplicator?.fuzzy?.sizeTolerance ??
+        constants.DEFAULT_FUZZY_DEDUPLICATION_SIZE_TOLERANCE) *
+      1000 *
+      1000;
+
+    const normalise = (value: string | undefined) =>
+      (value ?? '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim()
+        .toLowerCase();
+
+    // only streams sharing all of the exact fields need to be compared
+    const buckets = new Map<
+      string,
+      { stream: ParsedStream; title: string }[]
+    >();
+    for (const stream of streams) {
+      const parsedFile = stream.parsedFile;
+      const title = normalise(parsedFile?.title);
+      if (!parsedFile || !title || !stream.size) {
+        continue;
+      }
+      const bucketKey = [
+        parsedFile.resolution ?? 'Unknown',
+        parsedFile.encode ?? 'Unknown',
+        parsedFile.seasons?.join(',') ?? '',
+        parsedFile.episodes?.join(',') ?? '',
+      ].join('|');
+      const bucket = buckets.get(bucketKey) ?? [];
+      bucket.push({ stream, title });
+      buckets.set(bucketKey, bucket);
+    }
+
+    let unions = 0;
+    for (const bucket of buckets.values()) {
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          const a = bucket[i];
+          const b = bucket[j];
+          if (
+            Math.abs(a.stream.size! - b.stream.size!) <= sizeTolerance &&
+            (a.title === b.title || ratio(a.title, b.title) >= threshold)
+          ) {
+            dsu.union(a.stream.id, b.stream.id);
+            unions++;
+          }
+        }
+      }
+    }
+    logger.debug(
+      `Fuzzy deduplication matched ${unions} similar stream pairs in ${buckets.size} buckets`
+    );
+  }
 }
 
 export default StreamDeduplicator;
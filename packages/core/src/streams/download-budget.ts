@@ -0,0 +1,85 @@
+import { ParsedStream, UserData } from '../db/schemas.js';
+import { DebridDownload, getDebridService } from '../debrid/index.js';
+import { BuiltinAddonPreset } from '../presets/builtin.js';
+import { constants, createLogger, Env } from '../utils/index.js';
+
+const logger = createLogger('core');
+
+const ACTIVE_STATUSES: DebridDownload['status'][] = [
+  'downloading',
+  'processing',
+  'queued',
+  'uploading',
+];
+
+/**
+ * Keeps precaching within a budget of downloads in progress on each service.
+ *
+ * The downloads a service already has in progress are read from its list of
+ * torrents or NZBs the first time a stream of that service is reserved, and
+ * each reservation then counts towards the budget.
+ */
+export class DownloadBudget {
+  private readonly limit: number;
+  // keyed by service and stream type, as services queue torrents and NZBs separately
+  private readonly active = new Map<string, number>();
+
+  constructor(private readonly userData: UserData) {
+    this.limit = Math.min(
+      userData.precacheLookahead?.maxActiveDownloads ??
+        Env.PRECACHE_MAX_ACTIVE_DOWNLOADS,
+      Env.PRECACHE_MAX_ACTIVE_DOWNLOADS
+    );
+  }
+
+  /**
+   * Reserve a download for a stream, returning false when its service has no
+   * budget left.
+   */
+  public async reserve(stream: ParsedStream): Promise<boolean> {
+    const serviceId = stream.service?.id;
+    if (!serviceId) {
+      return true;
+    }
+    const usenet = stream.type === 'usenet';
+    const key = `${serviceId}:${usenet ? 'usenet' : 'torrent'}`;
+    let active = this.active.get(key);
+    if (active === undefined) {
+      active = await this.getActiveDownloads(serviceId, usenet);
+    }
+    if (active >= this.limit) {
+      logger.debug(
+        `Not precaching with ${serviceId} as it has ${active} downloads in progress`,
+        { limit: this.limit }
+      );
+      this.active.set(key, active);
+      return false;
+    }
+    this.active.set(key, active + 1);
+    return true;
+  }
+
+  private async getActiveDownloads(
+    serviceId: constants.ServiceId,
+    usenet: boolean
+  ): Promise<number> {
+    try {
+      const debridService = getDebridService(
+        serviceId,
+        BuiltinAddonPreset.getDebridServiceCredential(serviceId, this.userData)
+      );
+      const downloads = usenet
+        ? ((await debridService.listNzbs?.()) ?? [])
+        : await debridService.listMagnets();
+      return downloads.filter((download) =>
+        ACTIVE_STATUSES.includes(download.status)
+      ).length;
+    } catch (error) {
+      // the reservations made in this run still count towards the budget
+      logger.warn(`Failed to get the downloads in progress on ${serviceId}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return 0;
+    }
+  }
+}
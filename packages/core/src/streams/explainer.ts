@@ -0,0 +1,201 @@
+import { ParsedStream } from '../db/schemas.js';
+import { getAddonName } from '../utils/general.js';
+
+export const PIPELINE_STAGES = [
+  'fetcher',
+  'filterer',
+  'deduplicator',
+  'precomputer',
+  'sorter',
+  'limiter',
+  'proxifier',
+] as const;
+
+export type PipelineStage = (typeof PIPELINE_STAGES)[number];
+
+export interface StreamTraceEvent {
+  stage: PipelineStage;
+  outcome: 'passed' | 'removed';
+  reason?: string;
+  detail?: string;
+}
+
+export interface StreamSortKey {
+  key: string;
+  direction: 'asc' | 'desc';
+  value: unknown;
+}
+
+export interface StreamTrace {
+  id: string;
+  addon: string;
+  filename?: string;
+  infoHash?: string;
+  service?: string;
+  cached?: boolean;
+  status: 'returned' | 'removed';
+  removedBy?: StreamTraceEvent;
+  position?: number;
+  sortKeys?: StreamSortKey[];
+  events: StreamTraceEvent[];
+}
+
+export interface StreamExplanation {
+  type: string;
+  id: string;
+  summary: {
+    total: number;
+    returned: number;
+    removed: Partial<Record<PipelineStage, number>>;
+  };
+  streams: StreamTrace[];
+}
+
+/**
+ * Records the path each stream takes through the pipeline for a single
+ * request so that we can answer "why didn't stream X show up?".
+ *
+ * Stages only record into the explainer when one is attached to the
+ * StreamContext, so there is no cost for regular requests.
+ */
+class StreamExplainer {
+  private readonly type: string;
+  private readonly id: string;
+  private readonly traces = new Map<string, StreamTrace>();
+
+  constructor(type: string, id: string) {
+    this.type = type;
+    this.id = id;
+  }
+
+  private getTrace(stream: ParsedStream): StreamTrace {
+    let trace = this.traces.get(stream.id);
+    if (!trace) {
+      trace = {
+        id: stream.id,
+        addon: getAddonName(stream.addon),
+        filename: stream.filename,
+        infoHash: stream.torrent?.infoHash,
+        service: stream.service?.id,
+        cached: stream.service?.cached,
+        status: 'removed',
+        events: [],
+      };
+      this.traces.set(stream.id, trace);
+    }
+    return trace;
+  }
+
+  public recordPassed(
+    streams: ParsedStream[],
+    stage: PipelineStage,
+    detail?: string | ((stream: ParsedStream) => string | undefined)
+  ) {
+    for (const stream of streams) {
+      const trace = this.getTrace(stream);
+      // a stream that was removed in an earlier pass (e.g. by a group level
+      // filter) cannot pass a later stage, so don't record it
+      if (trace.removedBy) continue;
+      trace.events.push({
+        stage,
+        outcome: 'passed',
+        detail: typeof detail === 'function' ? detail(stream) : detail,
+      });
+    }
+  }
+
+  public recordRemoved(
+    stream: ParsedStream,
+    stage: PipelineStage,
+    reason: string,
+    detail?: string
+  ) {
+    const trace = this.getTrace(stream);
+    if (trace.removedBy) return;
+    const event: StreamTraceEvent = {
+      stage,
+      outcome: 'removed',
+      reason,
+      detail,
+    };
+    trace.events.push(event);
+    trace.removedBy = event;
+  }
+
+  public recordSortKeys(stream: ParsedStream, sortKeys: StreamSortKey[]) {
+    this.getTrace(stream).sortKeys = sortKeys;
+  }
+
+  /**
+   * Mark the streams that made it to the response, in order. Any stream that
+   * was traced but neither returned nor explicitly removed was discarded
+   * without reaching a later stage (e.g. a group whose condition was not met).
+   */
+  public finalise(streams: ParsedStream[]): StreamExplanation {
+    streams.forEach((stream, index) => {
+      const trace = this.getTrace(stream);
+      trace.status = 'returned';
+      trace.position = index + 1;
+    });
+
+    const removed: Partial<Record<PipelineStage, number>> = {};
+    for (const trace of this.traces.values()) {
+      if (trace.status === 'returned') continue;
+      if (!trace.removedBy) {
+        const lastEvent = trace.events[trace.events.length - 1];
+        trace.removedBy = {
+          stage: lastEvent?.stage ?? 'fetcher',
+          outcome: 'removed',
+          reason: 'discarded',
+          detail: 'Stream was not carried forward to the next stage',
+        };
+        trace.events.push(trace.removedBy);
+      }
+      removed[trace.removedBy.stage] =
+        (removed[trace.removedBy.stage] ?? 0) + 1;
+    }
+
+    const traces = Array.from(this.traces.values()).sort((a, b) => {
+      if (a.position !== undefined && b.position !== undefined) {
+        return a.position - b.position;
+      }
+      if (a.position !== undefined) return -1;
+      if (b.position !== undefined) return 1;
+      return 0;
+    });
+
+    return {
+      type: this.type,
+      id: this.id,
+      summary: {
+        total: traces.length,
+        returned: streams.length,
+        removed,
+      },
+      streams: traces,
+    };
+  }
+
+  /**
+   * Summarise an explanation in the same shape as the other statistics so it
+   * can be shown as a statistic stream.
+   */
+  public static toStatistics(
+    explanation: StreamExplanation
+  ): { title: string; description: string }[] {
+    const { summary } = explanation;
+    const lines = [
+      `📊 Total Streams : ${summary.total}`,
+      `✔️ Returned      : ${summary.returned}`,
+    ];
+    for (const stage of PIPELINE_STAGES) {
+      const count = summary.removed[stage];
+      if (count) {
+        lines.push(`❌ ${stage.padEnd(13)}: ${count}`);
+      }
+    }
+    return [{ title: '🧭 Pipeline Explain', description: lines.join('\n') }];
+  }
+}
+
+export default StreamExplainer;
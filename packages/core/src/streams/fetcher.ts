@@ -13,6 +13,10 @@ import {
 import StreamFilter from './filterer.js';
 import StreamPrecompute from './precomputer.js';
 import StreamDeduplicator from './deduplicator.js';
+import StreamCacheVerifier from './verifier.js';
+import NzbHealthChecker from './nzb-checker.js';
+import { AddonHealth } from './health.js';
+import { ReleaseFingerprints } from './fingerprints.js';
 import { StreamContext } from './context.js';
 
 const logger = createLogger('fetcher');
@@ -22,20 +26,30 @@ class StreamFetcher {
   private filter: StreamFilter;
   private precompute: StreamPrecompute;
   private deduplicate: StreamDeduplicator;
+  private verifier: StreamCacheVerifier;
+  private nzbChecker: NzbHealthChecker;
   constructor(
     userData: UserData,
     filter: StreamFilter,
-    precompute: StreamPrecompute
+    precompute: StreamPrecompute,
+    verifier: StreamCacheVerifier
   ) {
     this.userData = userData;
     this.filter = filter;
     this.precompute = precompute;
+    this.verifier = verifier;
+    this.nzbChecker = new NzbHealthChecker(userData);
     this.deduplicate = new StreamDeduplicator(userData);
   }
 
   public async fetch(
     addons: Addon[],
-    context: StreamContext
+    context: StreamContext,
+    onAddonStreams?: (
+      addon: Addon,
+      streams: ParsedStream[],
+      errors: { title: string; description: string }[]
+    ) => Promise<void>
   ): Promise<{
     streams: ParsedStream[];
     errors: {
@@ -85,13 +99,48 @@ class StreamFetcher {
       return true;
     });
 
+    context.addonHealth = await AddonHealth.getScores(addons);
+
     // Helper function to fetch streams from an addon and log summary
     const fetchFromAddon = async (addon: Addon) => {
       let summaryMsg = '';
       const start = Date.now();
 
+      const circuit = await AddonHealth.acquire(addon).catch((error) => {
+        logger.error(`Failed to check health of ${getAddonName(addon)}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return { allowed: true as const };
+      });
+      if (!circuit.allowed) {
+        const retryIn = Math.ceil((circuit.retryAt - Date.now()) / 1000);
+        logger.info(
+          `Skipping ${getAddonName(addon)} as it has been failing, retrying in ${retryIn}s`
+        );
+        return {
+          success: false as const,
+          errors: [
+            {
+              title: `[⛔] ${getAddonName(addon)}`,
+              description: `Skipped as it has been failing repeatedly. It will be retried in ${retryIn}s`,
+            },
+          ],
+          timeTaken: 0,
+          streams: [],
+        };
+      }
+
       try {
-        const streams = await new Wrapper(addon).getStreams(type, id);
+        const streams = await new Wrapper(addon).getStreams(
+          type,
+          (addon.instanceId && context.addonRequestIds.get(addon.instanceId)) ||
+            id
+        );
+        AddonHealth.recordSuccess(addon).catch((error) =>
+          logger.error(`Failed to record health of ${getAddonName(addon)}`, {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
         const errorStreams = streams.filter(
           (s) => s.type === constants.ERROR_STREAM_TYPE
         );
@@ -135,17 +184,29 @@ class StreamFetcher {
 `,
         };
 
+        const validStreams = streams.filter(
+          (s) => s.type !== constants.ERROR_STREAM_TYPE
+        );
+        context.explainer?.recordPassed(
+          validStreams,
+          'fetcher',
+          `Fetched from ${getAddonName(addon)}`
+        );
+
         return {
           success: true as const,
-          streams: streams.filter(
-            (s) => s.type !== constants.ERROR_STREAM_TYPE
-          ),
+          streams: validStreams,
           errors: addonErrors,
           statistic: statisticStream,
           timeTaken: Date.now() - start,
         };
       } catch (error) {
         const errMsg = error instanceof Error ? error.message : String(error);
+        AddonHealth.recordFailure(addon, errMsg).catch((error) =>
+          logger.error(`Failed to record health of ${getAddonName(addon)}`, {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
         const addonErrors = {
           title: `[❌] ${getAddonName(addon)}`,
           description: errMsg,
@@ -172,7 +233,24 @@ class StreamFetcher {
     // Helper function to fetch from a group of addons and track time
     const fetchAndProcessAddons = async (addons: Addon[]) => {
       const groupStart = Date.now();
-      const results = await Promise.all(addons.map(fetchFromAddon));
+      const results = await Promise.all(
+        addons.map(async (addon) => {
+          const result = await fetchFromAddon(addon);
+          if (onAddonStreams) {
+            await onAddonStreams(addon, result.streams, result.errors).catch(
+              (error) =>
+                logger.error(
+                  `Failed to handle streams from ${getAddonName(addon)}`,
+                  {
+                    error:
+                      error instanceof Error ? error.message : String(error),
+                  }
+                )
+            );
+          }
+          return result;
+        })
+      );
 
       const groupStreams = results.flatMap((r) => r.streams);
       const groupErrors = results.flatMap((r) => r.errors);
@@ -180,12 +258,29 @@ class StreamFetcher {
         .flatMap((r) => r.statistic)
         .filter((s) => s !== undefined);
 
+      // Correct the cached flag of upstream addons before anything uses it
+      await this.verifier.verify(groupStreams, context);
+      // Fill in what addons left out with what is known about the releases
+      for (const [key, fingerprint] of await ReleaseFingerprints.apply(
+        groupStreams
+      )) {
+        context.releaseFingerprints.set(key, fingerprint);
+      }
+
       // Run SeaDex precompute BEFORE filter so seadex() works in Included SEL
       // Now uses context's cached SeaDex data when available
       await this.precompute.precomputeSeaDexOnly(groupStreams, context);
 
-      const filteredStreams = await this.deduplicate.deduplicate(
-        await this.filter.filter(groupStreams, context)
+      // Only the NZBs of streams that can still be returned are checked, as
+      // each one is downloaded from its indexer
+      const dedupedStreams = await this.deduplicate.deduplicate(
+        await this.filter.filter(groupStreams, context),
+        context
+      );
+      await this.nzbChecker.check(dedupedStreams, context);
+      const filteredStreams = this.filter.filterIncompleteNzbs(
+        dedupedStreams,
+        context
       );
 
       // Run preferred matching AFTER filter
@@ -296,7 +391,9 @@ class StreamFetcher {
                 timeTaken,
                 queryType,
                 [...queriedAddons],
-                allAddons
+                allAddons,
+                this.userData.selMacros,
+                context.addonHealth
               );
 
               const shouldExit = await evaluator.evaluate(condition);
@@ -437,7 +534,9 @@ class StreamFetcher {
             allStreams,
             previousGroupTimeTaken,
             totalTimeTaken,
-            queryType
+            queryType,
+            this.userData.selMacros,
+            context.addonHealth
           );
           const shouldIncludeAndContinue = await evaluator.evaluate(
             group.condition
@@ -475,7 +574,9 @@ class StreamFetcher {
               allStreams,
               previousGroupTimeTaken,
               totalTimeTaken,
-              queryType
+              queryType,
+              this.userData.selMacros,
+              context.addonHealth
             );
             const shouldFetch = await evaluator.evaluate(group.condition);
 
@@ -25,6 +25,7 @@ import {
 } from '../formatters/utils.js';
 import { ReleaseDate } from '../metadata/tmdb.js';
 import { StreamContext, ExtendedMetadata } from './context.js';
+import { ReleaseFingerprints } from './fingerprints.js';
 
 const logger = createLogger('filterer');
 
@@ -58,6 +59,7 @@ export interface FilterStatistics {
     requiredLanguage: Reason;
     excludedCached: Reason;
     excludedUncached: Reason;
+    incompleteNzb: Reason;
     excludedRegex: Reason;
     requiredRegex: Reason;
     excludedKeywords: Reason;
@@ -121,6 +123,7 @@ class StreamFilterer {
         requiredLanguage: { total: 0, details: {} },
         excludedCached: { total: 0, details: {} },
         excludedUncached: { total: 0, details: {} },
+        incompleteNzb: { total: 0, details: {} },
         excludedRegex: { total: 0, details: {} },
         requiredRegex: { total: 0, details: {} },
         excludedKeywords: { total: 0, details: {} },
@@ -270,6 +273,10 @@ class StreamFilterer {
       await context.getReleaseDates();
     const episodeAirDate: string | undefined =
       await context.getEpisodeAirDate();
+    const requestIds = ReleaseFingerprints.getRequestIds(
+      id,
+      context.animeEntry?.mappings
+    );
     let originalLanguage = requestedMetadata?.originalLanguage
       ? iso6391ToLanguage(requestedMetadata.originalLanguage)
       : undefined;
@@ -619,6 +626,18 @@ class StreamFilterer {
         return true;
       }
 
+      // releases that built-in addons already matched to this item
+      const fingerprintKey = ReleaseFingerprints.getKey(stream);
+      if (
+        fingerprintKey &&
+        ReleaseFingerprints.isMatchedTo(
+          context.releaseFingerprints.get(fingerprintKey),
+          requestIds
+        )
+      ) {
+        return true;
+      }
+
       if (!streamTitle || !stream.filename) {
         // only filter out movies without a year as series results usually don't include a year
         return false;
@@ -817,45 +836,37 @@ class StreamFilterer {
         }
       }
 
-      if (
-        requestedSeason &&
-        seasons &&
-        seasons.length > 0 &&
-        !seasons.includes(requestedSeason)
-      ) {
-        if (
-          seasons[0] === 1 &&
-          stream.parsedFile?.episodes?.length &&
-          requestedMetadata?.absoluteEpisode &&
-          stream.parsedFile?.episodes?.includes(
-            requestedMetadata.absoluteEpisode
-          )
-        ) {
-          // allow if absolute episode matches AND season is 1
-        } else {
-          return false;
-        }
-      }
-
-      if (
-        requestedEpisode &&
-        stream.parsedFile?.episodes?.length &&
-        !stream.parsedFile?.episodes?.includes(requestedEpisode)
-      ) {
-        if (
-          requestedMetadata?.absoluteEpisode &&
-          stream.parsedFile?.episodes?.includes(
-            requestedMetadata.absoluteEpisode
-          ) &&
+      const episodes = stream.parsedFile?.episodes;
+      const numbering = requestedMetadata?.episodeNumbering;
+      // files may be numbered in any of the orders of the requested episode,
+      // and absolute or per-entry numbering is only accepted without a season
+      // other than 1
+      const seasonalNumbers = [
+        { season: requestedSeason, episode: requestedEpisode },
+        numbering?.seasonal,
+        numbering?.tvdb,
+        numbering?.tmdb,
+      ];
+      const seasonlessEpisodes = [numbering?.absolute, numbering?.relative];
+
+      const matchesSeasonal = seasonalNumbers.some(
+        (number) =>
+          number &&
+          (!number.season ||
+            !seasons?.length ||
+            seasons.includes(number.season)) &&
+          (!number.episode ||
+            !episodes?.length ||
+            episodes.includes(number.episode))
+      );
+      const matchesSeasonless = seasonlessEpisodes.some(
+        (episode) =>
+          episode &&
+          episodes?.includes(episode) &&
           (!seasons?.length || seasons[0] === 1)
-        ) {
-          // allow if absolute episode matches AND (no season OR season is 1)
-        } else {
-          return false;
-        }
-      }
+      );
 
-      return true;
+      return matchesSeasonal || matchesSeasonless;
     };
 
     const includedStreamsByExpression =
@@ -1096,6 +1107,16 @@ class StreamFilterer {
       }
     };
 
+    // count the removal reason, and attribute it to the stream when explaining
+    const removeStream = (
+      stream: ParsedStream,
+      reason: keyof FilterStatistics['removed'],
+      detail?: string
+    ) => {
+      this.incrementRemovalReason(reason, detail);
+      context.explainer?.recordRemoved(stream, 'filterer', reason, detail);
+    };
+
     const shouldKeepStream = async (stream: ParsedStream): Promise<boolean> => {
       const file = stream.parsedFile;
 
@@ -1335,7 +1356,7 @@ class StreamFilterer {
 
       if (this.userData.excludedStreamTypes?.includes(stream.type)) {
         // Track stream type exclusions
-        this.incrementRemovalReason('excludedStreamType', stream.type);
+        removeStream(stream, 'excludedStreamType', stream.type);
         return false;
       }
 
@@ -1345,7 +1366,7 @@ class StreamFilterer {
         this.userData.requiredStreamTypes.length > 0 &&
         !this.userData.requiredStreamTypes.includes(stream.type)
       ) {
-        this.incrementRemovalReason('requiredStreamType', stream.type);
+        removeStream(stream, 'requiredStreamType', stream.type);
         return false;
       }
 
@@ -1355,7 +1376,8 @@ class StreamFilterer {
           (file?.resolution || 'Unknown') as any
         )
       ) {
-        this.incrementRemovalReason(
+        removeStream(
+          stream,
           'excludedResolution',
           file?.resolution || 'Unknown'
         );
@@ -1369,7 +1391,8 @@ class StreamFilterer {
           (file?.resolution || 'Unknown') as any
         )
       ) {
-        this.incrementRemovalReason(
+        removeStream(
+          stream,
           'requiredResolution',
           file?.resolution || 'Unknown'
         );
@@ -1382,10 +1405,7 @@ class StreamFilterer {
           (file?.quality || 'Unknown') as any
         )
       ) {
-        this.incrementRemovalReason(
-          'excludedQuality',
-          file?.quality || 'Unknown'
-        );
+        removeStream(stream, 'excludedQuality', file?.quality || 'Unknown');
         return false;
       }
 
@@ -1396,10 +1416,7 @@ class StreamFilterer {
           (file?.quality || 'Unknown') as any
         )
       ) {
-        this.incrementRemovalReason(
-          'requiredQuality',
-          file?.quality || 'Unknown'
-        );
+        removeStream(stream, 'requiredQuality', file?.quality || 'Unknown');
         return false;
       }
 
@@ -1409,10 +1426,7 @@ class StreamFilterer {
           file?.encode || ('Unknown' as any)
         )
       ) {
-        this.incrementRemovalReason(
-          'excludedEncode',
-          file?.encode || 'Unknown'
-        );
+        removeStream(stream, 'excludedEncode', file?.encode || 'Unknown');
         return false;
       }
 
@@ -1423,10 +1437,7 @@ class StreamFilterer {
           file?.encode || ('Unknown' as any)
         )
       ) {
-        this.incrementRemovalReason(
-          'requiredEncode',
-          file?.encode || 'Unknown'
-        );
+        removeStream(stream, 'requiredEncode', file?.encode || 'Unknown');
         return false;
       }
 
@@ -1442,7 +1453,7 @@ class StreamFilterer {
             tag
           )
         );
-        this.incrementRemovalReason('excludedVisualTag', tag!);
+        removeStream(stream, 'excludedVisualTag', tag!);
         return false;
       }
 
@@ -1455,7 +1466,8 @@ class StreamFilterer {
           )
         )
       ) {
-        this.incrementRemovalReason(
+        removeStream(
+          stream,
           'requiredVisualTag',
           file?.visualTags.length ? file.visualTags.join(', ') : 'Unknown'
         );
@@ -1470,7 +1482,7 @@ class StreamFilterer {
         const tag = this.userData.excludedAudioTags.find((tag) =>
           (file?.audioTags.length ? file.audioTags : ['Unknown']).includes(tag)
         );
-        this.incrementRemovalReason('excludedAudioTag', tag!);
+        removeStream(stream, 'excludedAudioTag', tag!);
         return false;
       }
 
@@ -1481,7 +1493,8 @@ class StreamFilterer {
           (file?.audioTags.length ? file.audioTags : ['Unknown']).includes(tag)
         )
       ) {
-        this.incrementRemovalReason(
+        removeStream(
+          stream,
           'requiredAudioTag',
           file?.audioTags.length ? file.audioTags.join(', ') : 'Unknown'
         );
@@ -1502,7 +1515,7 @@ class StreamFilterer {
             : ['Unknown']
           ).includes(channel)
         );
-        this.incrementRemovalReason('excludedAudioChannel', channel!);
+        removeStream(stream, 'excludedAudioChannel', channel!);
         return false;
       }
 
@@ -1516,7 +1529,8 @@ class StreamFilterer {
           ).includes(channel)
         )
       ) {
-        this.incrementRemovalReason(
+        removeStream(
+          stream,
           'requiredAudioChannel',
           file?.audioChannels.length ? file.audioChannels.join(', ') : 'Unknown'
         );
@@ -1531,7 +1545,8 @@ class StreamFilterer {
           this.userData.excludedLanguages!.includes(lang as any)
         )
       ) {
-        this.incrementRemovalReason(
+        removeStream(
+          stream,
           'excludedLanguage',
           file?.languages.length ? file.languages.join(', ') : 'Unknown'
         );
@@ -1546,7 +1561,8 @@ class StreamFilterer {
           (file?.languages.length ? file.languages : ['Unknown']).includes(lang)
         )
       ) {
-        this.incrementRemovalReason(
+        removeStream(
+          stream,
           'requiredLanguage',
           file?.languages.length ? file.languages.join(', ') : 'Unknown'
         );
@@ -1556,12 +1572,12 @@ class StreamFilterer {
       // uncached
 
       if (this.userData.excludeUncached && stream.service?.cached === false) {
-        this.incrementRemovalReason('excludedUncached');
+        removeStream(stream, 'excludedUncached');
         return false;
       }
 
       if (this.userData.excludeCached && stream.service?.cached === true) {
-        this.incrementRemovalReason('excludedCached');
+        removeStream(stream, 'excludedCached');
         return false;
       }
 
@@ -1575,7 +1591,7 @@ class StreamFilterer {
           true
         ) === false
       ) {
-        this.incrementRemovalReason('excludedCached');
+        removeStream(stream, 'excludedCached');
         return false;
       }
 
@@ -1589,7 +1605,7 @@ class StreamFilterer {
           false
         ) === false
       ) {
-        this.incrementRemovalReason('excludedUncached');
+        removeStream(stream, 'excludedUncached');
         return false;
       }
 
@@ -1606,7 +1622,8 @@ class StreamFilterer {
             : seasons?.length
               ? `S${String(seasons[0]).padStart(2, '0')}-${String(seasons[seasons.length - 1]).padStart(2, '0')}`
               : undefined;
-        this.incrementRemovalReason(
+        removeStream(
+          stream,
           'excludeSeasonPacks',
           `${stream.parsedFile.title} - ${seasonStr}`
         );
@@ -1617,7 +1634,7 @@ class StreamFilterer {
         excludedRegexPatterns &&
         (await testRegexes(stream, excludedRegexPatterns))
       ) {
-        this.incrementRemovalReason('excludedRegex');
+        removeStream(stream, 'excludedRegex');
         return false;
       }
       if (
@@ -1625,7 +1642,7 @@ class StreamFilterer {
         requiredRegexPatterns.length > 0 &&
         !(await testRegexes(stream, requiredRegexPatterns))
       ) {
-        this.incrementRemovalReason('requiredRegex');
+        removeStream(stream, 'requiredRegex');
         return false;
       }
 
@@ -1633,7 +1650,7 @@ class StreamFilterer {
         excludedKeywordsPattern &&
         (await testRegexes(stream, [excludedKeywordsPattern]))
       ) {
-        this.incrementRemovalReason('excludedKeywords');
+        removeStream(stream, 'excludedKeywords');
         return false;
       }
 
@@ -1641,7 +1658,7 @@ class StreamFilterer {
         requiredKeywordsPattern &&
         !(await testRegexes(stream, [requiredKeywordsPattern]))
       ) {
-        this.incrementRemovalReason('requiredKeywords');
+        removeStream(stream, 'requiredKeywords');
         return false;
       }
 
@@ -1655,7 +1672,8 @@ class StreamFilterer {
           requiredSeederRange[0] &&
           (stream.torrent?.seeders ?? 0) < requiredSeederRange[0]
         ) {
-          this.incrementRemovalReason(
+          removeStream(
+            stream,
             'requiredSeederRange',
             `< ${requiredSeederRange[0]}`
           );
@@ -1666,7 +1684,8 @@ class StreamFilterer {
           requiredSeederRange[1] &&
           (stream.torrent?.seeders ?? 0) > requiredSeederRange[1]
         ) {
-          this.incrementRemovalReason(
+          removeStream(
+            stream,
             'requiredSeederRange',
             `> ${requiredSeederRange[1]}`
           );
@@ -1684,7 +1703,8 @@ class StreamFilterer {
           excludedSeederRange[0] &&
           (stream.torrent?.seeders ?? 0) > excludedSeederRange[0]
         ) {
-          this.incrementRemovalReason(
+          removeStream(
+            stream,
             'excludedSeederRange',
             `< ${excludedSeederRange[0]}`
           );
@@ -1694,7 +1714,8 @@ class StreamFilterer {
           excludedSeederRange[1] &&
           (stream.torrent?.seeders ?? 0) < excludedSeederRange[1]
         ) {
-          this.incrementRemovalReason(
+          removeStream(
+            stream,
             'excludedSeederRange',
             `> ${excludedSeederRange[1]}`
           );
@@ -1709,10 +1730,7 @@ class StreamFilterer {
             this.userData.ageRangeTypes.includes(typeForAgeRange)))
       ) {
         if (requiredAgeRange[0] && (stream.age ?? 0) < requiredAgeRange[0]) {
-          this.incrementRemovalReason(
-            'requiredAgeRange',
-            `< ${requiredAgeRange[0]}h`
-          );
+          removeStream(stream, 'requiredAgeRange', `< ${requiredAgeRange[0]}h`);
           return false;
         }
         if (
@@ -1720,10 +1738,7 @@ class StreamFilterer {
           requiredAgeRange[1] &&
           (stream.age ?? 0) > requiredAgeRange[1]
         ) {
-          this.incrementRemovalReason(
-            'requiredAgeRange',
-            `> ${requiredAgeRange[1]}h`
-          );
+          removeStream(stream, 'requiredAgeRange', `> ${requiredAgeRange[1]}h`);
           return false;
         }
       }
@@ -1735,17 +1750,11 @@ class StreamFilterer {
             this.userData.ageRangeTypes.includes(typeForAgeRange)))
       ) {
         if (excludedAgeRange[0] && (stream.age ?? 0) > excludedAgeRange[0]) {
-          this.incrementRemovalReason(
-            'excludedAgeRange',
-            `< ${excludedAgeRange[0]}h`
-          );
+          removeStream(stream, 'excludedAgeRange', `< ${excludedAgeRange[0]}h`);
           return false;
         }
         if (excludedAgeRange[1] && (stream.age ?? 0) < excludedAgeRange[1]) {
-          this.incrementRemovalReason(
-            'excludedAgeRange',
-            `> ${excludedAgeRange[1]}h`
-          );
+          removeStream(stream, 'excludedAgeRange', `> ${excludedAgeRange[1]}h`);
           return false;
         }
       }
@@ -1754,7 +1763,8 @@ class StreamFilterer {
         !shouldPassthroughStage(stream, 'title') &&
         !performTitleMatch(stream)
       ) {
-        this.incrementRemovalReason(
+        removeStream(
+          stream,
           'titleMatching',
           `${stream.parsedFile?.title || 'Unknown Title'}${type === 'movie' ? ` - (${stream.parsedFile?.year || 'Unknown Year'})` : ''}`
         );
@@ -1765,7 +1775,8 @@ class StreamFilterer {
         !shouldPassthroughStage(stream, 'year') &&
         !performYearMatch(stream)
       ) {
-        this.incrementRemovalReason(
+        removeStream(
+          stream,
           'yearMatching',
           `${stream.parsedFile?.title || 'Unknown Title'} - ${stream.parsedFile?.year || 'Unknown Year'}`
         );
@@ -1794,7 +1805,7 @@ class StreamFilterer {
           ' ' +
           (seasonEpisode?.join(' • ') || 'Unknown');
 
-        this.incrementRemovalReason('seasonEpisodeMatching', detail);
+        removeStream(stream, 'seasonEpisodeMatching', detail);
         return false;
       }
 
@@ -1825,7 +1836,8 @@ class StreamFilterer {
           finalSizeRange[0] &&
           stream.size < finalSizeRange[0]
         ) {
-          this.incrementRemovalReason(
+          removeStream(
+            stream,
             'size',
             `< ${formatBytes(finalSizeRange[0], 1000)}`
           );
@@ -1836,7 +1848,8 @@ class StreamFilterer {
           finalSizeRange[1] &&
           stream.size > finalSizeRange[1]
         ) {
-          this.incrementRemovalReason(
+          removeStream(
+            stream,
             'size',
             `> ${formatBytes(finalSizeRange[1], 1000)}`
           );
@@ -1876,7 +1889,8 @@ class StreamFilterer {
           finalBitrateRange[0] !== undefined &&
           stream.bitrate < finalBitrateRange[0]
         ) {
-          this.incrementRemovalReason(
+          removeStream(
+            stream,
             'bitrate',
             `< ${formatBitrate(finalBitrateRange[0])}`
           );
@@ -1886,7 +1900,8 @@ class StreamFilterer {
           finalBitrateRange[1] !== undefined &&
           stream.bitrate > finalBitrateRange[1]
         ) {
-          this.incrementRemovalReason(
+          removeStream(
+            stream,
             'bitrate',
             `> ${formatBitrate(finalBitrateRange[1])}`
           );
@@ -1939,6 +1954,13 @@ class StreamFilterer {
       (_, index) => filterResults[index]
     );
 
+    context.explainer?.recordPassed(
+      includedWithoutPassthrough,
+      'filterer',
+      'Included by stream expression'
+    );
+    context.explainer?.recordPassed(filteredStreams, 'filterer');
+
     const finalStreams = StreamUtils.mergeStreams([
       ...includedWithoutPassthrough,
       ...filteredStreams,
@@ -1962,7 +1984,10 @@ class StreamFilterer {
     context: StreamContext
   ): Promise<ParsedStream[]> {
     const expressionContext = context.toExpressionContext();
-    const selector = new StreamSelector(expressionContext);
+    const selector = new StreamSelector(
+      expressionContext,
+      this.userData.selMacros
+    );
     const streamsToKeep = new Set<string>();
     if (
       !this.userData.includedStreamExpressions ||
@@ -1986,6 +2011,38 @@ class StreamFilterer {
     return streams.filter((stream) => streamsToKeep.has(stream.id));
   }
 
+  /**
+   * Remove the streams whose NZB was found to be incomplete. NZBs are checked
+   * after filtering, so this is applied separately to the checked streams.
+   * Streams whose NZB was not checked are kept.
+   */
+  public filterIncompleteNzbs(
+    streams: ParsedStream[],
+    context: StreamContext
+  ): ParsedStream[] {
+    const minCompleteness = this.userData.nzbHealthCheck?.minCompleteness;
+    if (!minCompleteness) {
+      return streams;
+    }
+    return streams.filter((stream) => {
+      if (
+        stream.nzbCompleteness === undefined ||
+        stream.nzbCompleteness >= minCompleteness
+      ) {
+        return true;
+      }
+      const detail = `${stream.nzbCompleteness}%`;
+      this.incrementRemovalReason('incompleteNzb', detail);
+      context.explainer?.recordRemoved(
+        stream,
+        'filterer',
+        'incompleteNzb',
+        detail
+      );
+      return false;
+    });
+  }
+
   public async applyStreamExpressionFilters(
     streams: ParsedStream[],
     context: StreamContext
@@ -2006,7 +2063,10 @@ class StreamFilterer {
       this.userData.excludedStreamExpressions &&
       this.userData.excludedStreamExpressions.length > 0
     ) {
-      const selector = new StreamSelector(expressionContext);
+      const selector = new StreamSelector(
+        expressionContext,
+        this.userData.selMacros
+      );
       const streamsToRemove = new Set<string>(); // Track actual stream objects to be removed
 
       for (const expression of this.userData.excludedStreamExpressions) {
@@ -2018,11 +2078,16 @@ class StreamFilterer {
           );
 
           // Track these stream objects for removal (except passthrough streams)
-          selectedStreams.forEach(
-            (stream) =>
-              !excludedPassthroughStreams.includes(stream.id) &&
-              streamsToRemove.add(stream.id)
-          );
+          selectedStreams.forEach((stream) => {
+            if (excludedPassthroughStreams.includes(stream.id)) return;
+            streamsToRemove.add(stream.id);
+            context.explainer?.recordRemoved(
+              stream,
+              'filterer',
+              'excludedFilterCondition',
+              expression
+            );
+          });
 
           // Update skip reasons for this condition (only count newly selected streams)
           if (selectedStreams.length > 0) {
@@ -2056,7 +2121,10 @@ class StreamFilterer {
       this.userData.requiredStreamExpressions &&
       this.userData.requiredStreamExpressions.length > 0
     ) {
-      const selector = new StreamSelector(expressionContext);
+      const selector = new StreamSelector(
+        expressionContext,
+        this.userData.selMacros
+      );
       const streamsToKeep = new Set<string>(); // Track actual stream objects to be removed
       requiredPassthroughStreams.forEach((stream) => streamsToKeep.add(stream));
 
@@ -2094,6 +2162,17 @@ class StreamFilterer {
         `Total streams selected by required conditions: ${streamsToKeep.size} (including ${requiredPassthroughStreams.length} passthrough streams)`
       );
       // remove all streams that are not in the streamsToKeep set
+      if (context.explainer) {
+        for (const stream of streams) {
+          if (streamsToKeep.has(stream.id)) continue;
+          context.explainer.recordRemoved(
+            stream,
+            'filterer',
+            'requiredFilterCondition',
+            'Did not match any required stream expression'
+          );
+        }
+      }
       streams = streams.filter((stream) => streamsToKeep.has(stream.id));
     }
     return streams;
@@ -0,0 +1,296 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { ParsedFile, ParsedStream } from '../db/schemas.js';
+import { DebridDownload, DebridFile } from '../debrid/base.js';
+import { isVideoFile } from '../debrid/utils.js';
+import FileParser from '../parser/file.js';
+import { Cache, Env, IdParser, IdType, createLogger } from '../utils/index.js';
+
+const logger = createLogger('fingerprints');
+
+// the number of ids remembered per release, the oldest are dropped first
+const MAX_IDS = 20;
+
+export interface ReleaseFingerprint {
+  // the name of the release as reported by a debrid service
+  name?: string;
+  parsedFile?: ParsedFile;
+  // the total size of the release
+  size?: number;
+  // the video files of the release
+  files?: DebridFile[];
+  // the ids of the items the release was matched to, e.g. tt0903747 or kitsu:1376
+  ids?: string[];
+  updatedAt: number;
+}
+
+const store = () => {
+  let store: 'redis' | 'sql' | 'memory';
+  if (Env.RELEASE_FINGERPRINT_STORE === true) {
+    store = Env.REDIS_URI ? 'redis' : 'sql';
+  } else if (!Env.RELEASE_FINGERPRINT_STORE) {
+    return undefined;
+  } else {
+    store = Env.RELEASE_FINGERPRINT_STORE;
+  }
+  return Cache.getInstance<string, ReleaseFingerprint>(
+    'release-fingerprints',
+    Env.RELEASE_FINGERPRINT_MAX_SIZE,
+    store
+  );
+};
+
+/**
+ * Get the id of an item without its season and episode.
+ */
+function getItemId(id: string): string | undefined {
+  const parsedId = IdParser.parse(id, 'unknown');
+  return parsedId
+    ? IdParser.generate(parsedId.type, parsedId.value)
+    : undefined;
+}
+
+/**
+ * A persistent store of what is known about releases, keyed by info hash for
+ * torrents and the hash of the NZB URL for usenet.
+ *
+ * It is populated with the names, sizes and files that debrid services
+ * report, which are more reliable than the titles of search results, and the
+ * ids that built-in addons matched the releases to. Streams from any addon
+ * are then completed with it before they are filtered.
+ */
+export class ReleaseFingerprints {
+  /**
+   * Get the key of the fingerprint of a stream.
+   */
+  static getKey(stream: ParsedStream): string | undefined {
+    if (stream.torrent?.infoHash) {
+      return stream.torrent.infoHash.toLowerCase();
+    }
+    if (stream.nzbUrl) {
+      // built-in addons use the same hash for NZBs
+      return createHash('md5').update(stream.nzbUrl).digest('hex');
+    }
+    return undefined;
+  }
+
+  /**
+   * Remember the releases in the results of a debrid service, and the id of
+   * the request that the releases with the given hashes were matched to.
+   *
+   * This runs in the background, and errors are only logged.
+   */
+  static record(
+    downloads: DebridDownload[],
+    match?: { id: string; hashes: string[] }
+  ): void {
+    const cache = store();
+    if (!cache) {
+      return;
+    }
+    const matchedId = match ? getItemId(match.id) : undefined;
+    const matchedHashes = new Set(
+      match?.hashes.map((hash) => hash.toLowerCase())
+    );
+    const releases = downloads.filter(
+      (download) =>
+        download.hash &&
+        (download.status === 'cached' || download.status === 'downloaded')
+    );
+    if (releases.length === 0) {
+      return;
+    }
+
+    (async () => {
+      const existing = await Promise.all(
+        releases.map((download) => cache.get(download.hash!.toLowerCase()))
+      );
+      const updates = releases.flatMap((download, index) => {
+        const key = download.hash!.toLowerCase();
+        const fingerprint = this.merge(
+          download,
+          existing[index],
+          matchedHashes.has(key) ? matchedId : undefined
+        );
+        return fingerprint ? [{ key, fingerprint }] : [];
+      });
+      await Promise.all(
+        updates.map(({ key, fingerprint }) =>
+          cache.set(key, fingerprint, Env.RELEASE_FINGERPRINT_TTL)
+        )
+      );
+      if (updates.length > 0) {
+        logger.debug(`Updated ${updates.length} release fingerprints`);
+      }
+    })().catch((error) => {
+      logger.error(`Failed to record release fingerprints`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  /**
+   * Merge what a debrid service reported about a release into its existing
+   * fingerprint, returning undefined when nothing changed.
+   */
+  private static merge(
+    download: DebridDownload,
+    existing: ReleaseFingerprint | undefined,
+    matchedId: string | undefined
+  ): ReleaseFingerprint | undefined {
+    const files = download.files
+      ?.filter((file) => isVideoFile(file))
+      .map(({ name, size, index }) => ({ name, size, index }));
+    const name = download.name ?? existing?.name;
+    const ids = matchedId
+      ? [
+          ...(existing?.ids ?? []).filter((id) => id !== matchedId),
+          matchedId,
+        ].slice(-MAX_IDS)
+      : existing?.ids;
+    const fingerprint: ReleaseFingerprint = {
+      name,
+      parsedFile:
+        name && name !== existing?.name
+          ? FileParser.parse(name)
+          : existing?.parsedFile,
+      size: download.size || existing?.size,
+      files: files?.length ? files : existing?.files,
+      ids,
+      updatedAt: Date.now(),
+    };
+    if (
+      existing &&
+      JSON.stringify({ ...existing, updatedAt: 0 }) ===
+        JSON.stringify({ ...fingerprint, updatedAt: 0 })
+    ) {
+      return undefined;
+    }
+    return fingerprint;
+  }
+
+  /**
+   * Complete streams with the fingerprints of their releases, filling in the
+   * size, filename and parsed fields that the addon didn't provide.
+   *
+   * Returns the fingerprints that were found, keyed by {@link ReleaseFingerprints.getKey}.
+   */
+  static async apply(
+    streams: ParsedStream[]
+  ): Promise<Map<string, ReleaseFingerprint>> {
+    const fingerprints = await this.get(
+      streams
+        .map((stream) => this.getKey(stream))
+        .filter((key) => key !== undefined)
+    );
+
+    let applied = 0;
+    for (const stream of streams) {
+      const key = this.getKey(stream);
+      const fingerprint = key ? fingerprints.get(key) : undefined;
+      if (fingerprint) {
+        this.applyToStream(stream, fingerprint);
+        applied++;
+      }
+    }
+    if (applied > 0) {
+      logger.debug(`Applied release fingerprints to ${applied} streams`);
+    }
+    return fingerprints;
+  }
+
+  /**
+   * Get the fingerprints of releases by their keys, leaving out the ones that
+   * aren't known.
+   */
+  static async get(keys: string[]): Promise<Map<string, ReleaseFingerprint>> {
+    const fingerprints = new Map<string, ReleaseFingerprint>();
+    const cache = store();
+    if (!cache) {
+      return fingerprints;
+    }
+    try {
+      await Promise.all(
+        [...new Set(keys)].map(async (key) => {
+          const fingerprint = await cache.get(key);
+          if (fingerprint) fingerprints.set(key, fingerprint);
+        })
+      );
+    } catch (error) {
+      logger.warn(`Failed to get release fingerprints`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return fingerprints;
+  }
+
+  private static applyToStream(
+    stream: ParsedStream,
+    fingerprint: ReleaseFingerprint
+  ) {
+    const files = fingerprint.files ?? [];
+    const file = stream.filename
+      ? files.find(
+          (file) => file.name && path.basename(file.name) === stream.filename
+        )
+      : files.length === 1
+        ? files[0]
+        : undefined;
+
+    if (!stream.filename && file?.name) {
+      stream.filename = path.basename(file.name);
+    }
+    if (!stream.size) {
+      stream.size =
+        file?.size ?? (files.length <= 1 ? fingerprint.size : undefined);
+    }
+    if (!stream.folderSize && files.length > 1) {
+      stream.folderSize = fingerprint.size;
+    }
+
+    const parsedFile = fingerprint.parsedFile;
+    if (!parsedFile) {
+      return;
+    }
+    if (!stream.parsedFile) {
+      stream.parsedFile = parsedFile;
+      return;
+    }
+    stream.parsedFile.title ??= parsedFile.title;
+    stream.parsedFile.year ??= parsedFile.year;
+    if (!stream.parsedFile.seasons?.length && parsedFile.seasons?.length) {
+      stream.parsedFile.seasons = parsedFile.seasons;
+    }
+    if (!stream.parsedFile.episodes?.length && parsedFile.episodes?.length) {
+      stream.parsedFile.episodes = parsedFile.episodes;
+    }
+  }
+
+  /**
+   * Check whether the release of a stream was matched to any of the given ids.
+   */
+  static isMatchedTo(
+    fingerprint: ReleaseFingerprint | undefined,
+    ids: string[]
+  ): boolean {
+    return !!fingerprint?.ids?.some((id) => ids.includes(id));
+  }
+
+  /**
+   * Get the ids that releases may have been matched to for a request.
+   */
+  static getRequestIds(
+    id: string,
+    mappings?: Partial<Record<IdType, unknown>>
+  ): string[] {
+    const ids = new Set<string>();
+    const itemId = getItemId(id);
+    if (itemId) ids.add(itemId);
+    for (const [type, value] of Object.entries(mappings ?? {})) {
+      if (typeof value !== 'string' && typeof value !== 'number') continue;
+      const mappedId = IdParser.generate(type as IdType, value);
+      if (mappedId) ids.add(mappedId);
+    }
+    return [...ids];
+  }
+}
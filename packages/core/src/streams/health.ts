@@ -0,0 +1,257 @@
+import { Addon } from '../db/schemas.js';
+import {
+  Cache,
+  Env,
+  createLogger,
+  getAddonName,
+  getSimpleTextHash,
+} from '../utils/index.js';
+
+const logger = createLogger('addon-health');
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface AddonHealthStatus {
+  name: string;
+  presetType: string;
+  state: CircuitState;
+  // exponentially weighted success rate of recent requests, from 0 to 100
+  score: number;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+  // when the circuit was opened, the cooldown is counted from here
+  openedAt?: number;
+  // when the half-open probe request was let through
+  probeStartedAt?: number;
+}
+
+const SCORE_WEIGHT = 0.2;
+const STATUS_TTL = 7 * 24 * 60 * 60; // 7 days
+// the most statuses read when summarising the health of every addon
+const MAX_LISTED_STATUSES = 1000;
+
+export interface AddonHealthSummary {
+  presetType: string;
+  addons: number;
+  open: number;
+  halfOpen: number;
+  averageScore: number;
+}
+
+/**
+ * Tracks the health of upstream addons (per manifest URL) and implements a
+ * circuit breaker so that addons which keep failing are skipped for a
+ * cooldown instead of delaying every request until they time out.
+ *
+ * After the configured number of consecutive errors or timeouts the circuit
+ * opens. Once the cooldown has passed a single request is let through as a
+ * probe (half-open), which closes the circuit again if it succeeds.
+ *
+ * The state is stored in Redis when available, and the database otherwise, so
+ * it is shared across instances. Updates are not atomic, so concurrent
+ * requests may occasionally lose a count, which is fine for this purpose.
+ */
+export class AddonHealth {
+  private static cache = Cache.getInstance<string, AddonHealthStatus>(
+    'addon-health',
+    Env.DEFAULT_MAX_CACHE_SIZE,
+    Env.REDIS_URI ? 'redis' : 'sql'
+  );
+
+  private static get enabled() {
+    return Env.ADDON_CIRCUIT_BREAKER_THRESHOLD > 0;
+  }
+
+  private static getId(addon: Addon) {
+    return getSimpleTextHash(addon.manifestUrl);
+  }
+
+  private static initialStatus(addon: Addon): AddonHealthStatus {
+    return {
+      name: getAddonName(addon),
+      presetType: addon.preset.type,
+      state: 'closed',
+      score: 100,
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0,
+    };
+  }
+
+  public static async getStatus(
+    addon: Addon
+  ): Promise<AddonHealthStatus | undefined> {
+    return this.cache.get(this.getId(addon));
+  }
+
+  /**
+   * Get the health scores of the given addons keyed by addon name. When
+   * several addons share a name, the lowest score is used.
+   */
+  public static async getScores(
+    addons: Addon[]
+  ): Promise<Record<string, number>> {
+    const scores: Record<string, number> = {};
+    const statuses = await Promise.all(
+      addons.map((addon) =>
+        this.getStatus(addon).catch((error) => {
+          logger.error(`Failed to get health of ${getAddonName(addon)}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return undefined;
+        })
+      )
+    );
+    addons.forEach((addon, index) => {
+      const score = statuses[index]?.score ?? 100;
+      scores[addon.name] = Math.min(scores[addon.name] ?? 100, score);
+    });
+    return scores;
+  }
+
+  /**
+   * Check whether a request may be made to the addon. When the cooldown of an
+   * open circuit has passed, this lets the request through as the probe.
+   */
+  public static async acquire(
+    addon: Addon
+  ): Promise<{ allowed: true } | { allowed: false; retryAt: number }> {
+    if (!this.enabled) {
+      return { allowed: true };
+    }
+    const id = this.getId(addon);
+    const status = await this.cache.get(id);
+    if (!status || status.state === 'closed') {
+      return { allowed: true };
+    }
+
+    const cooldown = Env.ADDON_CIRCUIT_BREAKER_COOLDOWN * 1000;
+    const now = Date.now();
+    if (status.state === 'half_open') {
+      // only one probe at a time, unless the previous one never reported back
+      if (status.probeStartedAt && now - status.probeStartedAt < cooldown) {
+        return { allowed: false, retryAt: status.probeStartedAt + cooldown };
+      }
+    } else if (status.openedAt && now - status.openedAt < cooldown) {
+      return { allowed: false, retryAt: status.openedAt + cooldown };
+    }
+
+    logger.info(
+      `Cooldown for ${getAddonName(addon)} has passed, letting a probe request through`
+    );
+    await this.cache.set(
+      id,
+      { ...status, state: 'half_open', probeStartedAt: now },
+      STATUS_TTL
+    );
+    return { allowed: true };
+  }
+
+  public static async recordSuccess(addon: Addon) {
+    const id = this.getId(addon);
+    const status = (await this.cache.get(id)) ?? this.initialStatus(addon);
+    if (status.state !== 'closed') {
+      logger.info(`${getAddonName(addon)} has recovered, closing its circuit`);
+    }
+    await this.save(id, {
+      ...status,
+      name: getAddonName(addon),
+      state: 'closed',
+      score: this.updateScore(status.score, true),
+      consecutiveFailures: 0,
+      totalRequests: status.totalRequests + 1,
+      lastSuccessAt: Date.now(),
+      openedAt: undefined,
+      probeStartedAt: undefined,
+    });
+  }
+
+  public static async recordFailure(addon: Addon, error: string) {
+    const id = this.getId(addon);
+    const status = (await this.cache.get(id)) ?? this.initialStatus(addon);
+    const now = Date.now();
+    const consecutiveFailures = status.consecutiveFailures + 1;
+    // a failed probe reopens the circuit straight away
+    const open =
+      this.enabled &&
+      (status.state === 'half_open' ||
+        consecutiveFailures >= Env.ADDON_CIRCUIT_BREAKER_THRESHOLD);
+    if (open && status.state === 'closed') {
+      logger.warn(
+        `${getAddonName(addon)} failed ${consecutiveFailures} times in a row, skipping it for ${Env.ADDON_CIRCUIT_BREAKER_COOLDOWN}s`
+      );
+    }
+    await this.save(id, {
+      ...status,
+      name: getAddonName(addon),
+      state: open ? 'open' : status.state,
+      score: this.updateScore(status.score, false),
+      consecutiveFailures,
+      totalRequests: status.totalRequests + 1,
+      totalFailures: status.totalFailures + 1,
+      lastError: sanitiseError(error),
+      lastFailureAt: now,
+      openedAt: open ? now : status.openedAt,
+      probeStartedAt: undefined,
+    });
+  }
+
+  /**
+   * Summarise the health of the addons tracked recently by preset type, for
+   * the status endpoint. Names and errors are left out as they belong to the
+   * users of the addons.
+   */
+  public static async getSummary(): Promise<AddonHealthSummary[]> {
+    // the statuses are listed from the keys of the cache, rather than from an
+    // index of their own which every request would have to update
+    const ids = (await this.cache.keys()).slice(0, MAX_LISTED_STATUSES);
+    const statuses = await Promise.all(ids.map((id) => this.cache.get(id)));
+    const summaries = new Map<string, AddonHealthSummary>();
+    for (const status of statuses) {
+      if (!status) continue;
+      const summary = summaries.get(status.presetType) ?? {
+        presetType: status.presetType,
+        addons: 0,
+        open: 0,
+        halfOpen: 0,
+        averageScore: 0,
+      };
+      summary.averageScore =
+        (summary.averageScore * summary.addons + status.score) /
+        (summary.addons + 1);
+      summary.addons++;
+      if (status.state === 'open') summary.open++;
+      if (status.state === 'half_open') summary.halfOpen++;
+      summaries.set(status.presetType, summary);
+    }
+    return [...summaries.values()].map((summary) => ({
+      ...summary,
+      averageScore: Math.round(summary.averageScore * 10) / 10,
+    }));
+  }
+
+  private static updateScore(score: number, success: boolean) {
+    const updated =
+      score * (1 - SCORE_WEIGHT) + (success ? 100 : 0) * SCORE_WEIGHT;
+    return Math.round(updated * 10) / 10;
+  }
+
+  private static async save(id: string, status: AddonHealthStatus) {
+    await this.cache.set(id, status, STATUS_TTL);
+  }
+}
+
+// errors can contain the manifest URL, which may include credentials
+function sanitiseError(error: string): string {
+  return error.replace(/https?:\/\/[^\s/]+[^\s]*/g, (url) => {
+    try {
+      return new URL(url).origin;
+    } catch {
+      return '<url>';
+    }
+  });
+}
@@ -5,6 +5,27 @@ import StreamDeduplicator from './deduplicator.js';
 import StreamPrecomputer from './precomputer.js';
 import StreamUtils from './utils.js';
 import { StreamContext, ExtendedMetadata } from './context.js';
+import StreamExplainer from './explainer.js';
+import StreamCacheVerifier from './verifier.js';
+import NzbHealthChecker from './nzb-checker.js';
+import { AddonHealth } from './health.js';
+import { ReleaseFingerprints } from './fingerprints.js';
+import { DownloadBudget } from './download-budget.js';
+import { WatchHistory } from './watch-history.js';
+import type {
+  PipelineStage,
+  StreamExplanation,
+  StreamTrace,
+  StreamTraceEvent,
+} from './explainer.js';
+import type { CacheClaimAccuracy } from './verifier.js';
+import type {
+  AddonHealthStatus,
+  AddonHealthSummary,
+  CircuitState,
+} from './health.js';
+import type { ReleaseFingerprint } from './fingerprints.js';
+import type { WatchEntry } from './watch-history.js';
 
 export {
   StreamFetcher,
@@ -14,6 +35,25 @@ export {
   StreamPrecomputer,
   StreamUtils,
   StreamContext,
+  StreamExplainer,
+  StreamCacheVerifier,
+  NzbHealthChecker,
+  AddonHealth,
+  ReleaseFingerprints,
+  DownloadBudget,
+  WatchHistory,
 };
 
-export type { ExtendedMetadata };
+export type {
+  AddonHealthStatus,
+  AddonHealthSummary,
+  CacheClaimAccuracy,
+  CircuitState,
+  ExtendedMetadata,
+  PipelineStage,
+  ReleaseFingerprint,
+  StreamExplanation,
+  StreamTrace,
+  StreamTraceEvent,
+  WatchEntry,
+};
@@ -1,6 +1,7 @@
 import { ParsedStream, UserData } from '../db/schemas.js';
 import { createLogger, getTimeTakenSincePoint } from '../utils/index.js';
 import { shouldPassthroughStage } from './utils.js';
+import { StreamContext } from './context.js';
 
 const logger = createLogger('limiter');
 
@@ -11,8 +12,12 @@ class StreamLimiter {
     this.userData = userData;
   }
 
-  public async limit(streams: ParsedStream[]): Promise<ParsedStream[]> {
+  public async limit(
+    streams: ParsedStream[],
+    context?: StreamContext
+  ): Promise<ParsedStream[]> {
     if (!this.userData.resultLimits) {
+      context?.explainer?.recordPassed(streams, 'limiter');
       return streams;
     }
 
@@ -42,8 +47,8 @@ class StreamLimiter {
       global: 0,
     };
 
-    // Keep track of which indexes to remove
-    const indexesToRemove = new Set<number>();
+    // Keep track of which indexes to remove, and the limit that removed them
+    const indexesToRemove = new Map<number, string>();
 
     // Process each stream and check against limits
     streams.forEach((stream, index) => {
@@ -52,7 +57,7 @@ class StreamLimiter {
 
       // Check global limit first
       if (global && counts.global >= global) {
-        indexesToRemove.add(index);
+        indexesToRemove.set(index, 'global');
         return;
       }
       // if stream is passthrough, skip limiting for this stream
@@ -62,7 +67,7 @@ class StreamLimiter {
       if (indexer && stream.indexer) {
         const count = counts.indexer.get(stream.indexer) || 0;
         if (count >= indexer) {
-          indexesToRemove.add(index);
+          indexesToRemove.set(index, 'indexer');
           return;
         }
         counts.indexer.set(stream.indexer, count + 1);
@@ -73,7 +78,7 @@ class StreamLimiter {
         const count =
           counts.releaseGroup.get(stream.parsedFile?.releaseGroup || '') || 0;
         if (count >= releaseGroup) {
-          indexesToRemove.add(index);
+          indexesToRemove.set(index, 'releaseGroup');
           return;
         }
         counts.releaseGroup.set(stream.parsedFile.releaseGroup, count + 1);
@@ -85,7 +90,7 @@ class StreamLimiter {
           counts.resolution.get(stream.parsedFile?.resolution || 'Unknown') ||
           0;
         if (count >= resolution) {
-          indexesToRemove.add(index);
+          indexesToRemove.set(index, 'resolution');
           return;
         }
         counts.resolution.set(
@@ -99,7 +104,7 @@ class StreamLimiter {
         const count =
           counts.quality.get(stream.parsedFile?.quality || 'Unknown') || 0;
         if (count >= quality) {
-          indexesToRemove.add(index);
+          indexesToRemove.set(index, 'quality');
           return;
         }
         counts.quality.set(stream.parsedFile?.quality || 'Unknown', count + 1);
@@ -109,7 +114,7 @@ class StreamLimiter {
       if (addon) {
         const count = counts.addon.get(stream.addon.preset.id) || 0;
         if (count >= addon) {
-          indexesToRemove.add(index);
+          indexesToRemove.set(index, 'addon');
           return;
         }
         counts.addon.set(stream.addon.preset.id, count + 1);
@@ -119,7 +124,7 @@ class StreamLimiter {
       if (streamType && stream.type) {
         const count = counts.streamType.get(stream.type) || 0;
         if (count >= streamType) {
-          indexesToRemove.add(index);
+          indexesToRemove.set(index, 'streamType');
           return;
         }
         counts.streamType.set(stream.type, count + 1);
@@ -129,7 +134,7 @@ class StreamLimiter {
       if (service && stream.service?.id) {
         const count = counts.service.get(stream.service.id) || 0;
         if (count >= service) {
-          indexesToRemove.add(index);
+          indexesToRemove.set(index, 'service');
           return;
         }
         counts.service.set(stream.service.id, count + 1);
@@ -144,6 +149,18 @@ class StreamLimiter {
       (_, index) => !indexesToRemove.has(index)
     );
 
+    if (context?.explainer) {
+      for (const [index, limit] of indexesToRemove) {
+        context.explainer.recordRemoved(
+          streams[index],
+          'limiter',
+          limit,
+          `Exceeded ${limit} limit`
+        );
+      }
+      context.explainer.recordPassed(limitedStreams, 'limiter');
+    }
+
     // Log summary of removed streams
     const removedCount = streams.length - limitedStreams.length;
     if (removedCount > 0) {
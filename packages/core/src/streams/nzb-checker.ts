@@ -0,0 +1,306 @@
+import pLimit, { LimitFunction } from 'p-limit';
+import {
+  NNTPServers,
+  NNTPServersSchema,
+  ParsedStream,
+  UserData,
+} from '../db/schemas.js';
+import {
+  Cache,
+  Env,
+  NNTPClient,
+  constants,
+  createLogger,
+  getSimpleTextHash,
+  getTimeTakenSincePoint,
+  makeRequest,
+  maskSensitiveInfo,
+} from '../utils/index.js';
+import { BuiltinAddonPreset } from '../presets/builtin.js';
+import { StreamContext } from './context.js';
+
+const logger = createLogger('nzb-checker');
+
+const DEFAULT_SAMPLE_PERCENTAGE = 2;
+// check at least this many articles, so small NZBs still get a useful sample
+const MIN_SAMPLES = 10;
+const MAX_SAMPLES = 200;
+// connections opened per server, shared by every NZB being checked
+const MAX_CONNECTIONS = 4;
+const RESULT_TTL = 6 * 60 * 60; // 6 hours
+
+// one connection limit per server account, so checks running at the same time
+// never open more connections than the user allows
+const connectionLimits = new Map<string, LimitFunction>();
+
+interface NzbHealth {
+  checked: number;
+  found: number;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Get the message ids of every segment in an NZB.
+ */
+export function getNzbMessageIds(nzb: string): string[] {
+  const ids: string[] = [];
+  for (const match of nzb.matchAll(/<segment\b[^>]*>([^<]+)<\/segment>/g)) {
+    ids.push(decodeXmlEntities(match[1].trim()));
+  }
+  return ids;
+}
+
+// pick evenly spaced segments so the whole file is covered
+function sample(ids: string[], percentage: number): string[] {
+  const count = Math.min(
+    ids.length,
+    Math.max(
+      MIN_SAMPLES,
+      Math.min(MAX_SAMPLES, Math.ceil((ids.length * percentage) / 100))
+    )
+  );
+  const step = ids.length / count;
+  return Array.from({ length: count }, (_, i) => ids[Math.floor(i * step)]);
+}
+
+/**
+ * Checks whether the articles of NZB results still exist on the user's usenet
+ * servers before the NZB is sent anywhere. A sample of the segments of each
+ * NZB is checked with STAT, and the percentage found is stored on the stream
+ * so the filterer and SEL can remove incomplete releases.
+ *
+ * The servers are taken from the user's Stremio NNTP service. An article is
+ * counted as found if any of the servers has it.
+ *
+ * Only streams that passed the filterer are checked, as each NZB is
+ * downloaded from its indexer, and NZBs that are not checked within
+ * NZB_HEALTH_CHECK_MAX_TIME are left unscored.
+ */
+class NzbHealthChecker {
+  private static resultCache = Cache.getInstance<string, NzbHealth>(
+    'nzb-health',
+    10000
+  );
+
+  private userData: UserData;
+
+  constructor(userData: UserData) {
+    this.userData = userData;
+  }
+
+  private getServers(): NNTPServers | undefined {
+    const service = this.userData.services?.find(
+      (service) =>
+        service.id === constants.STREMIO_NNTP_SERVICE && service.enabled
+    );
+    if (!service) {
+      return undefined;
+    }
+    try {
+      // a base64 encoded JSON array of the servers
+      const credential = BuiltinAddonPreset.getDebridServiceCredential(
+        constants.STREMIO_NNTP_SERVICE,
+        this.userData
+      );
+      return NNTPServersSchema.parse(
+        JSON.parse(Buffer.from(credential, 'base64').toString('utf-8'))
+      );
+    } catch (error) {
+      logger.warn(`Failed to parse NNTP servers`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  public async check(streams: ParsedStream[], context: StreamContext) {
+    if (!this.userData.nzbHealthCheck?.enabled) {
+      return;
+    }
+    const servers = this.getServers();
+    if (!servers?.length) {
+      logger.debug(`Skipping NZB health check, no NNTP servers are configured`);
+      return;
+    }
+    const start = Date.now();
+
+    const streamsByNzb = new Map<string, ParsedStream[]>();
+    for (const stream of streams) {
+      if (!stream.nzbUrl) continue;
+      const nzbStreams = streamsByNzb.get(stream.nzbUrl) ?? [];
+      nzbStreams.push(stream);
+      streamsByNzb.set(stream.nzbUrl, nzbStreams);
+    }
+    const nzbUrls = Array.from(streamsByNzb.keys()).slice(
+      0,
+      Env.NZB_HEALTH_CHECK_MAX_NZBS
+    );
+    if (nzbUrls.length === 0) {
+      return;
+    }
+
+    const deadline = start + Env.NZB_HEALTH_CHECK_MAX_TIME;
+    const limit = pLimit(4);
+    let checked = 0;
+    const checks = Promise.all(
+      nzbUrls.map((nzbUrl) =>
+        limit(async () => {
+          if (Date.now() >= deadline) return;
+          try {
+            const health = await this.getHealth(nzbUrl, servers);
+            // late results are only cached, the streams have moved on
+            if (!health || health.checked === 0 || Date.now() >= deadline) {
+              return;
+            }
+            checked++;
+            const completeness =
+              Math.round((health.found / health.checked) * 1000) / 10;
+            for (const stream of streamsByNzb.get(nzbUrl)!) {
+              stream.nzbCompleteness = completeness;
+            }
+          } catch (error) {
+            logger.warn(
+              `Failed to check health of NZB ${maskSensitiveInfo(nzbUrl)}`,
+              {
+                error: error instanceof Error ? error.message : String(error),
+              }
+            );
+          }
+        })
+      )
+    );
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      checks,
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, Env.NZB_HEALTH_CHECK_MAX_TIME);
+      }),
+    ]);
+    clearTimeout(timer);
+    logger.info(
+      `Checked the health of ${checked}/${nzbUrls.length} NZBs for ${context.id} in ${getTimeTakenSincePoint(start)}`
+    );
+  }
+
+  private async getHealth(
+    nzbUrl: string,
+    servers: NNTPServers
+  ): Promise<NzbHealth | undefined> {
+    const percentage =
+      this.userData.nzbHealthCheck?.samplePercentage ??
+      DEFAULT_SAMPLE_PERCENTAGE;
+    const cacheKey = getSimpleTextHash(
+      `${nzbUrl}:${percentage}:${servers.map((s) => s.host).join(',')}`
+    );
+    const cached = await NzbHealthChecker.resultCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await makeRequest(nzbUrl, {
+      method: 'GET',
+      timeout: Env.NZB_HEALTH_CHECK_TIMEOUT,
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status}: ${response.statusText}`);
+    }
+    const ids = getNzbMessageIds(await response.text());
+    if (ids.length === 0) {
+      return undefined;
+    }
+
+    const health = await checkArticles(sample(ids, percentage), servers);
+    await NzbHealthChecker.resultCache.set(cacheKey, health, RESULT_TTL);
+    return health;
+  }
+}
+
+/**
+ * Check the given articles against each server in turn, only checking the
+ * articles that were not found on the previous servers.
+ */
+export async function checkArticles(
+  messageIds: string[],
+  servers: NNTPServers
+): Promise<NzbHealth> {
+  let missing = messageIds;
+  let lastError: unknown;
+  let checkedAnyServer = false;
+  for (const server of servers) {
+    if (missing.length === 0) break;
+    const maxConnections = Math.max(
+      1,
+      Math.min(server.connections, MAX_CONNECTIONS)
+    );
+    const limitKey = getSimpleTextHash(
+      `${server.host}:${server.port}:${server.username ?? ''}`
+    );
+    const connectionLimit =
+      connectionLimits.get(limitKey) ?? pLimit(maxConnections);
+    connectionLimit.concurrency = maxConnections;
+    connectionLimits.set(limitKey, connectionLimit);
+    const queue = [...missing];
+    const notFound: string[] = [];
+    try {
+      await Promise.all(
+        Array.from({ length: Math.min(maxConnections, missing.length) }, () =>
+          connectionLimit(async () => {
+            // the other connections may have finished the queue while this one waited
+            if (queue.length === 0) return;
+            const client = new NNTPClient({
+              host: server.host,
+              port: server.port,
+              ssl: server.ssl,
+              username: server.username || undefined,
+              password: server.password || undefined,
+              timeout: Env.NZB_HEALTH_CHECK_TIMEOUT,
+            });
+            try {
+              await client.connect();
+              let id: string | undefined;
+              while ((id = queue.shift()) !== undefined) {
+                if (!(await client.stat(id))) {
+                  notFound.push(id);
+                }
+              }
+            } finally {
+              await client.close();
+            }
+          })
+        )
+      );
+      checkedAnyServer = true;
+      missing = notFound;
+    } catch (error) {
+      // articles that were not checked stay missing for the next server
+      lastError = error;
+      logger.debug(`Failed to check articles on ${server.host}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      if (
+        connectionLimit.activeCount === 0 &&
+        connectionLimit.pendingCount === 0
+      ) {
+        connectionLimits.delete(limitKey);
+      }
+    }
+  }
+  if (!checkedAnyServer) {
+    throw lastError;
+  }
+  return {
+    checked: messageIds.length,
+    found: messageIds.length - missing.length,
+  };
+}
+
+export default NzbHealthChecker;
@@ -55,6 +55,24 @@ class StreamPrecomputer {
     const start = Date.now();
     await this.precomputePreferredMatches(streams, context);
     await this.precomputeRankedStreamExpressions(streams, context);
+    context.explainer?.recordPassed(streams, 'precomputer', (stream) => {
+      const matches = [
+        stream.regexMatched
+          ? `regex: ${stream.regexMatched.name ?? stream.regexMatched.index}`
+          : undefined,
+        stream.keywordMatched ? 'keyword' : undefined,
+        stream.streamExpressionMatched !== undefined
+          ? `stream expression: ${stream.streamExpressionMatched}`
+          : undefined,
+        stream.streamExpressionScore !== undefined
+          ? `score: ${stream.streamExpressionScore}`
+          : undefined,
+        stream.seadex?.isSeadex
+          ? `seadex${stream.seadex.isBest ? ' (best)' : ''}`
+          : undefined,
+      ].filter(Boolean);
+      return matches.length ? `Matched ${matches.join(', ')}` : undefined;
+    });
     logger.info(
       `Precomputed preferred filters in ${getTimeTakenSincePoint(start)}`
     );
@@ -75,7 +93,10 @@ class StreamPrecomputer {
       return;
     }
 
-    const selector = new StreamSelector(context.toExpressionContext());
+    const selector = new StreamSelector(
+      context.toExpressionContext(),
+      this.userData.selMacros
+    );
 
     // Initialize all streams with a score of 0
     const streamScores = new Map<string, number | null>();
@@ -304,7 +325,10 @@ class StreamPrecomputer {
     }
 
     if (this.userData.preferredStreamExpressions?.length) {
-      const selector = new StreamSelector(context.toExpressionContext());
+      const selector = new StreamSelector(
+        context.toExpressionContext(),
+        this.userData.selMacros
+      );
       const streamToConditionIndex = new Map<string, number>();
 
       // Go through each preferred filter condition, from highest to lowest priority.
@@ -1,6 +1,6 @@
 import { ParsedStream, UserData } from '../db/schemas.js';
 import { constants, createLogger, Env } from '../utils/index.js';
-import { createProxy } from '../proxy/index.js';
+import { createProxy, getCachedHlsIndex, ProxyStream } from '../proxy/index.js';
 
 const logger = createLogger('proxy');
 
@@ -67,6 +67,34 @@ class Proxifier {
     return false;
   }
 
+  /**
+   * Serve the stream as HLS once its cached index shows that it can be, and
+   * otherwise ask the proxy to index it when it is played.
+   */
+  private async getHlsOptions(
+    stream: ParsedStream,
+    url: string
+  ): Promise<Pick<ProxyStream, 'type' | 'index'>> {
+    const proxy = this.userData.proxy;
+    if (proxy?.id !== constants.BUILTIN_SERVICE || !proxy.hls) {
+      return {};
+    }
+    // only fragmented MP4 files and Matroska files with cues can be split
+    // into HLS segments
+    const container = stream.parsedFile?.container?.toLowerCase();
+    if (
+      !['mp4', 'mkv'].includes(container ?? '') &&
+      !stream.filename?.toLowerCase().match(/\.(mp4|m4v|mkv)$/)
+    ) {
+      return {};
+    }
+    const entry = await getCachedHlsIndex(url);
+    if (!entry) {
+      return { index: true };
+    }
+    return entry.index ? { type: 'hls' } : {};
+  }
+
   public async proxify(
     streams: ParsedStream[]
   ): Promise<{ streams: ParsedStream[]; error?: string }> {
@@ -100,39 +128,42 @@ class Proxifier {
 
     const proxiedUrls = streamsToProxy.length
       ? await proxy.generateUrls(
-          streamsToProxy.map(({ stream }) => {
-            let url: string = stream.url!;
-            let parsedUrl: URL | undefined;
-
-            try {
-              parsedUrl = new URL(url);
-            } catch {}
-
-            const headers = {
-              response: normaliseHeaders(stream.responseHeaders),
-              request: normaliseHeaders(stream.requestHeaders),
-            };
-            if (parsedUrl && parsedUrl.username && parsedUrl.password) {
-              headers.request = {
-                ...headers.request,
-                authorization:
-                  'Basic ' +
-                  Buffer.from(
-                    `${decodeURIComponent(
-                      parsedUrl.username
-                    )}:${decodeURIComponent(parsedUrl.password)}`
-                  ).toString('base64'),
+          await Promise.all(
+            streamsToProxy.map(async ({ stream }) => {
+              let url: string = stream.url!;
+              let parsedUrl: URL | undefined;
+
+              try {
+                parsedUrl = new URL(url);
+              } catch {}
+
+              const headers = {
+                response: normaliseHeaders(stream.responseHeaders),
+                request: normaliseHeaders(stream.requestHeaders),
+              };
+              if (parsedUrl && parsedUrl.username && parsedUrl.password) {
+                headers.request = {
+                  ...headers.request,
+                  authorization:
+                    'Basic ' +
+                    Buffer.from(
+                      `${decodeURIComponent(
+                        parsedUrl.username
+                      )}:${decodeURIComponent(parsedUrl.password)}`
+                    ).toString('base64'),
+                };
+                parsedUrl.username = '';
+                parsedUrl.password = '';
+                url = parsedUrl.toString();
+              }
+              return {
+                url,
+                filename: stream.filename,
+                headers,
+                ...(await this.getHlsOptions(stream, url)),
               };
-              parsedUrl.username = '';
-              parsedUrl.password = '';
-              url = parsedUrl.toString();
-            }
-            return {
-              url,
-              filename: stream.filename,
-              headers,
-            };
-          })
+            })
+          )
         )
       : [];
 
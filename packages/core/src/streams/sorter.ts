@@ -5,6 +5,8 @@ import {
   constants,
 } from '../utils/index.js';
 import { StreamContext } from './index.js';
+import { ReleaseFingerprints } from './fingerprints.js';
+import { SortKeyEvaluator } from '../parser/streamExpression.js';
 
 const logger = createLogger('sorter');
 
@@ -67,6 +69,9 @@ class StreamSorter {
       }
     }
 
+    // read before sorting, as sort keys are computed synchronously
+    await context.getLastWatched();
+
     let sortedStreams = [];
 
     if (
@@ -85,10 +90,16 @@ class StreamSorter {
         (stream) => stream.service?.cached === false
       );
 
+      await this.computeCustomSortKeys(
+        streams,
+        [...cachedSortCriteria, ...uncachedSortCriteria],
+        context
+      );
+
       // sort the 2 lists separately, and put them after the other, depending on the direction of cached
       const cachedSorted = cachedStreams.slice().sort((a, b) => {
-        const aKey = this.dynamicSortKey(a, cachedSortCriteria, type);
-        const bKey = this.dynamicSortKey(b, cachedSortCriteria, type);
+        const aKey = this.dynamicSortKey(a, cachedSortCriteria, type, context);
+        const bKey = this.dynamicSortKey(b, cachedSortCriteria, type, context);
         for (let i = 0; i < aKey.length; i++) {
           if (aKey[i] < bKey[i]) return -1;
           if (aKey[i] > bKey[i]) return 1;
@@ -97,8 +108,18 @@ class StreamSorter {
       });
 
       const uncachedSorted = uncachedStreams.slice().sort((a, b) => {
-        const aKey = this.dynamicSortKey(a, uncachedSortCriteria, type);
-        const bKey = this.dynamicSortKey(b, uncachedSortCriteria, type);
+        const aKey = this.dynamicSortKey(
+          a,
+          uncachedSortCriteria,
+          type,
+          context
+        );
+        const bKey = this.dynamicSortKey(
+          b,
+          uncachedSortCriteria,
+          type,
+          context
+        );
         for (let i = 0; i < aKey.length; i++) {
           if (aKey[i] < bKey[i]) return -1;
           if (aKey[i] > bKey[i]) return 1;
@@ -106,6 +127,9 @@ class StreamSorter {
         return 0;
       });
 
+      this.explainSortKeys(cachedSorted, cachedSortCriteria, type, context);
+      this.explainSortKeys(uncachedSorted, uncachedSortCriteria, type, context);
+
       if (primarySortCriteria[0].direction === 'desc') {
         sortedStreams = [...cachedSorted, ...uncachedSorted];
       } else {
@@ -115,9 +139,10 @@ class StreamSorter {
       logger.debug(
         `using sort criteria: ${JSON.stringify(primarySortCriteria)}`
       );
+      await this.computeCustomSortKeys(streams, primarySortCriteria, context);
       sortedStreams = streams.slice().sort((a, b) => {
-        const aKey = this.dynamicSortKey(a, primarySortCriteria, type);
-        const bKey = this.dynamicSortKey(b, primarySortCriteria, type);
+        const aKey = this.dynamicSortKey(a, primarySortCriteria, type, context);
+        const bKey = this.dynamicSortKey(b, primarySortCriteria, type, context);
 
         for (let i = 0; i < aKey.length; i++) {
           if (aKey[i] < bKey[i]) return -1;
@@ -125,8 +150,16 @@ class StreamSorter {
         }
         return 0;
       });
+      this.explainSortKeys(sortedStreams, primarySortCriteria, type, context);
     }
 
+    context.explainer?.recordPassed(
+      forcedToTopStreams,
+      'sorter',
+      'Forced to top'
+    );
+    context.explainer?.recordPassed(sortedStreams, 'sorter');
+
     logger.info(
       `Sorted ${sortedStreams.length}${
         forcedToTopStreams.length > 0
@@ -137,10 +170,99 @@ class StreamSorter {
     return [...forcedToTopStreams, ...sortedStreams];
   }
 
+  /**
+   * Evaluate the expressions of any custom sort criteria for each stream up
+   * front, as expression evaluation is async and sort comparators are not.
+   * Values are kept on the context so each stream is only evaluated once per
+   * request for a given expression.
+   */
+  private async computeCustomSortKeys(
+    streams: ParsedStream[],
+    sortCriteria: SortCriterion[],
+    context: StreamContext
+  ) {
+    const expressions = new Set(
+      sortCriteria
+        .filter((criterion) => criterion.key === 'custom')
+        .map((criterion) => criterion.expression)
+        .filter((expression): expression is string => !!expression)
+    );
+    if (expressions.size === 0) {
+      return;
+    }
+
+    const start = Date.now();
+    const evaluator = new SortKeyEvaluator(
+      streams,
+      context.toExpressionContext(),
+      this.userData.selMacros
+    );
+    for (const expression of expressions) {
+      let keys = context.customSortKeys.get(expression);
+      if (!keys) {
+        keys = new Map();
+        context.customSortKeys.set(expression, keys);
+      }
+      let failures = 0;
+      for (const stream of streams) {
+        if (keys.has(stream.id)) continue;
+        try {
+          keys.set(stream.id, await evaluator.evaluate(stream, expression));
+        } catch (error) {
+          // streams the expression fails for are treated as having a value of 0
+          keys.set(stream.id, 0);
+          if (failures++ === 0) {
+            logger.warn(
+              `Failed to evaluate custom sort expression "${expression}": ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            );
+          }
+        }
+      }
+      if (failures > 0) {
+        logger.warn(
+          `Custom sort expression "${expression}" failed for ${failures} of ${streams.length} streams`
+        );
+      }
+    }
+    logger.debug(
+      `Computed ${expressions.size} custom sort keys in ${getTimeTakenSincePoint(start)}`
+    );
+  }
+
+  private explainSortKeys(
+    streams: ParsedStream[],
+    sortCriteria: SortCriterion[],
+    type: string,
+    context: StreamContext
+  ) {
+    const explainer = context.explainer;
+    if (!explainer) {
+      return;
+    }
+    for (const stream of streams) {
+      const keys = this.dynamicSortKey(stream, sortCriteria, type, context);
+      explainer.recordSortKeys(
+        stream,
+        sortCriteria.map((criterion, index) => ({
+          key: criterion.key,
+          direction: criterion.direction,
+          // Infinity would otherwise be serialised as null
+          value:
+            typeof keys[index] === 'number' && !Number.isFinite(keys[index])
+              ? String(keys[index])
+              : keys[index],
+        }))
+      );
+    }
+  }
+
   private dynamicSortKey(
     stream: ParsedStream,
     sortCriteria: SortCriterion[],
-    type: string
+    type: string,
+    context: StreamContext
   ): any[] {
     function keyValue(sortCriterion: SortCriterion, userData: UserData) {
       const { key, direction } = sortCriterion;
@@ -307,6 +429,24 @@ class StreamSorter {
           );
           return multiplier * -(index === -1 ? Infinity : index);
         }
+        case 'lastWatched': {
+          // Same release (e.g. a season pack) (2) > Same release group (1) > Other (0)
+          const lastWatched = context.lastWatched;
+          if (!lastWatched) {
+            return 0;
+          }
+          const fingerprint = ReleaseFingerprints.getKey(stream);
+          if (fingerprint && fingerprint === lastWatched.fingerprint) {
+            return multiplier * 2;
+          }
+          if (
+            lastWatched.releaseGroup &&
+            stream.parsedFile?.releaseGroup === lastWatched.releaseGroup
+          ) {
+            return multiplier * 1;
+          }
+          return 0;
+        }
         case 'seadex': {
           // SeaDex sorting: Best (2) > On SeaDex (1) > Not on SeaDex (0)
           if (!stream.seadex) {
@@ -320,6 +460,14 @@ class StreamSorter {
           }
           return multiplier * 0;
         }
+        case 'custom': {
+          const value = sortCriterion.expression
+            ? context.customSortKeys
+                .get(sortCriterion.expression)
+                ?.get(stream.id)
+            : undefined;
+          return multiplier * (value ?? 0);
+        }
         default:
           return 0;
       }
@@ -53,6 +53,24 @@ class StreamUtils {
     return copy;
   }
 
+  /**
+   * Create a stream that sends the NZB of a stream to the user's download
+   * client when played.
+   */
+  public static createDownloadClientStream(
+    stream: ParsedStream,
+    sendUrl: string,
+    clientName: string
+  ): ParsedStream {
+    const copy = StreamUtils.createDownloadableStream(stream);
+    copy.url = sendUrl;
+    copy.externalUrl = undefined;
+    copy.message = `Send the stream above to ${clientName}`;
+    copy.id = `${stream.id}-download-client`;
+    copy.type = 'http';
+    return copy;
+  }
+
   // ensure we have a unique list of streams after merging
   public static mergeStreams(streams: ParsedStream[]): ParsedStream[] {
     const mergedStreams = new Map<string, ParsedStream>();
@@ -0,0 +1,272 @@
+import { ParsedStream, UserData } from '../db/schemas.js';
+import {
+  Cache,
+  constants,
+  createLogger,
+  getAddonName,
+  getTimeTakenSincePoint,
+} from '../utils/index.js';
+import { getDebridService } from '../debrid/index.js';
+import { BuiltinAddonPreset } from '../presets/builtin.js';
+import { PresetManager } from '../presets/presetManager.js';
+import { StreamContext } from './context.js';
+import { ReleaseFingerprints } from './fingerprints.js';
+
+const logger = createLogger('verifier');
+
+// services that are only used for usenet have no torrent availability check
+const UNVERIFIABLE_SERVICES: string[] = [
+  constants.NZBDAV_SERVICE,
+  constants.ALTMOUNT_SERVICE,
+  constants.STREMIO_NNTP_SERVICE,
+  constants.EASYNEWS_SERVICE,
+];
+
+export interface CacheClaimAccuracy {
+  checked: number;
+  // claimed cached but the service reported it as uncached
+  falselyCached: number;
+  // claimed uncached but the service reported it as cached
+  falselyUncached: number;
+}
+
+interface AddonClaimAccuracy extends CacheClaimAccuracy {
+  presetType: string;
+}
+
+/**
+ * Verifies the cached flag that upstream addons parsed from their own stream
+ * names by checking the info hashes against the user's debrid services.
+ *
+ * Only streams from non built-in addons are checked, built-in addons already
+ * check availability with the same services.
+ */
+class StreamCacheVerifier {
+  private static accuracyCache = Cache.getInstance<string, CacheClaimAccuracy>(
+    'verifier:accuracy',
+    1000,
+    'sql'
+  );
+  private static readonly ACCURACY_TTL = 30 * 24 * 60 * 60; // 30 days
+
+  private userData: UserData;
+  // keyed by addon name
+  private readonly accuracy = new Map<string, AddonClaimAccuracy>();
+
+  constructor(userData: UserData) {
+    this.userData = userData;
+  }
+
+  private isEligible(stream: ParsedStream): boolean {
+    const options = this.userData.verifyCacheStatus;
+    if (
+      !stream.service ||
+      !stream.torrent?.infoHash ||
+      UNVERIFIABLE_SERVICES.includes(stream.service.id)
+    ) {
+      return false;
+    }
+    if (
+      options?.addons?.length &&
+      !options.addons.includes(stream.addon.preset.id)
+    ) {
+      return false;
+    }
+    try {
+      return !PresetManager.fromId(stream.addon.preset.type).METADATA.BUILTIN;
+    } catch {
+      return true;
+    }
+  }
+
+  public async verify(streams: ParsedStream[], context: StreamContext) {
+    if (!this.userData.verifyCacheStatus?.enabled) {
+      return;
+    }
+    const start = Date.now();
+    const counts = new Map<string, AddonClaimAccuracy>();
+
+    const streamsByService = new Map<string, ParsedStream[]>();
+    let eligible = 0;
+    for (const stream of streams) {
+      if (!this.isEligible(stream)) continue;
+      eligible++;
+      const serviceId = stream.service!.id;
+      const serviceStreams = streamsByService.get(serviceId) ?? [];
+      serviceStreams.push(stream);
+      streamsByService.set(serviceId, serviceStreams);
+    }
+
+    await Promise.all(
+      Array.from(streamsByService.entries()).map(
+        async ([serviceId, serviceStreams]) => {
+          let credential: string;
+          try {
+            credential = BuiltinAddonPreset.getDebridServiceCredential(
+              serviceId as constants.ServiceId,
+              this.userData
+            );
+          } catch (error) {
+            logger.debug(
+              `Skipping verification for ${serviceId}, no credentials are configured`
+            );
+            return;
+          }
+
+          try {
+            const debridService = getDebridService(
+              serviceId as constants.ServiceId,
+              credential
+            );
+            const hashes = [
+              ...new Set(
+                serviceStreams.map((stream) =>
+                  stream.torrent!.infoHash!.toLowerCase()
+                )
+              ),
+            ];
+            // checkMagnets uses the availability cache of each service, so
+            // hashes checked by built-in addons are not requested again
+            const results = await debridService.checkMagnets(
+              hashes,
+              context.id
+            );
+            ReleaseFingerprints.record(results);
+            const cached = new Set(
+              results
+                .filter((result) => result.status === 'cached')
+                .map((result) => result.hash?.toLowerCase())
+            );
+            for (const stream of serviceStreams) {
+              const actual = cached.has(
+                stream.torrent!.infoHash!.toLowerCase()
+              );
+              this.record(counts, stream, actual);
+              stream.service!.cached = actual;
+            }
+          } catch (error) {
+            logger.warn(`Failed to verify cache status for ${serviceId}`, {
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+      )
+    );
+
+    let corrected = 0;
+    for (const [addon, accuracy] of counts) {
+      corrected += accuracy.falselyCached + accuracy.falselyUncached;
+      const total = this.accuracy.get(addon);
+      this.accuracy.set(
+        addon,
+        total
+          ? {
+              ...total,
+              checked: total.checked + accuracy.checked,
+              falselyCached: total.falselyCached + accuracy.falselyCached,
+              falselyUncached: total.falselyUncached + accuracy.falselyUncached,
+            }
+          : accuracy
+      );
+    }
+    logger.info(
+      `Verified cache status of ${eligible} streams, corrected ${corrected} in ${getTimeTakenSincePoint(start)}`
+    );
+
+    this.persistAccuracy(counts).catch((error) => {
+      logger.error(`Failed to store cache claim accuracy`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }
+
+  private record(
+    counts: Map<string, AddonClaimAccuracy>,
+    stream: ParsedStream,
+    actual: boolean
+  ) {
+    const addon = getAddonName(stream.addon);
+    const accuracy = counts.get(addon) ?? {
+      checked: 0,
+      falselyCached: 0,
+      falselyUncached: 0,
+      presetType: stream.addon.preset.type,
+    };
+    accuracy.checked++;
+    if (stream.service!.cached && !actual) accuracy.falselyCached++;
+    if (!stream.service!.cached && actual) accuracy.falselyUncached++;
+    counts.set(addon, accuracy);
+  }
+
+  /**
+   * Add the given counts to the running totals of each preset, so we can tell
+   * which addons report their cache status reliably.
+   */
+  private async persistAccuracy(counts: Map<string, AddonClaimAccuracy>) {
+    const byType = new Map<string, CacheClaimAccuracy>();
+    for (const accuracy of counts.values()) {
+      const type = accuracy.presetType;
+      const total = byType.get(type) ?? {
+        checked: 0,
+        falselyCached: 0,
+        falselyUncached: 0,
+      };
+      total.checked += accuracy.checked;
+      total.falselyCached += accuracy.falselyCached;
+      total.falselyUncached += accuracy.falselyUncached;
+      byType.set(type, total);
+    }
+    for (const [type, accuracy] of byType) {
+      const existing = await StreamCacheVerifier.accuracyCache.get(type);
+      await StreamCacheVerifier.accuracyCache.set(
+        type,
+        {
+          checked: (existing?.checked ?? 0) + accuracy.checked,
+          falselyCached:
+            (existing?.falselyCached ?? 0) + accuracy.falselyCached,
+          falselyUncached:
+            (existing?.falselyUncached ?? 0) + accuracy.falselyUncached,
+        },
+        StreamCacheVerifier.ACCURACY_TTL
+      );
+    }
+  }
+
+  /**
+   * Get the running totals of cache claim accuracy for the given preset types.
+   */
+  public static async getAccuracy(
+    types: string[]
+  ): Promise<Record<string, CacheClaimAccuracy>> {
+    const result: Record<string, CacheClaimAccuracy> = {};
+    for (const type of types) {
+      const accuracy = await StreamCacheVerifier.accuracyCache.get(type);
+      if (accuracy) {
+        result[type] = accuracy;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Summarise the corrections of this request in the same shape as the other
+   * statistics so it can be shown as a statistic stream.
+   */
+  public getStatistics(): { title: string; description: string }[] {
+    if (this.accuracy.size === 0) {
+      return [];
+    }
+    const lines = Array.from(this.accuracy.entries()).map(
+      ([addon, accuracy]) => {
+        const wrong = accuracy.falselyCached + accuracy.falselyUncached;
+        const percentage = Math.round(
+          ((accuracy.checked - wrong) / accuracy.checked) * 100
+        );
+        return `${wrong === 0 ? '✔️' : '⚠️'} ${addon}: ${percentage}% correct (${accuracy.falselyCached} falsely cached, ${accuracy.falselyUncached} falsely uncached of ${accuracy.checked})`;
+      }
+    );
+    return [{ title: '🔎 Cache Verification', description: lines.join('\n') }];
+  }
+}
+
+export default StreamCacheVerifier;
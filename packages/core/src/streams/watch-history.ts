@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { ParsedStream } from '../db/schemas.js';
+import {
+  Cache,
+  createLogger,
+  decryptString,
+  encryptString,
+  Env,
+  formatZodError,
+} from '../utils/index.js';
+import { ReleaseFingerprints } from './fingerprints.js';
+
+const logger = createLogger('core');
+
+// the routes that resolve streams, and record the plays of their URLs
+const TRACKED_PATHS = ['/api/v1/debrid/playback/', '/api/v1/proxy/'];
+
+export interface WatchEntry {
+  type: string;
+  // the id of the item without its season and episode, e.g. tt0903747
+  id: string;
+  // the id that was played, e.g. tt0903747:1:2
+  videoId: string;
+  name?: string;
+  season?: number;
+  episode?: number;
+  // the id of the episode after the one played, when it is known
+  nextVideoId?: string;
+  // the key of the release fingerprint of the stream, see ReleaseFingerprints.getKey
+  fingerprint?: string;
+  releaseGroup?: string;
+  watchedAt: number;
+}
+
+// the tokens are decrypted from URLs, so they are checked before they are logged
+const WatchTokenSchema = z.object({
+  uuid: z.string().min(1),
+  entry: z.object({
+    type: z.string().min(1),
+    id: z.string().min(1),
+    videoId: z.string().min(1),
+    name: z.string().optional(),
+    season: z.number().int().nonnegative().optional(),
+    episode: z.number().int().nonnegative().optional(),
+    nextVideoId: z.string().optional(),
+    fingerprint: z.string().optional(),
+    releaseGroup: z.string().optional(),
+  }),
+});
+type WatchToken = z.infer<typeof WatchTokenSchema>;
+
+const store = () =>
+  Cache.getInstance<string, WatchEntry[]>(
+    'watch-history',
+    10000,
+    Env.REDIS_URI ? undefined : 'sql'
+  );
+
+/**
+ * A per-user log of the streams that were played, newest first.
+ *
+ * The URLs of the streams returned to a user carry an encrypted token
+ * describing what they are of, and the playback and proxy routes record the
+ * token when a stream is resolved, so only streams that were actually played
+ * are logged.
+ */
+export class WatchHistory {
+  /**
+   * Get the entries of a user, newest first.
+   */
+  static async get(uuid: string): Promise<WatchEntry[]> {
+    return (await store().get(uuid)) ?? [];
+  }
+
+  /**
+   * Get the most recent entry of a user for an item.
+   */
+  static async getLast(
+    uuid: string,
+    id: string
+  ): Promise<WatchEntry | undefined> {
+    return (await WatchHistory.get(uuid)).find((entry) => entry.id === id);
+  }
+
+  /**
+   * Add a token to the URL of a stream, so that playing the stream is
+   * recorded. URLs that aren't resolved by a tracked route are returned as
+   * they are.
+   */
+  static addToken(
+    stream: ParsedStream,
+    uuid: string,
+    entry: Omit<WatchEntry, 'watchedAt' | 'fingerprint' | 'releaseGroup'>
+  ): string | undefined {
+    if (
+      !stream.url ||
+      !TRACKED_PATHS.some((path) =>
+        stream.url!.startsWith(`${Env.BASE_URL}${path}`)
+      )
+    ) {
+      return stream.url;
+    }
+    const token: WatchToken = {
+      uuid,
+      entry: {
+        ...entry,
+        fingerprint: ReleaseFingerprints.getKey(stream),
+        releaseGroup: stream.parsedFile?.releaseGroup,
+      },
+    };
+    const { success, data } = encryptString(JSON.stringify(token));
+    if (!success || !data) {
+      return stream.url;
+    }
+    const url = new URL(stream.url);
+    url.searchParams.set('watch', data);
+    return url.toString();
+  }
+
+  /**
+   * Record the play of a stream from the token in its URL. Playing the same
+   * video again moves its entry to the top of the log.
+   */
+  static async record(token: string): Promise<void> {
+    const { success, data } = decryptString(token);
+    if (!success || !data) {
+      logger.warn(`Failed to decrypt watch token`);
+      return;
+    }
+    const {
+      success: valid,
+      data: parsed,
+      error,
+    } = WatchTokenSchema.safeParse(JSON.parse(data));
+    if (!valid) {
+      logger.warn(`Rejected malformed watch token: ${formatZodError(error)}`);
+      return;
+    }
+    const { uuid, entry } = parsed;
+    const entries = await WatchHistory.get(uuid);
+    await store().set(
+      uuid,
+      [
+        { ...entry, watchedAt: Date.now() },
+        ...entries.filter((existing) => existing.videoId !== entry.videoId),
+      ].slice(0, Env.WATCH_HISTORY_MAX_ENTRIES),
+      Env.WATCH_HISTORY_TTL
+    );
+    logger.debug(`Recorded play of ${entry.videoId}`, { uuid });
+  }
+}
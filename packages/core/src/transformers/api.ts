@@ -7,6 +7,7 @@ import {
   UserData,
 } from '../db/index.js';
 import { AIOStreamsResponse } from '../main.js';
+import { StreamExplanation } from '../streams/index.js';
 
 export interface SearchApiResponseData {
   results: SearchApiResult[];
@@ -15,6 +16,7 @@ export interface SearchApiResponseData {
     title: string;
     description: string;
   }[];
+  explain?: StreamExplanation;
 }
 
 import { z } from 'zod';
@@ -64,6 +66,7 @@ export class ApiTransformer {
     response: AIOStreamsResponse<{
       streams: ParsedStream[];
       statistics: { title: string; description: string }[];
+      explain?: StreamExplanation;
     }>,
     requiredFields: SearchApiResultField[]
   ): Promise<SearchApiResponseData> {
@@ -119,6 +122,7 @@ export class ApiTransformer {
         title: error.title ?? '',
         description: error.description ?? '',
       })),
+      explain: data.explain,
     };
   }
 }
@@ -7,6 +7,7 @@ import {
   StreamProxyConfig,
   Group,
   PresetMetadata,
+  SelMacro,
 } from '../db/schemas.js';
 import { AIOStreams } from '../main.js';
 import { Preset, PresetManager } from '../presets/index.js';
@@ -28,8 +29,11 @@ import {
   ExitConditionEvaluator,
   GroupConditionEvaluator,
   PrecacheConditionEvaluator,
+  SortKeyEvaluator,
+  StreamExpressionEngine,
   StreamSelector,
 } from '../parser/streamExpression.js';
+import { MetaExpressionEvaluator } from '../parser/metaExpression.js';
 import { createLogger } from './logger.js';
 import { TVDBMetadata } from '../metadata/tvdb.js';
 
@@ -319,6 +323,8 @@ export async function validateConfig(
     'required keywords': [config.requiredKeywords, Env.MAX_KEYWORD_FILTERS],
     'preferred keywords': [config.preferredKeywords, Env.MAX_KEYWORD_FILTERS],
     groups: [config.groups, Env.MAX_GROUPS],
+    'stream expression macros': [config.selMacros, Env.MAX_SEL_MACROS],
+    'smart catalogs': [config.smartCatalogs, Env.MAX_SMART_CATALOGS],
   };
 
   for (const [name, [items, max]] of Object.entries(validations)) {
@@ -366,9 +372,20 @@ export async function validateConfig(
     }
   }
 
+  // validate macros first, as every other expression may depend on them
+  if (config.selMacros?.length) {
+    try {
+      StreamExpressionEngine.validateMacros(config.selMacros);
+    } catch (error) {
+      throw new Error(
+        `Invalid stream expression macro: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   if (config.groups?.groupings) {
     for (const group of config.groups.groupings) {
-      await validateGroup(group);
+      await validateGroup(group, config.selMacros);
     }
   }
 
@@ -378,7 +395,8 @@ export async function validateConfig(
         throw new Error('Missing condition');
       }
       await ExitConditionEvaluator.testEvaluate(
-        config.dynamicAddonFetching.condition
+        config.dynamicAddonFetching.condition,
+        config.selMacros
       );
     } catch (error) {
       throw new Error(`Invalid dynamic addon fetching condition: ${error}`);
@@ -396,21 +414,56 @@ export async function validateConfig(
 
   for (const expression of streamExpressions) {
     try {
-      await StreamSelector.testSelect(expression);
+      await StreamSelector.testSelect(expression, config.selMacros);
     } catch (error) {
       throw new Error(`Invalid stream expression: ${expression}: ${error}`);
     }
   }
 
+  // validate custom sort criteria
+  for (const sortCriteria of Object.values(config.sortCriteria ?? {})) {
+    for (const criterion of sortCriteria ?? []) {
+      if (criterion.key !== 'custom') continue;
+      if (!criterion.expression) {
+        throw new Error('Custom sort criteria must have an expression');
+      }
+      try {
+        await SortKeyEvaluator.testEvaluate(
+          criterion.expression,
+          config.selMacros
+        );
+      } catch (error) {
+        throw new Error(
+          `Invalid custom sort expression: ${criterion.expression}: ${error}`
+        );
+      }
+    }
+  }
+
   // validate precache condition
   if (config.precacheCondition) {
     try {
-      await PrecacheConditionEvaluator.testEvaluate(config.precacheCondition);
+      await PrecacheConditionEvaluator.testEvaluate(
+        config.precacheCondition,
+        config.selMacros
+      );
     } catch (error) {
       throw new Error(`Invalid precache condition: ${error}`);
     }
   }
 
+  // validate catalog filter expressions
+  for (const mod of config.catalogModifications ?? []) {
+    if (!mod.filters?.expression) continue;
+    try {
+      MetaExpressionEvaluator.testEvaluate(mod.filters.expression);
+    } catch (error) {
+      throw new Error(
+        `Invalid catalog filter expression for ${mod.id}: ${mod.filters.expression}: ${error}`
+      );
+    }
+  }
+
   if (config.services) {
     config.services = config.services.map((service: Service) =>
       validateService(service, options?.decryptValues)
@@ -853,7 +906,7 @@ function validatePreset(preset: PresetObject) {
   }
 }
 
-async function validateGroup(group: Group) {
+async function validateGroup(group: Group, macros?: SelMacro[]) {
   if (!group) {
     return;
   }
@@ -866,7 +919,10 @@ async function validateGroup(group: Group) {
   // we must be able to parse the condition
   let result;
   try {
-    result = await GroupConditionEvaluator.testEvaluate(group.condition);
+    result = await GroupConditionEvaluator.testEvaluate(
+      group.condition,
+      macros
+    );
   } catch (error: any) {
     throw new Error(
       `Your group condition - '${group.condition}' - is invalid: ${error.message}`
@@ -7,6 +7,9 @@ export enum ErrorCode {
   USER_INVALID_CONFIG = 'USER_INVALID_CONFIG',
   USER_NEW_PASSWORD_TOO_SHORT = 'USER_NEW_PASSWORD_TOO_SHORT',
   USER_NEW_PASSWORD_TOO_SIMPLE = 'USER_NEW_PASSWORD_TOO_SIMPLE',
+  USER_REVISION_NOT_FOUND = 'USER_REVISION_NOT_FOUND',
+  // Downloads API
+  DOWNLOAD_JOB_NOT_FOUND = 'DOWNLOAD_JOB_NOT_FOUND',
   // Database
   DATABASE_ERROR = 'DATABASE_ERROR',
   // Encryption
@@ -55,6 +58,14 @@ export const ErrorMap: Record<ErrorCode, ErrorDetails> = {
     statusCode: 400,
     message: 'New password is too simple',
   },
+  [ErrorCode.USER_REVISION_NOT_FOUND]: {
+    statusCode: 404,
+    message: 'Configuration revision not found',
+  },
+  [ErrorCode.DOWNLOAD_JOB_NOT_FOUND]: {
+    statusCode: 404,
+    message: 'Download job not found',
+  },
   [ErrorCode.DATABASE_ERROR]: {
     statusCode: 500,
     message: 'A database error occurred',
@@ -222,6 +233,8 @@ const EASYNEWS_SERVICE = 'easynews';
 const NZBDAV_SERVICE = 'nzbdav';
 const ALTMOUNT_SERVICE = 'altmount';
 const STREMIO_NNTP_SERVICE = 'stremio_nntp';
+const QBITTORRENT_SERVICE = 'qbittorrent';
+const TRANSMISSION_SERVICE = 'transmission';
 
 const SERVICES = [
   REALDEBRID_SERVICE,
@@ -239,6 +252,8 @@ const SERVICES = [
   NZBDAV_SERVICE,
   ALTMOUNT_SERVICE,
   STREMIO_NNTP_SERVICE,
+  QBITTORRENT_SERVICE,
+  TRANSMISSION_SERVICE,
 ] as const;
 
 export const BUILTIN_SUPPORTED_SERVICES = [
@@ -255,6 +270,8 @@ export const BUILTIN_SUPPORTED_SERVICES = [
   ALTMOUNT_SERVICE,
   STREMIO_NNTP_SERVICE,
   EASYNEWS_SERVICE,
+  QBITTORRENT_SERVICE,
+  TRANSMISSION_SERVICE,
 ] as const;
 
 export type ServiceId = (typeof SERVICES)[number];
@@ -560,6 +577,162 @@ const SERVICE_DETAILS: Record<
       },
     ],
   },
+  [QBITTORRENT_SERVICE]: {
+    id: QBITTORRENT_SERVICE,
+    name: 'qBittorrent',
+    shortName: 'QB',
+    knownNames: ['QB', 'qBit'],
+    signUpText: 'Download torrents with your own qBittorrent client.',
+    credentials: [
+      {
+        id: 'note',
+        name: 'Configuration Help',
+        description: `**qBittorrent** only downloads the torrents, so the finished files must be served over HTTP (e.g. a static file server or WebDAV share pointing at your download folder).\n\n**Download Path:** The folder your client saves downloads to, as seen by the client (e.g. /downloads). Files are looked up relative to this folder on the file server.\n\n**Security Note:** File server credentials are exposed in stream URLs unless proxied. To proxy, provide the Auth Token below (built-in proxy only).`,
+        type: 'alert',
+        intent: 'info',
+        required: false,
+      },
+      {
+        id: 'url',
+        name: 'qBittorrent URL',
+        description:
+          'The base URL of your qBittorrent WebUI. e.g. http://qbittorrent:8080',
+        type: 'string',
+        required: true,
+      },
+      {
+        id: 'username',
+        name: 'qBittorrent Username',
+        description:
+          'Your qBittorrent WebUI username. Leave blank if authentication is disabled.',
+        type: 'string',
+        required: false,
+      },
+      {
+        id: 'password',
+        name: 'qBittorrent Password',
+        description: 'Your qBittorrent WebUI password.',
+        type: 'password',
+        required: false,
+      },
+      {
+        id: 'fileServerUrl',
+        name: 'File Server URL',
+        description:
+          'The URL that serves your download folder. e.g. http://files:8080',
+        type: 'string',
+        required: true,
+      },
+      {
+        id: 'fileServerUsername',
+        name: 'File Server Username (Optional)',
+        description: 'Username for basic authentication on the file server.',
+        type: 'string',
+        required: false,
+      },
+      {
+        id: 'fileServerPassword',
+        name: 'File Server Password (Optional)',
+        description: 'Password for basic authentication on the file server.',
+        type: 'password',
+        required: false,
+      },
+      {
+        id: 'downloadPath',
+        name: 'Download Path',
+        description:
+          'The folder qBittorrent saves downloads to, as seen by qBittorrent. Defaults to /.',
+        type: 'string',
+        required: false,
+      },
+      {
+        id: 'aiostreamsAuth',
+        name: 'AIOStreams Auth Token (Optional)',
+        description:
+          'If you would like to proxy your qBittorrent streams, you will need to provide a username:password pair for your AIOStreams instance, defined in the `AIOSTREAMS_AUTH` environment variable.',
+        type: 'password',
+        required: false,
+      },
+    ],
+  },
+  [TRANSMISSION_SERVICE]: {
+    id: TRANSMISSION_SERVICE,
+    name: 'Transmission',
+    shortName: 'TR',
+    knownNames: ['TR'],
+    signUpText: 'Download torrents with your own Transmission client.',
+    credentials: [
+      {
+        id: 'note',
+        name: 'Configuration Help',
+        description: `**Transmission** only downloads the torrents, so the finished files must be served over HTTP (e.g. a static file server or WebDAV share pointing at your download folder).\n\n**Download Path:** The folder your client saves downloads to, as seen by the client (e.g. /downloads). Files are looked up relative to this folder on the file server.\n\n**Security Note:** File server credentials are exposed in stream URLs unless proxied. To proxy, provide the Auth Token below (built-in proxy only).`,
+        type: 'alert',
+        intent: 'info',
+        required: false,
+      },
+      {
+        id: 'url',
+        name: 'Transmission URL',
+        description:
+          'The base URL of your Transmission instance. e.g. http://transmission:9091',
+        type: 'string',
+        required: true,
+      },
+      {
+        id: 'username',
+        name: 'Transmission Username',
+        description:
+          'Your Transmission RPC username. Leave blank if authentication is disabled.',
+        type: 'string',
+        required: false,
+      },
+      {
+        id: 'password',
+        name: 'Transmission Password',
+        description: 'Your Transmission RPC password.',
+        type: 'password',
+        required: false,
+      },
+      {
+        id: 'fileServerUrl',
+        name: 'File Server URL',
+        description:
+          'The URL that serves your download folder. e.g. http://files:8080',
+        type: 'string',
+        required: true,
+      },
+      {
+        id: 'fileServerUsername',
+        name: 'File Server Username (Optional)',
+        description: 'Username for basic authentication on the file server.',
+        type: 'string',
+        required: false,
+      },
+      {
+        id: 'fileServerPassword',
+        name: 'File Server Password (Optional)',
+        description: 'Password for basic authentication on the file server.',
+        type: 'password',
+        required: false,
+      },
+      {
+        id: 'downloadPath',
+        name: 'Download Path',
+        description:
+          'The folder Transmission saves downloads to, as seen by Transmission. Defaults to /.',
+        type: 'string',
+        required: false,
+      },
+      {
+        id: 'aiostreamsAuth',
+        name: 'AIOStreams Auth Token (Optional)',
+        description:
+          'If you would like to proxy your Transmission streams, you will need to provide a username:password pair for your AIOStreams instance, defined in the `AIOSTREAMS_AUTH` environment variable.',
+        type: 'password',
+        required: false,
+      },
+    ],
+  },
 
   [OFFCLOUD_SERVICE]: {
     id: OFFCLOUD_SERVICE,
@@ -765,8 +938,12 @@ export const DEDUPLICATOR_KEYS = [
   'filename',
   'infoHash',
   'smartDetect',
+  'fuzzy',
 ] as const;
 
+export const DEFAULT_FUZZY_DEDUPLICATION_THRESHOLD = 0.9;
+export const DEFAULT_FUZZY_DEDUPLICATION_SIZE_TOLERANCE = 50; // MB
+
 export const AUTO_PLAY_ATTRIBUTES = [
   'service',
   'addon',
@@ -786,6 +963,26 @@ export const AUTO_PLAY_ATTRIBUTES = [
 export const DEFAULT_AUTO_PLAY_ATTRIBUTES: (typeof AUTO_PLAY_ATTRIBUTES)[number][] =
   ['resolution', 'quality', 'releaseGroup'] as const;
 
+export const DOWNLOAD_CLIENTS = ['sabnzbd', 'nzbget'] as const;
+export type DownloadClientId = (typeof DOWNLOAD_CLIENTS)[number];
+export const DOWNLOAD_CLIENT_DETAILS: Record<
+  DownloadClientId,
+  {
+    name: string;
+    // the categories used when none are configured
+    defaultCategories: { movie: string; series: string };
+  }
+> = {
+  sabnzbd: {
+    name: 'SABnzbd',
+    defaultCategories: { movie: 'movies', series: 'tv' },
+  },
+  nzbget: {
+    name: 'NZBGet',
+    defaultCategories: { movie: 'Movies', series: 'Series' },
+  },
+};
+
 export const AUTO_PLAY_METHODS = [
   'matchingFile',
   'matchingIndex',
@@ -925,11 +1122,13 @@ const SORT_CRITERIA = [
   'regexPatterns',
   'cached',
   'library',
+  'lastWatched',
   'keyword',
   'streamExpressionMatched',
   'streamExpressionScore',
   'seadex',
   'bitrate',
+  'custom',
 ] as const;
 
 export const MIN_SIZE = 0;
@@ -1102,6 +1301,16 @@ export const SORT_CRITERIA_DETAILS: Record<
     ascendingDescription: 'Streams that are not in your library are preferred',
     descendingDescription: 'Streams that are in your library are preferred',
   },
+  lastWatched: {
+    name: 'Last Watched',
+    defaultDirection: 'desc',
+    description:
+      'Whether the stream is from the release you last watched of the same title, using your watch history',
+    ascendingDescription:
+      'Streams that are not from the release group you last watched are preferred',
+    descendingDescription:
+      'Streams from the same release you last watched (e.g. a season pack) are preferred, followed by streams from the same release group',
+  },
   keyword: {
     name: 'Keyword',
     defaultDirection: 'desc',
@@ -1144,6 +1353,14 @@ export const SORT_CRITERIA_DETAILS: Record<
     descendingDescription:
       'Streams with higher expression scores are preferred',
   },
+  custom: {
+    name: 'Custom Expression',
+    defaultDirection: 'desc',
+    description:
+      'Sort by the number a stream expression evaluates to for each stream',
+    ascendingDescription: 'Streams with lower values are preferred',
+    descendingDescription: 'Streams with higher values are preferred',
+  },
 } as const;
 
 const SORT_DIRECTIONS = ['asc', 'desc'] as const;
@@ -1360,6 +1577,8 @@ export {
   ALTMOUNT_SERVICE,
   STREMIO_NNTP_SERVICE,
   EASYNEWS_SERVICE,
+  QBITTORRENT_SERVICE,
+  TRANSMISSION_SERVICE,
   SERVICE_DETAILS,
   TOP_LEVEL_OPTION_DETAILS,
   HEADERS_FOR_IP_FORWARDING,
@@ -299,6 +299,28 @@ const connectionLimits = makeValidator((x) => {
   return limitMap;
 });
 
+const sizeLimits = makeValidator((x) => {
+  if (typeof x !== 'string') {
+    throw new EnvError('Size limits must be a string');
+  }
+  // comma separated list of username:size where size is e.g. 10GB or 5MB
+  const limitMap: Map<string, number> = new Map();
+  x.split(',').forEach((x) => {
+    const [username, sizeStr] = x.split(':');
+    if (!username || !sizeStr) {
+      throw new EnvError(
+        'Size limits must be a comma separated list of username:size pairs'
+      );
+    }
+    const limit = bytes.parse(sizeStr);
+    if (limit === null || Number.isNaN(limit) || limit < 0) {
+      throw new EnvError(`Invalid size input: "${sizeStr}"`);
+    }
+    limitMap.set(username, limit);
+  });
+  return limitMap;
+});
+
 const boolOrList = makeValidator((x) => {
   if (typeof x !== 'string') {
     return undefined;
@@ -410,7 +432,8 @@ export const Env = cleanEnv(process.env, {
     desc: 'Tag of the addon',
   }),
   DESCRIPTION: readonly({
-    default: metadata?.description || 'A unified studio addon for streaming content.',
+    default:
+      metadata?.description || 'A unified studio addon for streaming content.',
     desc: 'Description of the addon',
   }),
   NODE_ENV: str({
@@ -598,6 +621,14 @@ export const Env = cleanEnv(process.env, {
     default: 7 * 24 * 60 * 60 * 1000, // 7 days
     desc: 'Interval for refreshing the Anime Lists XML in milliseconds',
   }),
+  LOCAL_METADATA_PATH: str({
+    default: undefined,
+    desc: 'Path to a local metadata dump (.json, or .db/.sqlite) that is checked before online metadata providers',
+  }),
+  LOCAL_METADATA_REFRESH_INTERVAL: num({
+    default: 60 * 60 * 1000, // 1 hour
+    desc: 'Interval in milliseconds for checking the local metadata dump for changes, 0 to disable',
+  }),
   // logging settings
   LOG_SENSITIVE_INFO: bool({
     default: false,
@@ -640,6 +671,11 @@ export const Env = cleanEnv(process.env, {
     desc: 'Maximum days of inactivity before pruning, set to -1 to disable',
   }),
 
+  CONFIG_REVISION_HISTORY: num({
+    default: 10,
+    desc: 'Number of previous configurations kept for each user so that they can be restored, set to 0 to disable',
+  }),
+
   EXPOSE_USER_COUNT: bool({
     default: false,
     desc: 'Expose the number of users through the status endpoint',
@@ -732,6 +768,30 @@ export const Env = cleanEnv(process.env, {
     default: 86400, // 24 hours
     desc: 'Minimum interval for precaching the next episode of the current episode in seconds. i.e. the minimum wait before attempting to precache the same next episode again.',
   }),
+  PRECACHE_MAX_LOOKAHEAD: num({
+    default: 10,
+    desc: 'Maximum number of episodes after the current one that a user can precache',
+  }),
+  PRECACHE_MAX_ACTIVE_DOWNLOADS: num({
+    default: 3,
+    desc: 'Maximum number of downloads a service can have in progress before precaching stops submitting more. Users can lower this, but not raise it',
+  }),
+  WATCH_HISTORY_MAX_ENTRIES: num({
+    default: 200,
+    desc: 'Maximum number of played streams kept in the watch history of each user',
+  }),
+  WATCH_HISTORY_TTL: num({
+    default: 180 * 24 * 60 * 60, // 180 days
+    desc: 'Time in seconds the watch history of a user is kept after their last play',
+  }),
+  SMART_CATALOG_REFRESH_INTERVAL: num({
+    default: 6 * 60 * 60, // 6 hours
+    desc: 'Default time in seconds before the items of a smart catalog are rebuilt',
+  }),
+  SMART_CATALOG_MAX_ITEMS: num({
+    default: 50,
+    desc: 'Maximum number of items in a smart catalog, each of which has its metadata fetched when the catalog is built',
+  }),
 
   // configuration settings
 
@@ -756,10 +816,18 @@ export const Env = cleanEnv(process.env, {
     default: 10,
     desc: 'Max number of source catalogs in a single merged catalog',
   }),
+  MAX_SMART_CATALOGS: num({
+    default: 10,
+    desc: 'Max number of smart catalogs',
+  }),
   MAX_SEL_LENGTH: num({
     default: 3000,
     desc: 'Max length of stream expression language strings',
   }),
+  MAX_SEL_MACROS: num({
+    default: 30,
+    desc: 'Max number of stream expression macros',
+  }),
   MAX_FORMATTER_TEMPLATE_LENGTH: num({
     default: 5000,
     desc: 'Max length of formatter template strings',
@@ -812,6 +880,39 @@ export const Env = cleanEnv(process.env, {
     desc: 'Increased timeout for manifest requests',
   }),
 
+  ADDON_CIRCUIT_BREAKER_THRESHOLD: num({
+    default: 5,
+    desc: 'Number of consecutive errors or timeouts after which an addon is skipped for the cooldown. Set to 0 to disable the circuit breaker',
+  }),
+  ADDON_CIRCUIT_BREAKER_COOLDOWN: num({
+    default: 300,
+    desc: 'Time in seconds a failing addon is skipped for before a probe request is made to it',
+  }),
+  NZB_HEALTH_CHECK_MAX_NZBS: num({
+    default: 20,
+    desc: 'Maximum number of NZBs whose articles are checked against the usenet servers of a user per request',
+  }),
+  NZB_HEALTH_CHECK_TIMEOUT: num({
+    default: 10000,
+    desc: 'Timeout in milliseconds for connecting to and checking articles on a usenet server',
+  }),
+  NZB_HEALTH_CHECK_MAX_TIME: num({
+    default: 5000,
+    desc: 'Maximum time in milliseconds a request waits for NZB health checks, NZBs not checked by then are left unscored',
+  }),
+  RELEASE_FINGERPRINT_STORE: boolOrChoice(['redis', 'sql', 'memory'])({
+    default: false,
+    desc: 'Store of the names, sizes, files and matched ids of releases learnt from debrid services. Set to true to use Redis when configured and SQL otherwise',
+  }),
+  RELEASE_FINGERPRINT_TTL: num({
+    default: 90 * 24 * 60 * 60, // 90 days
+    desc: 'Time in seconds a release fingerprint is kept after it was last updated',
+  }),
+  RELEASE_FINGERPRINT_MAX_SIZE: num({
+    default: 100000,
+    desc: 'Max number of release fingerprints to store',
+  }),
+
   BACKGROUND_RESOURCE_REQUESTS_ENABLED: bool({
     default: true,
     desc: 'Enable background resource requests',
@@ -1805,6 +1906,18 @@ export const Env = cleanEnv(process.env, {
     default: undefined,
     desc: 'Connection limits for authenticated users',
   }),
+  AIOSTREAMS_AUTH_DAILY_QUOTA: sizeLimits({
+    default: undefined,
+    desc: 'Maximum number of bytes each user can stream through the built-in proxy per day',
+  }),
+  AIOSTREAMS_AUTH_MONTHLY_QUOTA: sizeLimits({
+    default: undefined,
+    desc: 'Maximum number of bytes each user can stream through the built-in proxy per month',
+  }),
+  AIOSTREAMS_AUTH_RATE_LIMIT: sizeLimits({
+    default: undefined,
+    desc: 'Maximum number of bytes per second each user can stream through the built-in proxy',
+  }),
 
   // NZB Proxy Settings (shared by generic and Easynews NZB proxying)
   NZB_PROXY_PUBLIC_ENABLED: bool({
@@ -1965,6 +2078,10 @@ export const Env = cleanEnv(process.env, {
     default: 5,
     desc: 'Maximum number of pages to fetch from Torznab/Newznab indexers during pagination',
   }),
+  BUILTIN_NAB_FALLBACK_QUERY_SEARCH: bool({
+    default: true,
+    desc: 'Whether to fall back to text searches with the titles of an item when searching Torznab/Newznab indexers by id returns no results',
+  }),
 
   BUILTIN_ZILEAN_URL: url({
     default: 'https://zileanfortheweebs.midnightignite.me',
@@ -2113,6 +2230,31 @@ export const Env = cleanEnv(process.env, {
     default: 5,
     desc: 'The maximum number of pages to fetch.',
   }),
+
+  BUILTIN_SCRAPER_DEFINITIONS_PATH: str({
+    default: undefined,
+    desc: 'Path to a folder of YAML or JSON site definitions for the builtin Scraper addon. Defaults to the scrapers folder in the data folder.',
+  }),
+  BUILTIN_DEFAULT_SCRAPER_TIMEOUT: num({
+    default: undefined,
+    desc: 'Builtin Scraper timeout',
+  }),
+  BUILTIN_SCRAPER_SEARCH_TIMEOUT: num({
+    default: 30000, // 30 seconds
+    desc: 'Builtin Scraper Search timeout',
+  }),
+  BUILTIN_SCRAPER_SEARCH_CACHE_TTL: num({
+    default: 7 * 24 * 60 * 60, // 7 days
+    desc: 'Builtin Scraper Search cache TTL',
+  }),
+  BUILTIN_DEFAULT_LIBRARY_TIMEOUT: num({
+    default: undefined,
+    desc: 'Builtin Library timeout',
+  }),
+  BUILTIN_LIBRARY_REFRESH_INTERVAL: num({
+    default: 5 * 60, // 5 minutes
+    desc: 'Time in seconds before the Builtin Library index of a service is rebuilt from its list of downloads',
+  }),
   // Rate limiting settings
   DISABLE_RATE_LIMITS: bool({
     default: false,
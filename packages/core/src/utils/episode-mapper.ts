@@ -0,0 +1,324 @@
+import { AnimeEntry, getSeasonFromSynonyms } from './anime-database.js';
+import { IdParser, IdType, ParsedId } from './id-parser.js';
+
+export interface EpisodeNumber {
+  season: number;
+  episode: number;
+}
+
+/**
+ * The number of an episode in each of the orders used by addons and release
+ * groups. Orders that could not be determined are left undefined.
+ */
+export interface EpisodeNumbering {
+  // the order used by IMDb and Cinemeta
+  seasonal?: EpisodeNumber;
+  tvdb?: EpisodeNumber;
+  tmdb?: EpisodeNumber;
+  // the episode number within the anime entry, as used by Kitsu, MAL, AniList and AniDB
+  relative?: number;
+  // the episode number counted across all seasons, excluding specials
+  absolute?: number;
+}
+
+// id types that only have an episode number, relative to the anime entry
+const RELATIVE_ID_TYPES: IdType[] = [
+  'kitsuId',
+  'malId',
+  'anilistId',
+  'anidbId',
+];
+
+// the order in which id types are tried when rewriting an id for an addon
+const PREFERRED_ID_TYPES: IdType[] = [
+  'imdbId',
+  'kitsuId',
+  'malId',
+  'anilistId',
+  'anidbId',
+  'thetvdbId',
+  'themoviedbId',
+];
+
+type AnimeListMappings = NonNullable<AnimeEntry['episodeMappings']>;
+
+// explicit mappings are in the form ';1-2;3-4;', from anidb to the target episode
+function parseExplicitMappings(episodes: string): [number, number][] {
+  return episodes
+    .split(';')
+    .map((pair) => pair.split('-').map(Number))
+    .filter(
+      (pair): pair is [number, number] =>
+        pair.length === 2 && pair.every(Number.isInteger)
+    );
+}
+
+/**
+ * Map an episode of the anime entry to a TVDB or TMDB episode using the
+ * episode mappings of the anime list.
+ */
+function fromAnimeListMappings(
+  mappings: AnimeListMappings | undefined,
+  target: 'tvdb' | 'tmdb',
+  relative: number
+): EpisodeNumber | undefined {
+  for (const mapping of mappings ?? []) {
+    const season = target === 'tvdb' ? mapping.tvdbSeason : mapping.tmdbSeason;
+    if (mapping.anidbSeason !== 1 || season === undefined) continue;
+    if (mapping.episodes) {
+      const pair = parseExplicitMappings(mapping.episodes).find(
+        ([from]) => from === relative
+      );
+      // an episode mapped to 0 has no equivalent
+      if (pair && pair[1] > 0) return { season, episode: pair[1] };
+    } else if (
+      mapping.start !== undefined &&
+      relative >= mapping.start &&
+      relative <= (mapping.end ?? Infinity)
+    ) {
+      return { season, episode: relative + (mapping.offset ?? 0) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The inverse of {@link fromAnimeListMappings}.
+ */
+function toAnimeListMappings(
+  mappings: AnimeListMappings | undefined,
+  target: 'tvdb' | 'tmdb',
+  { season, episode }: EpisodeNumber
+): number | undefined {
+  for (const mapping of mappings ?? []) {
+    const mappingSeason =
+      target === 'tvdb' ? mapping.tvdbSeason : mapping.tmdbSeason;
+    if (mapping.anidbSeason !== 1 || mappingSeason !== season) continue;
+    if (mapping.episodes) {
+      const pair = parseExplicitMappings(mapping.episodes).find(
+        ([, to]) => to === episode
+      );
+      if (pair) return pair[0];
+    } else if (mapping.start !== undefined) {
+      const relative = episode - (mapping.offset ?? 0);
+      if (relative >= mapping.start && relative <= (mapping.end ?? Infinity)) {
+        return relative;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Translates the episode of a request between the absolute, seasonal, TVDB
+ * and TMDB orders, and the per-entry numbering of anime ids, using the
+ * mappings of the {@link AnimeDatabase}.
+ *
+ * This allows a request for S2E5 to be sent to an addon that only supports
+ * Kitsu ids, and files numbered in any of these orders to be matched against
+ * it.
+ */
+export class EpisodeMapper {
+  private readonly numbering: EpisodeNumbering;
+  // the order of the requested id, used when counting absolute episodes
+  private readonly requested?: EpisodeNumber;
+
+  constructor(
+    private readonly parsedId: ParsedId,
+    private readonly animeEntry: AnimeEntry | null
+  ) {
+    const season = parsedId.season ? Number(parsedId.season) : undefined;
+    const episode = parsedId.episode ? Number(parsedId.episode) : undefined;
+    this.numbering = {};
+    if (episode === undefined || !Number.isInteger(episode)) {
+      return;
+    }
+
+    if (RELATIVE_ID_TYPES.includes(parsedId.type)) {
+      this.numbering.relative = episode;
+    } else if (season !== undefined && Number.isInteger(season)) {
+      const requested = { season, episode };
+      this.requested = requested;
+      switch (parsedId.type) {
+        case 'thetvdbId':
+          this.numbering.tvdb = requested;
+          this.numbering.relative = this.toRelative('tvdb', requested);
+          break;
+        case 'themoviedbId':
+          this.numbering.tmdb = requested;
+          this.numbering.relative = this.toRelative('tmdb', requested);
+          break;
+        default:
+          this.numbering.seasonal = requested;
+          this.numbering.relative = this.toRelative('seasonal', requested);
+          break;
+      }
+    }
+
+    const relative = this.numbering.relative;
+    if (relative === undefined || relative < 1) {
+      this.numbering.relative = undefined;
+      return;
+    }
+    this.numbering.seasonal ??= this.fromRelative('seasonal', relative);
+    this.numbering.tvdb ??= this.fromRelative('tvdb', relative);
+    this.numbering.tmdb ??= this.fromRelative('tmdb', relative);
+    this.requested ??= this.numbering.seasonal;
+  }
+
+  private getOrderInfo(order: 'seasonal' | 'tvdb' | 'tmdb'): {
+    season?: number | null;
+    fromEpisode?: number | null;
+  } {
+    const entry = this.animeEntry;
+    switch (order) {
+      case 'tvdb':
+      case 'tmdb':
+        return {
+          season: entry?.[order].seasonNumber,
+          fromEpisode: entry?.[order].fromEpisode,
+        };
+      case 'seasonal': {
+        // IMDb numbering is only known for Kitsu entries, fall back to the
+        // other sources in the same way as the anime id enrichment does.
+        const synonymSeason = entry?.synonyms
+          ? getSeasonFromSynonyms(entry.synonyms)
+          : undefined;
+        return {
+          season:
+            entry?.imdb?.seasonNumber ??
+            entry?.trakt?.seasonNumber ??
+            entry?.tvdb?.seasonNumber ??
+            (synonymSeason ? Number(synonymSeason) : undefined) ??
+            entry?.tmdb?.seasonNumber,
+          fromEpisode: entry?.imdb?.fromEpisode ?? entry?.tvdb?.fromEpisode,
+        };
+      }
+    }
+  }
+
+  private fromRelative(
+    order: 'seasonal' | 'tvdb' | 'tmdb',
+    relative: number
+  ): EpisodeNumber | undefined {
+    if (order !== 'seasonal') {
+      const mapped = fromAnimeListMappings(
+        this.animeEntry?.episodeMappings,
+        order,
+        relative
+      );
+      if (mapped) return mapped;
+    }
+    const { season, fromEpisode } = this.getOrderInfo(order);
+    if (season === undefined || season === null) {
+      return undefined;
+    }
+    return { season, episode: (fromEpisode ?? 1) + relative - 1 };
+  }
+
+  private toRelative(
+    order: 'seasonal' | 'tvdb' | 'tmdb',
+    number: EpisodeNumber
+  ): number | undefined {
+    if (!this.animeEntry) {
+      return undefined;
+    }
+    if (order !== 'seasonal') {
+      const mapped = toAnimeListMappings(
+        this.animeEntry.episodeMappings,
+        order,
+        number
+      );
+      if (mapped !== undefined) return mapped;
+    }
+    const { season, fromEpisode } = this.getOrderInfo(order);
+    // without a season, the entry can only be assumed to start the series
+    if ((season ?? 1) !== number.season) {
+      return undefined;
+    }
+    return number.episode - (fromEpisode ?? 1) + 1;
+  }
+
+  /**
+   * Get the numbering of the episode, counting the absolute episode with the
+   * seasons of the requested item when they are given.
+   */
+  public getNumbering(
+    seasons?: { season_number: number; episode_count: number }[]
+  ): EpisodeNumbering {
+    if (!seasons?.length || !this.requested) {
+      return { ...this.numbering };
+    }
+    let absolute = this.requested.episode;
+    for (const season of seasons) {
+      if (season.season_number === 0) continue;
+      if (season.season_number === this.requested.season) break;
+      absolute += season.episode_count;
+    }
+    // episodes that IMDb doesn't list are still counted by release groups
+    const nonImdbEpisodes = this.animeEntry?.imdb?.nonImdbEpisodes;
+    if (nonImdbEpisodes) {
+      absolute += nonImdbEpisodes.filter((ep) => ep < absolute).length;
+    }
+    return { ...this.numbering, absolute };
+  }
+
+  /**
+   * Get the id of the requested item as one of the given id types, in the
+   * episode order that id type uses.
+   */
+  public getId(idType: IdType): string | undefined {
+    if (idType === this.parsedId.type) {
+      return this.parsedId.fullId;
+    }
+    const value = this.animeEntry?.mappings?.[idType];
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (!this.parsedId.episode) {
+      return IdParser.generate(idType, value);
+    }
+
+    let number: EpisodeNumber | number | undefined;
+    switch (idType) {
+      case 'imdbId':
+        number = this.numbering.seasonal;
+        break;
+      case 'thetvdbId':
+        number = this.numbering.tvdb;
+        break;
+      case 'themoviedbId':
+        number = this.numbering.tmdb;
+        break;
+      default:
+        number = RELATIVE_ID_TYPES.includes(idType)
+          ? this.numbering.relative
+          : undefined;
+    }
+    if (number === undefined) {
+      return undefined;
+    }
+    return typeof number === 'number'
+      ? IdParser.generate(idType, value, undefined, number.toString())
+      : IdParser.generate(
+          idType,
+          value,
+          number.season.toString(),
+          number.episode.toString()
+        );
+  }
+
+  /**
+   * Get an id for the requested item that matches one of the id prefixes of
+   * an addon, for addons that don't support the requested id.
+   */
+  public getIdForPrefixes(idPrefixes: string[]): string | undefined {
+    for (const idType of PREFERRED_ID_TYPES) {
+      const id = this.getId(idType);
+      if (id && idPrefixes.some((prefix) => id.startsWith(prefix))) {
+        return id;
+      }
+    }
+    return undefined;
+  }
+}
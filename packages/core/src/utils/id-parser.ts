@@ -173,6 +173,25 @@ export class IdParser {
     );
   }
 
+  /**
+   * Generate a stremio id from an id type and value, in the same form that
+   * {@link IdParser.parse} accepts.
+   */
+  public static generate(
+    type: IdType,
+    value: string | number,
+    season?: string,
+    episode?: string
+  ): string | undefined {
+    const parser = IdParser.ID_PARSERS.find((p) => p.type === type);
+    if (!parser) return undefined;
+    if (episode === undefined) {
+      // imdb ids already include their prefix
+      return type === 'imdbId' ? `${value}` : `${parser.prefixes[0]}:${value}`;
+    }
+    return parser.generator(value, season, episode);
+  }
+
   public static parse(stremioId: string, mediaType: string): ParsedId | null {
     for (const parser of IdParser.ID_PARSERS) {
       const match = stremioId.match(parser.regex);
@@ -17,9 +17,11 @@ export * from './top-poster.js';
 export * from './distributed-lock.js';
 export * from './id-parser.js';
 export * from './anime-database.js';
+export * from './episode-mapper.js';
 export * from './regex.js';
 export * from './general.js';
 export * from './seadex.js';
 export * from './nzb-proxy.js';
 export * from './ip.js';
+export * from './nntp.js';
 
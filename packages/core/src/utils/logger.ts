@@ -47,9 +47,15 @@ const moduleMap: { [key: string]: string } = {
   torrent: '👤  TORRENT',
   knaben: '🔍  KNABEN',
   'torrent-galaxy': '🌐  TGx',
+  scraper: '🔍  SITE SCRAPER',
+  library: '📚  LIBRARY',
+  catalogs: '🗂️  CATALOGS',
   templates: '📄  TEMPLATES',
   nzbdav: '📂  NZBDAV',
   altmount: '📂  ALTMOUNT',
+  qbittorrent: '🧲  QBITTORRENT',
+  transmission: '🧲  TRANSMISSION',
+  'torrent-client': '🧲  TORRENT CLIENT',
   seadex: '🌊  SEADEX',
   'stream-expression': '✨ SEL',
 };
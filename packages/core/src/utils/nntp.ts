@@ -0,0 +1,167 @@
+import net from 'net';
+import tls from 'tls';
+
+export interface NNTPConnectionOptions {
+  host: string;
+  port: number;
+  ssl: boolean;
+  username?: string;
+  password?: string;
+  timeout: number;
+}
+
+export class NNTPError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = 'NNTPError';
+  }
+}
+
+/**
+ * A minimal NNTP client, only supporting what is needed to check whether
+ * articles exist (RFC 3977 STAT and RFC 4643 AUTHINFO USER/PASS).
+ */
+export class NNTPClient {
+  private socket?: net.Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting?: {
+    resolve: (line: string) => void;
+    reject: (error: Error) => void;
+  };
+  private error?: Error;
+
+  constructor(private readonly options: NNTPConnectionOptions) {}
+
+  public async connect(): Promise<void> {
+    const { host, port, ssl, timeout } = this.options;
+    this.socket = ssl
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    this.socket.setEncoding('utf8');
+    this.socket.setTimeout(timeout);
+    this.socket.on('data', (data: string) => this.onData(data));
+    this.socket.on('timeout', () =>
+      this.fail(new NNTPError(`Connection to ${host} timed out`))
+    );
+    this.socket.on('error', (error) => this.fail(error));
+    this.socket.on('close', () =>
+      this.fail(new NNTPError(`Connection to ${host} closed`))
+    );
+
+    const greeting = await this.readResponse();
+    if (greeting.code !== 200 && greeting.code !== 201) {
+      throw new NNTPError(
+        `Unexpected greeting from ${host}: ${greeting.message}`,
+        greeting.code
+      );
+    }
+
+    if (this.options.username) {
+      const user = await this.command(`AUTHINFO USER ${this.options.username}`);
+      if (user.code === 381) {
+        const pass = await this.command(
+          `AUTHINFO PASS ${this.options.password ?? ''}`
+        );
+        if (pass.code !== 281) {
+          throw new NNTPError(`Authentication with ${host} failed`, pass.code);
+        }
+      } else if (user.code !== 281) {
+        throw new NNTPError(`Authentication with ${host} failed`, user.code);
+      }
+    }
+  }
+
+  /**
+   * Check whether an article exists without downloading it.
+   */
+  public async stat(messageId: string): Promise<boolean> {
+    const id = messageId.startsWith('<') ? messageId : `<${messageId}>`;
+    const response = await this.command(`STAT ${id}`);
+    if (response.code === 223) return true;
+    if (response.code === 430) return false;
+    throw new NNTPError(
+      `Unexpected response to STAT: ${response.message}`,
+      response.code
+    );
+  }
+
+  /**
+   * Quit and wait for the connection to close, so that it no longer counts
+   * towards the connection limit of the server when this resolves.
+   */
+  public close(): Promise<void> {
+    const socket = this.socket;
+    if (!socket || socket.destroyed) return Promise.resolve();
+    return new Promise((resolve) => {
+      socket.once('close', () => resolve());
+      if (this.error) {
+        socket.destroy();
+      } else {
+        // the socket timeout destroys it if the server never closes it
+        socket.end('QUIT\r\n');
+      }
+    });
+  }
+
+  private async command(
+    command: string
+  ): Promise<{ code: number; message: string }> {
+    if (!this.socket || this.error) {
+      throw this.error ?? new NNTPError('Not connected');
+    }
+    this.socket.write(`${command}\r\n`);
+    return this.readResponse();
+  }
+
+  private async readResponse(): Promise<{ code: number; message: string }> {
+    const line = await this.readLine();
+    const code = parseInt(line.slice(0, 3), 10);
+    if (Number.isNaN(code)) {
+      throw new NNTPError(`Invalid response: ${line}`);
+    }
+    return { code, message: line };
+  }
+
+  private readLine(): Promise<string> {
+    const line = this.lines.shift();
+    if (line !== undefined) {
+      return Promise.resolve(line);
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private onData(data: string) {
+    this.buffer += data;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      if (this.waiting) {
+        const { resolve } = this.waiting;
+        this.waiting = undefined;
+        resolve(line);
+      } else {
+        this.lines.push(line);
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.error ??= error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = undefined;
+      reject(this.error);
+    }
+    this.socket?.destroy();
+  }
+}
@@ -311,6 +311,7 @@ const logStartupInfo = () => {
       'Max Stream Expression Filters:',
       Env.MAX_STREAM_EXPRESSION_FILTERS.toString()
     );
+    logKeyValue('Max Stream Expression Macros:', Env.MAX_SEL_MACROS.toString());
     logKeyValue(
       'Timeout Range:',
       `${formatMilliseconds(Env.MIN_TIMEOUT)} - ${formatMilliseconds(Env.MAX_TIMEOUT)}`
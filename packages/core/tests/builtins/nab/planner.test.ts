@@ -0,0 +1,277 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Capabilities } from '../../../src/builtins/base/nab/api.js';
+import {
+  NabSearchPlanner,
+  NabSearchPlannerOptions,
+} from '../../../src/builtins/base/nab/planner.js';
+import { SearchMetadata } from '../../../src/builtins/base/debrid.js';
+import { ParsedId } from '../../../src/utils/id-parser.js';
+
+// the utils barrel imports most of the app, through import cycles that only
+// resolve under node's own module loader
+vi.mock('../../../src/utils/index.js', () => ({}));
+vi.mock('../../../src/builtins/utils/general.js', () => ({}));
+
+const searchFunction = (supportedParams: string[]) => ({
+  available: true,
+  supportedParams,
+});
+
+function capabilities(
+  options: {
+    title?: string;
+    searching?: Partial<Capabilities['searching']>;
+    categories?: number[];
+  } = {}
+): Capabilities {
+  return {
+    server: { title: options.title },
+    limits: undefined,
+    searching: {
+      search: searchFunction(['q']),
+      ...options.searching,
+    } as Capabilities['searching'],
+    categories: (options.categories ?? [2000, 5000]).map((id) => ({ id })),
+  };
+}
+
+function planner(
+  caps: Capabilities,
+  options: Partial<NabSearchPlannerOptions> = {}
+) {
+  return new NabSearchPlanner(caps, {
+    forceQuerySearch: false,
+    fallbackQuerySearch: false,
+    limit: '100',
+    buildQueries: ({ addYear, addSeasonEpisode }) => [
+      `The Show${addYear ? ' 2020' : ''}${addSeasonEpisode ? ' S01E02' : ''}`,
+    ],
+    ...options,
+  });
+}
+
+const episode = {
+  mediaType: 'series',
+  season: '1',
+  episode: '2',
+} as ParsedId;
+const movie = { mediaType: 'movie' } as ParsedId;
+
+const metadata: SearchMetadata = {
+  primaryTitle: 'The Show',
+  year: 2020,
+  imdbId: 'tt1234567',
+  tvdbId: 7654321,
+  tmdbId: 1234,
+} as SearchMetadata;
+
+describe('NabSearchPlanner', () => {
+  it('searches series by tvdb id before imdb id', () => {
+    const plan = planner(
+      capabilities({
+        searching: {
+          'tv-search': searchFunction([
+            'q',
+            'imdbid',
+            'tvdbid',
+            'season',
+            'ep',
+          ]),
+        },
+      })
+    ).plan(episode, metadata);
+
+    expect(plan?.searchFunction).toBe('tvsearch');
+    expect(plan?.steps).toEqual([
+      {
+        strategy: 'id',
+        searches: [
+          {
+            function: 'tvsearch',
+            params: {
+              cat: '5000',
+              ep: '2',
+              extended: '1',
+              limit: '100',
+              season: '1',
+              tvdbid: '7654321',
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('searches movies by imdb id, without the tt prefix', () => {
+    const plan = planner(
+      capabilities({
+        searching: {
+          'movie-search': searchFunction(['q', 'imdbid', 'tvdbid', 'year']),
+        },
+      })
+    ).plan(movie, metadata);
+
+    expect(plan?.steps[0].searches[0]).toEqual({
+      function: 'movie',
+      params: {
+        cat: '2000',
+        extended: '1',
+        imdbid: '1234567',
+        limit: '100',
+        year: '2020',
+      },
+    });
+  });
+
+  it('falls back to a text search when the indexer supports no ids', () => {
+    const plan = planner(
+      capabilities({
+        searching: { 'tv-search': searchFunction(['q', 'season', 'ep']) },
+      })
+    ).plan(episode, metadata);
+
+    expect(plan?.steps).toEqual([
+      {
+        strategy: 'query',
+        searches: [
+          {
+            function: 'tvsearch',
+            params: {
+              cat: '5000',
+              ep: '2',
+              extended: '1',
+              limit: '100',
+              q: 'The Show 2020',
+              season: '1',
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('only searches by text when query search is forced', () => {
+    const plan = planner(
+      capabilities({
+        searching: { 'tv-search': searchFunction(['q', 'tvdbid']) },
+      }),
+      { forceQuerySearch: true }
+    ).plan(episode, metadata);
+
+    expect(plan?.searchFunction).toBe('search');
+    expect(plan?.steps).toEqual([
+      {
+        strategy: 'query',
+        searches: [
+          {
+            function: 'search',
+            params: {
+              cat: '5000',
+              extended: '1',
+              limit: '100',
+              q: 'The Show 2020 S01E02',
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('always sends the season and episode to StremThru', () => {
+    const plan = planner(
+      capabilities({ title: 'StremThru', searching: {} })
+    ).plan(episode, metadata);
+
+    expect(plan?.steps).toEqual([
+      {
+        strategy: 'query',
+        searches: [
+          {
+            function: 'search',
+            params: {
+              cat: '5000',
+              ep: '2',
+              extended: '1',
+              limit: '100',
+              // the season and episode are not repeated in the query
+              q: 'The Show 2020',
+              season: '1',
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('adds the anime category when the indexer lists it', () => {
+    const anime = { ...metadata, isAnime: true };
+    expect(
+      planner(capabilities({ categories: [2000, 5000, 5070] })).plan(
+        episode,
+        anime
+      )?.steps[0].searches[0].params.cat
+    ).toBe('5000,5070');
+    expect(
+      planner(capabilities({ categories: [2000, 5070] })).plan(movie, anime)
+        ?.steps[0].searches[0].params.cat
+    ).toBe('2000,5070');
+    expect(
+      planner(capabilities({ categories: [5000] })).plan(episode, anime)
+        ?.steps[0].searches[0].params.cat
+    ).toBe('5000');
+    expect(
+      planner(capabilities({ categories: [] })).plan(episode, anime)?.steps[0]
+        .searches[0].params
+    ).not.toHaveProperty('cat');
+  });
+
+  it('runs a text search after the id search when fallback is enabled', () => {
+    const plan = planner(
+      capabilities({
+        searching: { 'tv-search': searchFunction(['tvdbid', 'season', 'ep']) },
+      }),
+      { fallbackQuerySearch: true }
+    ).plan(episode, metadata);
+
+    expect(plan?.steps.map((step) => step.strategy)).toEqual([
+      'id',
+      'fallback',
+    ]);
+    // tvsearch doesn't support q, so the fallback uses search
+    expect(plan?.steps[1].searches).toEqual([
+      {
+        function: 'search',
+        params: {
+          cat: '5000',
+          extended: '1',
+          limit: '100',
+          q: 'The Show 2020 S01E02',
+        },
+      },
+    ]);
+  });
+
+  it('drops searches that only differ in the case or punctuation of the query', () => {
+    const plan = planner(capabilities(), {
+      buildQueries: () => ['The Show: Part 1', 'the show part 1', 'The Show'],
+    }).plan(movie, metadata);
+
+    expect(plan?.steps).toHaveLength(1);
+    expect(plan?.steps[0].searches.map((search) => search.params.q)).toEqual([
+      'The Show: Part 1',
+      'The Show',
+    ]);
+  });
+
+  it('plans nothing when the indexer has no usable search function', () => {
+    expect(
+      planner(
+        capabilities({
+          searching: {
+            search: { available: false, supportedParams: [] },
+          },
+        })
+      ).plan(movie, metadata)
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,271 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  buildSearchRequests,
+  parseScraperDefinition,
+  parseSearchResults,
+  ScraperDefinition,
+} from '../../../src/builtins/scraper/definitions.js';
+
+// the utils barrel imports most of the app, through import cycles that only
+// resolve under node's own module loader
+vi.mock('../../../src/utils/index.js', () => ({
+  createLogger: () => ({ debug() {}, info() {}, warn() {}, error() {} }),
+  formatZodError: (error: Error) => error.message,
+}));
+
+const fixture = (name: string) =>
+  readFile(path.join(__dirname, '../../fixtures/scraper', name), 'utf-8');
+
+const htmlDefinition = parseScraperDefinition(
+  `
+id: example-html
+name: Example HTML
+links:
+  - https://tracker.example/
+search:
+  paths:
+    - path: search/{{ .Keywords }}
+  inputs:
+    imdb: "{{ .Query.IMDBIDShort }}"
+    season: "{{ if .Query.Season }}S{{ .Query.Season }}{{ end }}"
+  keywordsfilters:
+    - name: tolower
+  rows:
+    selector: tr.result
+  fields:
+    title:
+      selector: td.name
+      remove: span.badge
+    size:
+      selector: td.size
+    seeders:
+      selector: td.seeders
+    magnet:
+      selector: a.magnet
+      attribute: href
+      optional: true
+    download:
+      selector: a.download
+      attribute: href
+      optional: true
+`,
+  'yaml'
+);
+
+const jsonDefinition = parseScraperDefinition(
+  JSON.stringify({
+    id: 'example-json',
+    name: 'Example JSON',
+    links: ['https://api.example/'],
+    search: {
+      paths: [
+        { path: 'api/search', method: 'post', response: { type: 'json' } },
+      ],
+      inputs: { q: '{{ .Keywords }}' },
+      rows: { selector: '$.data.torrents' },
+      fields: {
+        title: { selector: 'name' },
+        size: { selector: 'size' },
+        seeders: { selector: 'stats.seeders' },
+        infohash: { selector: 'hash' },
+        magnet: {
+          text: 'magnet:?xt=urn:btih:{{ .Result.infohash }}',
+          optional: true,
+        },
+      },
+    },
+  }),
+  'json'
+);
+
+/**
+ * A definition that reads the title of each row of a JSON response through
+ * the given filters.
+ */
+function filterDefinition(
+  filters: NonNullable<
+    ScraperDefinition['search']['fields']['title']['filters']
+  >
+) {
+  return parseScraperDefinition(
+    JSON.stringify({
+      id: 'filters',
+      name: 'Filters',
+      links: ['https://filters.example/'],
+      search: {
+        paths: [{ path: 'search', response: { type: 'json' } }],
+        rows: { selector: '$' },
+        fields: {
+          title: { selector: 'title', filters },
+          infohash: { text: 'hash' },
+        },
+      },
+    }),
+    'json'
+  );
+}
+
+function filterTitle(
+  title: string,
+  filters: Parameters<typeof filterDefinition>[0]
+): string | undefined {
+  return parseSearchResults(
+    filterDefinition(filters),
+    JSON.stringify([{ title }]),
+    'json'
+  )[0]?.title;
+}
+
+describe('parseScraperDefinition', () => {
+  it('rejects definitions without a way to get a torrent', () => {
+    expect(() =>
+      parseScraperDefinition(
+        JSON.stringify({
+          id: 'invalid',
+          name: 'Invalid',
+          links: ['https://invalid.example/'],
+          search: {
+            paths: [{ path: 'search' }],
+            rows: { selector: 'tr' },
+            fields: { title: { selector: 'td' } },
+          },
+        }),
+        'json'
+      )
+    ).toThrow(/infohash, magnet or download/);
+  });
+});
+
+describe('buildSearchRequests', () => {
+  it('renders the path and inputs of GET requests', () => {
+    const [request] = buildSearchRequests(htmlDefinition, {
+      keywords: 'Big Buck Bunny',
+      imdbId: 'tt1254207',
+    });
+    expect(request.method).toBe('GET');
+    expect(request.responseType).toBe('html');
+    const url = new URL(request.url);
+    expect(url.pathname).toBe('/search/big%20buck%20bunny');
+    expect(url.searchParams.get('imdb')).toBe('1254207');
+    // inputs that render to nothing are left out
+    expect(url.searchParams.has('season')).toBe(false);
+  });
+
+  it('sends the inputs of POST requests as a form', () => {
+    const [request] = buildSearchRequests(jsonDefinition, {
+      keywords: 'Tears of Steel',
+    });
+    expect(request.method).toBe('POST');
+    expect(request.headers['Content-Type']).toBe(
+      'application/x-www-form-urlencoded'
+    );
+    expect(request.body).toBe('q=Tears+of+Steel');
+  });
+});
+
+describe('parseSearchResults', () => {
+  it('extracts results from HTML with selectors', async () => {
+    const results = parseSearchResults(
+      htmlDefinition,
+      await fixture('search.html'),
+      'html'
+    );
+    expect(results).toEqual([
+      {
+        title: 'Big.Buck.Bunny.2008.1080p.BluRay.x264',
+        size: 1610612736,
+        seeders: 1204,
+        infoHash: undefined,
+        magnet:
+          'magnet:?xt=urn:btih:DD8255ECDC7CA55FB0BBF81323D87062DB1F6D1C&dn=Big+Buck+Bunny',
+        downloadUrl: undefined,
+      },
+      {
+        title: 'Sintel.2010.720p.WEB-DL',
+        size: 734003200,
+        seeders: undefined,
+        infoHash: undefined,
+        magnet: undefined,
+        downloadUrl: 'https://tracker.example/download/2.torrent',
+      },
+    ]);
+  });
+
+  it('extracts results from JSON with paths and templates', async () => {
+    const results = parseSearchResults(
+      jsonDefinition,
+      await fixture('search.json'),
+      'json'
+    );
+    expect(results).toEqual([
+      {
+        title: 'Tears.of.Steel.2012.2160p.WEB-DL',
+        size: 4294967296,
+        seeders: 52,
+        infoHash: '209c8226b299b308beaf2b9cd3fb49212dbd13ec',
+        magnet: 'magnet:?xt=urn:btih:209C8226B299B308BEAF2B9CD3FB49212DBD13EC',
+        downloadUrl: undefined,
+      },
+      // the row without a hash is skipped, as the infohash isn't optional
+    ]);
+  });
+
+  it('throws when the rows selector does not select an array', () => {
+    expect(() =>
+      parseSearchResults(jsonDefinition, JSON.stringify({ data: {} }), 'json')
+    ).toThrow(/did not select an array/);
+  });
+});
+
+describe('filters', () => {
+  it.each([
+    ['replace', 'a.b.c', [{ name: 'replace', args: ['.', ' '] }], 'a b c'],
+    [
+      're_replace',
+      'a1b22c',
+      [{ name: 're_replace', args: ['\\d+', '-'] }],
+      'a-b-c',
+    ],
+    ['regexp', 'Size: 12 GB', [{ name: 'regexp', args: '(\\d+ GB)' }], '12 GB'],
+    ['split', 'a|b|c', [{ name: 'split', args: ['|', 1] }], 'b'],
+    ['trim', '--a--', [{ name: 'trim', args: '-' }], 'a'],
+    ['append', 'a', [{ name: 'append', args: 'b' }], 'ab'],
+    ['prepend', 'b', [{ name: 'prepend', args: 'a' }], 'ab'],
+    ['tolower', 'ABC', [{ name: 'tolower' }], 'abc'],
+    ['toupper', 'abc', [{ name: 'toupper' }], 'ABC'],
+    ['urldecode', 'a%20b+c', [{ name: 'urldecode' }], 'a b c'],
+    ['urlencode', 'a b', [{ name: 'urlencode' }], 'a%20b'],
+    [
+      'querystring',
+      '/details?id=42&name=x',
+      [{ name: 'querystring', args: 'id' }],
+      '42',
+    ],
+  ] as const)('applies %s', (_, title, filters, expected) => {
+    expect(filterTitle(title, filters as any)).toBe(expected);
+  });
+
+  it('keeps malformed values when url decoding', () => {
+    expect(filterTitle('100%+Legit', [{ name: 'urldecode' }])).toBe(
+      '100% Legit'
+    );
+  });
+
+  it('applies filters in order', () => {
+    expect(
+      filterTitle('The.Movie.2020', [
+        { name: 'replace', args: ['.', ' '] },
+        { name: 'toupper' },
+        { name: 'append', args: ' [x]' },
+      ])
+    ).toBe('THE MOVIE 2020 [x]');
+  });
+
+  it('skips rows whose required field is empty after filtering', () => {
+    expect(
+      filterTitle('no digits', [{ name: 'regexp', args: '(\\d+)' }])
+    ).toBeUndefined();
+  });
+});
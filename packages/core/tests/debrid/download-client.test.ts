@@ -0,0 +1,219 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DownloadClientService,
+  DownloadRequest,
+} from '../../src/debrid/download-client.js';
+import {
+  FakeDownloadClient,
+  FakeServer,
+  startFakeIndexer,
+  startFakeNZBGet,
+  startFakeSABnzbd,
+} from '../fakes/download-clients.js';
+
+// the utils barrel imports most of the app, through import cycles that only
+// resolve under node's own module loader
+vi.mock('../../src/utils/index.js', async () => ({
+  constants: await import('../../src/utils/constants.js'),
+  Env: {},
+  Cache: {
+    getInstance: () => {
+      const cache = new Map<string, unknown>();
+      return {
+        get: async (key: string) => cache.get(key),
+        set: async (key: string, value: unknown) => void cache.set(key, value),
+      };
+    },
+  },
+  DistributedLock: {
+    getInstance: () => ({
+      withLock: async (_key: string, fn: () => Promise<unknown>) => ({
+        result: await fn(),
+      }),
+    }),
+  },
+  NzbProxyManager: {
+    getUserKey: (key: string) => key,
+    checkRateLimit: () => ({ allowed: true }),
+    checkSizeLimit: () => ({ allowed: true }),
+    incrementRateLimit: () => {},
+  },
+  createLogger: () => ({ debug() {}, info() {}, warn() {}, error() {} }),
+  formatZodError: (error: Error) => error.message,
+  getSimpleTextHash: (text: string) => text,
+  makeRequest: (url: string, { method }: { method: string }) =>
+    fetch(url, { method }),
+  maskSensitiveInfo: (value: string) => value,
+}));
+vi.mock('../../src/debrid/utils.js', () => ({}));
+vi.mock('@viren070/parse-torrent-title', () => ({}));
+vi.mock('../../src/proxy/builtin.js', () => ({ BuiltinProxy: class {} }));
+vi.mock('../../src/streams/fingerprints.js', () => ({
+  ReleaseFingerprints: {},
+}));
+
+const NZB = '<?xml version="1.0" encoding="UTF-8"?><nzb></nzb>';
+const credentials = { username: 'nzbget', password: 'tegbzn6789' };
+
+const servers: FakeServer[] = [];
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map((server) => server.close()));
+});
+
+async function start<T extends FakeServer>(server: Promise<T>): Promise<T> {
+  servers.push(await server);
+  return server;
+}
+
+async function startIndexer() {
+  const indexer = await start(
+    startFakeIndexer({
+      'the-show': { filename: 'The%20Show%20S01E01.nzb', content: NZB },
+      'bad-escape': { filename: 'The%Show.nzb', content: NZB },
+    })
+  );
+  const request = (name: string): DownloadRequest => ({
+    nzb: `${indexer.url}/${name}`,
+    name: 'The Show S01E01',
+    category: 'tv',
+  });
+  return { indexer, request };
+}
+
+const clients: {
+  name: string;
+  start: () => Promise<FakeDownloadClient>;
+  create: (url: string) => DownloadClientService;
+  // put a job in the state its client lists for each download job status
+  queued: (job: FakeDownloadClient['jobs'][number]) => void;
+  completed: (job: FakeDownloadClient['jobs'][number]) => void;
+  failed: (job: FakeDownloadClient['jobs'][number]) => void;
+}[] = [
+  {
+    name: 'SABnzbd',
+    start: () => startFakeSABnzbd('apikey'),
+    create: (url) =>
+      new DownloadClientService({ type: 'sabnzbd', url, apiKey: 'apikey' }),
+    queued: (job) =>
+      Object.assign(job, { status: 'Downloading', percentage: 75 }),
+    completed: (job) =>
+      Object.assign(job, { stage: 'history', status: 'Completed' }),
+    failed: (job) =>
+      Object.assign(job, {
+        stage: 'history',
+        status: 'Failed',
+        failMessage: 'Repair failed',
+      }),
+  },
+  {
+    name: 'NZBGet',
+    start: () => startFakeNZBGet(credentials),
+    create: (url) =>
+      new DownloadClientService({ type: 'nzbget', url, ...credentials }),
+    queued: (job) =>
+      Object.assign(job, {
+        status: 'DOWNLOADING',
+        fileSizeMB: 100,
+        remainingSizeMB: 25,
+      }),
+    completed: (job) =>
+      Object.assign(job, { stage: 'history', status: 'SUCCESS/ALL' }),
+    failed: (job) =>
+      Object.assign(job, { stage: 'history', status: 'FAILURE/PAR' }),
+  },
+];
+
+describe.each(clients)('$name', (client) => {
+  it('uploads the NZB with its filename, and only once', async () => {
+    const fake = await start(client.start());
+    const { indexer, request } = await startIndexer();
+    const service = client.create(fake.url);
+
+    const jobId = await service.send(request('the-show'));
+    expect(fake.jobs).toMatchObject([
+      {
+        id: jobId,
+        filename: 'The Show S01E01.nzb',
+        content: NZB,
+        category: 'tv',
+      },
+    ]);
+
+    await expect(service.send(request('the-show'))).resolves.toBe(jobId);
+    expect(fake.jobs).toHaveLength(1);
+    expect(indexer.downloads).toBe(1);
+  });
+
+  it('keeps filenames with malformed escapes as they are', async () => {
+    const fake = await start(client.start());
+    const { request } = await startIndexer();
+
+    await client.create(fake.url).send(request('bad-escape'));
+    expect(fake.jobs[0].filename).toBe('The%Show.nzb');
+  });
+
+  it('follows the job from the queue to the history', async () => {
+    const fake = await start(client.start());
+    const { request } = await startIndexer();
+    const service = client.create(fake.url);
+
+    await expect(service.getJob(request('the-show'))).resolves.toBeUndefined();
+    const id = await service.send(request('the-show'));
+    const [job] = fake.jobs;
+    await expect(service.getJob(request('the-show'))).resolves.toMatchObject({
+      id,
+      status: 'queued',
+    });
+
+    client.queued(job);
+    await expect(service.getJob(request('the-show'))).resolves.toMatchObject({
+      id,
+      category: 'tv',
+      status: 'downloading',
+      progress: 75,
+    });
+
+    client.completed(job);
+    await expect(service.getJob(request('the-show'))).resolves.toMatchObject({
+      id,
+      status: 'completed',
+      progress: 100,
+    });
+
+    client.failed(job);
+    const failed = await service.getJob(request('the-show'));
+    expect(failed).toMatchObject({ id, status: 'failed' });
+    expect(failed?.error).toBeTruthy();
+  });
+
+  it('returns nothing for jobs the client no longer lists', async () => {
+    const fake = await start(client.start());
+    const { request } = await startIndexer();
+    const service = client.create(fake.url);
+
+    await service.send(request('the-show'));
+    fake.jobs.length = 0;
+    await expect(service.getJob(request('the-show'))).resolves.toBeUndefined();
+  });
+
+  it('fails to send with the wrong credentials', async () => {
+    const fake = await start(client.start());
+    const { request } = await startIndexer();
+
+    const service =
+      client.name === 'SABnzbd'
+        ? new DownloadClientService({
+            type: 'sabnzbd',
+            url: fake.url,
+            apiKey: 'wrong',
+          })
+        : new DownloadClientService({
+            type: 'nzbget',
+            url: fake.url,
+            username: credentials.username,
+            password: 'wrong',
+          });
+    await expect(service.send(request('the-show'))).rejects.toThrow();
+    expect(fake.jobs).toHaveLength(0);
+  });
+});
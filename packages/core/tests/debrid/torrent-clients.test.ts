@@ -0,0 +1,207 @@
+import { createHash } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QBittorrentService } from '../../src/debrid/qbittorrent.js';
+import { TransmissionService } from '../../src/debrid/transmission.js';
+import { TorrentClientService } from '../../src/debrid/torrent-client-base.js';
+import {
+  FakeTorrentClient,
+  startFakeQBittorrent,
+  startFakeTransmission,
+} from '../fakes/torrent-clients.js';
+
+const caches = vi.hoisted(() => new Map<string, Map<string, unknown>>());
+
+// the utils barrel imports most of the app, through import cycles that only
+// resolve under node's own module loader
+vi.mock('../../src/utils/index.js', async () => ({
+  constants: await import('../../src/utils/constants.js'),
+  Env: {
+    BUILTIN_DEBRID_LIBRARY_CACHE_TTL: 60,
+    BUILTIN_DEBRID_PLAYBACK_LINK_CACHE_TTL: 60,
+  },
+  Cache: {
+    getInstance: (name: string) => {
+      const cache = new Map<string, unknown>();
+      caches.set(name, cache);
+      return {
+        get: async (key: string) => cache.get(key),
+        set: async (key: string, value: unknown) => void cache.set(key, value),
+        delete: async (key: string) => void cache.delete(key),
+      };
+    },
+  },
+  DistributedLock: {
+    getInstance: () => ({
+      withLock: async (_key: string, fn: () => Promise<unknown>) => ({
+        result: await fn(),
+      }),
+    }),
+  },
+  createLogger: () => ({ debug() {}, info() {}, warn() {}, error() {} }),
+  getTimeTakenSincePoint: () => '0ms',
+  maskSensitiveInfo: (value: string) => value,
+  fromUrlSafeBase64: (data: string) =>
+    Buffer.from(data, 'base64url').toString('utf-8'),
+  getSimpleTextHash: (text: string) =>
+    createHash('sha256').update(text).digest('hex'),
+}));
+// file selection is covered by its own tests, pick the file that was asked for
+vi.mock('../../src/debrid/utils.js', () => ({
+  selectFileInTorrentOrNZB: async (
+    _torrent: unknown,
+    download: { files: { name: string }[] },
+    _parsedFiles: unknown,
+    _metadata: unknown,
+    { chosenFilename }: { chosenFilename?: string }
+  ) => download.files.find((file) => file.name === chosenFilename),
+}));
+vi.mock('@viren070/parse-torrent-title', () => ({
+  parseTorrentTitle: () => ({}),
+}));
+vi.mock('../../src/proxy/builtin.js', () => ({ BuiltinProxy: class {} }));
+
+const HASH = 'a'.repeat(40);
+const credentials = { username: 'user', password: 'secret' };
+
+const clients: {
+  name: string;
+  start: typeof startFakeQBittorrent;
+  create: (url: string, password?: string) => TorrentClientService;
+}[] = [
+  {
+    name: 'qBittorrent',
+    start: startFakeQBittorrent,
+    create: (url, password = credentials.password) =>
+      new QBittorrentService({
+        token: Buffer.from(
+          JSON.stringify({
+            qbittorrentUrl: url,
+            qbittorrentUser: credentials.username,
+            qbittorrentPassword: password,
+            fileServerUrl: 'http://files.local',
+            downloadPath: '/downloads',
+          })
+        ).toString('base64url'),
+      }),
+  },
+  {
+    name: 'Transmission',
+    start: startFakeTransmission,
+    create: (url, password = credentials.password) =>
+      new TransmissionService({
+        token: Buffer.from(
+          JSON.stringify({
+            transmissionUrl: url,
+            transmissionUser: credentials.username,
+            transmissionPassword: password,
+            fileServerUrl: 'http://files.local',
+            downloadPath: '/downloads',
+          })
+        ).toString('base64url'),
+      }),
+  },
+];
+
+describe.each(clients)('$name', ({ start, create }) => {
+  let fake: FakeTorrentClient;
+
+  beforeEach(async () => {
+    fake = await start(credentials);
+    fake.torrents.push({
+      hash: HASH,
+      name: 'Show S01',
+      size: 300,
+      progress: 1,
+      savePath: '/downloads',
+      files: [
+        { name: 'Show S01/Show S01E01.mkv', size: 100 },
+        { name: 'Show S01/Show S01E02.mkv', size: 200 },
+      ],
+    });
+  });
+
+  afterEach(() => fake.close());
+
+  it('reports downloaded torrents as cached with their files', async () => {
+    const [cached, missing] = await create(fake.url).checkMagnets([
+      `magnet:?xt=urn:btih:${HASH}`,
+      `magnet:?xt=urn:btih:${'b'.repeat(40)}`,
+    ]);
+
+    expect(cached).toMatchObject({
+      hash: HASH,
+      status: 'cached',
+      files: [
+        {
+          name: 'Show S01E01.mkv',
+          path: '/downloads/Show S01/Show S01E01.mkv',
+          link: 'http://files.local/Show%20S01/Show%20S01E01.mkv',
+        },
+        { name: 'Show S01E02.mkv' },
+      ],
+    });
+    expect(missing).toEqual({
+      id: -1,
+      hash: 'b'.repeat(40),
+      status: 'unknown',
+    });
+  });
+
+  it('adds magnets the client does not have', async () => {
+    const hash = 'c'.repeat(40);
+
+    const download = await create(fake.url).addMagnet(
+      `magnet:?xt=urn:btih:${hash}`
+    );
+
+    expect(download).toMatchObject({ hash, status: 'queued' });
+    expect(fake.torrents.map((torrent) => torrent.hash)).toContain(hash);
+  });
+
+  it('resolves the chosen file of a downloaded torrent', async () => {
+    const link = await create(fake.url).resolve(
+      {
+        type: 'torrent',
+        hash: HASH,
+        sources: [],
+        filename: 'Show S01E02.mkv',
+      } as any,
+      'Show S01E02.mkv',
+      false
+    );
+
+    expect(link).toBe('http://files.local/Show%20S01/Show%20S01E02.mkv');
+  });
+
+  it('starts a new session when the current one expires', async () => {
+    const service = create(fake.url);
+    await service.listMagnets();
+    fake.expireSession();
+    await service.checkMagnets([`magnet:?xt=urn:btih:${HASH}`]);
+
+    expect(fake.sessions).toBe(2);
+  });
+
+  it('fails with an unauthorized error for wrong credentials', async () => {
+    await expect(create(fake.url, 'wrong').listMagnets()).rejects.toMatchObject(
+      { code: 'UNAUTHORIZED' }
+    );
+  });
+});
+
+describe('QBittorrentService', () => {
+  it('does not store the password in the session cache key', async () => {
+    const sessions = caches.get('qbittorrent:session')!;
+    sessions.clear();
+    const fake = await startFakeQBittorrent(credentials);
+    try {
+      await clients[0].create(fake.url).listMagnets();
+    } finally {
+      await fake.close();
+    }
+
+    const keys = [...sessions.keys()];
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).not.toContain(credentials.password);
+  });
+});
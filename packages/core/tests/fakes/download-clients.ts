@@ -0,0 +1,245 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface FakeDownloadJob {
+  id: string;
+  filename: string;
+  // the NZB that was uploaded
+  content: string;
+  name?: string;
+  category?: string;
+  // where the job is listed, and the status it is listed with there
+  stage: 'queue' | 'history';
+  status: string;
+  // SABnzbd only
+  percentage?: number;
+  failMessage?: string;
+  // NZBGet only
+  fileSizeMB?: number;
+  remainingSizeMB?: number;
+}
+
+export interface FakeServer {
+  url: string;
+  close: () => Promise<void>;
+}
+
+export interface FakeDownloadClient extends FakeServer {
+  jobs: FakeDownloadJob[];
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+async function listen(
+  handler: (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    body: Buffer
+  ) => void
+): Promise<FakeServer> {
+  const server = http.createServer(async (req, res) =>
+    handler(req, res, await readBody(req))
+  );
+  await new Promise<void>((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve())
+  );
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+const json = (res: http.ServerResponse, data: unknown, status = 200) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(data));
+};
+
+/**
+ * An indexer that serves NZBs by name, with the filename in the
+ * Content-Disposition header as indexers send it.
+ */
+export async function startFakeIndexer(
+  nzbs: Record<string, { filename: string; content: string }>
+): Promise<FakeServer & { downloads: number }> {
+  const indexer = { downloads: 0 };
+  const server = await listen((req, res) => {
+    const nzb = nzbs[new URL(req.url!, 'http://localhost').pathname.slice(1)];
+    if (!nzb) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    indexer.downloads++;
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename*=UTF-8''${nzb.filename}`
+    );
+    res.end(nzb.content);
+  });
+  return Object.assign(indexer, server);
+}
+
+/**
+ * The SABnzbd API, accepting requests with its API key.
+ */
+export async function startFakeSABnzbd(
+  apiKey: string
+): Promise<FakeDownloadClient> {
+  const jobs: FakeDownloadJob[] = [];
+  const server = await listen((req, res, body) => {
+    const url = new URL(req.url!, 'http://localhost');
+    if (url.pathname !== '/api') {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    if (url.searchParams.get('apikey') !== apiKey) {
+      json(res, { status: false, error: 'API Key Incorrect' }, 403);
+      return;
+    }
+    const nzoIds = url.searchParams.get('nzo_ids')?.split(',');
+    const listed = (stage: FakeDownloadJob['stage']) =>
+      jobs.filter(
+        (job) => job.stage === stage && (!nzoIds || nzoIds.includes(job.id))
+      );
+
+    switch (url.searchParams.get('mode')) {
+      case 'addfile': {
+        // the NZB is the only part of the multipart body
+        const part = body.toString('utf-8');
+        const filename = part.match(/filename="([^"]+)"/)?.[1];
+        const content = part.split('\r\n\r\n')[1]?.split('\r\n--')[0];
+        if (!filename || !content) {
+          json(res, { status: false, error: 'No NZB file' });
+          return;
+        }
+        const job: FakeDownloadJob = {
+          id: `SABnzbd_nzo_${jobs.length + 1}`,
+          filename,
+          content,
+          name: url.searchParams.get('nzbname') ?? undefined,
+          category: url.searchParams.get('cat') ?? undefined,
+          stage: 'queue',
+          status: 'Queued',
+          percentage: 0,
+        };
+        jobs.push(job);
+        json(res, { status: true, nzo_ids: [job.id] });
+        return;
+      }
+      case 'queue':
+        json(res, {
+          queue: {
+            slots: listed('queue').map((job) => ({
+              nzo_id: job.id,
+              status: job.status,
+              filename: job.name,
+              cat: job.category,
+              percentage: String(job.percentage ?? 0),
+            })),
+          },
+        });
+        return;
+      case 'history':
+        json(res, {
+          history: {
+            slots: listed('history').map((job) => ({
+              nzo_id: job.id,
+              status: job.status,
+              name: job.name,
+              category: job.category,
+              fail_message: job.failMessage ?? '',
+            })),
+          },
+        });
+        return;
+      default:
+        json(res, { status: false, error: 'Not implemented' });
+    }
+  });
+  return Object.assign(server, { jobs });
+}
+
+/**
+ * The NZBGet JSON-RPC API, accepting requests with its control username and
+ * password.
+ */
+export async function startFakeNZBGet(credentials: {
+  username: string;
+  password: string;
+}): Promise<FakeDownloadClient> {
+  const jobs: FakeDownloadJob[] = [];
+  const authorization = `Basic ${Buffer.from(
+    `${credentials.username}:${credentials.password}`
+  ).toString('base64')}`;
+  const server = await listen((req, res, body) => {
+    if (req.url !== '/jsonrpc' || req.method !== 'POST') {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    if (req.headers.authorization !== authorization) {
+      res.statusCode = 401;
+      res.end();
+      return;
+    }
+    const { method, params } = JSON.parse(body.toString('utf-8'));
+    const listed = (stage: FakeDownloadJob['stage']) =>
+      jobs.filter((job) => job.stage === stage);
+
+    switch (method) {
+      case 'append': {
+        const [filename, content, category] = params;
+        const job: FakeDownloadJob = {
+          id: String(jobs.length + 1),
+          filename,
+          content: Buffer.from(content, 'base64').toString('utf-8'),
+          name: filename.replace(/\.nzb$/, ''),
+          category,
+          stage: 'queue',
+          status: 'QUEUED',
+        };
+        jobs.push(job);
+        json(res, { result: Number(job.id) });
+        return;
+      }
+      case 'listgroups':
+        json(res, {
+          result: listed('queue').map((job) => ({
+            NZBID: Number(job.id),
+            NZBName: job.name,
+            Status: job.status,
+            Category: job.category,
+            FileSizeMB: job.fileSizeMB ?? 0,
+            RemainingSizeMB: job.remainingSizeMB ?? 0,
+          })),
+        });
+        return;
+      case 'history':
+        json(res, {
+          result: listed('history').map((job) => ({
+            NZBID: Number(job.id),
+            Name: job.name,
+            Status: job.status,
+            Category: job.category,
+          })),
+        });
+        return;
+      default:
+        json(res, {
+          result: null,
+          error: { name: 'JsonRpcError', message: `Invalid method ${method}` },
+        });
+    }
+  });
+  return Object.assign(server, { jobs });
+}
@@ -0,0 +1,110 @@
+import net from 'net';
+
+export interface FakeNNTPServerOptions {
+  // message ids (without angle brackets) that exist on the server
+  articles?: string[];
+  username?: string;
+  password?: string;
+  // never send a greeting, so clients time out
+  silent?: boolean;
+}
+
+export interface FakeNNTPServer {
+  port: number;
+  // the most connections that were open at the same time
+  maxConnections: number;
+  commands: string[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Start an NNTP server on a random local port that answers STAT from a fixed
+ * set of articles and AUTHINFO USER/PASS with fixed credentials.
+ */
+export async function startFakeNNTPServer(
+  options: FakeNNTPServerOptions = {}
+): Promise<FakeNNTPServer> {
+  const articles = new Set(options.articles ?? []);
+  const sockets = new Set<net.Socket>();
+  let open = 0;
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    fake.maxConnections = Math.max(fake.maxConnections, ++open);
+    // a connection is done once the client quits, its socket may close later
+    let done = false;
+    const end = () => {
+      if (!done) open--;
+      done = true;
+    };
+    socket.on('close', () => {
+      end();
+      sockets.delete(socket);
+    });
+    socket.on('error', () => {});
+    if (options.silent) return;
+
+    let user: string | undefined;
+    let authenticated = !options.username;
+    let buffer = '';
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply('200 fake server ready');
+
+    socket.on('data', (data) => {
+      buffer += data.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        fake.commands.push(line);
+        const [command, ...args] = line.split(' ');
+        switch (command.toUpperCase()) {
+          case 'AUTHINFO':
+            if (args[0] === 'USER') {
+              user = args[1];
+              reply('381 password required');
+            } else if (
+              user === options.username &&
+              args[1] === options.password
+            ) {
+              authenticated = true;
+              reply('281 authentication accepted');
+            } else {
+              reply('481 authentication failed');
+            }
+            break;
+          case 'STAT':
+            if (!authenticated) {
+              reply('480 authentication required');
+            } else if (articles.has(args[0].replace(/^<|>$/g, ''))) {
+              reply(`223 0 ${args[0]}`);
+            } else {
+              reply('430 no such article');
+            }
+            break;
+          case 'QUIT':
+            end();
+            reply('205 bye');
+            socket.end();
+            break;
+          default:
+            reply('500 unknown command');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve())
+  );
+  const fake: FakeNNTPServer = {
+    port: (server.address() as net.AddressInfo).port,
+    maxConnections: 0,
+    commands: [],
+    close: () => {
+      for (const socket of sockets) socket.destroy();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+  return fake;
+}
@@ -0,0 +1,227 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface FakeTorrent {
+  hash: string;
+  name: string;
+  size: number;
+  progress: number;
+  savePath: string;
+  files: { name: string; size: number }[];
+}
+
+export interface FakeTorrentClient {
+  url: string;
+  torrents: FakeTorrent[];
+  // the number of successful logins or session ids handed out
+  sessions: number;
+  // invalidate the current session, as a restart of the client would
+  expireSession: () => void;
+  close: () => Promise<void>;
+}
+
+const hashFromMagnet = (magnet: string) =>
+  magnet.match(/btih:([a-f0-9]{40})/i)![1].toLowerCase();
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return body;
+}
+
+async function listen(
+  handler: (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    body: string
+  ) => void,
+  client: Omit<FakeTorrentClient, 'url' | 'close'>
+): Promise<FakeTorrentClient> {
+  const server = http.createServer(async (req, res) =>
+    handler(req, res, await readBody(req))
+  );
+  await new Promise<void>((resolve) =>
+    server.listen(0, '127.0.0.1', () => resolve())
+  );
+  return Object.assign(client, {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  });
+}
+
+/**
+ * A qBittorrent WebUI (API v2) that only accepts requests with the SID cookie
+ * of its current session.
+ */
+export async function startFakeQBittorrent(credentials: {
+  username: string;
+  password: string;
+}): Promise<FakeTorrentClient> {
+  let sid: string | undefined;
+  const client = {
+    torrents: [] as FakeTorrent[],
+    sessions: 0,
+    expireSession: () => {
+      sid = undefined;
+    },
+  };
+
+  return listen((req, res, body) => {
+    const url = new URL(req.url!, 'http://localhost');
+    const form = new URLSearchParams(body);
+    const json = (data: unknown) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(data));
+    };
+
+    if (url.pathname === '/api/v2/auth/login') {
+      if (
+        form.get('username') !== credentials.username ||
+        form.get('password') !== credentials.password
+      ) {
+        res.end('Fails.');
+        return;
+      }
+      sid = `sid${++client.sessions}`;
+      res.setHeader('Set-Cookie', `SID=${sid}; HttpOnly; path=/`);
+      res.end('Ok.');
+      return;
+    }
+    if (!sid || req.headers.cookie !== `SID=${sid}`) {
+      res.statusCode = 403;
+      res.end('Forbidden');
+      return;
+    }
+
+    const info = (torrent: FakeTorrent) => ({
+      hash: torrent.hash,
+      name: torrent.name,
+      size: torrent.size,
+      progress: torrent.progress,
+      state: torrent.progress >= 1 ? 'uploading' : 'metaDL',
+      save_path: torrent.savePath,
+    });
+    switch (url.pathname) {
+      case '/api/v2/torrents/info': {
+        const hashes = url.searchParams.get('hashes');
+        json(
+          client.torrents
+            .filter((torrent) => !hashes || torrent.hash === hashes)
+            .map(info)
+        );
+        return;
+      }
+      case '/api/v2/torrents/files': {
+        const torrent = client.torrents.find(
+          (torrent) => torrent.hash === url.searchParams.get('hash')
+        );
+        json((torrent?.files ?? []).map((file, index) => ({ index, ...file })));
+        return;
+      }
+      case '/api/v2/torrents/add':
+        client.torrents.push({
+          hash: hashFromMagnet(form.get('urls')!),
+          name: 'added',
+          size: 0,
+          progress: 0,
+          savePath: '/downloads',
+          files: [],
+        });
+        res.end('Ok.');
+        return;
+      default:
+        res.statusCode = 404;
+        res.end();
+    }
+  }, client);
+}
+
+/**
+ * A Transmission RPC endpoint that requires basic auth and the session id
+ * header it hands out in 409 responses.
+ */
+export async function startFakeTransmission(credentials: {
+  username: string;
+  password: string;
+}): Promise<FakeTorrentClient> {
+  let sessionId = 'session0';
+  const client = {
+    torrents: [] as FakeTorrent[],
+    sessions: 0,
+    expireSession: () => {
+      sessionId = `session${client.sessions + 1}`;
+    },
+  };
+  const authorization = `Basic ${Buffer.from(
+    `${credentials.username}:${credentials.password}`
+  ).toString('base64')}`;
+
+  return listen((req, res, body) => {
+    if (req.url !== '/transmission/rpc') {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+    if (req.headers.authorization !== authorization) {
+      res.statusCode = 401;
+      res.end('Unauthorized');
+      return;
+    }
+    if (req.headers['x-transmission-session-id'] !== sessionId) {
+      client.sessions++;
+      res.statusCode = 409;
+      res.setHeader('X-Transmission-Session-Id', sessionId);
+      res.end();
+      return;
+    }
+
+    const { method, arguments: args } = JSON.parse(body);
+    const reply = (result: Record<string, unknown> = {}) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ result: 'success', arguments: result }));
+    };
+    switch (method) {
+      case 'torrent-get': {
+        const torrents = client.torrents
+          .filter((torrent) => !args.ids || args.ids.includes(torrent.hash))
+          .map((torrent) => ({
+            hashString: torrent.hash,
+            name: torrent.name,
+            totalSize: torrent.size,
+            percentDone: torrent.progress,
+            // seeding or queued to download
+            status: torrent.progress >= 1 ? 6 : 3,
+            error: 0,
+            downloadDir: torrent.savePath,
+            ...(args.fields.includes('files')
+              ? {
+                  files: torrent.files.map((file) => ({
+                    name: file.name,
+                    length: file.size,
+                  })),
+                }
+              : {}),
+          }));
+        reply({ torrents });
+        return;
+      }
+      case 'torrent-add':
+        client.torrents.push({
+          hash: hashFromMagnet(args.filename),
+          name: 'added',
+          size: 0,
+          progress: 0,
+          savePath: '/downloads',
+          files: [],
+        });
+        reply({ 'torrent-added': {} });
+        return;
+      default:
+        res.end(JSON.stringify({ result: `unknown method ${method}` }));
+    }
+  }, client);
+}
@@ -0,0 +1,165 @@
+import { Parser } from 'expr-eval';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  SEL_SIGNATURES,
+  StreamExpressionEngine,
+  StreamSelector,
+} from '../../src/parser/streamExpression.js';
+
+// the utils barrel imports most of the app, through import cycles that only
+// resolve under node's own module loader
+vi.mock('../../src/utils/index.js', () => ({
+  createLogger: () => ({ debug() {}, info() {}, warn() {}, error() {} }),
+}));
+vi.mock('../../src/utils/config.js', () => ({
+  formatZodError: (error: Error) => error.message,
+}));
+
+const analyse = (expression: string, kind: 'select' | 'group' = 'select') =>
+  StreamExpressionEngine.analyse(expression, kind, [
+    { name: 'onlyCached', parameters: ['s'], expression: 'cached(s)' },
+  ]).map(({ severity, message }) => ({ severity, message }));
+
+describe('SEL_SIGNATURES', () => {
+  it('has a signature for every function the engine defines', () => {
+    const defaults = new Parser().functions;
+    // functions of expr-eval that weren't replaced are checked as builtins
+    const defined = Object.entries(new StreamSelector({})['parser'].functions)
+      .filter(([name, fn]) => fn !== defaults[name])
+      .map(([name]) => name);
+    expect(Object.keys(SEL_SIGNATURES).sort()).toEqual(defined.sort());
+  });
+});
+
+describe('StreamExpressionEngine.analyse', () => {
+  it('accepts valid expressions', () => {
+    expect(analyse('cached(streams)')).toEqual([]);
+    expect(analyse("resolution(streams, '2160p')")).toEqual([]);
+    expect(analyse('slice(onlyCached(streams), 0, 5)')).toEqual([]);
+    expect(analyse('count(streams) > 1')).toEqual([]);
+  });
+
+  it('reports syntax errors', () => {
+    expect(analyse('cached(streams')).toEqual([
+      { severity: 'error', message: "Expected ')'" },
+    ]);
+  });
+
+  it('suggests known functions for unknown ones', () => {
+    expect(analyse('cachd(streams)')).toEqual([
+      {
+        severity: 'error',
+        message: "Unknown function 'cachd'. Did you mean 'cached'?",
+      },
+    ]);
+  });
+
+  it('checks the number and types of arguments', () => {
+    expect(analyse('resolution(streams)')).toEqual([
+      {
+        severity: 'error',
+        message: "'resolution' expects at least 2 argument(s), got 1",
+      },
+    ]);
+    expect(analyse("slice(streams, 'a')")).toEqual([
+      {
+        severity: 'error',
+        message: "Argument 2 of 'slice' must be a number, got a string",
+      },
+    ]);
+    expect(analyse('onlyCached(streams, 1)')).toEqual([
+      {
+        severity: 'error',
+        message: "Macro 'onlyCached' expects 1 argument(s), got 2",
+      },
+    ]);
+  });
+
+  it('checks string arguments against their known values', () => {
+    expect(analyse("resolution(streams, '4k')")).toEqual([
+      {
+        severity: 'warning',
+        message: "'4k' is not a known resolution and will never match",
+      },
+    ]);
+    expect(analyse("count(values(streams, 'foo')) > 0")).toEqual([
+      {
+        severity: 'error',
+        message:
+          "'foo' is not a valid attribute. Expected one of: bitrate, size, folderSize, age, duration, seeders",
+      },
+    ]);
+  });
+
+  it('reports functions used without being called', () => {
+    expect(analyse('cached')).toEqual([
+      {
+        severity: 'error',
+        message: "'cached' is a function and must be called, e.g. cached(...)",
+      },
+    ]);
+  });
+
+  it('reports variables that are not available to the kind of expression', () => {
+    expect(analyse('foo')).toEqual([
+      { severity: 'error', message: "Unknown variable 'foo'" },
+    ]);
+    expect(analyse('totalTimeTaken > 1000')).toEqual([
+      {
+        severity: 'error',
+        message:
+          "'totalTimeTaken' is not available in stream expressions, only in group conditions and exit conditions",
+      },
+    ]);
+    expect(analyse('totalTimeTaken > 1000', 'group')).toEqual([]);
+  });
+
+  it('reports the result type of the expression', () => {
+    expect(analyse("values(streams, 'size')")).toEqual([
+      {
+        severity: 'error',
+        message:
+          'A stream expression must evaluate to a stream array or a boolean, got an array',
+      },
+    ]);
+  });
+
+  it('warns about conditions that are always true', () => {
+    expect(analyse('count(streams) > -1')).toEqual([
+      { severity: 'warning', message: 'This condition is always true' },
+    ]);
+  });
+
+  it('reports the position of problems', () => {
+    expect(
+      StreamExpressionEngine.analyse("slice(streams,\n  'a')", 'select')
+    ).toMatchObject([{ line: 2, column: 3, endLine: 2, endColumn: 6 }]);
+  });
+});
+
+describe('StreamExpressionEngine.validateMacros', () => {
+  it('accepts valid macros', () => {
+    expect(() =>
+      StreamExpressionEngine.validateMacros([
+        { name: 'onlyCached', parameters: ['s'], expression: 'cached(s)' },
+      ])
+    ).not.toThrow();
+  });
+
+  it('rejects macros named after builtins', () => {
+    expect(() =>
+      StreamExpressionEngine.validateMacros([
+        { name: 'cached', expression: 'streams' },
+      ])
+    ).toThrow("Macro name 'cached' clashes with a built-in function");
+  });
+
+  it('rejects recursive macros', () => {
+    expect(() =>
+      StreamExpressionEngine.validateMacros([
+        { name: 'a', expression: 'b()' },
+        { name: 'b', expression: 'a()' },
+      ])
+    ).toThrow('Macros cannot be recursive: a → b → a');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { removeSiteTags } from '../../src/parser/utils.js';
+
+// the utils barrel imports most of the app, through import cycles that only
+// resolve under node's own module loader
+vi.mock('../../src/utils/index.js', () => ({
+  createLogger: () => ({ debug() {}, info() {}, warn() {}, error() {} }),
+}));
+
+describe('removeSiteTags', () => {
+  it.each([
+    [
+      'The.Show.S01E01.1080p.WEB.h264-NTb[EZTVx.to].mkv',
+      'The.Show.S01E01.1080p.WEB.h264-NTb.mkv',
+    ],
+    [
+      'The.Show.S01E01.1080p.WEB.h264-NTb-[EZTVx.to].mkv',
+      'The.Show.S01E01.1080p.WEB.h264-NTb.mkv',
+    ],
+    [
+      'The.Movie.2019.2160p.UHD.BluRay.x265-SPARKS[rarbg]',
+      'The.Movie.2019.2160p.UHD.BluRay.x265-SPARKS',
+    ],
+    [
+      'The.Movie.2019.1080p.BluRay.x264-SPARKS-RARBG.mkv',
+      'The.Movie.2019.1080p.BluRay.x264-SPARKS.mkv',
+    ],
+    [
+      'The Show S01E01 720p HDTV x264-KILLERS [ettv]',
+      'The Show S01E01 720p HDTV x264-KILLERS',
+    ],
+    ['[TGx] The Movie 2019 1080p', 'The Movie 2019 1080p'],
+    ['www.Torrenting.com - The Movie 2019 1080p', 'The Movie 2019 1080p'],
+  ])('removes the site tag from %s', (filename, expected) => {
+    expect(removeSiteTags(filename)).toBe(expected);
+  });
+
+  it.each([
+    'The.Show.S01E01.1080p.WEB.h264-NTb.mkv',
+    '[SubsPlease] The Show - 01 (1080p) [A1B2C3D4].mkv',
+    'The Movie (2019) [1080p] [BluRay] [5.1] [YTS.MX]',
+  ])('keeps %s as it is', (filename) => {
+    expect(removeSiteTags(filename)).toBe(filename);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  buildHlsPlaylist,
+  getCachedHlsIndex,
+  getHlsIndex,
+  getMp4Index,
+  RangeReader,
+} from '../../src/proxy/hls.js';
+
+// the utils barrel imports most of the app, through import cycles that only
+// resolve under node's own module loader
+vi.mock('../../src/utils/index.js', () => ({
+  Cache: {
+    getInstance: () => {
+      const cache = new Map<string, unknown>();
+      return {
+        get: async (key: string) => cache.get(key),
+        set: async (key: string, value: unknown) => void cache.set(key, value),
+      };
+    },
+  },
+  createLogger: () => ({ debug() {}, info() {}, warn() {}, error() {} }),
+  getSimpleTextHash: (text: string) => text,
+}));
+
+function box(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + data.length, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, data]);
+}
+
+// a version 0 sidx with a timescale of 1000 and no gap before the media
+function sidx(references: { size: number; ms: number; sap: boolean }[]) {
+  const data = Buffer.alloc(24 + references.length * 12);
+  data.writeUInt32BE(1, 4); // reference id
+  data.writeUInt32BE(1000, 8); // timescale
+  data.writeUInt16BE(references.length, 22);
+  references.forEach((reference, i) => {
+    data.writeUInt32BE(reference.size, 24 + i * 12);
+    data.writeUInt32BE(reference.ms, 28 + i * 12);
+    data.writeUInt32BE(reference.sap ? 0x90000000 : 0, 32 + i * 12);
+  });
+  return box('sidx', data);
+}
+
+const reader =
+  (file: Buffer): RangeReader =>
+  async (start, end) => ({
+    data: file.subarray(start, end + 1),
+    totalSize: file.length,
+  });
+
+describe('getMp4Index', () => {
+  const ftyp = box('ftyp', Buffer.from('isom\0\0\0\0', 'latin1'));
+  const moov = box('moov', Buffer.alloc(32));
+
+  it('builds segments of about 6 seconds from the segment index', async () => {
+    const index = sidx([
+      { size: 100, ms: 4000, sap: true },
+      { size: 200, ms: 4000, sap: true },
+      { size: 300, ms: 2000, sap: false },
+      { size: 400, ms: 4000, sap: true },
+    ]);
+    const file = Buffer.concat([ftyp, moov, index, Buffer.alloc(1000)]);
+    const mediaStart = ftyp.length + moov.length + index.length;
+
+    await expect(getMp4Index(reader(file))).resolves.toEqual({
+      container: 'mp4',
+      initLength: ftyp.length + moov.length,
+      segments: [
+        // the third subsegment does not start with a keyframe
+        { offset: mediaStart, length: 600, duration: 10 },
+        { offset: mediaStart + 600, length: 400, duration: 4 },
+      ],
+    });
+  });
+
+  it('ignores MP4 files without a segment index', async () => {
+    const file = Buffer.concat([ftyp, moov, box('mdat', Buffer.alloc(64))]);
+
+    await expect(getMp4Index(reader(file))).resolves.toBeUndefined();
+  });
+
+  it('ignores Matroska files', async () => {
+    const file = Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x84, 0, 0, 0, 0]);
+
+    await expect(getMp4Index(reader(file))).resolves.toBeUndefined();
+  });
+});
+
+describe('getHlsIndex', () => {
+  it('caches files that can not be served as HLS', async () => {
+    const file = Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x84, 0, 0, 0, 0]);
+    const read = vi.fn(reader(file));
+    const url = 'https://example.com/unsupported.mkv';
+
+    await expect(getCachedHlsIndex(url)).resolves.toBeUndefined();
+    await expect(getHlsIndex(url, read)).resolves.toBeUndefined();
+    // the head is read once for both containers
+    expect(read).toHaveBeenCalledTimes(1);
+
+    await expect(getHlsIndex(url, read)).resolves.toBeUndefined();
+    expect(read).toHaveBeenCalledTimes(1);
+    await expect(getCachedHlsIndex(url)).resolves.toEqual({});
+  });
+});
+
+describe('buildHlsPlaylist', () => {
+  it('lists every segment as a byte range after the init section', () => {
+    const playlist = buildHlsPlaylist(
+      {
+        container: 'mp4',
+        initLength: 48,
+        segments: [
+          { offset: 48, length: 300, duration: 6.5 },
+          { offset: 348, length: 200, duration: 2 },
+        ],
+      },
+      'movie.mp4'
+    );
+
+    expect(playlist.split('\n')).toEqual([
+      '#EXTM3U',
+      '#EXT-X-VERSION:7',
+      '#EXT-X-TARGETDURATION:7',
+      '#EXT-X-MEDIA-SEQUENCE:0',
+      '#EXT-X-PLAYLIST-TYPE:VOD',
+      '#EXT-X-INDEPENDENT-SEGMENTS',
+      '#EXT-X-MAP:URI="movie.mp4",BYTERANGE="48@0"',
+      '#EXTINF:6.500,',
+      '#EXT-X-BYTERANGE:300@48',
+      'movie.mp4',
+      '#EXTINF:2.000,',
+      '#EXT-X-BYTERANGE:200@348',
+      'movie.mp4',
+      '#EXT-X-ENDLIST',
+      '',
+    ]);
+  });
+
+  it('lists the remuxed segments of Matroska files next to the file', () => {
+    const playlist = buildHlsPlaylist(
+      {
+        container: 'mkv',
+        timestampScale: 1000000,
+        tracks: [],
+        segments: [
+          { offset: 48, length: 300, duration: 6.5, start: 0, end: 6500 },
+          { offset: 348, length: 200, duration: 2, start: 6500, end: 8500 },
+        ],
+      },
+      'movie.mkv'
+    );
+
+    expect(playlist.split('\n').slice(6)).toEqual([
+      '#EXT-X-MAP:URI="movie.mkv.init.mp4"',
+      '#EXTINF:6.500,',
+      'movie.mkv.0.m4s',
+      '#EXTINF:2.000,',
+      'movie.mkv.1.m4s',
+      '#EXT-X-ENDLIST',
+      '',
+    ]);
+  });
+});
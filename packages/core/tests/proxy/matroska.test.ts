@@ -0,0 +1,313 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  getMatroskaIndex,
+  getMatroskaInitSegment,
+  remuxMatroskaSegment,
+} from '../../src/proxy/matroska.js';
+import type { RangeReader } from '../../src/proxy/hls.js';
+
+// the utils barrel imports most of the app, through import cycles that only
+// resolve under node's own module loader
+vi.mock('../../src/utils/index.js', () => ({
+  createLogger: () => ({ debug() {}, info() {}, warn() {}, error() {} }),
+}));
+
+// an element with an 8 byte size, so that its size doesn't depend on its data
+function element(id: number, ...data: Buffer[]): Buffer {
+  const payload = Buffer.concat(data);
+  const size = Buffer.alloc(8);
+  size[0] = 0x01;
+  size.writeUIntBE(payload.length, 2, 6);
+  return Buffer.concat([Buffer.from(id.toString(16), 'hex'), size, payload]);
+}
+
+const uint = (id: number, value: number) => {
+  const data = Buffer.alloc(8);
+  data.writeBigUInt64BE(BigInt(value));
+  return element(id, data);
+};
+const float = (id: number, value: number) => {
+  const data = Buffer.alloc(8);
+  data.writeDoubleBE(value);
+  return element(id, data);
+};
+const string = (id: number, value: string) =>
+  element(id, Buffer.from(value, 'latin1'));
+
+function simpleBlock(
+  track: number,
+  time: number,
+  keyframe: boolean,
+  data: string
+) {
+  const header = Buffer.alloc(4);
+  header[0] = 0x80 | track;
+  header.writeInt16BE(time, 1);
+  header[3] = keyframe ? 0x80 : 0;
+  return element(0xa3, header, Buffer.from(data, 'latin1'));
+}
+
+const AVC_CONFIG = Buffer.from([1, 0x64, 0, 0x1f, 0xff, 0xe1, 0, 0]);
+const AAC_CONFIG = Buffer.from([0x11, 0x90]); // AAC LC, 48kHz, stereo
+
+// each cluster has a video keyframe and two B-frames, stored in decode order
+function cluster(time: number, n: number) {
+  return element(
+    0x1f43b675,
+    uint(0xe7, time),
+    simpleBlock(1, 0, true, `v${n}k`),
+    simpleBlock(2, 0, true, `a${n}`),
+    simpleBlock(1, 80, false, `v${n}p`),
+    simpleBlock(1, 40, false, `v${n}b`)
+  );
+}
+
+/**
+ * A Matroska file with clusters every 4 seconds, with the cues after them,
+ * found through the seek head.
+ */
+function matroska(videoCodec = 'V_MPEG4/ISO/AVC', withCues = true) {
+  const ebml = element(0x1a45dfa3, string(0x4282, 'matroska'));
+  const seekHead = (cuesPosition: number) =>
+    element(
+      0x114d9b74,
+      element(
+        0x4dbb,
+        element(0x53ab, Buffer.from('1c53bb6b', 'hex')),
+        uint(0x53ac, cuesPosition)
+      )
+    );
+  const info = element(
+    0x1549a966,
+    uint(0x2ad7b1, 1000000),
+    float(0x4489, 12000)
+  );
+  const tracks = element(
+    0x1654ae6b,
+    element(
+      0xae,
+      uint(0xd7, 1),
+      uint(0x83, 1),
+      string(0x86, videoCodec),
+      element(0x63a2, AVC_CONFIG),
+      element(0xe0, uint(0xb0, 1920), uint(0xba, 1080))
+    ),
+    element(
+      0xae,
+      uint(0xd7, 2),
+      uint(0x83, 2),
+      string(0x86, 'A_AAC'),
+      element(0x63a2, AAC_CONFIG),
+      element(0xe1, float(0xb5, 48000), uint(0x9f, 2))
+    )
+  );
+  const clusters = [cluster(0, 0), cluster(4000, 1), cluster(8000, 2)];
+
+  const clusterPositions: number[] = [];
+  let position = seekHead(0).length + info.length + tracks.length;
+  for (const c of clusters) {
+    clusterPositions.push(position);
+    position += c.length;
+  }
+  const cues = element(
+    0x1c53bb6b,
+    ...clusterPositions.map((clusterPosition, i) =>
+      element(
+        0xbb,
+        uint(0xb3, i * 4000),
+        element(0xb7, uint(0xf7, 1), uint(0xf1, clusterPosition))
+      )
+    )
+  );
+  const segment = element(
+    0x18538067,
+    seekHead(position),
+    info,
+    tracks,
+    ...clusters,
+    ...(withCues ? [cues] : [])
+  );
+  // the segment data starts after its 4 byte id and 8 byte size
+  const segmentStart = ebml.length + 12;
+  return {
+    file: Buffer.concat([ebml, segment]),
+    clusterOffsets: clusterPositions.map((p) => segmentStart + p),
+    mediaEnd: segmentStart + position,
+  };
+}
+
+const reader =
+  (file: Buffer): RangeReader =>
+  async (start, end) => ({
+    data: file.subarray(start, end + 1),
+    totalSize: file.length,
+  });
+
+// the boxes directly inside a box, or a buffer of boxes
+function boxes(buf: Buffer): Map<string, Buffer[]> {
+  const found = new Map<string, Buffer[]>();
+  for (let offset = 0; offset < buf.length; ) {
+    const size = buf.readUInt32BE(offset);
+    const type = buf.toString('latin1', offset + 4, offset + 8);
+    found.set(type, [
+      ...(found.get(type) ?? []),
+      buf.subarray(offset + 8, offset + size),
+    ]);
+    offset += size;
+  }
+  return found;
+}
+
+describe('getMatroskaIndex', () => {
+  it('builds segments of about 6 seconds from the cues', async () => {
+    const { file, clusterOffsets, mediaEnd } = matroska();
+
+    const index = await getMatroskaIndex(reader(file));
+    expect(index).toMatchObject({
+      container: 'mkv',
+      timestampScale: 1000000,
+      tracks: [
+        {
+          id: 1,
+          number: 1,
+          kind: 'video',
+          codec: 'avc1',
+          config: AVC_CONFIG.toString('base64'),
+          timescale: 90000,
+          width: 1920,
+          height: 1080,
+        },
+        {
+          id: 2,
+          number: 2,
+          kind: 'audio',
+          codec: 'mp4a',
+          config: AAC_CONFIG.toString('base64'),
+          timescale: 48000,
+          channels: 2,
+          frameDuration: 1024,
+        },
+      ],
+    });
+    expect(index?.segments).toEqual([
+      {
+        offset: clusterOffsets[0],
+        length: clusterOffsets[2] - clusterOffsets[0],
+        duration: 8,
+        start: 0,
+        end: 8000,
+      },
+      {
+        offset: clusterOffsets[2],
+        length: mediaEnd - clusterOffsets[2],
+        duration: 4,
+        start: 8000,
+        end: 12000,
+      },
+    ]);
+  });
+
+  it('ignores files with codecs that HLS players do not support', async () => {
+    const { file } = matroska('V_VP9');
+
+    await expect(getMatroskaIndex(reader(file))).resolves.toBeUndefined();
+  });
+
+  it('ignores files without cues', async () => {
+    const { file } = matroska('V_MPEG4/ISO/AVC', false);
+
+    await expect(getMatroskaIndex(reader(file))).resolves.toBeUndefined();
+  });
+
+  it('ignores MP4 files', async () => {
+    const file = Buffer.from('\0\0\0\x10ftypisom\0\0\0\0', 'latin1');
+
+    await expect(getMatroskaIndex(reader(file))).resolves.toBeUndefined();
+  });
+});
+
+describe('remuxMatroskaSegment', () => {
+  it('remuxes the clusters of a segment to a fragmented MP4 segment', async () => {
+    const { file } = matroska();
+    const index = (await getMatroskaIndex(reader(file)))!;
+    const segment = index.segments[0];
+
+    const remuxed = remuxMatroskaSegment(
+      index,
+      0,
+      file.subarray(segment.offset, segment.offset + segment.length)
+    );
+    const top = boxes(remuxed);
+    expect(top.get('mdat')?.[0].toString('latin1')).toBe(
+      'v0kv0pv0bv1kv1pv1b' + 'a0a1'
+    );
+
+    const moof = boxes(top.get('moof')![0]);
+    expect(moof.get('mfhd')?.[0].readUInt32BE(4)).toBe(1);
+    const [video, audio] = moof.get('traf')!.map(boxes);
+    expect(video.get('tfdt')?.[0].readBigUInt64BE(4)).toBe(0n);
+    expect(audio.get('tfdt')?.[0].readBigUInt64BE(4)).toBe(0n);
+
+    // the decode times are the presentation times in order, and the last
+    // frame lasts until the next segment
+    const trun = video.get('trun')![0];
+    expect(trun.readUInt32BE(4)).toBe(6);
+    const samples = Array.from({ length: 6 }, (_, i) => {
+      const offset = 12 + i * 16;
+      return {
+        duration: trun.readUInt32BE(offset) / 90,
+        size: trun.readUInt32BE(offset + 4),
+        keyframe: trun.readUInt32BE(offset + 8) === 0x02000000,
+        compositionOffset: trun.readInt32BE(offset + 12) / 90,
+      };
+    });
+    expect(samples).toEqual([
+      { duration: 40, size: 3, keyframe: true, compositionOffset: 0 },
+      { duration: 40, size: 3, keyframe: false, compositionOffset: 40 },
+      { duration: 3920, size: 3, keyframe: false, compositionOffset: -40 },
+      { duration: 40, size: 3, keyframe: true, compositionOffset: 0 },
+      { duration: 40, size: 3, keyframe: false, compositionOffset: 40 },
+      { duration: 3920, size: 3, keyframe: false, compositionOffset: -40 },
+    ]);
+
+    // the data offsets point into the mdat, relative to the moof
+    const moofSize = top.get('moof')![0].length + 8;
+    expect(trun.readInt32BE(8)).toBe(moofSize + 8);
+    expect(audio.get('trun')![0].readInt32BE(8)).toBe(moofSize + 8 + 18);
+  });
+
+  it('starts later segments at the time of their first frame', async () => {
+    const { file } = matroska();
+    const index = (await getMatroskaIndex(reader(file)))!;
+    const segment = index.segments[1];
+
+    const remuxed = remuxMatroskaSegment(
+      index,
+      1,
+      file.subarray(segment.offset, segment.offset + segment.length)
+    );
+    const moof = boxes(boxes(remuxed).get('moof')![0]);
+    expect(moof.get('mfhd')?.[0].readUInt32BE(4)).toBe(2);
+    const [video, audio] = moof.get('traf')!.map(boxes);
+    expect(video.get('tfdt')?.[0].readBigUInt64BE(4)).toBe(8000n * 90n);
+    expect(audio.get('tfdt')?.[0].readBigUInt64BE(4)).toBe(8000n * 48n);
+  });
+});
+
+describe('getMatroskaInitSegment', () => {
+  it('describes the tracks with their decoder configurations', async () => {
+    const { file } = matroska();
+    const index = (await getMatroskaIndex(reader(file)))!;
+
+    const init = getMatroskaInitSegment(index);
+    const top = boxes(init);
+    expect(top.get('ftyp')?.[0].toString('latin1', 0, 4)).toBe('isom');
+    const moov = boxes(top.get('moov')![0]);
+    expect(moov.get('trak')).toHaveLength(2);
+    expect(boxes(moov.get('mvex')![0]).get('trex')).toHaveLength(2);
+    expect(
+      init.includes(Buffer.concat([Buffer.from('avcC'), AVC_CONFIG]))
+    ).toBe(true);
+    expect(init.includes(AAC_CONFIG)).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ParsedStream, UserData } from '../../src/db/schemas.js';
+import StreamDeduplicator from '../../src/streams/deduplicator.js';
+
+// the utils barrel imports most of the app, through import cycles that only
+// resolve under node's own module loader
+vi.mock('../../src/utils/index.js', async () => ({
+  constants: await import('../../src/utils/constants.js'),
+  DSU: (await import('../../src/utils/dsu.js')).DSU,
+  createLogger: () => ({ debug() {}, info() {}, warn() {}, error() {} }),
+  getSimpleTextHash: (text: string) => text,
+  getTimeTakenSincePoint: () => '0ms',
+}));
+
+const MB = 1000 * 1000;
+
+function stream(
+  id: string,
+  parsedFile: ParsedStream['parsedFile'],
+  size: number
+): ParsedStream {
+  return {
+    id,
+    type: 'p2p',
+    size,
+    parsedFile,
+    addon: { preset: { id: 'addon' } },
+  } as ParsedStream;
+}
+
+const episode = {
+  title: 'The Show',
+  resolution: '1080p',
+  encode: 'AVC',
+  seasons: [1],
+  episodes: [1],
+} as ParsedStream['parsedFile'];
+const movie = {
+  title: 'The Movie',
+  resolution: '2160p',
+  encode: 'HEVC',
+} as ParsedStream['parsedFile'];
+
+async function deduplicate(streams: ParsedStream[]) {
+  const deduplicator = new StreamDeduplicator({
+    presets: [{ instanceId: 'addon' }],
+    deduplicator: {
+      enabled: true,
+      keys: ['fuzzy'],
+      p2p: 'single_result',
+    },
+  } as UserData);
+  return (await deduplicator.deduplicate(streams)).map((s) => s.id);
+}
+
+describe('StreamDeduplicator fuzzy key', () => {
+  it('matches releases whose names were tagged by the site listing them', async () => {
+    const kept = await deduplicate([
+      stream('episode', { ...episode, releaseGroup: 'NTb' }, 1500 * MB),
+      // 'The.Show.S01E01.1080p.WEB.h264-NTb-[EZTVx.to].mkv', parsed before
+      // site tags were removed
+      stream(
+        'tagged-episode',
+        { ...episode, releaseGroup: 'EZTVx.to' },
+        1502 * MB
+      ),
+      stream('movie', { ...movie, releaseGroup: 'SPARKS' }, 20000 * MB),
+      // 'The Movie 2019 2160p UHD BluRay x265-SPARKS[rarbg]' renamed by an
+      // indexer that dropped the group
+      stream('tagged-movie', movie, 20001 * MB),
+    ]);
+    expect(kept).toHaveLength(2);
+    expect(kept).toContain('episode');
+    expect(kept).toContain('movie');
+  });
+
+  it('keeps releases that differ in resolution or size', async () => {
+    const kept = await deduplicate([
+      stream('1080p', { ...episode, releaseGroup: 'NTb' }, 1500 * MB),
+      stream(
+        '720p',
+        { ...episode, resolution: '720p', releaseGroup: 'EZTVx.to' },
+        1500 * MB
+      ),
+      stream('larger', { ...episode, releaseGroup: 'NTb' }, 3000 * MB),
+      stream('other-episode', { ...episode, episodes: [2] }, 1500 * MB),
+    ]);
+    expect(kept).toEqual(['1080p', '720p', 'larger', 'other-episode']);
+  });
+});
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NNTPServers } from '../../src/db/schemas.js';
+import {
+  checkArticles,
+  getNzbMessageIds,
+} from '../../src/streams/nzb-checker.js';
+import { FakeNNTPServer, startFakeNNTPServer } from '../fakes/nntp.js';
+
+// the utils barrel imports most of the app, through import cycles that only
+// resolve under node's own module loader
+vi.mock('../../src/utils/index.js', async () => ({
+  NNTPClient: (await import('../../src/utils/nntp.js')).NNTPClient,
+  Env: { NZB_HEALTH_CHECK_TIMEOUT: 200 },
+  Cache: { getInstance: () => ({}) },
+  constants: {},
+  createLogger: () => ({ debug() {}, info() {}, warn() {}, error() {} }),
+  getSimpleTextHash: (text: string) => text,
+}));
+vi.mock('../../src/db/schemas.js', () => ({ NNTPServersSchema: {} }));
+vi.mock('../../src/presets/builtin.js', () => ({ BuiltinAddonPreset: {} }));
+
+const ids = (count: number, prefix = 'part') =>
+  Array.from({ length: count }, (_, i) => `${prefix}${i}@example`);
+
+describe('getNzbMessageIds', () => {
+  it('reads the message id of every segment', () => {
+    const nzb = `<?xml version="1.0" encoding="UTF-8"?>
+<nzb xmlns="http://www.newzbin.com/DTD/2003/nzb">
+  <file subject="example.mkv">
+    <segments>
+      <segment bytes="100" number="1">part1&amp;a@example</segment>
+      <segment bytes="100" number="2"> part2@example </segment>
+    </segments>
+  </file>
+</nzb>`;
+    expect(getNzbMessageIds(nzb)).toEqual(['part1&a@example', 'part2@example']);
+  });
+});
+
+describe('checkArticles', () => {
+  const servers: FakeNNTPServer[] = [];
+
+  afterEach(async () => {
+    await Promise.all(servers.map((server) => server.close()));
+    servers.length = 0;
+  });
+
+  const start = async (
+    options: Parameters<typeof startFakeNNTPServer>[0],
+    config: Partial<NNTPServers[number]> = {}
+  ): Promise<NNTPServers[number]> => {
+    const server = await startFakeNNTPServer(options);
+    servers.push(server);
+    return {
+      host: '127.0.0.1',
+      port: server.port,
+      ssl: false,
+      username: options?.username ?? '',
+      password: options?.password ?? '',
+      connections: 2,
+      ...config,
+    };
+  };
+
+  it('counts the articles that were found', async () => {
+    const articles = ids(10);
+    const server = await start({ articles: articles.slice(0, 7) });
+
+    await expect(checkArticles(articles, [server])).resolves.toEqual({
+      checked: 10,
+      found: 7,
+    });
+  });
+
+  it('only checks the articles missing from earlier servers', async () => {
+    const articles = ids(10);
+    const first = await start({ articles: articles.slice(0, 6) });
+    const second = await start({ articles: articles.slice(4, 9) });
+
+    await expect(checkArticles(articles, [first, second])).resolves.toEqual({
+      checked: 10,
+      found: 9,
+    });
+    expect(
+      servers[1].commands.filter((command) => command.startsWith('STAT'))
+    ).toHaveLength(4);
+  });
+
+  it('moves on from servers that fail authentication', async () => {
+    const articles = ids(4);
+    const failing = await start(
+      { articles, username: 'user', password: 'pass' },
+      { password: 'wrong' }
+    );
+    const working = await start({ articles: articles.slice(0, 3) });
+
+    await expect(checkArticles(articles, [failing, working])).resolves.toEqual({
+      checked: 4,
+      found: 3,
+    });
+  });
+
+  it('moves on from servers that time out', async () => {
+    const articles = ids(4);
+    const silent = await start({ silent: true });
+    const working = await start({ articles });
+
+    await expect(checkArticles(articles, [silent, working])).resolves.toEqual({
+      checked: 4,
+      found: 4,
+    });
+  });
+
+  it('throws when no server could be checked', async () => {
+    const server = await start(
+      { username: 'user', password: 'pass' },
+      { password: 'wrong' }
+    );
+
+    await expect(checkArticles(ids(4), [server])).rejects.toThrow(
+      /Authentication/
+    );
+  });
+
+  it('shares the connection limit of a server between checks', async () => {
+    const articles = ids(40);
+    const server = await start({ articles });
+
+    await Promise.all([
+      checkArticles(articles.slice(0, 20), [server]),
+      checkArticles(articles.slice(20), [server]),
+      checkArticles(ids(20, 'other'), [server]),
+    ]);
+    expect(servers[0].maxConnections).toBe(2);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AnimeEntry } from '../../src/utils/anime-database.js';
+import { EpisodeMapper } from '../../src/utils/episode-mapper.js';
+import { IdParser } from '../../src/utils/id-parser.js';
+
+// the utils barrel imports most of the app, through import cycles that only
+// resolve under node's own module loader
+vi.mock('../../src/utils/index.js', () => ({
+  Env: {},
+  getDataFolder: () => '/tmp',
+}));
+
+// the second season of a show that TVDB lists as a single season, with the
+// episodes continuing from the 13th
+const entry: AnimeEntry = {
+  type: 'TV',
+  mappings: {
+    kitsuId: 1000,
+    malId: 42,
+    imdbId: 'tt0000001',
+    thetvdbId: 300,
+    themoviedbId: 400,
+  },
+  imdb: { seasonNumber: 2, fromEpisode: 1 },
+  tvdb: { seasonNumber: 1, seasonId: null, fromEpisode: 13 },
+  tmdb: { seasonNumber: 2, seasonId: null },
+} as AnimeEntry;
+
+function mapper(id: string, animeEntry: AnimeEntry | null = entry) {
+  return new EpisodeMapper(IdParser.parse(id, 'series')!, animeEntry);
+}
+
+describe('EpisodeMapper', () => {
+  it('maps a Kitsu episode to the seasonal, TVDB and TMDB orders', () => {
+    const kitsu = mapper('kitsu:1000:5');
+    expect(kitsu.getNumbering()).toEqual({
+      relative: 5,
+      seasonal: { season: 2, episode: 5 },
+      tvdb: { season: 1, episode: 17 },
+      tmdb: { season: 2, episode: 5 },
+    });
+    expect(kitsu.getId('kitsuId')).toBe('kitsu:1000:5');
+    expect(kitsu.getId('imdbId')).toBe('tt0000001:2:5');
+    expect(kitsu.getId('thetvdbId')).toBe('tvdb:300:1:17');
+    expect(kitsu.getId('themoviedbId')).toBe('tmdb:400:2:5');
+    expect(kitsu.getId('malId')).toBe('mal:42:5');
+  });
+
+  it('maps seasonal and TVDB episodes back to Kitsu', () => {
+    expect(mapper('tt0000001:2:5').getId('kitsuId')).toBe('kitsu:1000:5');
+    expect(mapper('tvdb:300:1:17').getId('kitsuId')).toBe('kitsu:1000:5');
+    expect(mapper('tvdb:300:1:17').getId('imdbId')).toBe('tt0000001:2:5');
+  });
+
+  it('does not map episodes from a season the entry is not part of', () => {
+    const other = mapper('tt0000001:1:5');
+    expect(other.getNumbering()).toEqual({
+      seasonal: { season: 1, episode: 5 },
+    });
+    expect(other.getId('kitsuId')).toBeUndefined();
+  });
+
+  it('maps the ids of items without episodes as they are', () => {
+    const movie = new EpisodeMapper(IdParser.parse('kitsu:1000', 'movie')!, {
+      ...entry,
+      type: 'MOVIE',
+    } as AnimeEntry);
+    expect(movie.getId('imdbId')).toBe('tt0000001');
+    expect(movie.getId('thetvdbId')).toBe('tvdb:300');
+    expect(movie.getId('anilistId')).toBeUndefined();
+  });
+
+  it('uses the explicit episode mappings of the anime list', () => {
+    const mapped = {
+      ...entry,
+      episodeMappings: [
+        // the first episode is a TVDB special, and the second has none
+        { anidbSeason: 1, tvdbSeason: 0, episodes: ';1-3;2-0;' },
+        { anidbSeason: 1, tvdbSeason: 1, start: 3, end: 12, offset: 12 },
+      ],
+    } as AnimeEntry;
+
+    expect(mapper('kitsu:1000:1', mapped).getNumbering().tvdb).toEqual({
+      season: 0,
+      episode: 3,
+    });
+    expect(mapper('kitsu:1000:5', mapped).getNumbering().tvdb).toEqual({
+      season: 1,
+      episode: 17,
+    });
+    expect(mapper('tvdb:300:0:3', mapped).getId('kitsuId')).toBe(
+      'kitsu:1000:1'
+    );
+    expect(mapper('tvdb:300:1:17', mapped).getId('kitsuId')).toBe(
+      'kitsu:1000:5'
+    );
+    // outside of the mapped range, the offset of the TVDB season is used
+    expect(mapper('tvdb:300:1:30', mapped).getId('kitsuId')).toBe(
+      'kitsu:1000:18'
+    );
+  });
+
+  it('counts absolute episodes across the seasons, including non-IMDb episodes', () => {
+    const seasons = [
+      { season_number: 0, episode_count: 5 },
+      { season_number: 1, episode_count: 12 },
+      { season_number: 2, episode_count: 12 },
+    ];
+    expect(mapper('tt0000001:2:5').getNumbering(seasons).absolute).toBe(17);
+    expect(mapper('kitsu:1000:5').getNumbering(seasons).absolute).toBe(17);
+
+    const withNonImdb = {
+      ...entry,
+      imdb: { ...entry.imdb, nonImdbEpisodes: [3, 20] },
+    } as AnimeEntry;
+    expect(
+      mapper('tt0000001:2:5', withNonImdb).getNumbering(seasons).absolute
+    ).toBe(18);
+    expect(
+      mapper('tt0000001:2:5', withNonImdb).getNumbering()
+    ).not.toHaveProperty('absolute');
+  });
+
+  it('picks the first preferred id type that matches an addon prefix', () => {
+    const kitsu = mapper('kitsu:1000:5');
+    expect(kitsu.getIdForPrefixes(['tvdb'])).toBe('tvdb:300:1:17');
+    expect(kitsu.getIdForPrefixes(['kitsu', 'tt'])).toBe('tt0000001:2:5');
+    expect(kitsu.getIdForPrefixes(['mal'])).toBe('mal:42:5');
+    expect(kitsu.getIdForPrefixes(['anilist'])).toBeUndefined();
+    expect(
+      mapper('kitsu:1000:5', null).getIdForPrefixes(['tt'])
+    ).toBeUndefined();
+  });
+});
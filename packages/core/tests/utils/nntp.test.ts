@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { NNTPClient, NNTPError } from '../../src/utils/nntp.js';
+import { FakeNNTPServer, startFakeNNTPServer } from '../fakes/nntp.js';
+
+describe('NNTPClient', () => {
+  let server: FakeNNTPServer | undefined;
+  let client: NNTPClient | undefined;
+
+  afterEach(async () => {
+    await client?.close();
+    await server?.close();
+    client = server = undefined;
+  });
+
+  const connect = (
+    port: number,
+    credentials: { username?: string; password?: string } = {},
+    timeout = 2000
+  ) => {
+    client = new NNTPClient({
+      host: '127.0.0.1',
+      port,
+      ssl: false,
+      timeout,
+      ...credentials,
+    });
+    return client.connect();
+  };
+
+  it('reports 223 responses as found and 430 responses as missing', async () => {
+    server = await startFakeNNTPServer({ articles: ['a@example'] });
+    await connect(server.port);
+
+    await expect(client!.stat('a@example')).resolves.toBe(true);
+    await expect(client!.stat('<b@example>')).resolves.toBe(false);
+    expect(server.commands).toEqual(['STAT <a@example>', 'STAT <b@example>']);
+  });
+
+  it('authenticates before checking articles', async () => {
+    server = await startFakeNNTPServer({
+      articles: ['a@example'],
+      username: 'user',
+      password: 'pass',
+    });
+    await connect(server.port, { username: 'user', password: 'pass' });
+
+    await expect(client!.stat('a@example')).resolves.toBe(true);
+    expect(server.commands.slice(0, 2)).toEqual([
+      'AUTHINFO USER user',
+      'AUTHINFO PASS pass',
+    ]);
+  });
+
+  it('rejects when authentication fails', async () => {
+    server = await startFakeNNTPServer({ username: 'user', password: 'pass' });
+
+    const error = await connect(server.port, {
+      username: 'user',
+      password: 'wrong',
+    }).catch((error) => error);
+    expect(error).toBeInstanceOf(NNTPError);
+    expect(error.code).toBe(481);
+  });
+
+  it('rejects unexpected responses to STAT', async () => {
+    server = await startFakeNNTPServer({ username: 'user', password: 'pass' });
+    await connect(server.port);
+
+    await expect(client!.stat('a@example')).rejects.toMatchObject({
+      code: 480,
+    });
+  });
+
+  it('times out when the server does not respond', async () => {
+    server = await startFakeNNTPServer({ silent: true });
+
+    await expect(connect(server.port, {}, 100)).rejects.toThrow(/timed out/);
+  });
+});
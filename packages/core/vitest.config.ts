@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // the environment is validated when it is first imported
+    env: {
+      BASE_URL: 'http://localhost:3000',
+      SECRET_KEY: '0'.repeat(64),
+      LOG_LEVEL: 'error',
+    },
+  },
+});
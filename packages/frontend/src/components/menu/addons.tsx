@@ -1,6 +1,10 @@
 'use client';
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { MergedCatalog, CatalogModification } from '@aiostreams/core';
+import {
+  MergedCatalog,
+  CatalogModification,
+  SmartCatalog,
+} from '@aiostreams/core';
 import { removeInvalidPresetReferences } from '@/context/userData';
 import { PageWrapper } from '../shared/page-wrapper';
 import { useStatus } from '@/context/status';
@@ -454,6 +458,8 @@ function Content() {
 
             {userData.presets.length > 0 && <MergedCatalogsCard />}
 
+            <SmartCatalogsCard />
+
             {userData.presets.length > 0 && mode === 'pro' && (
               <AddonFetchingBehaviorCard />
             )}
@@ -1545,6 +1551,10 @@ function AddonFetchingBehaviorCard() {
                   <code>allAddons</code>: All addons that were intended to be
                   used for that query.
                 </li>
+                <li>
+                  <code>addonHealth('addon')</code>: The health score (0-100) of
+                  an addon, based on how often its recent requests succeeded.
+                </li>
               </ul>
             </p>
           }
@@ -1847,6 +1857,9 @@ function MergedCatalogsCard() {
   ]);
   const [mergeMethod, setMergeMethod] =
     useState<MergedCatalog['mergeMethod']>('sequential');
+  const [sourceWeights, setSourceWeights] = useState<Record<string, number>>(
+    {}
+  );
   const [catalogSearch, setCatalogSearch] = useState('');
   const [expandedAddons, setExpandedAddons] = useState<Set<string>>(new Set());
   const [pendingDeleteMergedCatalogId, setPendingDeleteMergedCatalogId] =
@@ -1960,6 +1973,7 @@ function MergedCatalogsCard() {
     setSelectedCatalogs([]);
     setDedupeMethods(['id']);
     setMergeMethod('sequential');
+    setSourceWeights({});
     setCatalogSearch('');
     setExpandedAddons(new Set());
     setModalOpen(true);
@@ -1972,6 +1986,7 @@ function MergedCatalogsCard() {
     setSelectedCatalogs(mergedCatalog.catalogIds);
     setDedupeMethods(mergedCatalog.deduplicationMethods ?? ['id']);
     setMergeMethod(mergedCatalog.mergeMethod ?? 'sequential');
+    setSourceWeights(mergedCatalog.sourceWeights ?? {});
     setCatalogSearch('');
     setExpandedAddons(new Set());
     setModalOpen(true);
@@ -1997,6 +2012,17 @@ function MergedCatalogsCard() {
       return;
     }
 
+    // only keep the weights of the selected catalogs that aren't the default
+    const weights = Object.fromEntries(
+      Object.entries(sourceWeights).filter(
+        ([id, weight]) => selectedCatalogs.includes(id) && weight > 1
+      )
+    );
+    const mergedSourceWeights =
+      mergeMethod === 'weightedInterleave' && Object.keys(weights).length > 0
+        ? weights
+        : undefined;
+
     if (editingMergedCatalog) {
       setUserData((prev) => ({
         ...prev,
@@ -2020,6 +2046,7 @@ function MergedCatalogsCard() {
                 deduplicationMethods:
                   dedupeMethods.length > 0 ? dedupeMethods : undefined,
                 mergeMethod: mergeMethod ?? 'sequential',
+                sourceWeights: mergedSourceWeights,
               }
             : mc
         ),
@@ -2040,6 +2067,7 @@ function MergedCatalogsCard() {
             deduplicationMethods:
               dedupeMethods.length > 0 ? dedupeMethods : undefined,
             mergeMethod: mergeMethod ?? 'sequential',
+            sourceWeights: mergedSourceWeights,
           },
         ],
       }));
@@ -2459,6 +2487,18 @@ function MergedCatalogsCard() {
                 value: 'interleave',
                 label: 'Interleave',
               },
+              {
+                value: 'weightedInterleave',
+                label: 'Weighted Interleave',
+              },
+              {
+                value: 'roundRobin',
+                label: 'Round Robin (Deduplicate by Title and Year)',
+              },
+              {
+                value: 'popularity',
+                label: 'Popularity (Number of Sources)',
+              },
               {
                 value: 'imdbRating',
                 label: 'IMDb Rating',
@@ -2478,9 +2518,34 @@ function MergedCatalogsCard() {
             }
           />
 
+          {mergeMethod === 'weightedInterleave' &&
+            selectedCatalogs
+              .filter((id) => allCatalogs.find((c) => c.value === id))
+              .map((id) => {
+                const cat = allCatalogs.find((c) => c.value === id);
+                return (
+                  <NumberInput
+                    key={id}
+                    label={`Weight of ${cat?.name || id}`}
+                    help="How many items are taken from this catalog for every item taken from a catalog with a weight of 1."
+                    value={sourceWeights[id] ?? 1}
+                    min={1}
+                    max={10}
+                    step={1}
+                    onValueChange={(value) =>
+                      setSourceWeights((prev) => ({
+                        ...prev,
+                        [id]: value || 1,
+                      }))
+                    }
+                  />
+                );
+              })}
+
           {(mergeMethod === 'imdbRating' ||
             mergeMethod === 'releaseDateDesc' ||
-            mergeMethod === 'releaseDateAsc') && (
+            mergeMethod === 'releaseDateAsc' ||
+            mergeMethod === 'popularity') && (
             <Alert
               intent="alert"
               description="Sorting is applied per page only. Items are sorted within each page of results, not globally across all pages. A lower-rated item from page 1 may still appear before a higher-rated item from page 2."
@@ -2497,6 +2562,189 @@ function MergedCatalogsCard() {
   );
 }
 
+function SmartCatalogsCard() {
+  const { userData, setUserData } = useUserData();
+  const smartCatalogs = userData.smartCatalogs || [];
+
+  const serviceOptions = constants.BUILTIN_SUPPORTED_SERVICES.map(
+    (service) => ({
+      value: service,
+      label: constants.SERVICE_DETAILS[service].name,
+    })
+  );
+
+  const updateSmartCatalog = (id: string, update: Partial<SmartCatalog>) => {
+    setUserData((prev) => ({
+      ...prev,
+      smartCatalogs: (prev.smartCatalogs || []).map((sc) =>
+        sc.id === id ? { ...sc, ...update } : sc
+      ),
+    }));
+  };
+
+  const handleAdd = () => {
+    setUserData((prev) => ({
+      ...prev,
+      smartCatalogs: [
+        ...(prev.smartCatalogs || []),
+        {
+          id: `aiostreams.smart.${Date.now()}`,
+          name: 'Recently Cached',
+          type: 'movie',
+          source: 'recentlyCached',
+          enabled: true,
+        },
+      ],
+    }));
+  };
+
+  const handleDelete = (id: string) => {
+    setUserData((prev) => ({
+      ...prev,
+      smartCatalogs: (prev.smartCatalogs || []).filter((sc) => sc.id !== id),
+      catalogModifications: prev.catalogModifications?.filter(
+        (mod) => mod.id !== id
+      ),
+    }));
+    toast.success('Smart catalog deleted');
+  };
+
+  return (
+    <SettingsCard
+      title="Smart Catalogs"
+      description="Catalogs built from what was recently added to your services and from your watch history. Once saved, refresh your catalogs to list them, which also lets them be used in merged catalogs."
+      action={
+        <IconButton
+          size="sm"
+          intent="primary-subtle"
+          icon={<FaPlus />}
+          rounded
+          onClick={handleAdd}
+        />
+      }
+    >
+      {smartCatalogs.length === 0 && (
+        <p className="text-[--muted] text-base text-center my-8">
+          No smart catalogs yet. Click the + button to create one.
+        </p>
+      )}
+
+      {smartCatalogs.length > 0 && (
+        <ul className="space-y-2">
+          {smartCatalogs.map((sc) => (
+            <li key={sc.id}>
+              <div className="px-4 py-3 bg-[var(--background)] rounded-[--radius-md] border space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <h3 className="text-sm md:text-base font-medium truncate">
+                    {sc.name}
+                  </h3>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      value={sc.enabled ?? true}
+                      onValueChange={(enabled) =>
+                        updateSmartCatalog(sc.id, { enabled })
+                      }
+                    />
+                    <IconButton
+                      className="h-8 w-8"
+                      icon={<BiTrash />}
+                      intent="alert-subtle"
+                      rounded
+                      onClick={() => handleDelete(sc.id)}
+                    />
+                  </div>
+                </div>
+
+                <TextInput
+                  label="Name"
+                  value={sc.name}
+                  onValueChange={(name) =>
+                    updateSmartCatalog(sc.id, { name: name || sc.name })
+                  }
+                />
+
+                <Select
+                  label="Source"
+                  options={[
+                    { value: 'recentlyCached', label: 'Recently Cached' },
+                    {
+                      value: 'newEpisodes',
+                      label: 'New Episodes of Watched Shows',
+                    },
+                  ]}
+                  value={sc.source}
+                  onValueChange={(source) =>
+                    updateSmartCatalog(sc.id, {
+                      source: source as SmartCatalog['source'],
+                      // new episodes are only of shows
+                      type: source === 'newEpisodes' ? 'series' : sc.type,
+                    })
+                  }
+                />
+
+                {sc.source === 'recentlyCached' && (
+                  <>
+                    <Select
+                      label="Type"
+                      options={[
+                        { value: 'movie', label: 'Movie' },
+                        { value: 'series', label: 'Series' },
+                      ]}
+                      value={sc.type}
+                      onValueChange={(type) =>
+                        updateSmartCatalog(sc.id, {
+                          type: type as SmartCatalog['type'],
+                        })
+                      }
+                    />
+                    <Combobox
+                      multiple
+                      label="Services"
+                      help="Only list what was added to these services. Leave empty to use every enabled service."
+                      options={serviceOptions}
+                      value={sc.services ?? []}
+                      onValueChange={(services) =>
+                        updateSmartCatalog(sc.id, {
+                          services: services.length
+                            ? (services as SmartCatalog['services'])
+                            : undefined,
+                        })
+                      }
+                      emptyMessage="No services available"
+                    />
+                  </>
+                )}
+
+                {sc.source === 'newEpisodes' &&
+                  !userData.watchHistory?.enabled && (
+                    <Alert
+                      intent="warning"
+                      description="New episodes are found from your watch history, which is disabled."
+                    />
+                  )}
+
+                <NumberInput
+                  label="Refresh Interval (hours)"
+                  help="How often the catalog is rebuilt. 0 uses the default of this instance."
+                  value={sc.refreshInterval ?? 0}
+                  min={0}
+                  max={168}
+                  step={1}
+                  onValueChange={(value) =>
+                    updateSmartCatalog(sc.id, {
+                      refreshInterval: value || undefined,
+                    })
+                  }
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </SettingsCard>
+  );
+}
+
 // Add the SortableCatalogItem component
 function SortableCatalogItem({
   catalog,
@@ -2589,6 +2837,23 @@ function SortableCatalogItem({
     });
   };
 
+  const updateFilters = (
+    filters: Partial<NonNullable<CatalogModification['filters']>>
+  ) => {
+    setUserData((prev) => ({
+      ...prev,
+      catalogModifications: prev.catalogModifications?.map((c) =>
+        c.id === catalog.id && c.type === catalog.type
+          ? { ...c, filters: { ...c.filters, ...filters } }
+          : c
+      ),
+    }));
+  };
+  // committed on blur, so that commas can be typed
+  const [excludedGenres, setExcludedGenres] = useState(
+    catalog.filters?.excludeGenres?.join(', ') ?? ''
+  );
+
   const [modalOpen, setModalOpen] = useState(false);
   const [newName, setNewName] = useState(catalog.name || '');
   const [newType, setNewType] = useState(
@@ -3067,6 +3332,95 @@ function SortableCatalogItem({
                         />
                       </>
                     )}
+
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <NumberInput
+                        label="Minimum IMDb Rating"
+                        help="Remove items with a lower rating. Items without a rating are kept."
+                        value={catalog.filters?.minRating ?? 0}
+                        min={0}
+                        max={10}
+                        step={0.1}
+                        onValueChange={(value) =>
+                          updateFilters({ minRating: value || undefined })
+                        }
+                      />
+                      <NumberInput
+                        label="Maximum Items"
+                        help="Only show this many items in the catalog. 0 shows every item."
+                        value={catalog.maxItems ?? 0}
+                        min={0}
+                        step={1}
+                        onValueChange={(value) => {
+                          setUserData((prev) => ({
+                            ...prev,
+                            catalogModifications:
+                              prev.catalogModifications?.map((c) =>
+                                c.id === catalog.id && c.type === catalog.type
+                                  ? { ...c, maxItems: value || undefined }
+                                  : c
+                              ),
+                          }));
+                        }}
+                      />
+                      <NumberInput
+                        label="Released From"
+                        help="Remove items released before this year. 0 for no limit."
+                        value={catalog.filters?.minYear ?? 0}
+                        min={0}
+                        step={1}
+                        onValueChange={(value) =>
+                          updateFilters({ minYear: value || undefined })
+                        }
+                      />
+                      <NumberInput
+                        label="Released Until"
+                        help="Remove items released after this year. 0 for no limit."
+                        value={catalog.filters?.maxYear ?? 0}
+                        min={0}
+                        step={1}
+                        onValueChange={(value) =>
+                          updateFilters({ maxYear: value || undefined })
+                        }
+                      />
+                    </div>
+
+                    <TextInput
+                      label="Excluded Genres"
+                      help="A comma separated list of genres to remove items of, e.g. Horror, Reality"
+                      placeholder="Horror, Reality"
+                      value={excludedGenres}
+                      onValueChange={setExcludedGenres}
+                      onBlur={() => {
+                        const genres = excludedGenres
+                          .split(',')
+                          .map((genre) => genre.trim())
+                          .filter(Boolean);
+                        updateFilters({
+                          excludeGenres: genres.length ? genres : undefined,
+                        });
+                      }}
+                    />
+
+                    <Switch
+                      label="Hide Library Items"
+                      help="Remove items that are already in the library of your debrid services"
+                      side="right"
+                      value={catalog.filters?.hideLibrary ?? false}
+                      onValueChange={(hideLibrary) =>
+                        updateFilters({ hideLibrary })
+                      }
+                    />
+
+                    <TextInput
+                      label="Filter Expression"
+                      help='Only keep items matching this expression. It has access to name, type, rating, year, genres and inLibrary, e.g. rating >= 7 and not ("Horror" in genres)'
+                      placeholder="rating >= 7 and year >= 2000"
+                      value={catalog.filters?.expression ?? ''}
+                      onValueChange={(expression) =>
+                        updateFilters({ expression: expression || undefined })
+                      }
+                    />
                   </div>
                 </div>
               </AccordionContent>
@@ -66,6 +66,8 @@ import {
   LANGUAGES,
   TYPES,
   DEDUPLICATOR_KEYS,
+  DEFAULT_FUZZY_DEDUPLICATION_THRESHOLD,
+  DEFAULT_FUZZY_DEDUPLICATION_SIZE_TOLERANCE,
   AUDIO_CHANNELS,
   MIN_SIZE,
   MAX_SIZE,
@@ -3039,6 +3041,57 @@ function Content() {
                         }))}
                       />
 
+                      {userData.deduplicator?.keys?.includes('fuzzy') && (
+                        <div className="flex gap-2">
+                          <NumberInput
+                            label="Fuzzy Similarity Threshold"
+                            help="How similar the parsed titles of two streams must be for the fuzzy method to consider them duplicates, from 0 to 1."
+                            disabled={!userData.deduplicator?.enabled}
+                            value={
+                              userData.deduplicator?.fuzzy?.threshold ??
+                              DEFAULT_FUZZY_DEDUPLICATION_THRESHOLD
+                            }
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            onValueChange={(value) => {
+                              setUserData((prev) => ({
+                                ...prev,
+                                deduplicator: {
+                                  ...prev.deduplicator,
+                                  fuzzy: {
+                                    ...prev.deduplicator?.fuzzy,
+                                    threshold: value,
+                                  },
+                                },
+                              }));
+                            }}
+                          />
+                          <NumberInput
+                            label="Fuzzy Size Tolerance (MB)"
+                            help="The maximum difference in size between two streams for the fuzzy method to consider them duplicates."
+                            disabled={!userData.deduplicator?.enabled}
+                            value={
+                              userData.deduplicator?.fuzzy?.sizeTolerance ??
+                              DEFAULT_FUZZY_DEDUPLICATION_SIZE_TOLERANCE
+                            }
+                            min={0}
+                            onValueChange={(value) => {
+                              setUserData((prev) => ({
+                                ...prev,
+                                deduplicator: {
+                                  ...prev.deduplicator,
+                                  fuzzy: {
+                                    ...prev.deduplicator?.fuzzy,
+                                    sizeTolerance: value,
+                                  },
+                                },
+                              }));
+                            }}
+                          />
+                        </div>
+                      )}
+
                       <Combobox
                         help="Addons selected here will always have their results kept during deduplication."
                         label="Addon Exclusions"
@@ -12,12 +12,16 @@ import {
   AutoPlayMethod,
   AUTO_PLAY_METHODS,
   AUTO_PLAY_METHOD_DETAILS,
+  DOWNLOAD_CLIENTS,
+  DOWNLOAD_CLIENT_DETAILS,
+  DownloadClientId,
 } from '../../../../core/src/utils/constants';
 import { Select } from '../ui/select';
 import { Alert } from '../ui/alert';
 import { useMode } from '@/context/mode';
 import { NumberInput } from '../ui/number-input/number-input';
 import { TextInput } from '../ui/text-input';
+import { PasswordInput } from '../ui/password-input';
 
 export function MiscellaneousMenu() {
   return (
@@ -48,7 +52,7 @@ function Content() {
       <div className="space-y-4">
         <SettingsCard
           title="Pre-cache Next Episode"
-          description="When requesting streams for series, AIOStreams will automatically request the next episode and if all streams are uncached, it will ping the URL of the first uncached stream according to your sort settings."
+          description="When requesting streams for series, AIOStreams will automatically request the next episodes and if all streams of an episode are uncached, it will ping the URL of the first uncached stream according to your sort settings."
         >
           <Switch
             label="Enable"
@@ -74,6 +78,59 @@ function Content() {
               }));
             }}
           />
+          <Switch
+            label="Precache Rest of Season"
+            help="Precache every remaining episode of the current season instead of a set number of episodes."
+            side="right"
+            disabled={!userData.precacheNextEpisode}
+            value={userData.precacheLookahead?.restOfSeason ?? false}
+            onValueChange={(value) => {
+              setUserData((prev) => ({
+                ...prev,
+                precacheLookahead: {
+                  ...prev.precacheLookahead,
+                  restOfSeason: value,
+                },
+              }));
+            }}
+          />
+          <NumberInput
+            label="Episodes to Precache"
+            help="How many episodes after the current one to precache. The nearest episodes are precached first."
+            min={1}
+            defaultValue={1}
+            disabled={
+              !userData.precacheNextEpisode ||
+              userData.precacheLookahead?.restOfSeason
+            }
+            value={userData.precacheLookahead?.episodes ?? 1}
+            onValueChange={(value) => {
+              setUserData((prev) => ({
+                ...prev,
+                precacheLookahead: {
+                  ...prev.precacheLookahead,
+                  episodes: Math.max(1, Number(value || 1)),
+                },
+              }));
+            }}
+          />
+          <NumberInput
+            label="Max Active Downloads"
+            help="Precaching won't start a download on a service that already has this many downloads in progress. The instance may set a lower limit."
+            min={1}
+            defaultValue={3}
+            disabled={!userData.precacheNextEpisode}
+            value={userData.precacheLookahead?.maxActiveDownloads ?? 3}
+            onValueChange={(value) => {
+              setUserData((prev) => ({
+                ...prev,
+                precacheLookahead: {
+                  ...prev.precacheLookahead,
+                  maxActiveDownloads: Math.max(1, Number(value || 3)),
+                },
+              }));
+            }}
+          />
         </SettingsCard>
         {mode === 'pro' && (
           <SettingsCard
@@ -228,6 +285,43 @@ function Content() {
             </div>
           </SettingsCard>
         )}
+        {mode === 'pro' && (
+          <SettingsCard
+            title="Watch History"
+            description="Keep a log of the streams you play through AIOStreams. It is used for a Continue Watching / Next Up catalog and by the Last Watched sort criterion, which prefers the release group of the last episode you watched. Plays are only recorded for streams that are proxied or resolved by AIOStreams."
+          >
+            <Switch
+              label="Enable"
+              side="right"
+              value={userData.watchHistory?.enabled}
+              onValueChange={(value) => {
+                setUserData((prev) => ({
+                  ...prev,
+                  watchHistory: {
+                    ...prev.watchHistory,
+                    enabled: value,
+                  },
+                }));
+              }}
+            />
+            <Switch
+              label="Continue Watching Catalog"
+              side="right"
+              help="Add Continue Watching and Next Up catalogs of what you last played. Series are listed at the episode after the last one you played."
+              disabled={!userData.watchHistory?.enabled}
+              value={userData.watchHistory?.catalog}
+              onValueChange={(value) => {
+                setUserData((prev) => ({
+                  ...prev,
+                  watchHistory: {
+                    ...prev.watchHistory,
+                    catalog: value,
+                  },
+                }));
+              }}
+            />
+          </SettingsCard>
+        )}
         {mode === 'pro' && (
           <SettingsCard
             title="Cache and Play"
@@ -285,6 +379,114 @@ function Content() {
             />
           </SettingsCard>
         )}
+        {mode === 'pro' && (
+          <SettingsCard
+            title="Verify Cache Status"
+            description="Check the cached status reported by upstream addons against your own debrid services. Streams from built-in addons are not checked as they already use your services."
+          >
+            <Switch
+              label="Enable"
+              side="right"
+              value={userData.verifyCacheStatus?.enabled ?? false}
+              onValueChange={(value) => {
+                setUserData((prev) => ({
+                  ...prev,
+                  verifyCacheStatus: {
+                    ...prev.verifyCacheStatus,
+                    enabled: value,
+                  },
+                }));
+              }}
+            />
+            <Combobox
+              label="Addons"
+              help="Only verify the streams of these addons. If none are selected, all addons are verified."
+              disabled={!userData.verifyCacheStatus?.enabled}
+              value={userData.verifyCacheStatus?.addons ?? []}
+              onValueChange={(value) => {
+                setUserData((prev) => ({
+                  ...prev,
+                  verifyCacheStatus: {
+                    ...prev.verifyCacheStatus,
+                    addons: value.length ? value : undefined,
+                  },
+                }));
+              }}
+              options={userData.presets.map((preset) => ({
+                label: preset.options.name || preset.type,
+                value: preset.instanceId,
+                textValue: preset.options.name,
+              }))}
+              emptyMessage="You haven't installed any addons..."
+              placeholder="Select addons..."
+              multiple
+            />
+          </SettingsCard>
+        )}
+        {mode === 'pro' && (
+          <SettingsCard
+            title="NZB Health Check"
+            description="Check a sample of the articles in each NZB against the servers of your Stremio NNTP service before returning results. Only streams that pass your other filters are checked. They are given a completeness score that can be filtered on here or with the completeness() function in excluded and required stream expressions."
+          >
+            <Switch
+              label="Enable"
+              side="right"
+              value={userData.nzbHealthCheck?.enabled ?? false}
+              onValueChange={(value) => {
+                setUserData((prev) => ({
+                  ...prev,
+                  nzbHealthCheck: {
+                    ...prev.nzbHealthCheck,
+                    enabled: value,
+                  },
+                }));
+              }}
+            />
+            <NumberInput
+              label="Sample Percentage"
+              help="The percentage of articles to check in each NZB. At least 10 and at most 200 articles are checked."
+              min={0.1}
+              max={100}
+              step={0.5}
+              defaultValue={2}
+              disabled={!userData.nzbHealthCheck?.enabled}
+              value={userData.nzbHealthCheck?.samplePercentage ?? 2}
+              onValueChange={(value) => {
+                setUserData((prev) => ({
+                  ...prev,
+                  nzbHealthCheck: {
+                    ...prev.nzbHealthCheck,
+                    samplePercentage: Math.min(
+                      100,
+                      Math.max(0.1, Number(value || 2))
+                    ),
+                  },
+                }));
+              }}
+            />
+            <NumberInput
+              label="Minimum Completeness (%)"
+              help="Remove streams whose NZB has fewer of the checked articles available. Streams that could not be checked are kept. Set to 0 to only score streams."
+              min={0}
+              max={100}
+              defaultValue={0}
+              disabled={!userData.nzbHealthCheck?.enabled}
+              value={userData.nzbHealthCheck?.minCompleteness ?? 0}
+              onValueChange={(value) => {
+                setUserData((prev) => ({
+                  ...prev,
+                  nzbHealthCheck: {
+                    ...prev.nzbHealthCheck,
+                    minCompleteness: Math.min(
+                      100,
+                      Math.max(0, Number(value || 0))
+                    ),
+                  },
+                }));
+              }}
+            />
+          </SettingsCard>
+        )}
         {mode === 'pro' && (
           <SettingsCard
             title="Auto remove Downloads"
@@ -336,6 +538,143 @@ function Content() {
             />
           </SettingsCard>
         )}
+        {mode === 'pro' && (
+          <SettingsCard
+            title="Download Client"
+            description="Adds a stream below every usenet stream that sends the NZB to your SABnzbd or NZBGet instance when played. Movies and series are sent to separate categories."
+          >
+            <Switch
+              label="Enable"
+              side="right"
+              value={userData.downloadClient?.enabled ?? false}
+              onValueChange={(value) => {
+                setUserData((prev) => ({
+                  ...prev,
+                  downloadClient: {
+                    type: 'sabnzbd',
+                    ...prev.downloadClient,
+                    enabled: value,
+                  },
+                }));
+              }}
+            />
+            <Select
+              label="Client"
+              disabled={!userData.downloadClient?.enabled}
+              options={DOWNLOAD_CLIENTS.map((client) => ({
+                label: DOWNLOAD_CLIENT_DETAILS[client].name,
+                value: client,
+              }))}
+              value={userData.downloadClient?.type ?? 'sabnzbd'}
+              onValueChange={(value) => {
+                setUserData((prev) => ({
+                  ...prev,
+                  downloadClient: {
+                    ...prev.downloadClient,
+                    type: value as DownloadClientId,
+                  },
+                }));
+              }}
+            />
+            <TextInput
+              label="URL"
+              help="The URL of the web interface of your download client. It must be reachable by AIOStreams."
+              placeholder={
+                userData.downloadClient?.type === 'nzbget'
+                  ? 'http://localhost:6789'
+                  : 'http://localhost:8080'
+              }
+              disabled={!userData.downloadClient?.enabled}
+              value={userData.downloadClient?.url ?? ''}
+              onValueChange={(value) => {
+                setUserData((prev) => ({
+                  ...prev,
+                  downloadClient: {
+                    type: 'sabnzbd',
+                    ...prev.downloadClient,
+                    url: value || undefined,
+                  },
+                }));
+              }}
+            />
+            {(userData.downloadClient?.type ?? 'sabnzbd') === 'sabnzbd' ? (
+              <PasswordInput
+                label="API Key"
+                disabled={!userData.downloadClient?.enabled}
+                value={userData.downloadClient?.apiKey ?? ''}
+                onValueChange={(value) => {
+                  setUserData((prev) => ({
+                    ...prev,
+                    downloadClient: {
+                      type: 'sabnzbd',
+                      ...prev.downloadClient,
+                      apiKey: value || undefined,
+                    },
+                  }));
+                }}
+              />
+            ) : (
+              <>
+                <TextInput
+                  label="Username"
+                  disabled={!userData.downloadClient?.enabled}
+                  value={userData.downloadClient?.username ?? ''}
+                  onValueChange={(value) => {
+                    setUserData((prev) => ({
+                      ...prev,
+                      downloadClient: {
+                        type: 'nzbget',
+                        ...prev.downloadClient,
+                        username: value || undefined,
+                      },
+                    }));
+                  }}
+                />
+                <PasswordInput
+                  label="Password"
+                  disabled={!userData.downloadClient?.enabled}
+                  value={userData.downloadClient?.password ?? ''}
+                  onValueChange={(value) => {
+                    setUserData((prev) => ({
+                      ...prev,
+                      downloadClient: {
+                        type: 'nzbget',
+                        ...prev.downloadClient,
+                        password: value || undefined,
+                      },
+                    }));
+                  }}
+                />
+              </>
+            )}
+            {(['movie', 'series'] as const).map((type) => (
+              <TextInput
+                key={type}
+                label={type === 'movie' ? 'Movie Category' : 'Series Category'}
+                placeholder={
+                  DOWNLOAD_CLIENT_DETAILS[
+                    userData.downloadClient?.type ?? 'sabnzbd'
+                  ].defaultCategories[type]
+                }
+                disabled={!userData.downloadClient?.enabled}
+                value={userData.downloadClient?.categories?.[type] ?? ''}
+                onValueChange={(value) => {
+                  setUserData((prev) => ({
+                    ...prev,
+                    downloadClient: {
+                      type: 'sabnzbd',
+                      ...prev.downloadClient,
+                      categories: {
+                        ...prev.downloadClient?.categories,
+                        [type]: value || undefined,
+                      },
+                    },
+                  }));
+                }}
+              />
+            ))}
+          </SettingsCard>
+        )}
         {mode === 'pro' && (
           <SettingsCard
             title="Statistic Streams"
@@ -376,7 +715,7 @@ function Content() {
             />
             <Combobox
               label="Statistics to Show"
-              options={['addon', 'filter'].map((statistic) => ({
+              options={['addon', 'filter', 'verification'].map((statistic) => ({
                 label: statistic,
                 value: statistic,
               }))}
@@ -389,7 +728,11 @@ function Content() {
                   ...prev,
                   statistics: {
                     ...prev.statistics,
-                    statsToShow: value as ('addon' | 'filter')[],
+                    statsToShow: value as (
+                      | 'addon'
+                      | 'filter'
+                      | 'verification'
+                    )[],
                   },
                 }));
               }}
@@ -25,6 +25,7 @@ type ProxyConfig = {
   publicIp?: string;
   proxiedAddons?: string[];
   proxiedServices?: string[];
+  hls?: boolean;
 };
 
 export function ProxyMenu() {
@@ -216,6 +217,32 @@ function Content() {
             )}
           </div>
 
+          {userData.proxy?.id === 'builtin' && (
+            <div className="space-y-2">
+              <Switch
+                side="right"
+                label="Serve MKV and MP4 files as HLS"
+                value={userData.proxy?.hls ?? false}
+                onValueChange={(v) => {
+                  setUserData((prev) => ({
+                    ...prev,
+                    proxy: { ...prev.proxy, hls: v },
+                  }));
+                }}
+                disabled={!userData.proxy?.enabled}
+              />
+              <p className="text-[--muted] text-sm">
+                Proxy MKV and fragmented MP4 files as an HLS playlist split at
+                the keyframes listed in the file's index, so players that can't
+                seek in them can. Nothing is re-encoded: MKV files are remuxed
+                to MP4 a segment at a time. A file is indexed the first time it
+                is played and served as HLS from then on, and files that can't
+                be, such as MKV files with codecs HLS players don't support, are
+                proxied as they are.
+              </p>
+            </div>
+          )}
+
           {mode === 'pro' && (
             <div className="space-y-2">
               <TextInput
@@ -3,7 +3,7 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { TextInput } from '@/components/ui/text-input';
 import { applyMigrations, useUserData, DefaultUserData } from '@/context/userData';
-import { UserConfigAPI } from '@/services/api';
+import { ConfigRevision, UserConfigAPI } from '@/services/api';
 import { PageWrapper } from '@/components/shared/page-wrapper';
 import { Alert } from '@/components/ui/alert';
 import { SettingsCard } from '../shared/settings-card';
@@ -35,6 +35,24 @@ import { UserData } from '@aiostreams/core';
 import { DiffViewer } from '../shared/diff-viewer';
 import { getObjectDiff, DiffItem, sortKeys } from '@/utils/diff';
 
+// custom sort criteria are added without an expression, drop the ones that
+// were never given one rather than failing the save
+function withoutEmptyCustomSortCriteria(userData: UserData): UserData {
+  if (!userData.sortCriteria) return userData;
+  return {
+    ...userData,
+    sortCriteria: Object.fromEntries(
+      Object.entries(userData.sortCriteria).map(([type, criteria]) => [
+        type,
+        criteria?.filter(
+          (criterion) =>
+            criterion.key !== 'custom' || criterion.expression?.trim()
+        ),
+      ])
+    ) as NonNullable<UserData['sortCriteria']>,
+  };
+}
+
 // Reusable modal option button component
 interface ModalOptionButtonProps {
   onClick: () => void;
@@ -114,6 +132,19 @@ function Content() {
   const [remoteDiffConfig, setRemoteDiffConfig] = React.useState<UserData | null>(null);
   const [localDiffConfig, setLocalDiffConfig] = React.useState<UserData | null>(null);
   const diffModal = useDisclosure(false);
+  const revisionsModal = useDisclosure(false);
+  const revisionDiffModal = useDisclosure(false);
+  const [revisions, setRevisions] = React.useState<ConfigRevision[]>([]);
+  const [selectedRevision, setSelectedRevision] = React.useState<number | null>(
+    null
+  );
+  const [revisionDiffData, setRevisionDiffData] = React.useState<DiffItem[]>(
+    []
+  );
+  const [revisionDiffConfigs, setRevisionDiffConfigs] = React.useState<{
+    current: UserData | null;
+    revision: UserData | null;
+  }>({ current: null, revision: null });
   const pendingSkipDiffRef = React.useRef(false);
   const confirmResetProps = useConfirmationDialog({
     title: 'Confirm Reset',
@@ -280,9 +311,10 @@ function Content() {
     setLoading(true);
 
     try {
+      const savedData = withoutEmptyCustomSortCriteria(userData);
       const result = uuid
-        ? await UserConfigAPI.updateConfig(uuid, userData, password!)
-        : await UserConfigAPI.createConfig(userData, newPassword);
+        ? await UserConfigAPI.updateConfig(uuid, savedData, password!)
+        : await UserConfigAPI.createConfig(savedData, newPassword);
 
       if (!result.success) {
         if (result.error?.code === 'USER_INVALID_DETAILS') {
@@ -325,6 +357,106 @@ function Content() {
     }
   };
 
+  const handleOpenRevisions = async () => {
+    if (!uuid || !password) return;
+    setLoading(true);
+    try {
+      const result = await UserConfigAPI.getRevisions(uuid, password);
+      if (!result.success || !result.data) {
+        throw new Error(result.error?.message || 'Failed to load revisions');
+      }
+      setRevisions(result.data);
+      revisionsModal.open();
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : 'Failed to load revisions'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCompareRevision = async (revision: number) => {
+    if (!uuid || !password) return;
+    setLoading(true);
+    try {
+      const result = await UserConfigAPI.getRevisionDiff(
+        uuid,
+        password,
+        revision
+      );
+      if (!result.success || !result.data) {
+        throw new Error(result.error?.message || 'Failed to load revision');
+      }
+      const filterForDiff = (d: UserData) => {
+        const filtered: any = { ...d };
+        delete filtered.ip;
+        delete filtered.uuid;
+        delete filtered.addonPassword;
+        delete filtered.trusted;
+        delete filtered.encryptedPassword;
+        delete filtered.showChanges;
+        return sortKeys(filtered) as UserData;
+      };
+      // show what restoring the revision would change in the saved config
+      const current = filterForDiff(result.data.to);
+      const restored = filterForDiff(result.data.from);
+      const diffs = getObjectDiff(current, restored);
+      if (diffs.length === 0) {
+        toast.info('This revision is the same as your saved configuration');
+        return;
+      }
+      setSelectedRevision(revision);
+      setRevisionDiffConfigs({ current, revision: restored });
+      setRevisionDiffData(diffs);
+      revisionDiffModal.open();
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : 'Failed to load revision'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestoreRevision = async (revision: number) => {
+    if (!uuid || !password) return;
+    setLoading(true);
+    try {
+      const result = await UserConfigAPI.restoreRevision(
+        uuid,
+        password,
+        revision,
+        userData.addonPassword
+      );
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Failed to restore revision');
+      }
+      const loaded = await UserConfigAPI.loadConfig(uuid, password);
+      if (!loaded.success || !loaded.data) {
+        throw new Error(
+          loaded.error?.message || 'Failed to load the restored configuration'
+        );
+      }
+      const config = loaded.data.config;
+      setUserData((prev) => ({
+        ...DefaultUserData,
+        ...applyMigrations(config),
+        addonPassword: prev.addonPassword,
+        showChanges: prev.showChanges,
+      }));
+      revisionDiffModal.close();
+      revisionsModal.close();
+      toast.success(`Restored revision ${revision}`);
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : 'Failed to restore revision'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -374,6 +506,7 @@ function Content() {
         url: undefined,
         publicUrl: undefined,
       },
+      downloadClient: undefined,
       presets: clonedData?.presets?.map((preset) => {
         const presetMeta = status?.settings.presets.find(
           (p) => p.ID === preset.type
@@ -805,6 +938,97 @@ function Content() {
           </div>
         </SettingsCard>
 
+        {uuid && (
+          <SettingsCard
+            title="Revision History"
+            description="View, compare and restore previously saved versions of your configuration"
+          >
+            <div className="flex flex-wrap gap-3">
+              <Button
+                onClick={handleOpenRevisions}
+                intent="gray"
+                loading={loading}
+              >
+                View Revisions
+              </Button>
+            </div>
+          </SettingsCard>
+        )}
+
+        <Modal
+          open={revisionsModal.isOpen}
+          onOpenChange={revisionsModal.toggle}
+          title="Revision History"
+          description="A copy of your configuration is kept each time you save it"
+        >
+          {revisions.length === 0 ? (
+            <p className="text-sm text-[--muted]">
+              There are no previous revisions of your configuration yet.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {revisions.map(({ revision, createdAt }) => (
+                <div
+                  key={revision}
+                  className="flex items-center justify-between gap-3 p-3 bg-gray-800/50 rounded-lg"
+                >
+                  <div>
+                    <div className="text-sm font-medium text-white">
+                      Revision {revision}
+                    </div>
+                    <div className="text-xs text-gray-400 mt-1">
+                      Replaced on {new Date(createdAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    intent="gray-outline"
+                    disabled={loading}
+                    onClick={() => handleCompareRevision(revision)}
+                  >
+                    Compare
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </Modal>
+
+        <Modal
+          open={revisionDiffModal.isOpen}
+          onOpenChange={revisionDiffModal.toggle}
+          title={`Restore Revision ${selectedRevision ?? ''}`}
+          description="Review the changes restoring this revision would make to your saved configuration. Unsaved changes will be lost."
+        >
+          <div className="space-y-4">
+            <DiffViewer
+              diffs={revisionDiffData}
+              valueFormatter={valueFormatter}
+              oldValue={revisionDiffConfigs.current}
+              newValue={revisionDiffConfigs.revision}
+            />
+            <div className="flex justify-end gap-3 pt-4">
+              <Button
+                intent="gray-outline"
+                onClick={revisionDiffModal.close}
+                disabled={loading}
+              >
+                Cancel
+              </Button>
+              <Button
+                intent="white"
+                loading={loading}
+                onClick={() =>
+                  selectedRevision !== null &&
+                  handleRestoreRevision(selectedRevision)
+                }
+              >
+                Restore
+              </Button>
+            </div>
+          </div>
+        </Modal>
+
         <SettingsCard
           title="Danger Zone"
           description="Perform potentially destructive actions that cannot be undone"
@@ -7,6 +7,7 @@ import { Select } from '../ui/select';
 import { useUserData } from '@/context/userData';
 import { IconButton } from '../ui/button';
 import { Combobox } from '../ui/combobox';
+import { TextInput } from '../ui/text-input';
 import {
   SORT_CRITERIA,
   SORT_CRITERIA_DETAILS,
@@ -28,6 +29,7 @@ import {
 import { restrictToVerticalAxis } from '@dnd-kit/modifiers';
 import { CSS } from '@dnd-kit/utilities';
 import { ArrowDownAZ, ArrowUpAZ } from 'lucide-react';
+import { FaPlus, FaRegTrashAlt } from 'react-icons/fa';
 import {
   Accordion,
   AccordionTrigger,
@@ -51,12 +53,18 @@ function SortableItem({
   description,
   direction,
   onDirectionChange,
+  expression,
+  onExpressionChange,
+  onRemove,
 }: {
   id: string;
   name: string;
   description: string;
   direction: (typeof SORT_DIRECTIONS)[number];
   onDirectionChange: () => void;
+  expression?: string;
+  onExpressionChange?: (expression: string) => void;
+  onRemove?: () => void;
 }) {
   const {
     attributes,
@@ -84,6 +92,14 @@ function SortableItem({
         <div className="flex-1 flex flex-col justify-center min-w-0">
           <span className="font-mono text-base truncate">{name}</span>
           <span className="text-[--muted] text-sm truncate">{description}</span>
+          {onExpressionChange && (
+            <TextInput
+              className="mt-2 font-mono"
+              value={expression ?? ''}
+              placeholder="sum(values(stream, 'seeders')) / (sum(values(stream, 'age')) + 1)"
+              onValueChange={onExpressionChange}
+            />
+          )}
         </div>
         <IconButton
           size="sm"
@@ -92,6 +108,15 @@ function SortableItem({
           intent="primary-subtle"
           onClick={onDirectionChange}
         />
+        {onRemove && (
+          <IconButton
+            size="sm"
+            rounded
+            icon={<FaRegTrashAlt />}
+            intent="alert-subtle"
+            onClick={onRemove}
+          />
+        )}
       </div>
     </div>
   );
@@ -105,6 +130,7 @@ function Content() {
   type SortCriteriaItem = {
     key: (typeof SORT_CRITERIA)[number];
     direction: (typeof SORT_DIRECTIONS)[number];
+    expression?: string;
   };
 
   type SortCriteriaType = {
@@ -139,10 +165,42 @@ function Content() {
     currentSortType as keyof SortCriteriaType
   ] || []) as SortCriteriaItem[];
 
+  // criteria are identified by their position, as there can be several
+  // custom criteria with different expressions
+  const itemIds = currentSortCriteria.map(
+    (item, index) => `${item.key}-${index}`
+  );
+
   const getSortCriteriaDetails = (key: (typeof SORT_CRITERIA)[number]) => {
     return SORT_CRITERIA_DETAILS[key];
   };
 
+  const setCurrentSortCriteria = (
+    update: (criteria: SortCriteriaItem[]) => SortCriteriaItem[]
+  ) => {
+    setUserData((prev) => ({
+      ...prev,
+      sortCriteria: {
+        ...(prev.sortCriteria || {}),
+        [currentSortType]: update(
+          (prev.sortCriteria?.[currentSortType as keyof SortCriteriaType] ||
+            []) as SortCriteriaItem[]
+        ),
+      },
+    }));
+  };
+
+  const updateSortCriterion = (
+    index: number,
+    changes: Partial<SortCriteriaItem>
+  ) => {
+    setCurrentSortCriteria((criteria) =>
+      criteria.map((criterion, i) =>
+        i === index ? { ...criterion, ...changes } : criterion
+      )
+    );
+  };
+
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(TouchSensor, {
@@ -157,12 +215,8 @@ function Content() {
     const { active, over } = event;
     if (!over) return;
     if (active.id !== over.id) {
-      const oldIndex = currentSortCriteria.findIndex(
-        (item) => `${item.key}-${item.direction}` === active.id
-      );
-      const newIndex = currentSortCriteria.findIndex(
-        (item) => `${item.key}-${item.direction}` === over.id
-      );
+      const oldIndex = itemIds.indexOf(active.id);
+      const newIndex = itemIds.indexOf(over.id);
 
       const newSortCriteria = arrayMove(
         currentSortCriteria,
@@ -307,29 +361,27 @@ function Content() {
           <Combobox
             label="Sort Criteria"
             multiple
-            value={currentSortCriteria.map((item) => item.key)}
+            value={[...new Set(currentSortCriteria.map((item) => item.key))]}
             emptyMessage="No sort criteria available"
             onValueChange={(value) => {
               const typedValue = value as (typeof SORT_CRITERIA)[number][];
-              // Preserve existing directions for items that already exist
-              const newCriteria: SortCriteriaItem[] = typedValue.map((key) => {
-                const existingItem = currentSortCriteria.find(
-                  (item) => item.key === key
-                );
-                return (
-                  existingItem || {
-                    key: key as (typeof SORT_CRITERIA)[number],
+              // Preserve the order and settings of items that already exist,
+              // including every custom criterion
+              const newCriteria: SortCriteriaItem[] = [
+                ...currentSortCriteria.filter((item) =>
+                  typedValue.includes(item.key)
+                ),
+                ...typedValue
+                  .filter(
+                    (key) =>
+                      !currentSortCriteria.some((item) => item.key === key)
+                  )
+                  .map((key) => ({
+                    key,
                     direction: getSortCriteriaDetails(key).defaultDirection,
-                  }
-                );
-              });
-              setUserData((prev) => ({
-                ...prev,
-                sortCriteria: {
-                  ...(prev.sortCriteria || {}),
-                  [currentSortType]: newCriteria,
-                },
-              }));
+                  })),
+              ];
+              setCurrentSortCriteria(() => newCriteria);
             }}
             options={SORT_CRITERIA.map((criteria) => ({
               label: getSortCriteriaDetails(criteria).name,
@@ -342,7 +394,25 @@ function Content() {
         {currentSortCriteria.length > 0 && (
           <SettingsCard
             title="Order"
-            description="Drag to reorder your sort criteria for the currently selected type. Click the direction icon to toggle between ascending and descending."
+            description="Drag to reorder your sort criteria for the currently selected type. Click the direction icon to toggle between ascending and descending. Use the + button to add another custom expression."
+            action={
+              <IconButton
+                size="sm"
+                intent="primary-subtle"
+                icon={<FaPlus />}
+                rounded
+                onClick={() =>
+                  setCurrentSortCriteria((criteria) => [
+                    ...criteria,
+                    {
+                      key: 'custom',
+                      direction:
+                        getSortCriteriaDetails('custom').defaultDirection,
+                    },
+                  ])
+                }
+              />
+            }
           >
             <DndContext
               modifiers={[restrictToVerticalAxis]}
@@ -351,16 +421,14 @@ function Content() {
               sensors={sensors}
             >
               <SortableContext
-                items={currentSortCriteria.map(
-                  (item) => `${item.key}-${item.direction}`
-                )}
+                items={itemIds}
                 strategy={verticalListSortingStrategy}
               >
                 <div className="space-y-2">
-                  {currentSortCriteria.map((item) => (
+                  {currentSortCriteria.map((item, index) => (
                     <SortableItem
-                      key={`${item.key}-${item.direction}`}
-                      id={`${item.key}-${item.direction}`}
+                      key={itemIds[index]}
+                      id={itemIds[index]}
                       name={getSortCriteriaDetails(item.key).name}
                       description={
                         item.direction === 'asc'
@@ -368,30 +436,26 @@ function Content() {
                           : `${getSortCriteriaDetails(item.key).description}, ${getSortCriteriaDetails(item.key).descendingDescription}`
                       }
                       direction={item.direction}
-                      onDirectionChange={() => {
-                        const newDirection =
-                          item.direction === 'asc'
-                            ? ('desc' as const)
-                            : ('asc' as const);
-                        setUserData((prev) => {
-                          const prevCriteria =
-                            prev.sortCriteria?.[
-                              currentSortType as keyof SortCriteriaType
-                            ] || [];
-                          return {
-                            ...prev,
-                            sortCriteria: {
-                              ...(prev.sortCriteria || {}),
-                              [currentSortType]: prevCriteria.map(
-                                (criteria: SortCriteriaItem) =>
-                                  criteria.key === item.key
-                                    ? { ...criteria, direction: newDirection }
-                                    : criteria
-                              ),
-                            },
-                          };
-                        });
-                      }}
+                      expression={item.expression}
+                      onExpressionChange={
+                        item.key === 'custom'
+                          ? (expression) =>
+                              updateSortCriterion(index, { expression })
+                          : undefined
+                      }
+                      onRemove={
+                        item.key === 'custom'
+                          ? () =>
+                              setCurrentSortCriteria((criteria) =>
+                                criteria.filter((_, i) => i !== index)
+                              )
+                          : undefined
+                      }
+                      onDirectionChange={() =>
+                        updateSortCriterion(index, {
+                          direction: item.direction === 'asc' ? 'desc' : 'asc',
+                        })
+                      }
                     />
                   ))}
                 </div>
@@ -19,6 +19,11 @@ interface LoadUserResponse {
   encryptedPassword: string;
 }
 
+export interface ConfigRevision {
+  revision: number;
+  createdAt: number;
+}
+
 export class UserConfigAPI {
   private static BASE_URL =
     process.env.NEXT_PUBLIC_BACKEND_BASE_URL || '/api/v1';
@@ -212,6 +217,146 @@ export class UserConfigAPI {
     }
   }
 
+  static async getRevisions(
+    uuid: string,
+    password: string
+  ): Promise<ApiResponse<ConfigRevision[]>> {
+    try {
+      const response = await fetch(
+        `${this.BASE_URL}/user/revisions?uuid=${uuid}&password=${encodeURIComponent(password)}`,
+        {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        return {
+          success: false,
+          error: {
+            code: data.error?.code || 'UNKNOWN_ERROR',
+            message: data.error?.message || 'Failed to load revisions',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: data.data.revisions,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'UNKNOWN_ERROR',
+          message:
+            err instanceof Error ? err.message : 'Failed to load revisions',
+        },
+      };
+    }
+  }
+
+  static async getRevisionDiff(
+    uuid: string,
+    password: string,
+    revision: number
+  ): Promise<ApiResponse<{ from: UserData; to: UserData }>> {
+    try {
+      const response = await fetch(
+        `${this.BASE_URL}/user/revisions/${revision}/diff?uuid=${uuid}&password=${encodeURIComponent(password)}`,
+        {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        return {
+          success: false,
+          error: {
+            code: data.error?.code || 'UNKNOWN_ERROR',
+            message: data.error?.message || 'Failed to load revision',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          from: data.data.from.config,
+          to: data.data.to.config,
+        },
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'UNKNOWN_ERROR',
+          message:
+            err instanceof Error ? err.message : 'Failed to load revision',
+        },
+      };
+    }
+  }
+
+  static async restoreRevision(
+    uuid: string,
+    password: string,
+    revision: number,
+    addonPassword?: string
+  ): Promise<ApiResponse<void>> {
+    try {
+      const response = await fetch(
+        `${this.BASE_URL}/user/revisions/${revision}/restore`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            uuid,
+            password,
+            addonPassword,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: {
+            code: data.error?.code || 'UNKNOWN_ERROR',
+            message: data.error?.message || 'Failed to restore revision',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: data.data,
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: {
+          code: 'UNKNOWN_ERROR',
+          message:
+            err instanceof Error ? err.message : 'Failed to restore revision',
+        },
+      };
+    }
+  }
+
   static async formatStream(
     stream: ParsedStream,
     userData: UserData
@@ -9,10 +9,12 @@ import {
   topPosterApi,
   gdriveApi,
   debridApi,
+  downloadsApi,
   searchApi,
   animeApi,
   proxyApi,
   templatesApi,
+  selApi,
 } from './routes/api/index.js';
 import {
   configure,
@@ -36,6 +38,8 @@ import {
   prowlarr,
   knaben,
   torrentGalaxy,
+  scraper,
+  library,
   seadex,
   easynews,
 } from './routes/builtins/index.js';
@@ -101,12 +105,14 @@ apiRouter.use('/rpdb', rpdbApi);
 apiRouter.use('/top-poster', topPosterApi);
 apiRouter.use('/oauth/exchange/gdrive', gdriveApi);
 apiRouter.use('/debrid', debridApi);
+apiRouter.use('/downloads', downloadsApi);
 if (Env.ENABLE_SEARCH_API) {
   apiRouter.use('/search', searchApi);
 }
 apiRouter.use('/anime', animeApi);
 apiRouter.use('/proxy', proxyApi);
 apiRouter.use('/templates', templatesApi);
+apiRouter.use('/sel', selApi);
 app.use(`/api/v${constants.API_VERSION}`, apiRouter);
 
 // Stremio Routes
@@ -157,6 +163,8 @@ builtinsRouter.use('/newznab', newznab);
 builtinsRouter.use('/prowlarr', prowlarr);
 builtinsRouter.use('/knaben', knaben);
 builtinsRouter.use('/torrent-galaxy', torrentGalaxy);
+builtinsRouter.use('/scraper', scraper);
+builtinsRouter.use('/library', library);
 builtinsRouter.use('/seadex', seadex);
 builtinsRouter.use('/easynews', easynews);
 app.use('/builtins', builtinsRouter);
@@ -21,7 +21,7 @@ export function resolveUuidAliasForUserApi(
         req.uuid = configuration?.uuid;
       }
     }
-  } else if (method === 'PUT' || method === 'DELETE') {
+  } else if (method === 'PUT' || method === 'DELETE' || method === 'POST') {
     const value = (req.body ?? {}).uuid;
     if (typeof value === 'string' && !uuidRegex.test(value)) {
       const configuration = Env.ALIASED_CONFIGURATIONS.get(value);
@@ -20,6 +20,7 @@ import {
   getSimpleTextHash,
   FileInfo,
   maskSensitiveInfo,
+  WatchHistory,
 } from '@aiostreams/core';
 import { ZodError } from 'zod';
 import { StaticFiles } from '../../app.js';
@@ -206,6 +207,14 @@ router.get(
         return;
       }
 
+      if (typeof req.query.watch === 'string') {
+        WatchHistory.record(req.query.watch).catch((error) =>
+          logger.warn(`Failed to record play`, {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+      }
+
       res.redirect(307, streamUrl);
     } catch (error: any) {
       if (error instanceof APIError || error instanceof ZodError) {
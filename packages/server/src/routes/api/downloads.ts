@@ -0,0 +1,124 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  APIError,
+  constants,
+  createLogger,
+  formatZodError,
+  DebridError,
+  DownloadClientService,
+  DownloadRequest,
+} from '@aiostreams/core';
+import { ZodError } from 'zod';
+import { StaticFiles } from '../../app.js';
+import { corsMiddleware } from '../../middlewares/cors.js';
+import { createResponse } from '../../utils/responses.js';
+
+const router: Router = Router();
+const logger = createLogger('server');
+
+router.use(corsMiddleware);
+
+function parseParams(
+  encryptedConfig: string,
+  encryptedRequest: string
+): { client: DownloadClientService; request: DownloadRequest } {
+  try {
+    const client = DownloadClientService.fromEncryptedConfig(encryptedConfig);
+    return { client, request: client.parseRequest(encryptedRequest) };
+  } catch (error: any) {
+    throw new APIError(
+      constants.ErrorCode.BAD_REQUEST,
+      undefined,
+      error instanceof ZodError
+        ? formatZodError(error)
+        : 'Invalid download client config or request'
+    );
+  }
+}
+
+// sends the NZB to the download client, this is used as the URL of a stream
+// so the result is shown to the user as a video
+router.get(
+  '/send/:encryptedConfig/:request/:filename',
+  async (req: Request, res: Response, next: NextFunction) => {
+    // players may make HEAD requests before playing
+    if (req.method === 'HEAD') {
+      res.status(200).end();
+      return;
+    }
+    try {
+      const { client, request } = parseParams(
+        req.params.encryptedConfig as string,
+        req.params.request as string
+      );
+      try {
+        await client.send(request);
+      } catch (error: any) {
+        let staticFile: string = StaticFiles.DOWNLOAD_FAILED;
+        if (error instanceof DebridError) {
+          logger.error(
+            `Failed to send NZB to ${client.name}: ${error.code}: ${error.message}`,
+            { ...error, stack: undefined }
+          );
+          switch (error.code) {
+            case 'TOO_MANY_REQUESTS':
+              staticFile = StaticFiles.TOO_MANY_REQUESTS;
+              break;
+            case 'UNAUTHORIZED':
+              staticFile = StaticFiles.UNAUTHORIZED;
+              break;
+            case 'FORBIDDEN':
+              staticFile = StaticFiles.FORBIDDEN;
+              break;
+            default:
+              break;
+          }
+        } else {
+          logger.error(
+            `Got unknown error while sending NZB to ${client.name}: ${error.message}`
+          );
+          staticFile = StaticFiles.INTERNAL_SERVER_ERROR;
+        }
+        res.redirect(307, `/static/${staticFile}`);
+        return;
+      }
+      res.redirect(307, `/static/${StaticFiles.DOWNLOADING}`);
+    } catch (error: any) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/status/:encryptedConfig/:request',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { client, request } = parseParams(
+        req.params.encryptedConfig as string,
+        req.params.request as string
+      );
+      const job = await client.getJob(request);
+      if (!job) {
+        throw new APIError(constants.ErrorCode.DOWNLOAD_JOB_NOT_FOUND);
+      }
+      res
+        .status(200)
+        .json(createResponse({ success: true, detail: 'OK', data: job }));
+    } catch (error: any) {
+      if (error instanceof APIError) {
+        next(error);
+      } else {
+        logger.error(`Failed to get download job status: ${error.message}`);
+        next(
+          new APIError(
+            constants.ErrorCode.INTERNAL_SERVER_ERROR,
+            undefined,
+            error.message
+          )
+        );
+      }
+    }
+  }
+);
+
+export default router;
@@ -7,7 +7,9 @@ export { default as rpdbApi } from './rpdb.js';
 export { default as topPosterApi } from './top-poster.js';
 export { default as gdriveApi } from './gdrive.js';
 export { default as debridApi } from './debrid.js';
+export { default as downloadsApi } from './downloads.js';
 export { default as searchApi } from './search.js';
 export { default as animeApi } from './anime.js';
 export { default as proxyApi } from './proxy.js';
 export { default as templatesApi } from './templates.js';
+export { default as selApi } from './sel.js';
@@ -13,14 +13,25 @@ import {
   shouldProxy,
   isValidIp,
   isPrivateIp,
+  WatchHistory,
 } from '@aiostreams/core';
 import { z } from 'zod';
 import { request, Dispatcher } from 'undici';
 import { pipeline } from 'stream/promises';
-import { createProxy, BuiltinProxyStats, BuiltinProxy } from '@aiostreams/core';
+import {
+  createProxy,
+  BuiltinProxyStats,
+  BuiltinProxy,
+  ProxyQuotaExceededError,
+  buildHlsPlaylist,
+  getHlsIndex,
+  getHlsInitSegment,
+  getHlsMediaSegment,
+  RangeReader,
+} from '@aiostreams/core';
 import { corsMiddleware } from '../../middlewares/cors.js';
 import { StaticFiles } from '../../app.js';
-import { Transform } from 'stream';
+import { Readable, Transform } from 'stream';
 
 const logger = createLogger('server');
 const router: Router = Router();
@@ -100,12 +111,279 @@ const ProxyAuthSchema = z.object({
 const ProxyDataSchema = z.object({
   url: z.url(),
   filename: z.string().optional(),
-  type: z.enum(['nzb', 'stream']).optional(),
+  type: z.enum(['nzb', 'stream', 'hls']).optional(),
+  // build the HLS index of the file when it is played
+  index: z.boolean().optional(),
   // These are optional, as we'll be forwarding client headers
   requestHeaders: z.record(z.string(), z.string()).optional(),
   responseHeaders: z.record(z.string(), z.string()).optional(),
 });
 
+interface UpstreamRequestOptions {
+  requestId: string;
+  username: string;
+  url: string;
+  method: Dispatcher.HttpMethod;
+  headers: Record<string, string | string[] | undefined>;
+  body?: Request;
+}
+
+/**
+ * Make a request to the upstream URL, following redirects and blocking
+ * requests to private addresses.
+ */
+async function requestUpstream(options: UpstreamRequestOptions): Promise<{
+  response: Dispatcher.ResponseData | undefined;
+  url: string;
+}> {
+  let currentUrl = options.url;
+  const maxRedirects = 10;
+  let redirectCount = 0;
+  let method = options.method;
+  let upstreamResponse: Dispatcher.ResponseData | undefined;
+
+  while (redirectCount < maxRedirects) {
+    const urlObj = new URL(currentUrl);
+    if (Env.BASE_URL && urlObj.origin === Env.BASE_URL) {
+      const internalUrl = new URL(Env.INTERNAL_URL);
+      urlObj.protocol = internalUrl.protocol;
+      urlObj.host = internalUrl.host;
+      urlObj.port = internalUrl.port;
+    }
+
+    if (Env.REQUEST_URL_MAPPINGS) {
+      for (const [key, value] of Object.entries(Env.REQUEST_URL_MAPPINGS)) {
+        if (urlObj.origin === key) {
+          const mappedUrl = new URL(value);
+          urlObj.protocol = mappedUrl.protocol;
+          urlObj.host = mappedUrl.host;
+          urlObj.port = mappedUrl.port;
+          break;
+        }
+      }
+    }
+
+    // SSRF Protection
+    const internalUrl = new URL(Env.INTERNAL_URL);
+    const isInternalRequest =
+      urlObj.hostname === internalUrl.hostname &&
+      (urlObj.port === internalUrl.port ||
+        (urlObj.port === '' &&
+          (internalUrl.port === '80' || internalUrl.port === '443'))); // Handle implicit ports
+
+    if (!isInternalRequest) {
+      if (isValidIp(urlObj.hostname)) {
+        if (isPrivateIp(urlObj.hostname)) {
+          throw new APIError(
+            constants.ErrorCode.FORBIDDEN,
+            undefined,
+            `Access to private IP ${urlObj.hostname} is forbidden`
+          );
+        }
+      } else {
+        try {
+          const resolved = await dns.lookup(urlObj.hostname);
+          if (isPrivateIp(resolved.address)) {
+            throw new APIError(
+              constants.ErrorCode.FORBIDDEN,
+              undefined,
+              `Access to private IP ${resolved.address} is forbidden`
+            );
+          }
+        } catch (error) {
+          // Ignore DNS errors here, let the request fail naturally or if lookup fails it's effectively blocked
+        }
+      }
+    }
+
+    const { useProxy, proxyIndex } = shouldProxy(urlObj);
+    const proxyAgent = useProxy
+      ? getProxyAgent(Env.ADDON_PROXY![proxyIndex])
+      : undefined;
+    const headers = Object.fromEntries(
+      Object.entries(options.headers).map(([key, value]) => [
+        key.toLowerCase(),
+        value,
+      ])
+    );
+    const domainUserAgent = domainHasUserAgent(urlObj);
+    if (domainUserAgent) {
+      headers['user-agent'] = domainUserAgent;
+    }
+    if (urlObj.username && urlObj.password) {
+      const basicAuth = Buffer.from(
+        `${decodeURIComponent(urlObj.username)}:${decodeURIComponent(
+          urlObj.password
+        )}`
+      ).toString('base64');
+      headers['authorization'] = `Basic ${basicAuth}`;
+      urlObj.username = '';
+      urlObj.password = '';
+    }
+    currentUrl = urlObj.toString();
+    logger.debug(`[${options.requestId}] Making upstream request`, {
+      username: options.username,
+      method: method,
+      tunneled: useProxy
+        ? `true${proxyIndex > 1 ? ` (${proxyIndex + 1})` : ''}`
+        : 'false',
+      range: headers['range'],
+      url: currentUrl,
+    });
+    logger.silly(`[${options.requestId}] Headers for upstream request`, {
+      headers: JSON.stringify(headers),
+    });
+    upstreamResponse = await request(currentUrl, {
+      method: method,
+      headers: headers,
+      dispatcher: proxyAgent,
+      body: options.body,
+      bodyTimeout: 0,
+      headersTimeout: 0,
+    });
+
+    if ([301, 302, 303, 307, 308].includes(upstreamResponse.statusCode)) {
+      redirectCount++;
+      const location = upstreamResponse.headers['location'];
+      if (!location || typeof location !== 'string') {
+        break; // No location header, stop redirecting
+      }
+      currentUrl = new URL(location, currentUrl).href;
+
+      if ([301, 302, 303].includes(upstreamResponse.statusCode)) {
+        method = 'GET';
+      }
+      // For 307, 308, method remains the same
+      continue;
+    }
+
+    break; // Not a redirect, exit loop
+  }
+
+  return { response: upstreamResponse, url: currentUrl };
+}
+
+/**
+ * Read byte ranges of the upstream file, for building and remuxing HLS
+ * segments.
+ */
+function createRangeReader(
+  requestId: string,
+  username: string,
+  data: z.infer<typeof ProxyDataSchema>
+): RangeReader {
+  return async (start, end) => {
+    const { response } = await requestUpstream({
+      requestId,
+      username,
+      url: data.url,
+      method: 'GET',
+      headers: { ...data.requestHeaders, range: `bytes=${start}-${end}` },
+    });
+    if (!response) {
+      throw new Error('Upstream response not found');
+    }
+    if (response.statusCode !== 206) {
+      response.body.destroy();
+      throw new Error(
+        `Upstream responded with ${response.statusCode} to a range request`
+      );
+    }
+    const contentRange = response.headers['content-range'];
+    const totalSize =
+      typeof contentRange === 'string'
+        ? Number(contentRange.match(/\/(\d+)$/)?.[1]) || undefined
+        : undefined;
+    return {
+      data: Buffer.from(await response.body.arrayBuffer()),
+      totalSize,
+    };
+  };
+}
+
+/**
+ * Serve an HLS playlist whose segments are byte ranges of the upstream file,
+ * or segments remuxed from it.
+ */
+async function serveHlsPlaylist(
+  req: Request,
+  res: Response,
+  requestId: string,
+  username: string,
+  data: z.infer<typeof ProxyDataSchema>,
+  filename: string
+) {
+  // the playlist is served at <filename>.m3u8 and the file at <filename>
+  const uri = encodeURIComponent(filename.replace(/\.m3u8$/, ''));
+  const index = await getHlsIndex(
+    data.url,
+    createRangeReader(requestId, username, data)
+  );
+  if (!index) {
+    throw new APIError(
+      constants.ErrorCode.BAD_REQUEST,
+      undefined,
+      'The file can not be served as HLS'
+    );
+  }
+  res.set('Content-Type', 'application/vnd.apple.mpegurl');
+  res.set('Cache-Control', 'no-cache');
+  if (req.method === 'HEAD') {
+    res.end();
+  } else {
+    res.send(buildHlsPlaylist(index, uri));
+  }
+}
+
+/**
+ * Serve the initialisation section or a media segment of a Matroska file
+ * remuxed to fragmented MP4, requested as <filename>.init.mp4 or
+ * <filename>.<n>.m4s.
+ */
+async function serveHlsSegment(
+  req: Request,
+  res: Response,
+  requestId: string,
+  username: string,
+  data: z.infer<typeof ProxyDataSchema>,
+  segment: string
+) {
+  const read = createRangeReader(requestId, username, data);
+  const index = await getHlsIndex(data.url, read);
+  if (index?.container !== 'mkv') {
+    throw new APIError(
+      constants.ErrorCode.BAD_REQUEST,
+      undefined,
+      'The file has no remuxed HLS segments'
+    );
+  }
+  const body =
+    segment === 'init'
+      ? getHlsInitSegment(index)
+      : await getHlsMediaSegment(index, Number(segment), read);
+  if (!body) {
+    throw new APIError(
+      constants.ErrorCode.BAD_REQUEST,
+      undefined,
+      `HLS segment ${segment} not found`
+    );
+  }
+  res.set(
+    'Content-Type',
+    segment === 'init' ? 'video/mp4' : 'video/iso.segment'
+  );
+  res.set('Content-Length', String(body.length));
+  if (req.method === 'HEAD') {
+    res.end();
+  } else {
+    await pipeline(
+      Readable.from([body]),
+      proxyStats.createUsageMeter(username),
+      res
+    );
+  }
+}
+
 router.use(corsMiddleware);
 
 // GET /stats endpoint to display proxy statistics
@@ -164,6 +442,8 @@ router.get(
                 relativeTimestamp: `${getTimeTakenSincePoint(conn.timestamp)} ago`,
                 relativeLastSeen: `${getTimeTakenSincePoint(conn.lastSeen)} ago`,
               })),
+              usage: userStats.usage,
+              limits: userStats.limits,
             },
           ])
         ),
@@ -282,10 +562,9 @@ router.all(
         req.requestIp || req.ip || req.socket.remoteAddress || 'unknown';
       const timestamp = Date.now();
 
-      const connectionLimit =
-        Env.AIOSTREAMS_AUTH_CONNECTIONS_LIMIT?.get(auth.username) ??
-        Env.AIOSTREAMS_AUTH_CONNECTIONS_LIMIT?.get('*') ??
-        0;
+      const { connections: connectionLimit } = proxyStats.getLimits(
+        auth.username
+      );
 
       // prepare and execute upstream request
       const clientHeaders = copyHeaders(req.headers);
@@ -326,6 +605,39 @@ router.all(
         }
       }
 
+      // record the play in the watch history of the user on the request for
+      // the start of the stream, rather than on every seek
+      const range = req.headers.range;
+      if (
+        isGetRequest &&
+        typeof req.query.watch === 'string' &&
+        (!range || range.startsWith('bytes=0-'))
+      ) {
+        WatchHistory.record(req.query.watch).catch((error) =>
+          logger.warn(`[${requestId}] Failed to record play`, {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+      }
+
+      // the playlist only reads the container index, the connection and quota
+      // are checked when the segments are requested
+      if (
+        data.type === 'hls' &&
+        filename?.endsWith('.m3u8') &&
+        (isGetRequest || req.method === 'HEAD')
+      ) {
+        await serveHlsPlaylist(
+          req,
+          res,
+          requestId,
+          auth.username,
+          data,
+          filename
+        );
+        return;
+      }
+
       if (isGetRequest) {
         if (connectionLimit > 0) {
           const activeConnections = await proxyStats.getActiveConnections(
@@ -343,6 +655,16 @@ router.all(
             return;
           }
         }
+        if (await proxyStats.isQuotaExceeded(auth.username)) {
+          logger.warn(`[${requestId}] Bandwidth quota reached`, {
+            username: auth.username,
+            clientIp,
+          });
+          res
+            .status(302)
+            .redirect(`/static/${StaticFiles.CONTENT_PROXY_LIMIT_REACHED}`);
+          return;
+        }
         proxyStats
           .addConnection(
             auth.username,
@@ -359,129 +681,51 @@ router.all(
           );
       }
 
-      const upstreamStartTime = Date.now();
-      let currentUrl = data.url;
-      const maxRedirects = 10;
-      let redirectCount = 0;
-      let method = req.method as Dispatcher.HttpMethod;
-
-      while (redirectCount < maxRedirects) {
-        const urlObj = new URL(currentUrl);
-        if (Env.BASE_URL && urlObj.origin === Env.BASE_URL) {
-          const internalUrl = new URL(Env.INTERNAL_URL);
-          urlObj.protocol = internalUrl.protocol;
-          urlObj.host = internalUrl.host;
-          urlObj.port = internalUrl.port;
-        }
-
-        if (Env.REQUEST_URL_MAPPINGS) {
-          for (const [key, value] of Object.entries(Env.REQUEST_URL_MAPPINGS)) {
-            if (urlObj.origin === key) {
-              const mappedUrl = new URL(value);
-              urlObj.protocol = mappedUrl.protocol;
-              urlObj.host = mappedUrl.host;
-              urlObj.port = mappedUrl.port;
-              break;
-            }
-          }
-        }
-
-        // SSRF Protection
-        const internalUrl = new URL(Env.INTERNAL_URL);
-        const isInternalRequest =
-          urlObj.hostname === internalUrl.hostname &&
-          (urlObj.port === internalUrl.port ||
-            (urlObj.port === '' &&
-              (internalUrl.port === '80' || internalUrl.port === '443'))); // Handle implicit ports
-
-        if (!isInternalRequest) {
-          if (isValidIp(urlObj.hostname)) {
-            if (isPrivateIp(urlObj.hostname)) {
-              throw new APIError(
-                constants.ErrorCode.FORBIDDEN,
-                undefined,
-                `Access to private IP ${urlObj.hostname} is forbidden`
-              );
-            }
-          } else {
-            try {
-              const resolved = await dns.lookup(urlObj.hostname);
-              if (isPrivateIp(resolved.address)) {
-                throw new APIError(
-                  constants.ErrorCode.FORBIDDEN,
-                  undefined,
-                  `Access to private IP ${resolved.address} is forbidden`
-                );
-              }
-            } catch (error) {
-               // Ignore DNS errors here, let the request fail naturally or if lookup fails it's effectively blocked
-            }
-          }
-        }
-
-        const { useProxy, proxyIndex } = shouldProxy(urlObj);
-        const proxyAgent = useProxy
-          ? getProxyAgent(Env.ADDON_PROXY![proxyIndex])
+      const hlsSegment =
+        data.type === 'hls'
+          ? filename?.match(/\.(init)\.mp4$|\.(\d+)\.m4s$/)
           : undefined;
-        const headers = Object.fromEntries(
-          Object.entries({ ...clientHeaders, ...data.requestHeaders }).map(
-            ([key, value]) => [key.toLowerCase(), value]
-          )
+      if (hlsSegment && (isGetRequest || req.method === 'HEAD')) {
+        await serveHlsSegment(
+          req,
+          res,
+          requestId,
+          auth.username,
+          data,
+          hlsSegment[1] ?? hlsSegment[2]
         );
-        const domainUserAgent = domainHasUserAgent(urlObj);
-        if (domainUserAgent) {
-          headers['user-agent'] = domainUserAgent;
-        }
-        if (urlObj.username && urlObj.password) {
-          const basicAuth = Buffer.from(
-            `${decodeURIComponent(urlObj.username)}:${decodeURIComponent(
-              urlObj.password
-            )}`
-          ).toString('base64');
-          headers['authorization'] = `Basic ${basicAuth}`;
-          urlObj.username = '';
-          urlObj.password = '';
-        }
-        currentUrl = urlObj.toString();
-        logger.debug(`[${requestId}] Making upstream request`, {
-          username: auth.username,
-          method: method,
-          tunneled: useProxy
-            ? `true${proxyIndex > 1 ? ` (${proxyIndex + 1})` : ''}`
-            : 'false',
-          range: headers['range'],
-          url: currentUrl,
-        });
-        logger.silly(`[${requestId}] Headers for upstream request`, {
-          headers: JSON.stringify(headers),
-        });
-        upstreamResponse = await request(currentUrl, {
-          method: method,
-          headers: headers,
-          dispatcher: proxyAgent,
-          body: isBodyRequest ? req : undefined,
-          bodyTimeout: 0,
-          headersTimeout: 0,
-        });
-
-        if ([301, 302, 303, 307, 308].includes(upstreamResponse.statusCode)) {
-          redirectCount++;
-          const location = upstreamResponse.headers['location'];
-          if (!location || typeof location !== 'string') {
-            break; // No location header, stop redirecting
-          }
-          currentUrl = new URL(location, currentUrl).href;
-
-          if ([301, 302, 303].includes(upstreamResponse.statusCode)) {
-            method = 'GET';
-          }
-          // For 307, 308, method remains the same
-          continue;
-        }
+        return;
+      }
 
-        break; // Not a redirect, exit loop
+      // index the file when it starts playing, so that it is served as HLS
+      // the next time its streams are fetched
+      if (
+        data.index &&
+        isGetRequest &&
+        (!range || range.startsWith('bytes=0-'))
+      ) {
+        getHlsIndex(
+          data.url,
+          createRangeReader(requestId, auth.username, data)
+        ).catch((error) =>
+          logger.warn(`[${requestId}] Failed to build HLS index`, {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
       }
 
+      const upstreamStartTime = Date.now();
+      const upstream = await requestUpstream({
+        requestId,
+        username: auth.username,
+        url: data.url,
+        method: req.method as Dispatcher.HttpMethod,
+        headers: { ...clientHeaders, ...data.requestHeaders },
+        body: isBodyRequest ? req : undefined,
+      });
+      upstreamResponse = upstream.response;
+      const currentUrl = upstream.url;
+
       if (!upstreamResponse) {
         logger.error(`[${requestId}] Upstream response not found`);
         if (!res.headersSent) {
@@ -556,10 +800,11 @@ router.all(
             }
           );
         } else {
+          const usageMeter = proxyStats.createUsageMeter(auth.username);
           if (sizeLimiter) {
-            await pipeline(upstreamResponse.body, sizeLimiter, res);
+            await pipeline(upstreamResponse.body, sizeLimiter, usageMeter, res);
           } else {
-            await pipeline(upstreamResponse.body, res);
+            await pipeline(upstreamResponse.body, usageMeter, res);
           }
         }
       }
@@ -592,7 +837,16 @@ router.all(
         (error as Error)?.message?.includes('aborted') ||
         (error as Error)?.message?.includes('destroyed');
 
-      if (!isClientDisconnect) {
+      if (error instanceof ProxyQuotaExceededError) {
+        logger.warn(`[${requestId}] Bandwidth quota reached mid-stream`, {
+          username: auth?.username,
+          durationMs: totalDuration,
+        });
+      } else if (error instanceof APIError) {
+        if (!res.headersSent) {
+          next(error);
+        }
+      } else if (!isClientDisconnect) {
         logger.error(`[${requestId}] Proxy request failed`, {
           error: error instanceof Error ? error.message : String(error),
           errorCode,
@@ -19,6 +19,7 @@ import {
 } from '@aiostreams/core';
 import { streamApiRateLimiter } from '../../middlewares/ratelimit.js';
 import { ApiResponse, createResponse } from '../../utils/responses.js';
+import { isQueryFlagSet } from '../../utils/query.js';
 import { z, ZodError } from 'zod';
 const router: Router = Router();
 
@@ -30,6 +31,7 @@ const SearchApiRequestSchema = z.object({
   type: z.string(),
   id: z.string(),
   format: z.coerce.boolean().optional().default(false),
+  explain: z.unknown().transform(isQueryFlagSet),
   requiredFields: z
     .union([z.array(SearchApiResultField), SearchApiResultField])
     .optional()
@@ -42,170 +44,192 @@ const SearchApiRequestSchema = z.object({
     }),
 });
 
-router.get(
-  '/',
-  async (
-    req: Request,
-    res: Response<ApiResponse<SearchApiResponseData>>,
-    next: NextFunction
-  ) => {
+type SearchStreamEvent =
+  | { type: 'addon'; addon: string; data: SearchApiResponseData }
+  | { type: 'final'; data: SearchApiResponseData }
+  | { type: 'error'; error: { code: string; message: string } };
+
+/**
+ * Get the user data of a search request, either directly from the
+ * x-aiostreams-user-data header or from the credentials in the basic auth
+ * header, and validate it.
+ */
+async function getRequestUserData(req: Request): Promise<UserData> {
+  let encodedUserData: string | undefined = z
+    .string()
+    .optional()
+    .parse(req.headers['x-aiostreams-user-data']);
+  let auth: string | undefined = z
+    .string()
+    .optional()
+    .parse(req.headers['authorization']);
+
+  if (!encodedUserData && !auth) {
+    throw new APIError(
+      constants.ErrorCode.UNAUTHORIZED,
+      undefined,
+      `At least one of AIOStreams-User-Data or Authorization headers must be present`
+    );
+  }
+
+  let userData: UserData | null = null;
+
+  if (encodedUserData) {
     try {
-      const { type, id, requiredFields, format } = SearchApiRequestSchema.parse(
-        req.query
+      userData = JSON.parse(
+        Buffer.from(encodedUserData, 'base64').toString('utf-8')
+      );
+      if (userData) {
+        userData.trusted = false;
+        logger.debug(`Using encodedUserData for Search API request`);
+      }
+    } catch (error: any) {
+      throw new APIError(
+        constants.ErrorCode.BAD_REQUEST,
+        undefined,
+        `Invalid encodedUserData: ${error.message}`
       );
-      let encodedUserData: string | undefined = z
-        .string()
-        .optional()
-        .parse(req.headers['x-aiostreams-user-data']);
-      let auth: string | undefined = z
-        .string()
-        .optional()
-        .parse(req.headers['authorization']);
-
-      if (!encodedUserData && !auth) {
+    }
+  } else if (auth) {
+    let uuid: string;
+    let password: string;
+    try {
+      if (!auth.startsWith('Basic ')) {
         throw new APIError(
-          constants.ErrorCode.UNAUTHORIZED,
+          constants.ErrorCode.BAD_REQUEST,
           undefined,
-          `At least one of AIOStreams-User-Data or Authorization headers must be present`
+          `Invalid auth: ${auth}. Must start with 'Basic '`
         );
       }
-
-      let userData: UserData | null = null;
-
-      if (encodedUserData) {
-        try {
-          userData = JSON.parse(
-            Buffer.from(encodedUserData, 'base64').toString('utf-8')
-          );
-          if (userData) {
-            userData.trusted = false;
-            logger.debug(`Using encodedUserData for Search API request`);
-          }
-        } catch (error: any) {
-          throw new APIError(
-            constants.ErrorCode.BAD_REQUEST,
-            undefined,
-            `Invalid encodedUserData: ${error.message}`
-          );
-        }
-      } else if (auth) {
-        let uuid: string;
-        let password: string;
-        try {
-          if (!auth.startsWith('Basic ')) {
-            throw new APIError(
-              constants.ErrorCode.BAD_REQUEST,
-              undefined,
-              `Invalid auth: ${auth}. Must start with 'Basic '`
-            );
-          }
-          const base64Credentials = auth.slice('Basic '.length).trim();
-          const credentials = Buffer.from(base64Credentials, 'base64').toString(
-            'utf-8'
-          );
-          const sepIndex = credentials.indexOf(':');
-          if (sepIndex === -1) {
-            throw new APIError(
-              constants.ErrorCode.BAD_REQUEST,
-              undefined,
-              `Invalid basic auth format`
-            );
-          }
-          uuid = credentials.slice(0, sepIndex);
-          password = credentials.slice(sepIndex + 1);
-          if (!uuid || !password) {
-            throw new APIError(
-              constants.ErrorCode.BAD_REQUEST,
-              undefined,
-              `Missing username or password in basic auth`
-            );
-          }
-          if (isEncrypted(password)) {
-            const {
-              success: successfulDecryption,
-              data: decryptedPassword,
-              error,
-            } = decryptString(password);
-            if (!successfulDecryption) {
-              next(
-                new APIError(
-                  constants.ErrorCode.ENCRYPTION_ERROR,
-                  undefined,
-                  error
-                )
-              );
-              return;
-            }
-            password = decryptedPassword;
-          }
-          logger.debug(`Using basic auth for Search API request: ${uuid}`);
-        } catch (error: any) {
-          throw new APIError(
-            constants.ErrorCode.BAD_REQUEST,
-            undefined,
-            `Invalid auth: ${error.message}`
-          );
-        }
-        const userExists = await UserRepository.checkUserExists(uuid);
-        if (!userExists) {
-          throw new APIError(constants.ErrorCode.USER_INVALID_DETAILS);
-        }
-
-        userData = await UserRepository.getUser(uuid, password);
-
-        if (!userData) {
-          throw new APIError(constants.ErrorCode.USER_INVALID_DETAILS);
-        }
+      const base64Credentials = auth.slice('Basic '.length).trim();
+      const credentials = Buffer.from(base64Credentials, 'base64').toString(
+        'utf-8'
+      );
+      const sepIndex = credentials.indexOf(':');
+      if (sepIndex === -1) {
+        throw new APIError(
+          constants.ErrorCode.BAD_REQUEST,
+          undefined,
+          `Invalid basic auth format`
+        );
       }
-      if (!userData) {
-        throw new APIError(constants.ErrorCode.USER_INVALID_DETAILS);
+      uuid = credentials.slice(0, sepIndex);
+      password = credentials.slice(sepIndex + 1);
+      if (!uuid || !password) {
+        throw new APIError(
+          constants.ErrorCode.BAD_REQUEST,
+          undefined,
+          `Missing username or password in basic auth`
+        );
       }
-      userData.ip = req.userIp;
-      try {
-        userData = await validateConfig(userData, {
-          skipErrorsFromAddonsOrProxies: true,
-          decryptValues: true,
-        });
-      } catch (error: any) {
+      logger.debug(`Using basic auth for Search API request: ${uuid}`);
+    } catch (error: any) {
+      throw new APIError(
+        constants.ErrorCode.BAD_REQUEST,
+        undefined,
+        `Invalid auth: ${error.message}`
+      );
+    }
+    if (isEncrypted(password)) {
+      const {
+        success: successfulDecryption,
+        data: decryptedPassword,
+        error,
+      } = decryptString(password);
+      if (!successfulDecryption) {
         throw new APIError(
-          constants.ErrorCode.USER_INVALID_CONFIG,
+          constants.ErrorCode.ENCRYPTION_ERROR,
           undefined,
-          error.message
+          error
         );
       }
-      const transformer = new ApiTransformer(userData);
-      const stremioTransformer = format
-        ? new StremioTransformer(userData)
-        : null;
-      const response = await (
-        await new AIOStreams(userData).initialise()
-      ).getStreams(id, type);
+      password = decryptedPassword;
+    }
+    const userExists = await UserRepository.checkUserExists(uuid);
+    if (!userExists) {
+      throw new APIError(constants.ErrorCode.USER_INVALID_DETAILS);
+    }
 
-      const stremioData = await stremioTransformer?.transformStreams(response);
-      const stremioStreams = stremioData?.streams.filter(
-        (stream) =>
-          !['statistic', 'error'].includes(stream.streamData?.type || '')
-      );
+    userData = await UserRepository.getUser(uuid, password);
 
-      const apiData = await transformer.transformStreams(
-        response,
-        requiredFields
-      );
-      if (stremioStreams && format) {
-        apiData.results = apiData.results.map((result, index) => {
-          const stream = stremioStreams[index];
-          return {
-            ...result,
-            name: stream?.name,
-            description: stream?.description,
-          };
-        });
-      }
+    if (!userData) {
+      throw new APIError(constants.ErrorCode.USER_INVALID_DETAILS);
+    }
+  }
+  if (!userData) {
+    throw new APIError(constants.ErrorCode.USER_INVALID_DETAILS);
+  }
+  userData.ip = req.userIp;
+  try {
+    return await validateConfig(userData, {
+      skipErrorsFromAddonsOrProxies: true,
+      decryptValues: true,
+    });
+  } catch (error: any) {
+    throw new APIError(
+      constants.ErrorCode.USER_INVALID_CONFIG,
+      undefined,
+      error.message
+    );
+  }
+}
+
+/**
+ * Convert a stream response to search results, adding the formatted name and
+ * description of each stream when requested.
+ */
+async function getSearchApiData(
+  userData: UserData,
+  response: Parameters<ApiTransformer['transformStreams']>[0],
+  requiredFields: SearchApiResultField[],
+  format: boolean
+): Promise<SearchApiResponseData> {
+  const transformer = new ApiTransformer(userData);
+  const stremioTransformer = format ? new StremioTransformer(userData) : null;
+
+  const stremioData = await stremioTransformer?.transformStreams(response);
+  const stremioStreams = stremioData?.streams.filter(
+    (stream) => !['statistic', 'error'].includes(stream.streamData?.type || '')
+  );
+
+  const apiData = await transformer.transformStreams(response, requiredFields);
+  if (stremioStreams && format) {
+    apiData.results = apiData.results.map((result, index) => {
+      const stream = stremioStreams[index];
+      return {
+        ...result,
+        name: stream?.name,
+        description: stream?.description,
+      };
+    });
+  }
+  return apiData;
+}
+
+router.get(
+  '/',
+  async (
+    req: Request,
+    res: Response<ApiResponse<SearchApiResponseData>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { type, id, requiredFields, format, explain } =
+        SearchApiRequestSchema.parse(req.query);
+      const userData = await getRequestUserData(req);
+      const response = await (
+        await new AIOStreams(userData, { explain }).initialise()
+      ).getStreams(id, type);
 
       res.status(200).json(
         createResponse<SearchApiResponseData>({
           success: true,
-          data: apiData,
+          data: await getSearchApiData(
+            userData,
+            response,
+            requiredFields,
+            format
+          ),
         })
       );
     } catch (error) {
@@ -214,4 +238,82 @@ router.get(
   }
 );
 
+/**
+ * Incremental variant of the search API, responding with newline delimited
+ * JSON. An `addon` event is sent with the filtered results of each addon as
+ * soon as it responds, followed by a `final` event with the sorted and
+ * deduplicated results, the same as those returned by the search API.
+ */
+router.get(
+  '/stream',
+  async (req: Request, res: Response, next: NextFunction) => {
+    let closed = false;
+    const send = (event: SearchStreamEvent) => {
+      if (closed) return;
+      if (!res.headersSent) {
+        res.status(200);
+        res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('X-Accel-Buffering', 'no');
+        res.flushHeaders();
+      }
+      res.write(`${JSON.stringify(event)}\n`);
+    };
+    res.on('close', () => {
+      closed = true;
+    });
+
+    try {
+      const { type, id, requiredFields, format } = SearchApiRequestSchema.omit({
+        explain: true,
+      }).parse(req.query);
+      const userData = await getRequestUserData(req);
+      const aiostreams = await new AIOStreams(userData, {
+        onAddonStreams: async (addon, response) => {
+          send({
+            type: 'addon',
+            addon: addon.name,
+            data: await getSearchApiData(
+              userData,
+              response,
+              requiredFields,
+              format
+            ),
+          });
+        },
+      }).initialise();
+      const response = await aiostreams.getStreams(id, type);
+
+      send({
+        type: 'final',
+        data: await getSearchApiData(
+          userData,
+          response,
+          requiredFields,
+          format
+        ),
+      });
+      res.end();
+    } catch (error) {
+      if (!res.headersSent) {
+        next(error);
+        return;
+      }
+      // the status has already been sent, so report the error as an event
+      logger.error(`Error during incremental search: ${error}`);
+      send({
+        type: 'error',
+        error:
+          error instanceof APIError
+            ? { code: error.code, message: error.message }
+            : {
+                code: constants.ErrorCode.INTERNAL_SERVER_ERROR,
+                message: 'An unexpected error occurred',
+              },
+      });
+      res.end();
+    }
+  }
+);
+
 export default router;
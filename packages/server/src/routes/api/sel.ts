@@ -0,0 +1,46 @@
+import { Router, Request, Response } from 'express';
+import { createResponse } from '../../utils/responses.js';
+import {
+  APIError,
+  constants,
+  Env,
+  formatZodError,
+  SelMacroSchema,
+  StreamExpressionEngine,
+  STREAM_EXPRESSION_KINDS,
+} from '@aiostreams/core';
+import { z } from 'zod';
+import { formatApiRateLimiter } from '../../middlewares/ratelimit.js';
+
+const router: Router = Router();
+
+router.use(formatApiRateLimiter);
+
+const AnalyseRequestSchema = z.object({
+  expression: z.string().max(Env.MAX_SEL_LENGTH),
+  kind: z.enum(STREAM_EXPRESSION_KINDS).default('select'),
+  macros: z.array(SelMacroSchema).max(Env.MAX_SEL_MACROS).optional(),
+});
+
+// statically analyse a stream expression so that editors can highlight
+// problems without having to save the config
+router.post('/analyse', async (req: Request, res: Response) => {
+  const { success, data, error } = AnalyseRequestSchema.safeParse(req.body);
+  if (!success) {
+    throw new APIError(
+      constants.ErrorCode.BAD_REQUEST,
+      400,
+      formatZodError(error)
+    );
+  }
+  const diagnostics = StreamExpressionEngine.analyse(
+    data.expression,
+    data.kind,
+    data.macros
+  );
+  res
+    .status(200)
+    .json(createResponse({ success: true, data: { diagnostics } }));
+});
+
+export default router;
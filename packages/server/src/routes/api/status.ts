@@ -1,8 +1,10 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import {
+  AddonHealth,
   Env,
   getEnvironmentServiceDetails,
   PresetManager,
+  StreamCacheVerifier,
   UserRepository,
 } from '@aiostreams/core';
 import { StatusResponse } from '@aiostreams/core';
@@ -117,4 +119,43 @@ router.get('/', async (req: Request, res: Response, next: NextFunction) => {
   }
 });
 
+// open circuits and average health score of the recently used addons of
+// each preset
+router.get(
+  '/addons',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.status(200).json(
+        createResponse({
+          success: true,
+          data: await AddonHealth.getSummary(),
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// how often each upstream addon's cached/uncached claims were corrected by
+// cache status verification
+router.get(
+  '/cache-accuracy',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const presetTypes = PresetManager.getPresetList()
+        .filter((preset) => !preset.BUILTIN)
+        .map((preset) => preset.ID);
+      res.status(200).json(
+        createResponse({
+          success: true,
+          data: await StreamCacheVerifier.getAccuracy(presetTypes),
+        })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
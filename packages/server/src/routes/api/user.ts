@@ -213,4 +213,149 @@ router.delete('/', async (req, res, next) => {
     }
   }
 });
+// listing the previous revisions of a user's config
+router.get('/revisions', async (req, res, next) => {
+  const { uuid, password } = {
+    uuid: req.uuid || req.query.uuid,
+    password: req.query.password,
+  };
+  if (typeof uuid !== 'string' || typeof password !== 'string') {
+    next(
+      new APIError(
+        constants.ErrorCode.MISSING_REQUIRED_FIELDS,
+        undefined,
+        'uuid and password must be strings'
+      )
+    );
+    return;
+  }
+  try {
+    const revisions = await UserRepository.getRevisions(uuid, password);
+    res.status(200).json(
+      createResponse({
+        success: true,
+        detail: 'Revisions retrieved successfully',
+        data: { revisions },
+      })
+    );
+  } catch (error) {
+    if (error instanceof APIError) {
+      next(error);
+    } else {
+      next(new APIError(constants.ErrorCode.INTERNAL_SERVER_ERROR));
+    }
+  }
+});
+
+// comparing a revision against another revision or the current config,
+// both configs are returned so that the client can render the changes
+router.get('/revisions/:revision/diff', async (req, res, next) => {
+  const { uuid, password, against } = {
+    uuid: req.uuid || req.query.uuid,
+    password: req.query.password,
+    against: req.query.against ?? 'current',
+  };
+  const revision = Number(req.params.revision);
+  if (typeof uuid !== 'string' || typeof password !== 'string') {
+    next(
+      new APIError(
+        constants.ErrorCode.MISSING_REQUIRED_FIELDS,
+        undefined,
+        'uuid and password must be strings'
+      )
+    );
+    return;
+  }
+  if (
+    !Number.isInteger(revision) ||
+    (against !== 'current' && !Number.isInteger(Number(against)))
+  ) {
+    next(
+      new APIError(
+        constants.ErrorCode.BAD_REQUEST,
+        undefined,
+        "revision must be an integer and against must be an integer or 'current'"
+      )
+    );
+    return;
+  }
+  try {
+    const from = await UserRepository.getRevision(uuid, password, revision);
+    const to =
+      against === 'current'
+        ? await UserRepository.getUser(uuid, password)
+        : await UserRepository.getRevision(uuid, password, Number(against));
+    res.status(200).json(
+      createResponse({
+        success: true,
+        detail: 'Revisions retrieved successfully',
+        data: {
+          from: { revision, config: from },
+          to: {
+            revision: against === 'current' ? 'current' : Number(against),
+            config: to,
+          },
+        },
+      })
+    );
+  } catch (error) {
+    if (error instanceof APIError) {
+      next(error);
+    } else {
+      next(new APIError(constants.ErrorCode.INTERNAL_SERVER_ERROR));
+    }
+  }
+});
+
+// restoring a previous revision of a user's config
+router.post('/revisions/:revision/restore', async (req, res, next) => {
+  const { uuid, password, addonPassword } = {
+    ...req.body,
+    uuid: req.uuid || req.body.uuid,
+  };
+  const revision = Number(req.params.revision);
+  if (!uuid || !password) {
+    next(
+      new APIError(
+        constants.ErrorCode.MISSING_REQUIRED_FIELDS,
+        undefined,
+        'uuid and password are required'
+      )
+    );
+    return;
+  }
+  if (!Number.isInteger(revision)) {
+    next(
+      new APIError(
+        constants.ErrorCode.BAD_REQUEST,
+        undefined,
+        'revision must be an integer'
+      )
+    );
+    return;
+  }
+  try {
+    await UserRepository.restoreRevision(
+      uuid,
+      password,
+      revision,
+      addonPassword
+    );
+    res.status(200).json(
+      createResponse({
+        success: true,
+        detail: 'Revision restored successfully',
+        data: { uuid },
+      })
+    );
+  } catch (error) {
+    if (error instanceof APIError) {
+      next(error);
+    } else {
+      logger.error(error);
+      next(new APIError(constants.ErrorCode.INTERNAL_SERVER_ERROR));
+    }
+  }
+});
+
 export default router;
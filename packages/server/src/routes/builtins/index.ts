@@ -5,5 +5,7 @@ export { default as newznab } from './newznab.js';
 export { default as prowlarr } from './prowlarr.js';
 export { default as knaben } from './knaben.js';
 export { default as torrentGalaxy } from './torrent-galaxy.js';
+export { default as scraper } from './scraper.js';
 export { default as seadex } from './seadex.js';
 export { default as easynews } from './easynews.js';
+export { default as library } from './library.js';
@@ -0,0 +1,91 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { LibraryAddon, fromUrlSafeBase64 } from '@aiostreams/core';
+import { createLogger } from '@aiostreams/core';
+const router: Router = Router();
+
+const logger = createLogger('server');
+
+router.get(
+  '/:encodedConfig/manifest.json',
+  async (req: Request, res: Response, next: NextFunction) => {
+    const encodedConfig = req.params.encodedConfig as string;
+    try {
+      const manifest = new LibraryAddon(
+        encodedConfig
+          ? JSON.parse(fromUrlSafeBase64(encodedConfig))
+          : undefined,
+        req.userIp
+      ).getManifest();
+      res.json(manifest);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/:encodedConfig/stream/:type/:id.json',
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { encodedConfig, type, id } = req.params as Record<string, string>;
+
+    try {
+      const addon = new LibraryAddon(
+        encodedConfig
+          ? JSON.parse(fromUrlSafeBase64(encodedConfig))
+          : undefined,
+        req.userIp
+      );
+      const streams = await addon.getStreams(type, id);
+      res.json({
+        streams: streams,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/:encodedConfig/catalog/:type/:id{/:extras}.json',
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { encodedConfig, type, id, extras } = req.params as Record<
+      string,
+      string
+    >;
+
+    try {
+      const addon = new LibraryAddon(
+        JSON.parse(fromUrlSafeBase64(encodedConfig)),
+        req.userIp
+      );
+      const catalog = await addon.getCatalog(type, id, extras);
+      res.json({
+        metas: catalog,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/:encodedConfig/meta/:type/:id.json',
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { encodedConfig, type, id } = req.params as Record<string, string>;
+
+    try {
+      const addon = new LibraryAddon(
+        JSON.parse(fromUrlSafeBase64(encodedConfig)),
+        req.userIp
+      );
+      const meta = await addon.getMeta(type, id);
+      res.json({
+        meta: meta,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
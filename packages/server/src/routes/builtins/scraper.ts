@@ -0,0 +1,48 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ScraperAddon, fromUrlSafeBase64 } from '@aiostreams/core';
+import { createLogger } from '@aiostreams/core';
+const router: Router = Router();
+
+const logger = createLogger('server');
+
+router.get(
+  '/:encodedConfig/manifest.json',
+  async (req: Request, res: Response, next: NextFunction) => {
+    const encodedConfig = req.params.encodedConfig as string;
+    try {
+      const manifest = new ScraperAddon(
+        encodedConfig
+          ? JSON.parse(fromUrlSafeBase64(encodedConfig))
+          : undefined,
+        req.userIp
+      ).getManifest();
+      res.json(manifest);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+router.get(
+  '/:encodedConfig/stream/:type/:id.json',
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { encodedConfig, type, id } = req.params as Record<string, string>;
+
+    try {
+      const addon = new ScraperAddon(
+        encodedConfig
+          ? JSON.parse(fromUrlSafeBase64(encodedConfig))
+          : undefined,
+        req.userIp
+      );
+      const streams = await addon.getStreams(type, id);
+      res.json({
+        streams: streams,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -7,8 +7,10 @@ import {
   StremioTransformer,
   Cache,
   IdParser,
+  StreamExplanation,
 } from '@aiostreams/core';
 import { stremioStreamRateLimiter } from '../../middlewares/ratelimit.js';
+import { isQueryFlagSet } from '../../utils/query.js';
 
 const router: Router = Router();
 
@@ -20,7 +22,7 @@ router.get(
   '/:type/:id.json',
   async (
     req: Request,
-    res: Response<AIOStreamResponse>,
+    res: Response<AIOStreamResponse & { explain?: StreamExplanation }>,
     next: NextFunction
   ) => {
     // Check if we have user data (set by middleware in authenticated routes)
@@ -44,18 +46,27 @@ router.get(
 
     try {
       const { type, id } = req.params;
+      // the explain trace is only returned when explicitly requested, e.g. ?explain=true
+      const explain = isQueryFlagSet(req.query.explain);
 
-      const aiostreams = await new AIOStreams(req.userData).initialise();
+      const aiostreams = await new AIOStreams(req.userData, {
+        explain,
+      }).initialise();
 
       const disableAutoplay = await aiostreams.shouldStopAutoPlay(type, id);
 
+      const response = await aiostreams.getStreams(id, type);
+      const transformed = await transformer.transformStreams(response, {
+        provideStreamData,
+        disableAutoplay,
+      });
+
       res
         .status(200)
         .json(
-          await transformer.transformStreams(
-            await aiostreams.getStreams(id, type),
-            { provideStreamData, disableAutoplay }
-          )
+          explain
+            ? { ...transformed, explain: response.data.explain }
+            : transformed
         );
     } catch (error) {
       let errorMessage =
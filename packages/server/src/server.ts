@@ -12,7 +12,9 @@ import {
   Cache,
   FeatureControl,
   AnimeDatabase,
+  LocalMetadata,
   ProwlarrAddon,
+  ScraperAddon,
   TemplateManager,
   maskSensitiveInfo,
   constants,
@@ -54,6 +56,14 @@ async function initialiseAnimeDatabase() {
   }
 }
 
+async function initialiseLocalMetadata() {
+  try {
+    await LocalMetadata.getInstance().initialise();
+  } catch (error) {
+    logger.error('Failed to initialise local metadata:', error);
+  }
+}
+
 async function initialiseProwlarr() {
   try {
     await ProwlarrAddon.fetchpreconfiguredIndexers();
@@ -62,6 +72,14 @@ async function initialiseProwlarr() {
   }
 }
 
+async function initialiseScraper() {
+  try {
+    await ScraperAddon.loadDefinitions();
+  } catch (error) {
+    logger.error('Failed to load scraper definitions:', error);
+  }
+}
+
 async function initialiseTemplates() {
   try {
     TemplateManager.loadTemplates();
@@ -93,8 +111,10 @@ async function start() {
     await initialiseDatabase();
     await initialiseRedis();
     initialiseAnimeDatabase();
+    await initialiseLocalMetadata();
     FeatureControl.initialise();
     await initialiseProwlarr();
+    await initialiseScraper();
     if (Env.PRUNE_MAX_DAYS >= 0) {
       startAutoPrune();
     }
@@ -118,6 +138,7 @@ async function start() {
 async function shutdown() {
   await Cache.close();
   FeatureControl.cleanup();
+  LocalMetadata.getInstance().cleanup();
   await DB.getInstance().close();
 }
 
@@ -0,0 +1,7 @@
+/**
+ * Whether a flag in the query string of a request is set. Only `true` and `1`
+ * set a flag, so that e.g. `?explain=false` leaves it unset.
+ */
+export function isQueryFlagSet(value: unknown): boolean {
+  return ['true', '1'].includes(String(value));
+}